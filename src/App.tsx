@@ -1,49 +1,82 @@
 // src/App.tsx
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import RimWorldDashboard from './components/RimWorldDashboard';
 import ApiConfig from './components/ApiConfig';
 import './App.css';
 import { ToastContainer } from './components/ToastContainer';
 import { ToastProvider } from './components/ToastContext';
 import { ImageCacheProvider } from './components/ImageCacheContext';
+import { RefreshSchedulerProvider } from './components/RefreshSchedulerContext';
+import { AlertsProvider } from './components/AlertsContext';
+import { setApiBaseUrl, setApiHeaders } from './services/rimworldApi';
+import {
+  ServerProfile,
+  getProfileHeaders,
+  loadActiveProfile,
+  loadProfiles,
+  saveActiveProfileId,
+  saveProfiles,
+} from './services/serverProfiles';
+import { createDemoProfile, getActiveDemoScenario, isDemoProfile, stopDemoMode } from './mocks/demoMode';
+
+// Point the API client at a profile before any dashboard component fetches
+const applyProfile = (profile: ServerProfile | null) => {
+  if (!profile) return;
+  setApiBaseUrl(profile.url);
+  setApiHeaders(getProfileHeaders(profile));
+};
 
 function App() {
-  const [apiUrl, setApiUrl] = useState<string>('');
-  const [isConfigured, setIsConfigured] = useState(false);
+  const [profiles, setProfiles] = useState<ServerProfile[]>(loadProfiles);
+  const [activeProfile, setActiveProfile] = useState<ServerProfile | null>(() => {
+    const demoScenario = getActiveDemoScenario();
+    const profile = demoScenario ? createDemoProfile(demoScenario) : loadActiveProfile(profiles);
+    applyProfile(profile);
+    return profile;
+  });
 
-  useEffect(() => {
-    // Check if URL is saved in localStorage
-    const savedUrl = localStorage.getItem('rimworldApiUrl');
-    if (savedUrl) {
-      setApiUrl(savedUrl);
-      setIsConfigured(true);
-    } else {
-      // Set default URL but don't auto-connect
-      setApiUrl('http://localhost:8765/api/v1');
-    }
-  }, []);
+  const handleProfilesChange = (next: ServerProfile[]) => {
+    setProfiles(next);
+    saveProfiles(next);
+  };
 
-  const handleApiUrlChange = (url: string) => {
-    setApiUrl(url);
-    setIsConfigured(true);
+  const handleConnect = (profile: ServerProfile) => {
+    applyProfile(profile);
+    setActiveProfile(profile);
+    // Demo colonies are throwaway, so a reload goes back to the last real server
+    if (isDemoProfile(profile)) return;
+    stopDemoMode();
+    saveActiveProfileId(profile.id);
   };
 
   const handleResetConfig = () => {
-    localStorage.removeItem('rimworldApiUrl');
-    setIsConfigured(false);
+    stopDemoMode();
+    saveActiveProfileId(null);
+    setActiveProfile(null);
   };
 
   return (
     <ImageCacheProvider>
       <div className="App">
-        {!isConfigured ? (
-          <ApiConfig onApiUrlChange={handleApiUrlChange} currentUrl={apiUrl} />
+        {!activeProfile ? (
+          <ApiConfig
+            profiles={profiles}
+            onProfilesChange={handleProfilesChange}
+            onConnect={handleConnect}
+          />
         ) : (
           <ToastProvider>
-            <RimWorldDashboard
-              apiUrl={apiUrl}
-              onResetConfig={handleResetConfig}
-            />
+            <RefreshSchedulerProvider>
+              <AlertsProvider>
+                <RimWorldDashboard
+                  key={activeProfile.id}
+                  profile={activeProfile}
+                  profiles={profiles}
+                  onSwitchProfile={handleConnect}
+                  onResetConfig={handleResetConfig}
+                />
+              </AlertsProvider>
+            </RefreshSchedulerProvider>
             <ToastContainer />
           </ToastProvider>
         )}
@@ -52,4 +85,4 @@ function App() {
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,180 @@
+// src/components/AlertsContext.tsx
+import React, { createContext, useContext, useState, useCallback, useRef } from 'react';
+import { RimWorldData } from '../types';
+import {
+    AlertFiring,
+    AlertMetrics,
+    AlertRule,
+    AlertRuleState,
+    AlertStatesByColony,
+    describeAlertRule,
+    evaluateAlertRules,
+    extractAlertMetrics,
+    formatAlertValue,
+    loadAlertRules,
+    loadAlertStates,
+    saveAlertRules,
+    saveAlertStates,
+} from '../services/alertRules';
+import { useToast } from './ToastContext';
+
+interface AlertsContextType {
+    rules: AlertRule[];
+    updateRules: (rules: AlertRule[]) => void;
+    states: Record<string, AlertRuleState>;
+    /** `extra` supplies metrics that don't come from the poll itself, such as fatalDiseases */
+    evaluateAlerts: (data: RimWorldData, colony: string, extra?: Partial<AlertMetrics>) => void;
+    acknowledge: (ruleId: string) => void;
+    acknowledgeAll: () => void;
+    snooze: (ruleId: string, ms: number) => void;
+    notificationPermission: NotificationPermission | 'unsupported';
+    requestNotificationPermission: () => Promise<void>;
+}
+
+const AlertsContext = createContext<AlertsContextType | undefined>(undefined);
+
+declare global {
+    interface Window {
+        /** Safari before 14.1 only has the prefixed constructor */
+        webkitAudioContext?: typeof AudioContext;
+    }
+}
+
+const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+const SOUND_FREQUENCIES: Record<AlertRule['severity'], number> = {
+    info: 660,
+    warning: 520,
+    error: 880,
+};
+
+// Short beep through Web Audio so no sound asset has to be bundled
+const playAlertSound = (severity: AlertRule['severity']) => {
+    try {
+        const AudioCtx = window.AudioContext || window.webkitAudioContext;
+        if (!AudioCtx) return;
+        const ctx = new AudioCtx();
+        const oscillator = ctx.createOscillator();
+        const gain = ctx.createGain();
+        oscillator.frequency.value = SOUND_FREQUENCIES[severity];
+        gain.gain.setValueAtTime(0.15, ctx.currentTime);
+        gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.4);
+        oscillator.connect(gain).connect(ctx.destination);
+        oscillator.start();
+        oscillator.stop(ctx.currentTime + 0.4);
+        oscillator.onended = () => ctx.close();
+    } catch (err) {
+        console.warn('Failed to play alert sound:', err);
+    }
+};
+
+export const AlertsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const { addToast } = useToast();
+    const [rules, setRules] = useState<AlertRule[]>(loadAlertRules);
+    const [allStates, setAllStates] = useState<AlertStatesByColony>(loadAlertStates);
+    const [colony, setColony] = useState<string | null>(null);
+    const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | 'unsupported'>(
+        () => (notificationsSupported() ? Notification.permission : 'unsupported')
+    );
+
+    // evaluateAlerts is called from polling callbacks, so read the latest values through refs
+    const rulesRef = useRef(rules);
+    rulesRef.current = rules;
+    const allStatesRef = useRef(allStates);
+    allStatesRef.current = allStates;
+
+    const commitStates = useCallback((next: AlertStatesByColony) => {
+        allStatesRef.current = next;
+        setAllStates(next);
+        saveAlertStates(next);
+    }, []);
+
+    const announce = useCallback((firing: AlertFiring) => {
+        const { rule, value } = firing;
+        const message = `${describeAlertRule(rule)} (now ${formatAlertValue(rule.metric, value)})`;
+
+        addToast({ type: rule.severity, title: `🔔 ${rule.name}`, message, duration: rule.severity === 'error' ? 10000 : 6000 });
+
+        if (rule.notify && notificationsSupported() && Notification.permission === 'granted') {
+            try {
+                new Notification(rule.name, { body: message, tag: rule.id });
+            } catch (err) {
+                console.warn('Failed to show notification:', err);
+            }
+        }
+        if (rule.sound) playAlertSound(rule.severity);
+    }, [addToast]);
+
+    const evaluateAlerts = useCallback((data: RimWorldData, colonyKey: string, extra: Partial<AlertMetrics> = {}) => {
+        const previous = allStatesRef.current[colonyKey] || {};
+        const metrics = { ...extractAlertMetrics(data), ...extra };
+        const { states, fired } = evaluateAlertRules(rulesRef.current, metrics, previous);
+        setColony(colonyKey);
+        commitStates({ ...allStatesRef.current, [colonyKey]: states });
+        fired.forEach(announce);
+    }, [announce, commitStates]);
+
+    const updateColonyStates = useCallback((update: (states: Record<string, AlertRuleState>) => Record<string, AlertRuleState>) => {
+        if (!colony) return;
+        const current = allStatesRef.current[colony] || {};
+        commitStates({ ...allStatesRef.current, [colony]: update(current) });
+    }, [colony, commitStates]);
+
+    const acknowledge = useCallback((ruleId: string) => {
+        updateColonyStates(states => ({
+            ...states,
+            [ruleId]: { ...states[ruleId], acknowledgedAt: Date.now() },
+        }));
+    }, [updateColonyStates]);
+
+    const acknowledgeAll = useCallback(() => {
+        const now = Date.now();
+        updateColonyStates(states => Object.fromEntries(
+            Object.entries(states).map(([id, state]) => [id, state.firedAt ? { ...state, acknowledgedAt: now } : state])
+        ));
+    }, [updateColonyStates]);
+
+    const snooze = useCallback((ruleId: string, ms: number) => {
+        const now = Date.now();
+        updateColonyStates(states => ({
+            ...states,
+            [ruleId]: { ...states[ruleId], snoozedUntil: now + ms, acknowledgedAt: now },
+        }));
+    }, [updateColonyStates]);
+
+    const updateRules = useCallback((next: AlertRule[]) => {
+        setRules(next);
+        saveAlertRules(next);
+    }, []);
+
+    const requestNotificationPermission = useCallback(async () => {
+        if (!notificationsSupported()) return;
+        setNotificationPermission(await Notification.requestPermission());
+    }, []);
+
+    const states = colony ? allStates[colony] || {} : {};
+
+    return (
+        <AlertsContext.Provider value={{
+            rules,
+            updateRules,
+            states,
+            evaluateAlerts,
+            acknowledge,
+            acknowledgeAll,
+            snooze,
+            notificationPermission,
+            requestNotificationPermission,
+        }}>
+            {children}
+        </AlertsContext.Provider>
+    );
+};
+
+export const useAlerts = () => {
+    const context = useContext(AlertsContext);
+    if (context === undefined) {
+        throw new Error('useAlerts must be used within an AlertsProvider');
+    }
+    return context;
+};
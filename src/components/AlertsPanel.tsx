@@ -0,0 +1,267 @@
+// src/components/AlertsPanel.tsx
+import React from 'react';
+import {
+  ALERT_COMPARATORS,
+  ALERT_METRICS,
+  AlertComparator,
+  AlertMetric,
+  AlertRule,
+  AlertSeverity,
+  DEFAULT_ALERT_RULES,
+  createAlertRule,
+  describeAlertRule,
+  formatAlertValue,
+  isAlertOpen,
+} from '../services/alertRules';
+import { useAlerts } from './AlertsContext';
+import './AlertsPanel.css';
+
+const SNOOZE_OPTIONS = [
+  { label: '15m', ms: 15 * 60 * 1000 },
+  { label: '1h', ms: 60 * 60 * 1000 },
+  { label: '8h', ms: 8 * 60 * 60 * 1000 },
+];
+
+const SEVERITY_ICONS: Record<AlertSeverity, string> = {
+  info: 'ℹ️',
+  warning: '⚠️',
+  error: '🚨',
+};
+
+const AlertsPanel: React.FC = () => {
+  const { rules, states, acknowledge, acknowledgeAll, snooze } = useAlerts();
+  const [open, setOpen] = React.useState(false);
+  const [editing, setEditing] = React.useState(false);
+  const panelRef = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const openAlerts = rules.filter(rule => isAlertOpen(rule, states[rule.id]));
+  const snoozed = rules.filter(rule => (states[rule.id]?.snoozedUntil ?? 0) > Date.now());
+  const worst = openAlerts.some(r => r.severity === 'error')
+    ? 'error'
+    : openAlerts.some(r => r.severity === 'warning') ? 'warning' : 'info';
+
+  return (
+    <div className="alerts-panel" ref={panelRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className={`refresh-btn alerts-bell ${openAlerts.length > 0 ? `has-alerts severity-${worst}` : ''}`}
+        title={`${openAlerts.length} open alert${openAlerts.length === 1 ? '' : 's'}`}
+      >
+        🔔{openAlerts.length > 0 && <span className="alerts-count">{openAlerts.length}</span>}
+      </button>
+
+      {open && (
+        <div className="alerts-dropdown">
+          <div className="alerts-dropdown-header">
+            <h4>Colony Alerts</h4>
+            <div className="alerts-dropdown-actions">
+              {openAlerts.length > 0 && (
+                <button className="alerts-link-btn" onClick={acknowledgeAll}>Acknowledge all</button>
+              )}
+              <button
+                className="alerts-link-btn"
+                onClick={() => {
+                  setEditing(true);
+                  setOpen(false);
+                }}
+              >
+                ⚙️ Rules
+              </button>
+            </div>
+          </div>
+
+          {openAlerts.length === 0 ? (
+            <div className="alerts-empty">✅ No open alerts</div>
+          ) : (
+            openAlerts.map(rule => {
+              const state = states[rule.id];
+              return (
+                <div key={rule.id} className={`alert-item severity-${rule.severity}`}>
+                  <div className="alert-item-main">
+                    <span className="alert-item-title">{SEVERITY_ICONS[rule.severity]} {rule.name}</span>
+                    <span className="alert-item-detail">
+                      {describeAlertRule(rule)}
+                      {state?.lastValue !== null && state?.lastValue !== undefined &&
+                        ` · now ${formatAlertValue(rule.metric, state.lastValue)}`}
+                    </span>
+                    {state?.firedAt && (
+                      <span className="alert-item-time">since {new Date(state.firedAt).toLocaleTimeString()}</span>
+                    )}
+                  </div>
+                  <div className="alert-item-actions">
+                    <button onClick={() => acknowledge(rule.id)} title="Acknowledge">✓</button>
+                    {SNOOZE_OPTIONS.map(option => (
+                      <button
+                        key={option.label}
+                        onClick={() => snooze(rule.id, option.ms)}
+                        title={`Snooze for ${option.label}`}
+                      >
+                        💤{option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })
+          )}
+
+          {snoozed.length > 0 && (
+            <div className="alerts-snoozed">
+              💤 Snoozed: {snoozed.map(rule => (
+                `${rule.name} until ${new Date(states[rule.id]!.snoozedUntil!).toLocaleTimeString()}`
+              )).join(', ')}
+            </div>
+          )}
+        </div>
+      )}
+
+      {editing && <AlertRulesEditor onClose={() => setEditing(false)} />}
+    </div>
+  );
+};
+
+const AlertRulesEditor: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { rules, updateRules, notificationPermission, requestNotificationPermission } = useAlerts();
+  const [draft, setDraft] = React.useState<AlertRule[]>(rules);
+
+  const updateRule = (id: string, patch: Partial<AlertRule>) => {
+    setDraft(prev => prev.map(rule => (rule.id === id ? { ...rule, ...patch } : rule)));
+  };
+
+  const handleSave = () => {
+    updateRules(draft);
+    onClose();
+  };
+
+  const wantsNotifications = draft.some(rule => rule.enabled && rule.notify);
+
+  return (
+    <div className="alerts-modal-overlay" onClick={onClose}>
+      <div className="alerts-modal-content" onClick={e => e.stopPropagation()}>
+        <div className="alerts-modal-header">
+          <h3>🔔 Alert Rules</h3>
+          <button className="close-modal-btn" onClick={onClose}>×</button>
+        </div>
+
+        {wantsNotifications && notificationPermission !== 'granted' && (
+          <div className="alerts-permission">
+            {notificationPermission === 'unsupported'
+              ? 'This browser does not support desktop notifications.'
+              : notificationPermission === 'denied'
+                ? 'Desktop notifications are blocked for this site in the browser settings.'
+                : (
+                  <>
+                    Desktop notifications need permission.
+                    <button className="alerts-link-btn" onClick={requestNotificationPermission}>Allow</button>
+                  </>
+                )}
+          </div>
+        )}
+
+        <div className="alerts-rules-list">
+          <div className="alert-rule-row header">
+            <span>On</span>
+            <span>Name</span>
+            <span>Condition</span>
+            <span>Severity</span>
+            <span>Notify</span>
+            <span>Sound</span>
+            <span></span>
+          </div>
+          {draft.map(rule => {
+            const isEdge = rule.comparator === 'increases' || rule.comparator === 'decreases';
+            return (
+              <div key={rule.id} className={`alert-rule-row ${rule.enabled ? '' : 'disabled'}`}>
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={e => updateRule(rule.id, { enabled: e.target.checked })}
+                />
+                <input
+                  type="text"
+                  value={rule.name}
+                  onChange={e => updateRule(rule.id, { name: e.target.value })}
+                />
+                <div className="alert-rule-condition">
+                  <select
+                    value={rule.metric}
+                    onChange={e => updateRule(rule.id, { metric: e.target.value as AlertMetric })}
+                  >
+                    {(Object.keys(ALERT_METRICS) as AlertMetric[]).map(metric => (
+                      <option key={metric} value={metric}>{ALERT_METRICS[metric].label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={rule.comparator}
+                    onChange={e => updateRule(rule.id, { comparator: e.target.value as AlertComparator })}
+                  >
+                    {(Object.keys(ALERT_COMPARATORS) as AlertComparator[]).map(comparator => (
+                      <option key={comparator} value={comparator}>{ALERT_COMPARATORS[comparator]}</option>
+                    ))}
+                  </select>
+                  {!isEdge && (
+                    <input
+                      type="number"
+                      value={rule.threshold}
+                      onChange={e => updateRule(rule.id, { threshold: Number(e.target.value) })}
+                    />
+                  )}
+                </div>
+                <select
+                  value={rule.severity}
+                  onChange={e => updateRule(rule.id, { severity: e.target.value as AlertSeverity })}
+                >
+                  <option value="info">Info</option>
+                  <option value="warning">Warning</option>
+                  <option value="error">Critical</option>
+                </select>
+                <input
+                  type="checkbox"
+                  checked={rule.notify}
+                  onChange={e => updateRule(rule.id, { notify: e.target.checked })}
+                />
+                <input
+                  type="checkbox"
+                  checked={rule.sound}
+                  onChange={e => updateRule(rule.id, { sound: e.target.checked })}
+                />
+                <button
+                  className="alert-rule-delete"
+                  onClick={() => setDraft(prev => prev.filter(r => r.id !== rule.id))}
+                  title="Delete rule"
+                >
+                  🗑️
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="alerts-modal-footer">
+          <button className="alerts-link-btn" onClick={() => setDraft(prev => [...prev, createAlertRule()])}>
+            ➕ Add rule
+          </button>
+          <button className="alerts-link-btn" onClick={() => setDraft(DEFAULT_ALERT_RULES)}>
+            Reset to defaults
+          </button>
+          <div className="alerts-modal-spacer" />
+          <button className="refresh-btn" onClick={onClose}>Cancel</button>
+          <button className="refresh-btn primary" onClick={handleSave}>Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertsPanel;
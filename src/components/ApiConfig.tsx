@@ -1,74 +1,201 @@
 // src/components/ApiConfig.tsx
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import './ApiConfig.css';
+import {
+  DEFAULT_API_URL,
+  PROFILE_COLORS,
+  ServerProfile,
+  createProfileId,
+  describeUrl,
+  exportProfiles,
+  getProfileHeaders,
+  mergeProfiles,
+  parseImportedProfiles,
+} from '../services/serverProfiles';
+import { REFRESH_INTERVAL_OPTIONS, formatInterval } from '../services/refreshScheduler';
+import { createDemoProfile, startDemoMode } from '../mocks/demoMode';
+import { MOCK_SCENARIOS, MockScenarioId } from '../mocks/scenarios';
 
 interface ApiConfigProps {
-  onApiUrlChange: (url: string) => void;
-  currentUrl: string;
+  profiles: ServerProfile[];
+  onProfilesChange: (profiles: ServerProfile[]) => void;
+  onConnect: (profile: ServerProfile) => void;
 }
 
-const ApiConfig: React.FC<ApiConfigProps> = ({ onApiUrlChange, currentUrl }) => {
-  const [inputUrl, setInputUrl] = useState(currentUrl);
+interface ProfileDraft {
+  id: string | null;
+  label: string;
+  url: string;
+  color: string;
+  authName: string;
+  authValue: string;
+  colonyInterval: number | null;
+}
+
+const emptyDraft = (profiles: ServerProfile[]): ProfileDraft => ({
+  id: null,
+  label: '',
+  url: profiles.length === 0 ? DEFAULT_API_URL : '',
+  color: PROFILE_COLORS[profiles.length % PROFILE_COLORS.length],
+  authName: '',
+  authValue: '',
+  colonyInterval: null,
+});
+
+const draftFromProfile = (profile: ServerProfile): ProfileDraft => ({
+  id: profile.id,
+  label: profile.label,
+  url: profile.url,
+  color: profile.color,
+  authName: profile.authHeader?.name ?? '',
+  authValue: profile.authHeader?.value ?? '',
+  colonyInterval: profile.refreshIntervals?.colony ?? null,
+});
+
+const ApiConfig: React.FC<ApiConfigProps> = ({ profiles, onProfilesChange, onConnect }) => {
+  const [draft, setDraft] = useState<ProfileDraft>(() => emptyDraft(profiles));
+  const [showAdvanced, setShowAdvanced] = useState(false);
   const [isValid, setIsValid] = useState(true);
   const [isTesting, setIsTesting] = useState(false);
+  const [testingProfileId, setTestingProfileId] = useState<string | null>(null);
+  const [failedProfileId, setFailedProfileId] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [exportCredentials, setExportCredentials] = useState(false);
+  const [demoScenario, setDemoScenario] = useState<MockScenarioId>('healthy');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const updateDraft = (patch: Partial<ProfileDraft>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setIsValid(true);
+  };
 
-  const testConnection = async (url: string): Promise<boolean> => {
+  const testConnection = async (url: string, headers: Record<string, string> = {}): Promise<boolean> => {
     try {
-      setIsTesting(true);
       const testUrl = `${url}/game/state?_=${Date.now()}`;
       const response = await fetch(testUrl, {
         cache: 'no-cache',
-        method: 'GET'
+        method: 'GET',
+        headers
       });
       return response.ok;
     } catch {
       return false;
-    } finally {
-      setIsTesting(false);
     }
   };
 
+  const isHttpUrl = (value: string) => {
+    try {
+      const url = new URL(value);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  };
+
+  const profileFromDraft = (): ServerProfile => {
+    const url = draft.url.trim().replace(/\/+$/, '');
+    return {
+      id: draft.id ?? createProfileId(),
+      label: draft.label.trim() || describeUrl(url),
+      url,
+      color: draft.color,
+      authHeader: draft.authName.trim()
+        ? { name: draft.authName.trim(), value: draft.authValue }
+        : undefined,
+      refreshIntervals: draft.colonyInterval ? { colony: draft.colonyInterval } : undefined,
+    };
+  };
+
+  const upsertProfile = (profile: ServerProfile) => {
+    const exists = profiles.some(p => p.id === profile.id);
+    onProfilesChange(exists
+      ? profiles.map(p => (p.id === profile.id ? profile : p))
+      : [...profiles, profile]);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    // Basic URL validation
-    try {
-      const url = new URL(inputUrl);
-      if (url.protocol === 'http:' || url.protocol === 'https:') {
-        // Test the connection before proceeding
-        const isConnected = await testConnection(inputUrl);
-        if (isConnected) {
-          onApiUrlChange(inputUrl);
-          setIsValid(true);
-          localStorage.setItem('rimworldApiUrl', inputUrl);
-        } else {
-          setIsValid(false);
-        }
-      } else {
-        setIsValid(false);
-      }
-    } catch {
+    if (!isHttpUrl(draft.url.trim())) {
       setIsValid(false);
+      return;
     }
-  };
 
-  const handleUseDefault = async () => {
-    const defaultUrl = 'http://localhost:8765/api/v1';
-    setInputUrl(defaultUrl);
+    const profile = profileFromDraft();
+    setIsTesting(true);
+    // Test the connection before proceeding
+    const isConnected = await testConnection(profile.url, getProfileHeaders(profile));
+    setIsTesting(false);
 
-    // Test default connection
-    const isConnected = await testConnection(defaultUrl);
     if (isConnected) {
-      onApiUrlChange(defaultUrl);
+      upsertProfile(profile);
       setIsValid(true);
-      localStorage.setItem('rimworldApiUrl', defaultUrl);
+      onConnect(profile);
     } else {
       setIsValid(false);
     }
   };
 
+  const handleSaveOnly = () => {
+    if (!isHttpUrl(draft.url.trim())) {
+      setIsValid(false);
+      return;
+    }
+    const profile = profileFromDraft();
+    upsertProfile(profile);
+    setDraft(emptyDraft([...profiles, profile]));
+  };
+
+  const handleConnectProfile = async (profile: ServerProfile) => {
+    setTestingProfileId(profile.id);
+    setFailedProfileId(null);
+    const isConnected = await testConnection(profile.url, getProfileHeaders(profile));
+    setTestingProfileId(null);
+
+    if (isConnected) {
+      onConnect(profile);
+    } else {
+      setFailedProfileId(profile.id);
+    }
+  };
+
+  const handleDeleteProfile = (profile: ServerProfile) => {
+    if (!window.confirm(`Delete server profile "${profile.label}"?`)) return;
+    onProfilesChange(profiles.filter(p => p.id !== profile.id));
+    if (draft.id === profile.id) setDraft(emptyDraft(profiles));
+  };
+
   const handleQuickConnect = (url: string) => {
-    setInputUrl(url);
+    updateDraft({ url });
+  };
+
+  const handleTryDemo = () => {
+    startDemoMode(demoScenario);
+    onConnect(createDemoProfile(demoScenario));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportProfiles(profiles, exportCredentials)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'rimapi-server-profiles.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseImportedProfiles(await file.text());
+      onProfilesChange(mergeProfiles(profiles, imported));
+      setImportMessage(`✅ Imported ${imported.length} profile${imported.length === 1 ? '' : 's'}`);
+    } catch (err) {
+      setImportMessage(`❌ ${err instanceof Error ? err.message : 'Import failed'}`);
+    }
   };
 
   return (
@@ -80,20 +207,65 @@ const ApiConfig: React.FC<ApiConfigProps> = ({ onApiUrlChange, currentUrl }) =>
           <p className="config-subtitle">Connect to your RimWorld game</p>
         </div>
 
+        {profiles.length > 0 && (
+          <div className="profile-list">
+            <span className="input-label">Saved Servers</span>
+            {profiles.map(profile => (
+              <div
+                key={profile.id}
+                className={`profile-card ${failedProfileId === profile.id ? 'failed' : ''}`}
+                style={{ borderLeftColor: profile.color }}
+              >
+                <div className="profile-card-info">
+                  <span className="profile-card-label">
+                    <span className="profile-color-dot" style={{ background: profile.color }} />
+                    {profile.label}
+                    {profile.authHeader && <span className="profile-card-badge" title="Sends an auth header">🔒</span>}
+                  </span>
+                  <span className="profile-card-url">{profile.url}</span>
+                  {failedProfileId === profile.id && (
+                    <span className="profile-card-error">Unable to connect</span>
+                  )}
+                </div>
+                <div className="profile-card-actions">
+                  <button
+                    type="button"
+                    className="quick-btn"
+                    onClick={() => handleConnectProfile(profile)}
+                    disabled={testingProfileId !== null}
+                  >
+                    {testingProfileId === profile.id ? 'Connecting...' : 'Connect'}
+                  </button>
+                  <button
+                    type="button"
+                    className="quick-btn"
+                    onClick={() => {
+                      setDraft(draftFromProfile(profile));
+                      setShowAdvanced(Boolean(profile.authHeader || profile.refreshIntervals));
+                    }}
+                  >
+                    ✏️
+                  </button>
+                  <button type="button" className="quick-btn" onClick={() => handleDeleteProfile(profile)}>
+                    🗑️
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         <form onSubmit={handleSubmit} className="api-config-form">
           <div className="input-group">
             <label htmlFor="api-url" className="input-label">
-              RIMAPI Server URL
+              {draft.id ? 'Edit Server' : profiles.length > 0 ? 'Add Server' : 'RIMAPI Server URL'}
             </label>
             <input
               id="api-url"
               type="text"
-              value={inputUrl}
-              onChange={(e) => {
-                setInputUrl(e.target.value);
-                setIsValid(true);
-              }}
-              placeholder="http://localhost:8765/api/v1"
+              value={draft.url}
+              onChange={(e) => updateDraft({ url: e.target.value })}
+              placeholder={DEFAULT_API_URL}
               className={`url-input ${!isValid ? 'input-connect-error' : ''}`}
               disabled={isTesting}
             />
@@ -104,6 +276,71 @@ const ApiConfig: React.FC<ApiConfigProps> = ({ onApiUrlChange, currentUrl }) =>
             )}
           </div>
 
+          <div className="profile-fields">
+            <input
+              type="text"
+              value={draft.label}
+              onChange={(e) => updateDraft({ label: e.target.value })}
+              placeholder={`Name (e.g. ${describeUrl(draft.url || DEFAULT_API_URL)})`}
+              className="url-input"
+              disabled={isTesting}
+            />
+            <div className="profile-colors">
+              {PROFILE_COLORS.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  className={`profile-color-swatch ${draft.color === color ? 'active' : ''}`}
+                  style={{ background: color }}
+                  onClick={() => updateDraft({ color })}
+                  title={color}
+                />
+              ))}
+            </div>
+          </div>
+
+          <button type="button" className="advanced-toggle" onClick={() => setShowAdvanced(!showAdvanced)}>
+            {showAdvanced ? '▾' : '▸'} Advanced
+          </button>
+          {showAdvanced && (
+            <div className="profile-advanced">
+              <div className="profile-fields">
+                <input
+                  type="text"
+                  value={draft.authName}
+                  onChange={(e) => updateDraft({ authName: e.target.value })}
+                  placeholder="Auth header name (e.g. Authorization)"
+                  className="url-input"
+                />
+                <input
+                  type="password"
+                  value={draft.authValue}
+                  onChange={(e) => updateDraft({ authValue: e.target.value })}
+                  placeholder="Header value"
+                  className="url-input"
+                />
+              </div>
+              {draft.authName.trim() && (
+                <span className="profile-auth-hint">
+                  Sent with every API request. The live event stream can't send custom headers,
+                  so a server that requires this one won't deliver live events.
+                </span>
+              )}
+              <label className="profile-interval">
+                <span>Colony refresh</span>
+                <select
+                  value={draft.colonyInterval ?? ''}
+                  onChange={(e) => updateDraft({ colonyInterval: e.target.value ? Number(e.target.value) : null })}
+                >
+                  <option value="">Keep current setting</option>
+                  {REFRESH_INTERVAL_OPTIONS.map(ms => (
+                    <option key={ms} value={ms}>Every {formatInterval(ms)}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
           <div className="quick-connect">
             <span className="quick-connect-label">Quick Connect:</span>
             <div className="quick-buttons">
@@ -137,21 +374,86 @@ const ApiConfig: React.FC<ApiConfigProps> = ({ onApiUrlChange, currentUrl }) =>
                 </>
               ) : (
                 <>
-                  Connect
+                  {draft.id ? 'Save & Connect' : 'Connect'}
                 </>
               )}
             </button>
             <button
               type="button"
-              onClick={handleUseDefault}
+              onClick={handleSaveOnly}
               className="default-btn"
               disabled={isTesting}
             >
-              Use Default
+              Save
             </button>
+            {draft.id && (
+              <button
+                type="button"
+                onClick={() => setDraft(emptyDraft(profiles))}
+                className="default-btn"
+                disabled={isTesting}
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+
+          <div className="profile-transfer">
+            <button type="button" className="quick-btn" onClick={handleExport} disabled={profiles.length === 0}>
+              📤 Export Profiles
+            </button>
+            <button type="button" className="quick-btn" onClick={() => importInputRef.current?.click()}>
+              📥 Import Profiles
+            </button>
+            {profiles.some(p => p.authHeader?.value) && (
+              <label className="profile-export-credentials">
+                <input
+                  type="checkbox"
+                  checked={exportCredentials}
+                  onChange={(e) => setExportCredentials(e.target.checked)}
+                />
+                Include auth header values
+              </label>
+            )}
+            {exportCredentials && (
+              <span className="profile-export-warning">
+                ⚠️ The exported file will contain your secrets in plain text. Don't share it.
+              </span>
+            )}
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              style={{ display: 'none' }}
+            />
+            {importMessage && <span className="profile-import-message">{importMessage}</span>}
           </div>
         </form>
 
+        <div className="demo-colony">
+          <div className="demo-colony-info">
+            <span className="demo-colony-title">🧪 No game running?</span>
+            <span className="demo-colony-description">
+              Explore the dashboard with a simulated colony that keeps evolving while you watch.
+            </span>
+          </div>
+          <div className="demo-colony-actions">
+            <select
+              value={demoScenario}
+              onChange={(e) => setDemoScenario(e.target.value as MockScenarioId)}
+              title={MOCK_SCENARIOS[demoScenario].description}
+            >
+              {Object.values(MOCK_SCENARIOS).map(scenario => (
+                <option key={scenario.id} value={scenario.id}>{scenario.label}</option>
+              ))}
+            </select>
+            <button type="button" className="default-btn" onClick={handleTryDemo}>
+              Try demo colony
+            </button>
+          </div>
+        </div>
+
         <div className="setup-guide">
           <h3 className="guide-title">Setup Instructions</h3>
           <div className="guide-steps">
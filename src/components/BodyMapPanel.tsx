@@ -0,0 +1,119 @@
+// src/components/BodyMapPanel.tsx
+import React from 'react';
+import { ColonistDetailed } from '../types';
+import { BODY_REGIONS, BodyRegionId, BodyRegionStatus, describeRegion, summarizeBody } from '../services/bodyMap';
+import './BodyMapPanel.css';
+
+interface BodyMapPanelProps {
+    colonistsDetailed: ColonistDetailed[];
+    /** `${colonistId}:${region}` of the region currently filtering the table */
+    activeRegion?: string;
+    onSelectRegion: (colonist: ColonistDetailed, region: BodyRegionId) => void;
+}
+
+interface RegionShape {
+    region: Exclude<BodyRegionId, 'whole'>;
+    circle?: { cx: number; cy: number; r: number };
+    rect?: { x: number; y: number; width: number; height: number; rx: number };
+}
+
+// Drawn facing the viewer, so the colonist's left side is on the right
+const SHAPES: RegionShape[] = [
+    { region: 'head', circle: { cx: 60, cy: 24, r: 17 } },
+    { region: 'neck', rect: { x: 53, y: 41, width: 14, height: 11, rx: 3 } },
+    { region: 'torso', rect: { x: 37, y: 53, width: 46, height: 78, rx: 10 } },
+    { region: 'rightArm', rect: { x: 17, y: 56, width: 17, height: 84, rx: 8 } },
+    { region: 'leftArm', rect: { x: 86, y: 56, width: 17, height: 84, rx: 8 } },
+    { region: 'rightLeg', rect: { x: 39, y: 134, width: 19, height: 98, rx: 8 } },
+    { region: 'leftLeg', rect: { x: 62, y: 134, width: 19, height: 98, rx: 8 } },
+];
+
+const injuryLoad = (colonist: ColonistDetailed) =>
+    Object.values(summarizeBody(colonist)).reduce((sum, s) => sum + s.severity + s.missing.length * 10, 0);
+
+const regionClass = (status: BodyRegionStatus, active: boolean) => [
+    'body-region',
+    `heat-${status.heat}`,
+    status.bleeding ? 'bleeding' : '',
+    status.missing.length > 0 && status.injuries.length === 0 ? 'missing' : '',
+    status.prosthetics.length > 0 ? 'prosthetic' : '',
+    active ? 'active' : '',
+].filter(Boolean).join(' ');
+
+const BodyMapPanel: React.FC<BodyMapPanelProps> = ({ colonistsDetailed, activeRegion, onSelectRegion }) => {
+    const [colonistId, setColonistId] = React.useState<number | null>(null);
+
+    // Start on the most battered colonist
+    const defaultColonist = React.useMemo(
+        () => [...colonistsDetailed].sort((a, b) => injuryLoad(b) - injuryLoad(a))[0],
+        [colonistsDetailed]
+    );
+    const colonist = colonistsDetailed.find(c => c.colonist.id === colonistId) || defaultColonist;
+    const regions = React.useMemo(() => (colonist ? summarizeBody(colonist) : null), [colonist]);
+
+    if (!colonist || !regions) return null;
+
+    const isActive = (region: BodyRegionId) => activeRegion === `${colonist.colonist.id}:${region}`;
+    const marked = (Object.values(regions) as BodyRegionStatus[]).filter(s => s.hediffs.length > 0);
+
+    return (
+        <div className="body-map-panel">
+            <div className="body-map-controls">
+                <select aria-label="Colonist" value={colonist.colonist.id} onChange={(e) => setColonistId(Number(e.target.value))}>
+                    {colonistsDetailed.map(c => (
+                        <option key={c.colonist.id} value={c.colonist.id}>
+                            {c.colonist.name} ({Math.round((c.colonist_medical_info?.health ?? 0) * 100)}%)
+                        </option>
+                    ))}
+                </select>
+                <span className="body-map-hint">Click a body part to filter the alerts below</span>
+            </div>
+
+            <div className="body-map-layout">
+                <svg className="body-map-figure" viewBox="0 0 120 240" role="img" aria-label={`Body map of ${colonist.colonist.name}`}>
+                    {SHAPES.map(({ region, circle, rect }) => {
+                        const className = regionClass(regions[region], isActive(region));
+                        return (
+                            <g key={region} onClick={() => onSelectRegion(colonist, region)}>
+                                {circle ? <circle {...circle} className={className} /> : <rect {...rect} className={className} />}
+                                <title>{describeRegion(regions[region])}</title>
+                            </g>
+                        );
+                    })}
+                </svg>
+
+                <div className="body-map-legend">
+                    <button
+                        className={`body-map-whole ${regionClass(regions.whole, isActive('whole'))}`}
+                        onClick={() => onSelectRegion(colonist, 'whole')}
+                        title={describeRegion(regions.whole)}
+                    >
+                        {BODY_REGIONS.whole.label}: {regions.whole.hediffs.length ? regions.whole.hediffs.map(h => h.label).join(', ') : 'nothing'}
+                    </button>
+                    {marked.filter(s => s.region !== 'whole').map(s => (
+                        <button
+                            key={s.region}
+                            className={`body-map-entry ${isActive(s.region) ? 'active' : ''}`}
+                            onClick={() => onSelectRegion(colonist, s.region)}
+                        >
+                            <strong>{BODY_REGIONS[s.region].label}</strong>
+                            {s.injuries.length > 0 && <span> · {s.injuries.length} injur{s.injuries.length === 1 ? 'y' : 'ies'}{s.bleeding ? ' 🩸' : ''}</span>}
+                            {s.missing.length > 0 && <span className="body-map-missing"> · missing {s.missing.join(', ')}</span>}
+                            {s.prosthetics.length > 0 && <span className="body-map-prosthetic"> · ⚙ {s.prosthetics.join(', ')}</span>}
+                            {s.scars.length > 0 && <span className="body-map-scar"> · scars: {s.scars.join(', ')}</span>}
+                        </button>
+                    ))}
+                    <div className="body-map-key">
+                        <span className="key heat-light" /> light
+                        <span className="key heat-moderate" /> moderate
+                        <span className="key heat-severe" /> severe
+                        <span className="key missing" /> missing
+                        <span className="key prosthetic" /> prosthetic
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BodyMapPanel;
@@ -0,0 +1,186 @@
+// src/components/ColonistAnalyzeTab.tsx
+import React from 'react';
+import { rimworldApi } from '../services/rimworldApi';
+import { findGearUpgrades, GearSlot, GearUpgrade, recommendRoles } from '../services/colonistAnalysis';
+import { ColonistDetailed, ResourceItem } from '../types';
+import { useToast } from './ToastContext';
+import './ColonistAnalyzeTab.css';
+
+interface ColonistAnalyzeTabProps {
+    colonistsDetailed: ColonistDetailed[];
+    mapId?: number;
+    loading?: boolean;
+}
+
+const SLOT_LABELS: Record<GearSlot, string> = {
+    weapon: '⚔️ Weapon',
+    armor: '🦺 Armor',
+    headgear: '⛑️ Headgear',
+};
+
+const TOP_ROLES = 3;
+
+const ColonistAnalyzeTab: React.FC<ColonistAnalyzeTabProps> = ({ colonistsDetailed, mapId = 0, loading }) => {
+    const { addToast } = useToast();
+    const [upgrades, setUpgrades] = React.useState<GearUpgrade[]>([]);
+    const [scanning, setScanning] = React.useState(false);
+    const [scanError, setScanError] = React.useState<string | null>(null);
+    const [assigning, setAssigning] = React.useState<number | null>(null);
+
+    const colonistsRef = React.useRef(colonistsDetailed);
+    colonistsRef.current = colonistsDetailed;
+    const colonistIds = colonistsDetailed.map(c => c.colonist.id).join(',');
+
+    const scanGear = React.useCallback(async () => {
+        const colonists = colonistsRef.current;
+        if (colonists.length === 0) return;
+
+        setScanning(true);
+        try {
+            const [stored, inventories] = await Promise.all([
+                rimworldApi.getResourcesStored(mapId),
+                Promise.all(colonists.map(async c => {
+                    try {
+                        const items: ResourceItem[] = await rimworldApi.fetchColonistInventory(c.colonist.id);
+                        return [c.colonist.id, items] as const;
+                    } catch {
+                        return [c.colonist.id, [] as ResourceItem[]] as const;
+                    }
+                })),
+            ]);
+            setUpgrades(findGearUpgrades(colonists, Object.fromEntries(inventories), stored));
+            setScanError(null);
+        } catch (err) {
+            console.error('Failed to scan stored gear:', err);
+            setScanError(err instanceof Error ? err.message : 'Failed to scan stored gear');
+        } finally {
+            setScanning(false);
+        }
+    }, [mapId]);
+
+    React.useEffect(() => {
+        scanGear();
+    }, [scanGear, colonistIds]);
+
+    const recommendations = React.useMemo(
+        () => colonistsDetailed.map(c => ({ colonist: c, roles: recommendRoles(c) })),
+        [colonistsDetailed]
+    );
+
+    const handleEquip = async (upgrade: GearUpgrade) => {
+        setAssigning(upgrade.item.thing_id);
+        try {
+            await rimworldApi.assignItemToPawn(
+                upgrade.item.thing_id.toString(),
+                upgrade.slot === 'weapon' ? 'weapon' : 'apparel',
+                upgrade.colonistId.toString(),
+                mapId
+            );
+            setUpgrades(prev => prev.filter(u => u.item.thing_id !== upgrade.item.thing_id));
+            addToast({
+                type: 'success',
+                title: 'Done',
+                message: `Assigned equip job for ${upgrade.item.label}`,
+                duration: 3000
+            });
+        } catch (error) {
+            addToast({
+                type: 'error',
+                title: 'Failed to assign item',
+                message: error instanceof Error ? error.message : 'Unknown error occurred',
+                duration: 5000
+            });
+        } finally {
+            setAssigning(null);
+        }
+    };
+
+    if (loading && colonistsDetailed.length === 0) {
+        return <div className="analyze-empty">Loading colonists...</div>;
+    }
+
+    if (colonistsDetailed.length === 0) {
+        return <div className="analyze-empty">No colonists to analyze</div>;
+    }
+
+    return (
+        <div className="analyze-tab">
+            <div className="analyze-toolbar">
+                <span className="analyze-summary">
+                    {upgrades.length} gear upgrade{upgrades.length === 1 ? '' : 's'} available in storage
+                </span>
+                {scanError && <span className="analyze-error">⚠️ {scanError}</span>}
+                <button className="analyze-rescan-btn" onClick={scanGear} disabled={scanning}>
+                    {scanning ? 'Scanning...' : '🔄 Rescan Storage'}
+                </button>
+            </div>
+
+            <div className="analyze-grid">
+                {recommendations.map(({ colonist, roles }) => {
+                    const suited = roles.filter(r => !r.blocked).slice(0, TOP_ROLES);
+                    const blocked = roles.filter(r => r.blocked);
+                    const colonistUpgrades = upgrades.filter(u => u.colonistId === colonist.colonist.id);
+
+                    return (
+                        <div key={colonist.colonist.id} className="analyze-card">
+                            <div className="analyze-card-header">
+                                <h4>{colonist.colonist.name}</h4>
+                                <span className="analyze-traits">
+                                    {(colonist.colonist_work_info?.traits || []).map(t => t.label).join(', ')}
+                                </span>
+                            </div>
+
+                            <div className="analyze-section">
+                                <h5>Recommended Roles</h5>
+                                {suited.length === 0 ? (
+                                    <div className="analyze-muted">No suitable roles</div>
+                                ) : (
+                                    suited.map((rec, index) => (
+                                        <div key={rec.role.id} className={`role-row ${index === 0 ? 'primary' : ''}`}>
+                                            <span className="role-name">{rec.role.icon} {rec.role.label}</span>
+                                            <span className="role-reasons">{rec.reasons.join(' · ')}</span>
+                                            <span className="role-score">{rec.score}</span>
+                                        </div>
+                                    ))
+                                )}
+                                {blocked.length > 0 && (
+                                    <div className="role-blocked">
+                                        🚫 Cannot: {blocked.map(r => r.role.label).join(', ')}
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="analyze-section">
+                                <h5>Gear Upgrades</h5>
+                                {colonistUpgrades.length === 0 ? (
+                                    <div className="analyze-muted">
+                                        {scanning ? 'Scanning storage...' : 'Nothing better in storage'}
+                                    </div>
+                                ) : (
+                                    colonistUpgrades.map(upgrade => (
+                                        <div key={upgrade.item.thing_id} className="gear-row">
+                                            <span className="gear-slot">{SLOT_LABELS[upgrade.slot]}</span>
+                                            <span className="gear-change">
+                                                {upgrade.current ? upgrade.current.label : 'None'} → <strong>{upgrade.item.label}</strong>
+                                            </span>
+                                            <span className="gear-gain">+{Math.round(upgrade.gain * 100)}%</span>
+                                            <button
+                                                className="gear-equip-btn"
+                                                onClick={() => handleEquip(upgrade)}
+                                                disabled={assigning !== null}
+                                            >
+                                                {assigning === upgrade.item.thing_id ? '...' : 'Equip'}
+                                            </button>
+                                        </div>
+                                    ))
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default ColonistAnalyzeTab;
@@ -0,0 +1,267 @@
+// src/components/ColonistProfile.tsx
+import React from 'react';
+import { ColonistDetailed, ResourceItem, TimeAssignment } from '../types';
+import { rimworldApi, selectAndViewColonist } from '../services/rimworldApi';
+import { getColonistProfileUrl } from '../services/navigation';
+import { getTimeAssignmentMeta } from '../services/timetables';
+import { describeWorkImpact, getWorkImpacts } from '../services/workTraits';
+import { getWorkTypeMeta } from '../services/workTypeRegistry';
+import { useImageCache } from './ImageCacheContext';
+import { useToast } from './ToastContext';
+import './ColonistProfile.css';
+
+interface ColonistProfileProps {
+    colonistsDetailed: ColonistDetailed[];
+    colonistId: number;
+    loading?: boolean;
+    onBack: () => void;
+    onNavigate: (colonistId: number) => void;
+    onViewHealth?: (colonistName: string) => void;
+}
+
+const QUALITY_LABELS = ['Awful', 'Poor', 'Normal', 'Good', 'Excellent', 'Masterwork', 'Legendary'];
+const PASSION_ICONS = ['', '🔥', '🔥🔥'];
+
+const percent = (value: number | undefined) => `${Math.round(Math.max(0, Math.min(1, value ?? 0)) * 100)}%`;
+
+const Meter: React.FC<{ label: string; value: number | undefined }> = ({ label, value }) => (
+    <div className="profile-meter">
+        <span className="profile-meter-label">{label}</span>
+        <div className="profile-meter-track">
+            <div
+                className={`profile-meter-fill ${(value ?? 0) < 0.3 ? 'low' : (value ?? 0) < 0.6 ? 'mid' : ''}`}
+                style={{ width: percent(value) }}
+            />
+        </div>
+        <span className="profile-meter-value">{percent(value)}</span>
+    </div>
+);
+
+const ColonistProfile: React.FC<ColonistProfileProps> = ({
+    colonistsDetailed,
+    colonistId,
+    loading = false,
+    onBack,
+    onNavigate,
+    onViewHealth,
+}) => {
+    const { imageCache, fetchColonistImage } = useImageCache();
+    const { addToast } = useToast();
+    const [inventory, setInventory] = React.useState<ResourceItem[] | null>(null);
+    const [schedule, setSchedule] = React.useState<TimeAssignment[] | null>(null);
+
+    const index = colonistsDetailed.findIndex(c => c.colonist.id === colonistId);
+    const detailed = index >= 0 ? colonistsDetailed[index] : undefined;
+
+    const found = Boolean(detailed);
+    React.useEffect(() => {
+        if (found) fetchColonistImage(String(colonistId));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [colonistId, found]);
+
+    // Inventory and schedule aren't part of /colonists/detailed, so fetch them per profile
+    React.useEffect(() => {
+        let cancelled = false;
+        setInventory(null);
+        setSchedule(null);
+        rimworldApi.fetchColonistInventory(colonistId)
+            .then(items => { if (!cancelled) setInventory(items || []); })
+            .catch(() => { if (!cancelled) setInventory([]); });
+        rimworldApi.fetchColonistTimetable(colonistId)
+            .then(t => { if (!cancelled) setSchedule(t.schedule); })
+            .catch(() => { if (!cancelled) setSchedule(null); });
+        return () => { cancelled = true; };
+    }, [colonistId]);
+
+    if (!detailed) {
+        return (
+            <div className="colonist-profile">
+                <button className="profile-back-btn" onClick={onBack}>← All colonists</button>
+                <div className="tab-placeholder">
+                    {loading ? 'Loading colonist…' : `No colonist with id ${colonistId} in this colony.`}
+                </div>
+            </div>
+        );
+    }
+
+    const { colonist, colonist_work_info: work, colonist_medical_info: medical } = detailed;
+    const previous = colonistsDetailed[(index - 1 + colonistsDetailed.length) % colonistsDetailed.length];
+    const next = colonistsDetailed[(index + 1) % colonistsDetailed.length];
+    const portrait = imageCache[String(colonistId)];
+
+    const priorities = (work.work_priorities || [])
+        .filter(wp => wp.priority > 0 && !wp.is_totally_disabled)
+        .sort((a, b) => a.priority - b.priority);
+    const incapable = (work.work_priorities || []).filter(wp => wp.is_totally_disabled);
+    const hediffs = (medical.hediffs || []).filter(h => h.visible !== false);
+
+    const handleCopyLink = async () => {
+        const url = getColonistProfileUrl(colonistId);
+        try {
+            await navigator.clipboard.writeText(url);
+            addToast({ type: 'success', title: 'Link copied', message: url, duration: 3000 });
+        } catch {
+            window.prompt('Copy this link', url);
+        }
+    };
+
+    return (
+        <div className="colonist-profile">
+            <div className="profile-nav">
+                <button className="profile-back-btn" onClick={onBack}>← All colonists</button>
+                {colonistsDetailed.length > 1 && (
+                    <div className="profile-pager">
+                        <button onClick={() => onNavigate(previous.colonist.id)} title={previous.colonist.name}>‹ Prev</button>
+                        <span>{index + 1} / {colonistsDetailed.length}</span>
+                        <button onClick={() => onNavigate(next.colonist.id)} title={next.colonist.name}>Next ›</button>
+                    </div>
+                )}
+            </div>
+
+            <div className="profile-header">
+                <div className="profile-portrait">
+                    {portrait ? <img src={portrait} alt={`Portrait of ${colonist.name}`} /> : <span>👤</span>}
+                </div>
+                <div className="profile-identity">
+                    <h2>{colonist.name}</h2>
+                    <div className="profile-meta">
+                        {colonist.gender} · {colonist.age}y · health {percent(medical.health)}
+                    </div>
+                    <div className="profile-job">🛠️ {work.current_job || 'Idle'}</div>
+                </div>
+                <div className="profile-actions">
+                    <button className="action-btn" onClick={handleCopyLink} title="Copy a link to this profile">🔗 Copy link</button>
+                    <button
+                        className="action-btn"
+                        onClick={() => selectAndViewColonist(colonist.id, colonist.name).catch(err => console.error(err))}
+                        title="Select in Game"
+                    >
+                        👁️ View
+                    </button>
+                    {onViewHealth && (
+                        <button className="action-btn" onClick={() => onViewHealth(colonist.name)}>❤️ Medical tab</button>
+                    )}
+                </div>
+            </div>
+
+            <div className="profile-grid">
+                <section className="profile-card">
+                    <h3>Needs</h3>
+                    <Meter label="Mood" value={colonist.mood} />
+                    <Meter label="Food" value={colonist.hunger} />
+                    <Meter label="Rest" value={detailed.sleep} />
+                    <Meter label="Comfort" value={detailed.comfort} />
+                    <Meter label="Fresh air" value={detailed.fresh_air} />
+                    <Meter label="Beauty" value={detailed.surrounding_beauty} />
+                </section>
+
+                <section className="profile-card">
+                    <h3>Traits</h3>
+                    {work.traits.length === 0 ? (
+                        <div className="profile-empty">No traits</div>
+                    ) : work.traits.map(trait => (
+                        <div
+                            key={trait.name + trait.label}
+                            className={`profile-trait ${trait.suppressed ? 'suppressed' : ''}`}
+                            title={trait.description}
+                        >
+                            {trait.label || trait.name}
+                            {trait.suppressed && <span className="profile-muted"> (suppressed)</span>}
+                        </div>
+                    ))}
+                    {schedule && (
+                        <>
+                            <h3>Schedule</h3>
+                            <div className="profile-schedule">
+                                {schedule.map((a, hour) => (
+                                    <span
+                                        key={hour}
+                                        style={{ background: getTimeAssignmentMeta(a).color }}
+                                        title={`${hour}h: ${getTimeAssignmentMeta(a).label}`}
+                                    />
+                                ))}
+                            </div>
+                        </>
+                    )}
+                </section>
+
+                <section className="profile-card profile-skills">
+                    <h3>Skills</h3>
+                    {work.skills.map(skill => {
+                        const disabled = skill.totally_disabled || skill.permanently_disabled;
+                        return (
+                            <div key={skill.name} className={`profile-skill ${disabled ? 'disabled' : ''}`} title={skill.description}>
+                                <span className="profile-skill-name">{skill.name}</span>
+                                <span className="profile-skill-passion">{PASSION_ICONS[skill.passion] ?? ''}</span>
+                                <span className="profile-skill-level">{disabled ? '—' : skill.level}</span>
+                                <div
+                                    className="profile-xp-track"
+                                    title={disabled ? 'Incapable' : `${Math.round(skill.xp_since_last_level)} / ${Math.round(skill.xp_required_for_level_up)} XP`}
+                                >
+                                    <div className="profile-xp-fill" style={{ width: `${disabled ? 0 : Math.min(100, skill.xp_progress_percent)}%` }} />
+                                </div>
+                            </div>
+                        );
+                    })}
+                </section>
+
+                <section className="profile-card">
+                    <h3>Work priorities</h3>
+                    {priorities.length === 0 ? (
+                        <div className="profile-empty">No work assigned</div>
+                    ) : priorities.map(wp => {
+                        const meta = getWorkTypeMeta(wp.work_type);
+                        const notes = getWorkImpacts(detailed, wp.work_type).filter(i => i.kind !== 'incapable');
+                        return (
+                            <div key={wp.work_type} className="profile-priority" title={notes.map(describeWorkImpact).join('\n')}>
+                                <span className={`profile-priority-badge p${wp.priority}`}>{wp.priority}</span>
+                                {meta.icon} {meta.label}
+                                {notes.length > 0 && <span className="profile-muted"> ·{notes.map(n => (n.kind === 'bonus' ? ' ▲' : ' ▼')).join('')}</span>}
+                            </div>
+                        );
+                    })}
+                    {incapable.length > 0 && (
+                        <div className="profile-incapable">
+                            🚫 Incapable: {incapable.map(wp => getWorkTypeMeta(wp.work_type).label).join(', ')}
+                        </div>
+                    )}
+                </section>
+
+                <section className="profile-card">
+                    <h3>Health</h3>
+                    {hediffs.length === 0 ? (
+                        <div className="profile-empty">No injuries or conditions</div>
+                    ) : hediffs.map(h => (
+                        <div key={h.load_id} className={`profile-hediff ${h.is_currently_life_threatening ? 'critical' : h.bleeding ? 'bleeding' : ''}`}>
+                            <span>{h.label}{h.cur_stage_label ? ` (${h.cur_stage_label})` : ''}</span>
+                            <span className="profile-muted">{h.part_label ?? 'whole body'}</span>
+                            <span className="profile-hediff-flags">
+                                {h.bleeding && '🩸'}
+                                {h.is_tended && '🩹'}
+                                {h.is_permanent && '♾️'}
+                            </span>
+                        </div>
+                    ))}
+                </section>
+
+                <section className="profile-card">
+                    <h3>Inventory</h3>
+                    {inventory === null ? (
+                        <div className="profile-empty">Loading…</div>
+                    ) : inventory.length === 0 ? (
+                        <div className="profile-empty">Carrying nothing</div>
+                    ) : inventory.map(item => (
+                        <div key={item.thing_id} className="profile-item">
+                            <span>{item.label}{item.stack_count > 1 ? ` ×${item.stack_count}` : ''}</span>
+                            {item.quality !== null && item.quality !== undefined && (
+                                <span className="profile-muted">{QUALITY_LABELS[item.quality] ?? ''}</span>
+                            )}
+                        </div>
+                    ))}
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default ColonistProfile;
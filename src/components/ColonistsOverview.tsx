@@ -14,6 +14,7 @@ import {
 } from '@tanstack/react-table';
 import './ColonistsOverview.css';
 import { useImageCache } from './ImageCacheContext';
+import { getWorkTypeMeta } from '../services/workTypeRegistry';
 
 interface ColonistsOverviewProps {
     colonistsDetailed?: any[];
@@ -22,6 +23,7 @@ interface ColonistsOverviewProps {
     onViewSkills?: (colonistName: string) => void;
     onViewInventory?: (colonist: ColonistDetailed) => void;
     onViewWork?: (colonist: ColonistDetailed) => void;
+    onViewProfile?: (colonistId: number) => void;
 }
 
 const ColonistsOverviewTab: React.FC<ColonistsOverviewProps> = ({
@@ -30,6 +32,7 @@ const ColonistsOverviewTab: React.FC<ColonistsOverviewProps> = ({
     onViewSkills = null,
     onViewInventory = null,
     onViewWork = null,
+    onViewProfile = null,
     loading = false
 }) => {
     const [sorting, setSorting] = React.useState<SortingState>([]);
@@ -165,6 +168,17 @@ const ColonistsOverviewTab: React.FC<ColonistsOverviewProps> = ({
         });
     }, [colonistsDetailed, traitFilter, skillFilters, jobFilter]);
 
+    // Work types as the game lists them, modded ones included
+    const workTypeOptions = React.useMemo(() => {
+        const names: string[] = [];
+        (colonistsDetailed as ColonistDetailed[]).forEach(cd => {
+            cd.colonist_work_info.work_priorities.forEach(wp => {
+                if (!names.includes(wp.work_type)) names.push(wp.work_type);
+            });
+        });
+        return names.map(getWorkTypeMeta);
+    }, [colonistsDetailed]);
+
 
     // Define columns for the table
     const columns = React.useMemo<ColumnDef<ColonistDetailed>[]>(
@@ -194,7 +208,17 @@ const ColonistsOverviewTab: React.FC<ColonistsOverviewProps> = ({
                                 </div>
                                 <div className="colonist-details">
                                     <div className="colonist-name-row">
-                                        <span className="colonist-name">{colonist.name}</span>
+                                        {onViewProfile ? (
+                                            <button
+                                                className="colonist-name colonist-name-link"
+                                                onClick={() => onViewProfile(colonist.id)}
+                                                title="Open Profile"
+                                            >
+                                                {colonist.name}
+                                            </button>
+                                        ) : (
+                                            <span className="colonist-name">{colonist.name}</span>
+                                        )}
                                         {traits.length > 0 && (
                                             <div className="traits-tooltip">
                                                 <span className="traits-icon">🧬</span>
@@ -299,6 +323,13 @@ const ColonistsOverviewTab: React.FC<ColonistsOverviewProps> = ({
                     const colonist = row.original.colonist;
                     return (
                         <div className="action-buttons">
+                            <button
+                                className="action-btn profile-btn"
+                                onClick={() => onViewProfile?.(colonist.id)}
+                                title="Open Profile"
+                            >
+                                👤 Profile
+                            </button>
                             <button
                                 className="action-btn health-btn"
                                 onClick={() => handleViewHealth(row.original)}
@@ -554,22 +585,9 @@ const ColonistsOverviewTab: React.FC<ColonistsOverviewProps> = ({
                         >
                             <option value="">Add job filter...</option>
                             <option value="FleeAndCower">Flee and Cower</option>
-                            <option value="Patient">Patient</option>
-                            <option value="Firefighter">Firefighter</option>
-                            <option value="Doctor">Doctor</option>
-                            <option value="Cooking">Cooking</option>
-                            <option value="Construction">Construction</option>
-                            <option value="Mining">Mining</option>
-                            <option value="Growing">Growing</option>
-                            <option value="Research">Research</option>
-                            <option value="Warden">Warden</option>
-                            <option value="Handling">Handling</option>
-                            <option value="Crafting">Crafting</option>
-                            <option value="Art">Art</option>
-                            <option value="Smithing">Smithing</option>
-                            <option value="Tailoring">Tailoring</option>
-                            <option value="Hauling">Hauling</option>
-                            <option value="Cleaning">Cleaning</option>
+                            {workTypeOptions.map(meta => (
+                                <option key={meta.name} value={meta.name}>{meta.icon} {meta.label}</option>
+                            ))}
                         </select>
                         <div className="active-filters">
                             {jobFilter.map(job => (
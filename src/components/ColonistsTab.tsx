@@ -5,17 +5,21 @@ import './ColonistsTab.css';
 import InventoryTab from './InventoryTab';
 import ColonistsSkillsDashboard from './ColonistsSkillsDashboard';
 import WorkTab from './WorkTab';
+import ColonistAnalyzeTab from './ColonistAnalyzeTab';
+import ScheduleTab from './ScheduleTab';
 import { ColonistDetailed } from '../types';
 
 interface ColonistsTabProps {
     colonistsDetailed?: any[];
     loading?: boolean;
     onViewHealth?: (colonistName: string) => void;
+    onViewProfile?: (colonistId: number) => void;
+    mapId?: number;
     selectedColonist?: any; // Add this line
 }
 
 
-type ColonistsSubTab = 'overview' | 'skills' | 'work' | 'inventory' | 'analyze';
+type ColonistsSubTab = 'overview' | 'skills' | 'work' | 'schedule' | 'inventory' | 'analyze';
 
 const ColonistsTab: React.FC<ColonistsTabProps> = (props) => {
     const [activeSubTab, setActiveSubTab] = React.useState<ColonistsSubTab>('overview');
@@ -33,12 +37,20 @@ const ColonistsTab: React.FC<ColonistsTabProps> = (props) => {
                         onClearFilter={handleClearSelectedColonist}
                     />
                 );
+            case 'schedule':
+                return (
+                    <ScheduleTab
+                        colonistsDetailed={props.colonistsDetailed}
+                        loading={props.loading}
+                    />
+                );
             case 'overview':
                 return (
                     <ColonistsOverview
                         colonistsDetailed={props.colonistsDetailed}
                         loading={props.loading}
                         onViewHealth={props.onViewHealth}
+                        onViewProfile={props.onViewProfile}
                         onViewSkills={handleOpenSkillsWithFilter}
                         onViewWork={(colonist) => {
                             setSelectedColonist(colonist);
@@ -66,7 +78,13 @@ const ColonistsTab: React.FC<ColonistsTabProps> = (props) => {
                     setSelectedColonist={setSelectedColonist}
                 />;
             case 'analyze':
-                return <AnalyzeTabPlaceholder />;
+                return (
+                    <ColonistAnalyzeTab
+                        colonistsDetailed={props.colonistsDetailed || []}
+                        mapId={props.mapId}
+                        loading={props.loading}
+                    />
+                );
             default:
                 return <ColonistsOverview {...props} />;
         }
@@ -109,6 +127,12 @@ const ColonistsTab: React.FC<ColonistsTabProps> = (props) => {
                 >
                     ⚙️ Work
                 </button>
+                <button
+                    className={`subtab-button ${activeSubTab === 'schedule' ? 'active' : ''}`}
+                    onClick={() => setActiveSubTab('schedule')}
+                >
+                    🕒 Schedule
+                </button>
                 <button
                     className={`subtab-button ${activeSubTab === 'inventory' ? 'active' : ''}`}
                     onClick={() => setActiveSubTab('inventory')}
@@ -131,13 +155,4 @@ const ColonistsTab: React.FC<ColonistsTabProps> = (props) => {
     );
 };
 
-// Placeholder components
-const AnalyzeTabPlaceholder: React.FC = () => (
-    <div className="tab-placeholder">
-        <div className="placeholder-icon">🔬</div>
-        <h3>Analyze Colonists</h3>
-        <p>Find suitable roles for colonists. Find nessesary tools/weapons/apparels and assign. Coming soon!</p>
-    </div>
-);
-
 export default ColonistsTab;
\ No newline at end of file
@@ -0,0 +1,155 @@
+// src/components/ColonyHistoryCard.tsx
+import React from 'react';
+import { MetricHistoryChart, HistorySeries } from './RimWorldCharts';
+import {
+  HISTORY_WINDOWS,
+  MetricKey,
+  MetricSample,
+  downsampleForChart,
+  loadSamples,
+  clearHistory,
+} from '../services/metricsHistory';
+import './ColonyHistoryCard.css';
+
+interface ColonyHistoryCardProps {
+  colonyKey: string | null;
+  refreshKey?: number;
+}
+
+interface MetricView {
+  id: string;
+  label: string;
+  unit: string;
+  series: { key: MetricKey; label: string; color: string }[];
+}
+
+const METRIC_VIEWS: MetricView[] = [
+  {
+    id: 'wealth',
+    label: '💰 Wealth',
+    unit: 'Silver',
+    series: [{ key: 'wealth', label: 'Wealth', color: 'rgba(255, 206, 86, 1)' }],
+  },
+  {
+    id: 'mood',
+    label: '😊 Mood',
+    unit: 'Average mood (%)',
+    series: [{ key: 'avgMood', label: 'Average mood', color: 'rgba(75, 192, 192, 1)' }],
+  },
+  {
+    id: 'power',
+    label: '⚡ Power',
+    unit: 'W / Wd',
+    series: [
+      { key: 'powerNet', label: 'Net power (W)', color: 'rgba(17, 212, 43, 1)' },
+      { key: 'powerStored', label: 'Stored (Wd)', color: 'rgba(82, 120, 255, 1)' },
+    ],
+  },
+  {
+    id: 'population',
+    label: '👥 Population',
+    unit: 'Count',
+    series: [
+      { key: 'colonists', label: 'Colonists', color: 'rgba(75, 192, 192, 1)' },
+      { key: 'prisoners', label: 'Prisoners', color: 'rgba(255, 206, 86, 1)' },
+      { key: 'animals', label: 'Animals', color: 'rgba(153, 102, 255, 1)' },
+      { key: 'enemies', label: 'Enemies', color: 'rgba(255, 99, 132, 1)' },
+    ],
+  },
+  {
+    id: 'research',
+    label: '🔬 Research',
+    unit: 'Projects finished (%)',
+    series: [{ key: 'researchPercent', label: 'Research complete', color: 'rgba(54, 162, 235, 1)' }],
+  },
+];
+
+const ColonyHistoryCard: React.FC<ColonyHistoryCardProps> = ({ colonyKey, refreshKey }) => {
+  const [windowId, setWindowId] = React.useState<string>('1h');
+  const [viewId, setViewId] = React.useState<string>('wealth');
+  const [samples, setSamples] = React.useState<MetricSample[]>([]);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const historyWindow = HISTORY_WINDOWS.find(w => w.id === windowId) || HISTORY_WINDOWS[0];
+  const view = METRIC_VIEWS.find(v => v.id === viewId) || METRIC_VIEWS[0];
+
+  React.useEffect(() => {
+    if (!colonyKey) return;
+    let cancelled = false;
+
+    loadSamples(colonyKey, Date.now() - historyWindow.durationMs)
+      .then(result => {
+        if (cancelled) return;
+        setSamples(downsampleForChart(result));
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [colonyKey, historyWindow.durationMs, refreshKey]);
+
+  const handleClear = async () => {
+    if (!colonyKey) return;
+    if (!window.confirm('Delete all recorded history for this colony?')) return;
+    await clearHistory(colonyKey);
+    setSamples([]);
+  };
+
+  const series: HistorySeries[] = view.series.map(s => ({
+    label: s.label,
+    color: s.color,
+    values: samples.map(sample => (sample[s.key] === null ? null : Math.round(sample[s.key] as number * 10) / 10)),
+  }));
+
+  return (
+    <div className="chart-card colony-history-card">
+      <div className="chart-header">
+        <h3>Colony History</h3>
+        <div className="history-controls">
+          <select
+            value={windowId}
+            onChange={(e) => setWindowId(e.target.value)}
+            className="sort-select"
+          >
+            {HISTORY_WINDOWS.map(w => (
+              <option key={w.id} className="filter-option" value={w.id}>Last {w.label}</option>
+            ))}
+          </select>
+          <button className="history-clear-btn" onClick={handleClear} title="Clear recorded history">
+            🗑️
+          </button>
+        </div>
+      </div>
+
+      <div className="history-metric-tabs">
+        {METRIC_VIEWS.map(v => (
+          <button
+            key={v.id}
+            className={`history-metric-tab ${v.id === viewId ? 'active' : ''}`}
+            onClick={() => setViewId(v.id)}
+          >
+            {v.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="chart-container">
+        {error ? (
+          <div className="no-data">History unavailable: {error}</div>
+        ) : (
+          <MetricHistoryChart
+            timestamps={samples.map(s => s.t)}
+            series={series}
+            unit={view.unit}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ColonyHistoryCard;
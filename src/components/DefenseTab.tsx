@@ -0,0 +1,306 @@
+// src/components/DefenseTab.tsx
+import React from 'react';
+import { rimworldApi } from '../services/rimworldApi';
+import { assessDefense, getTurretStatus, isWeapon, loadRaidLog } from '../services/defense';
+import { ColonistDetailed, CreaturesSummary, RaidEvent, ResourceItem, Turret } from '../types';
+import { useScheduledRefresh } from './RefreshSchedulerContext';
+import './DefenceTab.css';
+
+interface DefenseTabProps {
+  colonistsDetailed: ColonistDetailed[];
+  creatures: CreaturesSummary;
+  mapId: number;
+  colonyKey: string | null;
+  refreshKey?: number;
+}
+
+const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 1) return '<1 min';
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const formatAgo = (t: number): string => {
+  const ms = Date.now() - t;
+  if (ms < 60 * 60_000) return `${Math.max(1, Math.round(ms / 60_000))} min ago`;
+  if (ms < 24 * 60 * 60_000) return `${Math.round(ms / (60 * 60_000))} h ago`;
+  return `${Math.round(ms / (24 * 60 * 60_000))} days ago`;
+};
+
+const DefenseTab: React.FC<DefenseTabProps> = ({
+  colonistsDetailed,
+  creatures,
+  mapId,
+  colonyKey,
+  refreshKey,
+}) => {
+  const [turrets, setTurrets] = React.useState<Turret[]>([]);
+  const [turretsError, setTurretsError] = React.useState<string | null>(null);
+  const [weapons, setWeapons] = React.useState<Record<number, ResourceItem | null>>({});
+  const [raids, setRaids] = React.useState<RaidEvent[]>([]);
+
+  const colonistIds = colonistsDetailed.map(c => c.colonist.id).join(',');
+  const colonistsRef = React.useRef(colonistsDetailed);
+  colonistsRef.current = colonistsDetailed;
+
+  const loadDefenseData = React.useCallback(async () => {
+    const [turretResult, inventories] = await Promise.all([
+      rimworldApi.getTurrets(mapId).then(
+        result => ({ data: result, error: null as string | null }),
+        err => ({ data: [] as Turret[], error: err instanceof Error ? err.message : String(err) }),
+      ),
+      Promise.all(colonistsRef.current.map(async c => {
+        try {
+          const items: ResourceItem[] = await rimworldApi.fetchColonistInventory(c.colonist.id);
+          const best = items
+            .filter(isWeapon)
+            .sort((a, b) => b.market_value - a.market_value)[0] ?? null;
+          return [c.colonist.id, best] as const;
+        } catch {
+          return [c.colonist.id, null] as const;
+        }
+      })),
+    ]);
+
+    setTurrets(turretResult.data);
+    setTurretsError(turretResult.error);
+    setWeapons(Object.fromEntries(inventories));
+    return turretResult.error === null;
+  }, [mapId]);
+
+  React.useEffect(() => {
+    loadDefenseData();
+  }, [loadDefenseData, colonistIds]);
+
+  useScheduledRefresh('defense', loadDefenseData);
+
+  React.useEffect(() => {
+    setRaids(colonyKey ? loadRaidLog(colonyKey) : []);
+  }, [colonyKey, refreshKey]);
+
+  const assessment = React.useMemo(
+    () => assessDefense(colonistsDetailed, weapons, turrets, creatures),
+    [colonistsDetailed, weapons, turrets, creatures]
+  );
+
+  const activeRaid = raids.find(r => r.endedAt === undefined);
+  const finishedRaids = raids.filter(r => r.endedAt !== undefined);
+  // Raids logged before losses were tracked per colonist have no `lost`
+  const casualties = finishedRaids.reduce((sum, r) => sum + (r.lost?.length ?? 0), 0);
+
+  return (
+    <div className="defense-tab">
+      {/* Defense Overview Header */}
+      <div className="defense-overview">
+        <div className="defense-header">
+          <h2>🛡️ Colony Defense Systems</h2>
+          <div className="defense-status">
+            {assessment.hostiles > 0 ? (
+              <span className="status-indicator under-attack">
+                ⚔️ {assessment.hostiles} hostiles on map
+              </span>
+            ) : (
+              <span className="status-indicator operational">All clear</span>
+            )}
+            <span className="last-drill">
+              {finishedRaids.length > 0
+                ? `Last engagement: ${formatAgo(finishedRaids[0].startedAt)}`
+                : 'No engagements recorded yet'}
+            </span>
+          </div>
+        </div>
+        <div className="enemy-counts">
+          <span>Enemies: {creatures.enemies_count || 0}</span>
+          <span>Mechanoids: {creatures.mechanoids_count || 0}</span>
+          <span>Insectoids: {creatures.insectoids_count || 0}</span>
+        </div>
+      </div>
+
+      <div className="defense-grid">
+        {/* Turrets Section */}
+        <div className="defense-section turrets-section">
+          <div className="section-header">
+            <h3>🎯 Defense Turrets</h3>
+            <span className="section-count">{turrets.length} Turrets</span>
+          </div>
+          {turretsError ? (
+            <div className="defense-loading">Turret data unavailable: {turretsError}</div>
+          ) : turrets.length === 0 ? (
+            <div className="defense-loading">No turrets found on this map</div>
+          ) : (
+            <div className="turrets-grid">
+              {turrets.map(turret => {
+                const status = getTurretStatus(turret);
+                const statusClass = status.toLowerCase().replace(' ', '-');
+                const health = turret.max_hit_points > 0
+                  ? Math.round((turret.hit_points / turret.max_hit_points) * 100)
+                  : 100;
+
+                return (
+                  <div key={turret.thing_id} className={`turret-card ${statusClass}`}>
+                    <div className="turret-header">
+                      <h4>{turret.label}</h4>
+                      <span className={`status-badge ${statusClass}`}>{status}</span>
+                    </div>
+                    <div className="turret-stats">
+                      <div className="stat-row">
+                        <span className="stat-label">Health:</span>
+                        <div className="health-bar">
+                          <div className="health-fill" style={{ width: `${health}%` }}></div>
+                        </div>
+                        <span className="stat-value">{health}%</span>
+                      </div>
+                      {turret.fuel_percent !== null && (
+                        <div className="stat-row">
+                          <span className="stat-label">Ammo:</span>
+                          <div className="ammo-bar">
+                            <div
+                              className="ammo-fill"
+                              style={{ width: `${Math.round(turret.fuel_percent * 100)}%` }}
+                            ></div>
+                          </div>
+                          <span className="stat-value">{Math.round(turret.fuel_percent * 100)}%</span>
+                        </div>
+                      )}
+                      {turret.is_powered !== null && (
+                        <div className="stat-row">
+                          <span className="stat-label">Power:</span>
+                          <span className="stat-value target-status">
+                            {turret.is_powered ? 'On' : 'Off'}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Threat Assessment Section */}
+        <div className="defense-section threat-section">
+          <div className="section-header">
+            <h3>📊 Threat Assessment</h3>
+            <span className={`threat-level ${assessment.threatLevel.toLowerCase()}`}>
+              {assessment.threatLevel} Threat
+            </span>
+          </div>
+          <div className="threat-content">
+            <div className="defense-score">
+              <div className="score-circle">
+                <span className="score-value">{assessment.score}</span>
+                <span className="score-label">Defense Score</span>
+              </div>
+            </div>
+            <div className="assessment-details">
+              <div className="weak-points">
+                <h4>Weak Points:</h4>
+                <ul>
+                  {assessment.weakPoints.length > 0
+                    ? assessment.weakPoints.map((point, index) => <li key={index}>📍 {point}</li>)
+                    : <li>None detected</li>}
+                </ul>
+              </div>
+              <div className="recommendations">
+                <h4>Recommended Improvements:</h4>
+                <ul>
+                  {assessment.recommendations.length > 0
+                    ? assessment.recommendations.map((rec, index) => <li key={index}>✅ {rec}</li>)
+                    : <li>Defenses look solid</li>}
+                </ul>
+              </div>
+            </div>
+          </div>
+
+          <div className="combatants-list">
+            <h4>Combatants ({assessment.armedCount} armed)</h4>
+            {assessment.combatants.map(c => (
+              <div key={c.colonistId} className={`combatant-row ${c.canFight ? '' : 'pacifist'}`}>
+                <span className="combatant-name">{c.name}</span>
+                <span className="combatant-skills">🔫 {c.shooting} · 🗡️ {c.melee}</span>
+                <span className="combatant-weapon">
+                  {!c.canFight ? 'Incapable of violence' : c.weapon ? c.weapon.label : 'Unarmed'}
+                </span>
+                <span className="combatant-score">{c.contribution}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Raid History Section */}
+        <div className="defense-section history-section">
+          <div className="section-header">
+            <h3>📈 Raid History</h3>
+            <span className="history-count">
+              {activeRaid ? 'Raid in progress' : `Last ${finishedRaids.length} Engagements`}
+            </span>
+          </div>
+          <div className="combat-history">
+            <div className="history-stats">
+              <div className="history-stat">
+                <span className="stat-number">{finishedRaids.length}</span>
+                <span className="stat-label">Total Engagements</span>
+              </div>
+              <div className="history-stat">
+                <span className="stat-number">
+                  {finishedRaids.length > 0
+                    ? Math.round(finishedRaids.reduce((acc, r) => acc + r.peakEnemies, 0) / finishedRaids.length)
+                    : 0}
+                </span>
+                <span className="stat-label">Avg Raid Size</span>
+              </div>
+              <div className="history-stat">
+                <span className="stat-number">{casualties}</span>
+                <span className="stat-label">Colonists Lost</span>
+              </div>
+            </div>
+            <div className="engagements-list">
+              {raids.length === 0 && (
+                <div className="defense-loading">
+                  Raids are logged automatically when hostile counts spike while the dashboard is open.
+                </div>
+              )}
+              {raids.map(raid => {
+                const lost = raid.lost ?? [];
+                const outcome = raid.endedAt === undefined ? 'Ongoing' : lost.length > 0 ? 'Losses' : 'Victory';
+
+                return (
+                  <div key={raid.id} className="engagement-card">
+                    <div className="engagement-header">
+                      <span className="engagement-date">
+                        {raid.gameDateStart || new Date(raid.startedAt).toLocaleString()}
+                      </span>
+                      <span className={`outcome-badge ${outcome.toLowerCase()}`}>{outcome}</span>
+                    </div>
+                    <div className="engagement-event">{raid.kind}</div>
+                    <div className="engagement-stats">
+                      <div className="damage-taken">
+                        <span className="damage-label">Peak hostiles:</span>
+                        <span className="damage-value">{raid.peakEnemies}</span>
+                      </div>
+                      <div className="damage-dealt">
+                        <span className="damage-label">Duration:</span>
+                        <span className="damage-value">
+                          {formatDuration((raid.endedAt ?? Date.now()) - raid.startedAt)}
+                        </span>
+                      </div>
+                    </div>
+                    {lost.length > 0 && (
+                      <div className="engagement-losses">
+                        Lost: {lost.map(c => c.name).join(', ')}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DefenseTab;
@@ -2,9 +2,21 @@
 import React from 'react';
 import ModsTab from './ModsTab';
 import './DevTab.css';
-import { rimworldApi } from '../services/rimworldApi';
-
-type DevSubTab = 'mods' | 'console' | 'debug' | 'texture';
+import { getApiBaseUrl, rimworldApi } from '../services/rimworldApi';
+import {
+    ImageCacheSettings,
+    ImageCacheStats,
+    clearImageCache,
+    formatBytes,
+    getImageCacheStats,
+    loadImageCacheSettings,
+    pruneImageCache,
+    saveImageCacheSettings,
+} from '../services/imageCache';
+import { useImageCache } from './ImageCacheContext';
+import { useEventStreamStatus, useStreamEvents } from './EventStreamStatus';
+
+type DevSubTab = 'mods' | 'console' | 'debug' | 'texture' | 'cache';
 type TextureKind = 'item' | 'building' | 'plant' | 'other' | 'def' | 'linked';
 type TextureDirection = 'north' | 'west' | 'east' | 'south';
 
@@ -26,6 +38,8 @@ const DevTab: React.FC<DevTabProps> = ({ modsInfo = [], loading = false }) => {
                 return <DebugActions />;
             case 'texture':
                 return <SetTexture />;
+            case 'cache':
+                return <ImageCacheInspector />;
             default:
                 return <ModsTab modsInfo={modsInfo} loading={loading} />;
         }
@@ -52,6 +66,12 @@ const DevTab: React.FC<DevTabProps> = ({ modsInfo = [], loading = false }) => {
                 >
                     🖼️ Set Texture
                 </button>
+                <button
+                    className={`dev-subtab-button ${activeSubTab === 'cache' ? 'active' : ''}`}
+                    onClick={() => setActiveSubTab('cache')}
+                >
+                    🗄️ Image Cache
+                </button>
             </div>
 
             <div className="dev-subtab-content">
@@ -83,7 +103,6 @@ const DevConsole: React.FC = () => {
         },
     ]);
 
-    const [status, setStatus] = React.useState<'connecting' | 'connected' | 'disconnected'>('connecting');
     const [autoScroll, setAutoScroll] = React.useState<boolean>(true);
 
     // level filter state
@@ -217,43 +236,8 @@ const DevConsole: React.FC = () => {
     }, []);
 
     // SSE hookup
-    React.useEffect(() => {
-        let es: EventSource | null = null;
-
-        try {
-            setStatus('connecting');
-            es = new EventSource('http://localhost:8765/api/v1/events');
-
-            es.onopen = () => setStatus('connected');
-
-            es.addEventListener('log_message', (ev: MessageEvent) => {
-                try {
-                    appendLog(ev.data);
-                } catch (err) {
-                    console.error('log_message handler error', err);
-                    appendLog(ev.data);
-                }
-            });
-
-            es.onerror = () => {
-                setStatus('disconnected');
-                if (es) {
-                    es.close();
-                    es = null;
-                }
-            };
-        } catch (err) {
-            console.error('SSE setup error', err);
-            setStatus('disconnected');
-        }
-
-        return () => {
-            if (es) {
-                es.close();
-                es = null;
-            }
-        };
-    }, [appendLog]);
+    useStreamEvents('log_message', (ev) => appendLog(ev.data));
+    const streamStatus = useEventStreamStatus();
 
     // Auto-scroll (respect toggle)
     React.useEffect(() => {
@@ -333,10 +317,11 @@ const DevConsole: React.FC = () => {
                         Auto-scroll: {autoScroll ? 'ON' : 'OFF'}
                     </button>
 
-                    <div className={`dev-console-status status-${status}`}>
-                        {status === 'connecting' && 'Connecting…'}
-                        {status === 'connected' && 'Connected'}
-                        {status === 'disconnected' && 'Disconnected'}
+                    <div className={`dev-console-status status-${streamStatus.state}`} title={streamStatus.url ?? undefined}>
+                        {streamStatus.state === 'connecting' && 'Connecting…'}
+                        {streamStatus.state === 'open' && 'Connected'}
+                        {streamStatus.state === 'reconnecting' && `Reconnecting (attempt ${streamStatus.attempt})`}
+                        {streamStatus.state === 'idle' && 'Disconnected'}
                     </div>
                 </div>
             </div>
@@ -835,3 +820,194 @@ const SetTexture: React.FC = () => {
         </div>
     );
 };
+
+const TTL_OPTIONS = [
+    { label: '15 minutes', ms: 15 * 60 * 1000 },
+    { label: '1 hour', ms: 60 * 60 * 1000 },
+    { label: '1 day', ms: 24 * 60 * 60 * 1000 },
+    { label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+    { label: '30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+];
+const SIZE_OPTIONS_MB = [10, 25, 50, 100, 250];
+
+const ImageCacheInspector: React.FC = () => {
+    const { clearCache, imageCache } = useImageCache();
+    const [settings, setSettings] = React.useState<ImageCacheSettings>(loadImageCacheSettings);
+    const [stats, setStats] = React.useState<ImageCacheStats | null>(null);
+    const [busy, setBusy] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+    const [message, setMessage] = React.useState<string | null>(null);
+
+    const loadStats = React.useCallback(async () => {
+        try {
+            setStats(await getImageCacheStats(settings));
+            setError(null);
+        } catch (err: any) {
+            setError(err?.message || String(err));
+        }
+    }, [settings]);
+
+    React.useEffect(() => {
+        loadStats();
+    }, [loadStats]);
+
+    const updateSettings = (patch: Partial<ImageCacheSettings>) => {
+        const next = { ...settings, ...patch };
+        saveImageCacheSettings(next);
+        setSettings(next);
+    };
+
+    const runAction = async (action: () => Promise<string>) => {
+        try {
+            setBusy(true);
+            setMessage(await action());
+            await loadStats();
+        } catch (err: any) {
+            setError(err?.message || String(err));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const onPrune = () => runAction(async () => {
+        const removed = await pruneImageCache(settings);
+        return `Removed ${removed} expired or over-limit image${removed === 1 ? '' : 's'}.`;
+    });
+
+    const onClearServer = () => runAction(async () => {
+        await clearImageCache(getApiBaseUrl());
+        clearCache();
+        return `Cleared cached images for ${getApiBaseUrl()}.`;
+    });
+
+    const onClearAll = () => runAction(async () => {
+        await clearImageCache();
+        clearCache();
+        return 'Cleared all cached images.';
+    });
+
+    const usagePercent = stats ? Math.min(100, Math.round((stats.bytes / settings.maxBytes) * 100)) : 0;
+
+    return (
+        <div className="image-cache-inspector">
+            <div className="atlas-form">
+                <h3 className="dev-section-title">🗄️ Image Cache</h3>
+
+                {error && <div className="atlas-error">❌ {error}</div>}
+
+                {stats && (
+                    <>
+                        <div className="cache-stats-grid">
+                            <div className="cache-stat">
+                                <span className="cache-stat-value">{stats.count}</span>
+                                <span className="cache-stat-label">Stored images</span>
+                            </div>
+                            <div className="cache-stat">
+                                <span className="cache-stat-value">{formatBytes(stats.bytes)}</span>
+                                <span className="cache-stat-label">of {formatBytes(settings.maxBytes)}</span>
+                            </div>
+                            <div className="cache-stat">
+                                <span className="cache-stat-value">{stats.byKind.item.count}</span>
+                                <span className="cache-stat-label">Item textures ({formatBytes(stats.byKind.item.bytes)})</span>
+                            </div>
+                            <div className="cache-stat">
+                                <span className="cache-stat-value">{stats.byKind.portrait.count}</span>
+                                <span className="cache-stat-label">Portraits ({formatBytes(stats.byKind.portrait.bytes)})</span>
+                            </div>
+                            <div className="cache-stat">
+                                <span className="cache-stat-value">{stats.expired}</span>
+                                <span className="cache-stat-label">Expired</span>
+                            </div>
+                            <div className="cache-stat">
+                                <span className="cache-stat-value">{Object.keys(imageCache).length}</span>
+                                <span className="cache-stat-label">Loaded this session</span>
+                            </div>
+                        </div>
+
+                        <div className="progress-row">
+                            <div className="progress-bar">
+                                <div className="progress-fill" style={{ width: `${usagePercent}%` }} />
+                            </div>
+                            <span className="progress-text">{usagePercent}%</span>
+                        </div>
+
+                        <div className="atlas-summary">
+                            {stats.oldest
+                                ? `Oldest entry ${new Date(stats.oldest).toLocaleString()}, newest ${new Date(stats.newest!).toLocaleString()}`
+                                : 'Cache is empty'}
+                        </div>
+
+                        {Object.keys(stats.byServer).length > 0 && (
+                            <div className="atlas-list">
+                                {Object.entries(stats.byServer).map(([server, usage]) => (
+                                    <div key={server} className="atlas-item">
+                                        {server === getApiBaseUrl() ? '● ' : ''}{server}: {usage.count} images, {formatBytes(usage.bytes)}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </>
+                )}
+
+                <div className="cache-settings-row">
+                    <label>
+                        Item textures expire after
+                        <select
+                            className="texture-input"
+                            value={settings.itemTtlMs}
+                            onChange={(e) => updateSettings({ itemTtlMs: Number(e.target.value) })}
+                        >
+                            {TTL_OPTIONS.map(o => <option key={o.ms} value={o.ms}>{o.label}</option>)}
+                        </select>
+                    </label>
+                    <label>
+                        Portraits expire after
+                        <select
+                            className="texture-input"
+                            value={settings.portraitTtlMs}
+                            onChange={(e) => updateSettings({ portraitTtlMs: Number(e.target.value) })}
+                        >
+                            {TTL_OPTIONS.map(o => <option key={o.ms} value={o.ms}>{o.label}</option>)}
+                        </select>
+                    </label>
+                    <label>
+                        Size limit
+                        <select
+                            className="texture-input"
+                            value={settings.maxBytes}
+                            onChange={(e) => updateSettings({ maxBytes: Number(e.target.value) })}
+                        >
+                            {SIZE_OPTIONS_MB.map(mb => (
+                                <option key={mb} value={mb * 1024 * 1024}>{mb} MB</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+
+                <div className="atlas-actions">
+                    <button className="upload-btn" onClick={loadStats} disabled={busy}>Refresh</button>
+                    <button className="clear-btn" onClick={onPrune} disabled={busy}>Prune Now</button>
+                    <button className="clear-btn" onClick={onClearServer} disabled={busy}>Clear This Server</button>
+                    <button className="clear-btn warning" onClick={onClearAll} disabled={busy}>Clear All</button>
+                </div>
+
+                {message && <div className="hint">{message}</div>}
+
+                {stats && stats.recent.length > 0 && (
+                    <div className="cache-recent-grid">
+                        {stats.recent.map(entry => (
+                            <div
+                                key={`${entry.apiUrl}|${entry.kind}|${entry.id}`}
+                                className="cache-recent-item"
+                                title={`${entry.id} (${entry.kind}, ${formatBytes(entry.size)})\nStored ${new Date(entry.storedAt).toLocaleString()}`}
+                            >
+                                <img src={entry.dataUrl} alt={entry.id} />
+                                <span>{entry.id}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
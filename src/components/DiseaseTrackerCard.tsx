@@ -0,0 +1,105 @@
+// src/components/DiseaseTrackerCard.tsx
+import React from 'react';
+import { DiseaseProgressionChart } from './RimWorldCharts';
+import {
+    DISEASE_OUTLOOKS,
+    DiseaseForecast,
+    clearDiseaseHistory,
+    forecastDiseases,
+    formatGameDays,
+    loadDiseaseHistory,
+} from '../services/diseaseProgression';
+import './DiseaseTrackerCard.css';
+
+interface DiseaseTrackerCardProps {
+    colonyKey: string | null;
+    refreshKey?: number;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const describeOutlook = (f: DiseaseForecast): string => {
+    if (f.track.resolvedAt) return f.outlook === 'recovering' ? 'Immune, no longer reported' : DISEASE_OUTLOOKS.gone.label;
+    switch (f.outlook) {
+        case 'fatal':
+            return f.daysToLethal !== null ? `Lethal in ~${formatGameDays(f.daysToLethal)}` : 'Lethal';
+        case 'close':
+            return `Immune in ~${formatGameDays(f.daysToRecovery!)}, lethal in ~${formatGameDays(f.daysToLethal!)}`;
+        case 'recovering':
+            return f.daysToRecovery !== null ? `Recovered in ~${formatGameDays(f.daysToRecovery)}` : 'Recovering';
+        default:
+            return DISEASE_OUTLOOKS[f.outlook].label;
+    }
+};
+
+const DiseaseTrackerCard: React.FC<DiseaseTrackerCardProps> = ({ colonyKey, refreshKey }) => {
+    const [forecasts, setForecasts] = React.useState<DiseaseForecast[]>([]);
+    const [selectedId, setSelectedId] = React.useState<number | null>(null);
+
+    React.useEffect(() => {
+        setForecasts(colonyKey ? forecastDiseases(loadDiseaseHistory(colonyKey)) : []);
+    }, [colonyKey, refreshKey]);
+
+    const selected = forecasts.find(f => f.track.loadId === selectedId) || forecasts[0];
+
+    const handleClear = () => {
+        if (!colonyKey) return;
+        if (!window.confirm('Forget the recorded disease history for this colony?')) return;
+        clearDiseaseHistory(colonyKey);
+        setForecasts([]);
+    };
+
+    return (
+        <div className="chart-card disease-tracker-card">
+            <div className="chart-header">
+                <h3>🦠 Disease Progression</h3>
+                {forecasts.length > 0 && (
+                    <button className="history-clear-btn" onClick={handleClear} title="Clear disease history">🗑️</button>
+                )}
+            </div>
+
+            {forecasts.length === 0 ? (
+                <div className="no-data">No infections or diseases tracked. Each poll adds a sample while one is active.</div>
+            ) : (
+                <div className="disease-tracker-layout">
+                    <div className="disease-list">
+                        {forecasts.map(f => (
+                            <button
+                                key={f.track.loadId}
+                                className={`disease-item ${f.outlook} ${f.track.resolvedAt ? 'resolved' : ''} ${f === selected ? 'selected' : ''}`}
+                                onClick={() => setSelectedId(f.track.loadId)}
+                            >
+                                <div className="disease-item-title">
+                                    <span>{DISEASE_OUTLOOKS[f.outlook].icon} {f.track.colonistName}: {f.track.label}</span>
+                                    <span className="disease-item-severity">{percent(f.severity)}</span>
+                                </div>
+                                <div className="disease-item-outlook">{describeOutlook(f)}</div>
+                            </button>
+                        ))}
+                    </div>
+
+                    {selected && (
+                        <div className="disease-detail">
+                            <div className="disease-detail-stats">
+                                <span>Severity <strong>{percent(selected.severity)}</strong></span>
+                                <span>
+                                    Trend <strong>{selected.severityPerDay >= 0 ? '+' : ''}{percent(selected.severityPerDay)}/day</strong>
+                                </span>
+                                <span>
+                                    Immunity <strong>{selected.immunity !== null ? percent(selected.immunity) : 'not reported'}</strong>
+                                </span>
+                                {selected.track.partLabel && <span>Part <strong>{selected.track.partLabel}</strong></span>}
+                                <span>{selected.track.samples.length} samples</span>
+                            </div>
+                            <div className="chart-container">
+                                <DiseaseProgressionChart forecast={selected} />
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DiseaseTrackerCard;
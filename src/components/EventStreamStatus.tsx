@@ -0,0 +1,74 @@
+// src/components/EventStreamStatus.tsx
+import React from 'react';
+import {
+  EventStreamStatus as StreamStatus,
+  StreamEvent,
+  getEventStreamStatus,
+  reconnectEventStream,
+  subscribeToEventStreamStatus,
+  subscribeToEvents,
+} from '../services/eventStream';
+import { getApiHeaders } from '../services/rimworldApi';
+import './EventStreamStatus.css';
+
+/** Current SSE connection status; keeps the shared stream open while mounted. */
+export const useEventStreamStatus = (): StreamStatus => {
+  const [status, setStatus] = React.useState<StreamStatus>(getEventStreamStatus);
+  React.useEffect(() => subscribeToEventStreamStatus(setStatus), []);
+  return status;
+};
+
+/** Calls `handler` for every SSE event of the given type(s) while mounted. */
+export const useStreamEvents = (types: string | string[], handler: (event: StreamEvent) => void) => {
+  const handlerRef = React.useRef(handler);
+  handlerRef.current = handler;
+  const typesKey = Array.isArray(types) ? types.join(',') : types;
+
+  React.useEffect(
+    () => subscribeToEvents(typesKey.split(','), (event) => handlerRef.current(event)),
+    [typesKey]
+  );
+};
+
+const STATE_LABELS: Record<StreamStatus['state'], string> = {
+  idle: 'Events off',
+  connecting: 'Connecting…',
+  open: 'Live',
+  reconnecting: 'Reconnecting',
+};
+
+const EventStreamStatus: React.FC = () => {
+  const status = useEventStreamStatus();
+  const [, setTick] = React.useState(0);
+
+  // Re-render once a second while a retry countdown is showing
+  React.useEffect(() => {
+    if (!status.retryAt) return;
+    const id = setInterval(() => setTick(t => t + 1), 1000);
+    return () => clearInterval(id);
+  }, [status.retryAt]);
+
+  const retryIn = status.retryAt ? Math.max(0, Math.ceil((status.retryAt - Date.now()) / 1000)) : null;
+  const title = [
+    status.url ? `Stream: ${status.url}` : 'Event stream not connected',
+    status.lastEventAt ? `Last event: ${new Date(status.lastEventAt).toLocaleTimeString()}` : null,
+    status.lastEventId ? `Resume from id ${status.lastEventId}` : null,
+    status.state === 'reconnecting' ? 'Click to retry now' : null,
+    Object.keys(getApiHeaders()).length > 0 ? 'The event stream is sent without the profile\'s auth header' : null,
+  ].filter(Boolean).join('\n');
+
+  return (
+    <button
+      type="button"
+      className={`event-stream-status state-${status.state}`}
+      title={title}
+      onClick={status.state === 'reconnecting' ? reconnectEventStream : undefined}
+    >
+      <span className="event-stream-dot" />
+      {STATE_LABELS[status.state]}
+      {status.state === 'reconnecting' && retryIn !== null && ` in ${retryIn}s`}
+    </button>
+  );
+};
+
+export default EventStreamStatus;
@@ -1,6 +1,7 @@
 // contexts/ImageCacheContext.tsx
-import React, { createContext, useContext, useState, ReactNode, useCallback } from 'react';
-import { rimworldApi } from '../services/rimworldApi';
+import React, { createContext, useContext, useState, ReactNode, useCallback, useEffect } from 'react';
+import { getApiBaseUrl, rimworldApi } from '../services/rimworldApi';
+import { getCachedImage, onImageInvalidated, putCachedImage } from '../services/imageCache';
 
 interface ImageCacheContextType {
     imageCache: Record<string, string>;
@@ -23,17 +24,37 @@ const ImageCacheContext = createContext<ImageCacheContextType | undefined>(undef
 export const ImageCacheProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const [imageCache, setImageCache] = useState<Record<string, string>>({});
 
+    // Drop images from memory when their persisted copy is invalidated (e.g. a texture upload)
+    useEffect(() => onImageInvalidated((_kind, id) => {
+        setImageCache(prev => {
+            if (!(id in prev)) return prev;
+            const { [id]: removed, ...rest } = prev;
+            return rest;
+        });
+    }), []);
+
     // Colonist images
     const fetchColonistImage = async (colonistId: string): Promise<void> => {
         if (imageCache[colonistId]) return;
 
         try {
+            const apiUrl = getApiBaseUrl();
+            const cached = await getCachedImage(apiUrl, 'portrait', colonistId);
+            if (cached) {
+                setImageCache(prev => ({ ...prev, [colonistId]: cached }));
+                return;
+            }
+
             const imageData = await rimworldApi.getPawnPortraitImage(colonistId);
             if (imageData.result === 'success' && imageData.image_base64) {
+                const dataUrl = `data:image/png;base64,${imageData.image_base64}`;
                 setImageCache(prev => ({
                     ...prev,
-                    [colonistId]: `data:image/png;base64,${imageData.image_base64}`
+                    [colonistId]: dataUrl
                 }));
+                putCachedImage(apiUrl, 'portrait', colonistId, dataUrl).catch(err => {
+                    console.warn('Failed to persist colonist image:', err);
+                });
             }
         } catch (err) {
             console.warn(`Failed to fetch colonist image for ${colonistId}:`, err);
@@ -49,12 +70,23 @@ export const ImageCacheProvider: React.FC<{ children: ReactNode }> = ({ children
         if (imageCache[defName]) return;
 
         try {
+            const apiUrl = getApiBaseUrl();
+            const cached = await getCachedImage(apiUrl, 'item', defName);
+            if (cached) {
+                setImageCache(prev => ({ ...prev, [defName]: cached }));
+                return;
+            }
+
             const imageData = await rimworldApi.getItemImage(defName);
             if (imageData.result === 'success' && imageData.image_base64) {
+                const dataUrl = `data:image/png;base64,${imageData.image_base64}`;
                 setImageCache(prev => ({
                     ...prev,
-                    [defName]: `data:image/png;base64,${imageData.image_base64}`
+                    [defName]: dataUrl
                 }));
+                putCachedImage(apiUrl, 'item', defName, dataUrl).catch(err => {
+                    console.warn('Failed to persist item image:', err);
+                });
             }
         } catch (err) {
             console.warn(`Failed to fetch item image for ${defName}:`, err);
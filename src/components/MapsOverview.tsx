@@ -0,0 +1,124 @@
+// src/components/MapsOverview.tsx
+import React from 'react';
+import { fetchMapSummaries } from '../services/rimworldApi';
+import { useScheduledRefresh } from './RefreshSchedulerContext';
+import { MapInfo, MapSummary } from '../types';
+import './MapsOverview.css';
+
+interface MapsOverviewProps {
+  maps: MapInfo[];
+  selectedMapId: number;
+  onSelectMap: (mapId: number) => void;
+}
+
+export const getMapLabel = (map: MapInfo): string => {
+  if (map.is_player_home) return `🏠 ${map.label}`;
+  if (map.is_temp_incident_map) return `⚔️ ${map.label}`;
+  return `🗺️ ${map.label}`;
+};
+
+const MapsOverview: React.FC<MapsOverviewProps> = ({
+  maps,
+  selectedMapId,
+  onSelectMap,
+}) => {
+  const [summaries, setSummaries] = React.useState<MapSummary[]>([]);
+  const [loading, setLoading] = React.useState(true);
+
+  const mapsKey = maps.map(m => m.id).join(',');
+  const mapsRef = React.useRef(maps);
+  mapsRef.current = maps;
+
+  const loadSummaries = React.useCallback(async () => {
+    const result = await fetchMapSummaries(mapsRef.current);
+    setSummaries(result);
+    setLoading(false);
+    return result.every(summary => summary.errors.length < 4);
+  }, []);
+
+  React.useEffect(() => {
+    setLoading(true);
+    loadSummaries();
+  }, [mapsKey, loadSummaries]);
+
+  useScheduledRefresh('maps', loadSummaries);
+
+  if (maps.length === 0) {
+    return (
+      <div className="maps-overview">
+        <div className="no-data">No maps reported by the API</div>
+      </div>
+    );
+  }
+
+  if (loading && summaries.length === 0) {
+    return (
+      <div className="maps-overview">
+        <div className="no-data">Loading map summaries...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="maps-overview">
+      {summaries.map(({ map, resources, creatures, power, weather, errors }) => {
+        const netPower = (power?.current_power || 0) - (power?.total_consumption || 0);
+        const isSelected = map.id === selectedMapId;
+
+        return (
+          <div key={map.id} className={`map-summary-card ${isSelected ? 'selected' : ''}`}>
+            <div className="map-summary-header">
+              <h3>{getMapLabel(map)}</h3>
+              {isSelected ? (
+                <span className="map-selected-badge">Viewing</span>
+              ) : (
+                <button className="map-view-btn" onClick={() => onSelectMap(map.id)}>
+                  View
+                </button>
+              )}
+            </div>
+
+            <div className="map-summary-stats">
+              <div className="map-stat">
+                <span className="map-stat-value">{creatures?.colonists_count ?? '—'}</span>
+                <span className="map-stat-label">Colonists</span>
+              </div>
+              <div className="map-stat">
+                <span className={`map-stat-value ${(creatures?.enemies_count || 0) > 0 ? 'danger' : ''}`}>
+                  {creatures?.enemies_count ?? '—'}
+                </span>
+                <span className="map-stat-label">Enemies</span>
+              </div>
+              <div className="map-stat">
+                <span className="map-stat-value">
+                  {resources ? `$${Math.round(resources.total_market_value || 0)}` : '—'}
+                </span>
+                <span className="map-stat-label">Wealth</span>
+              </div>
+              <div className="map-stat">
+                <span className={`map-stat-value ${netPower < 0 ? 'danger' : ''}`}>
+                  {power ? `${netPower}W` : '—'}
+                </span>
+                <span className="map-stat-label">Net Power</span>
+              </div>
+            </div>
+
+            <div className="map-summary-footer">
+              <span>{weather?.weather || 'Unknown weather'}</span>
+              <span>{weather ? `${Math.round(weather.temperature)}°C` : ''}</span>
+              <span>{map.size_x > 0 ? `${map.size_x}×${map.size_z}` : ''}</span>
+            </div>
+
+            {errors.length > 0 && (
+              <div className="map-summary-errors" title={errors.join('\n')}>
+                ⚠️ {errors.length} section{errors.length === 1 ? '' : 's'} unavailable
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MapsOverview;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import MedicalAlertsCard from './MedicalAlertsCard';
+import { MOCK_SCENARIOS } from '../mocks/scenarios';
+
+test('shows no alerts for a healthy colony', () => {
+  render(<MedicalAlertsCard colonistsDetailed={MOCK_SCENARIOS.healthy.build().colonists} />);
+  expect(screen.queryByText('Critical Health')).not.toBeInTheDocument();
+});
+
+test('flags critical health, bleeding and blood loss after a mass casualty', () => {
+  render(<MedicalAlertsCard colonistsDetailed={MOCK_SCENARIOS.massCasualty.build().colonists} />);
+
+  expect(screen.getByText('Critical Health')).toBeInTheDocument();
+  expect(screen.getByText('Severe Bleeding')).toBeInTheDocument();
+  expect(screen.getByText('Severe Blood Loss')).toBeInTheDocument();
+});
+
+test('filters alerts to a body part picked on the body map', () => {
+  render(<MedicalAlertsCard colonistsDetailed={MOCK_SCENARIOS.massCasualty.build().colonists} />);
+
+  fireEvent.click(screen.getByText('🧍 Body map'));
+  fireEvent.change(screen.getByLabelText('Colonist'), { target: { value: '102' } });
+  fireEvent.click(screen.getByText('Torso'));
+
+  expect(screen.getByText('Boris · Torso')).toBeInTheDocument();
+  expect(screen.getByText('Gunshot')).toBeInTheDocument();
+  expect(screen.queryByText('Cut')).not.toBeInTheDocument();
+});
@@ -1,7 +1,15 @@
 // src/components/MedicalAlertsCard.tsx
 import React from 'react';
-import { ColonistDetailed, MedicalAlert, Hediff } from '../types';
+import { ColonistDetailed, MedicalAlert } from '../types';
 import { selectAndViewColonist } from '../services/rimworldApi';
+import {
+  TriageRuleStore,
+  loadTriageRules,
+  resolveTriageRules,
+  saveTriageRules,
+  triageColony,
+} from '../services/medicalTriage';
+import { BODY_REGIONS, BodyRegionId, getBodyRegion } from '../services/bodyMap';
 import {
   useReactTable,
   getCoreRowModel,
@@ -12,6 +20,8 @@ import {
   SortingState,
   ColumnFiltersState,
 } from '@tanstack/react-table';
+import BodyMapPanel from './BodyMapPanel';
+import TriageRulesModal from './TriageRulesModal';
 import './MedicalAlertsCard.css';
 
 interface MedicalAlertsCardProps {
@@ -23,7 +33,7 @@ interface MedicalAlertsCardProps {
 // Filter chip types
 type FilterChip = {
   id: string;
-  type: 'colonist' | 'hediff' | 'tag' | 'bodypart' | 'severity' | 'search';
+  type: 'colonist' | 'hediff' | 'tag' | 'bodypart' | 'region' | 'severity' | 'search';
   value: string;
   label: string;
   /** include = keep rows that match; exclude = remove rows that match */
@@ -87,211 +97,21 @@ const MedicalAlertsCard: React.FC<MedicalAlertsCardProps> = ({
     };
   }, [colonistsDetailed]);
 
-  // Tag system for hediffs
-  const getHediffTags = (hediff: Hediff): string[] => {
-    const tags: string[] = [];
-
-    if (hediff?.bleeding && (hediff.bleed_rate ?? 0) > 0) {
-      tags.push('bleeding');
-    }
-
-    const label = (hediff?.label || '').toLowerCase();
-    const def = hediff?.def_name || '';
-
-    if (def.includes('Infection') || label.includes('infection')) tags.push('infection');
-    if (def.includes('Fracture') || label.includes('fracture')) tags.push('fracture');
-    if (def.includes('Burn') || label.includes('burn')) tags.push('burn');
-    if (hediff?.is_permanent) tags.push('chronic');
-    if (hediff?.is_currently_life_threatening) tags.push('emergency');
-    if (hediff?.is_tended) tags.push('treated');
+  // Triage rules: built-in pack plus the user's overrides and custom rules
+  const [triageStore, setTriageStore] = React.useState<TriageRuleStore>(() => loadTriageRules());
+  const [showTriageRules, setShowTriageRules] = React.useState(false);
+  const [showBodyMap, setShowBodyMap] = React.useState(false);
+  const triageRules = React.useMemo(() => resolveTriageRules(triageStore), [triageStore]);
 
-    return tags;
+  const handleSaveTriageRules = (store: TriageRuleStore) => {
+    saveTriageRules(store);
+    setTriageStore(store);
   };
 
-  // Analyze medical conditions and generate alerts using new API structure
-  const medicalAlerts = React.useMemo(() => {
-    const alerts: (MedicalAlert & { tags: string[] })[] = [];
-
-    colonistsDetailed.forEach(colonist => {
-      const { colonist: col, colonist_medical_info: medical } = colonist;
-      if (!medical) return;
-
-      // Calculate pain percentage from hediffs (guard against NaN)
-      const totalPainPercent = (medical.hediffs || []).reduce((total, h) => {
-        const pf = Number(h?.pain_factor ?? 0);
-        const po = Number(h?.pain_offset ?? 0);
-        const add = isFinite(pf * po) ? pf * po : 0;
-        return total + add;
-      }, 0);
-
-      // Check for bleeding conditions
-      const bleedingHediffs = (medical.hediffs || []).filter(h => h?.bleeding && (h.bleed_rate ?? 0) > 0);
-      const totalBleedRate = bleedingHediffs.reduce((total, h) => total + (h.bleed_rate ?? 0), 0);
-
-      // Per-hediff alerts
-      (medical.hediffs || []).forEach(hediff => {
-        if (!hediff) return;
-        const severity = getHediffSeverity(hediff);
-        if (severity) {
-          const tags = getHediffTags(hediff);
-          alerts.push({
-            colonistId: col.id,
-            colonistName: col.name,
-            condition: hediff.label_cap || hediff.label,
-            severity,
-            bodyPart: hediff.part_label || 'Unknown',
-            description: getHediffDescription(hediff),
-            healthPercent: medical.health ?? 0,
-            bleedRate: hediff.bleed_rate,
-            tags
-          });
-        }
-      });
-
-      // Overall health
-      const health = medical.health ?? 0;
-      if (health < 0.25) {
-        alerts.push({
-          colonistId: col.id,
-          colonistName: col.name,
-          condition: 'Critical Health',
-          severity: 'critical',
-          bodyPart: 'Overall',
-          description: `Health at ${Math.round(health * 100)}% - Immediate medical attention required`,
-          healthPercent: health,
-          tags: ['critical-health', 'overall']
-        });
-      } else if (health < 0.6) {
-        alerts.push({
-          colonistId: col.id,
-          colonistName: col.name,
-          condition: 'Poor Health',
-          severity: 'serious',
-          bodyPart: 'Overall',
-          description: `Health at ${Math.round(health * 100)}% - Medical attention recommended`,
-          healthPercent: health,
-          tags: ['overall']
-        });
-      }
-
-      // Pain levels
-      if (totalPainPercent > 0.8) {
-        alerts.push({
-          colonistId: col.id,
-          colonistName: col.name,
-          condition: 'Severe Pain',
-          severity: 'serious',
-          bodyPart: 'Overall',
-          description: `High pain level (${Math.round(totalPainPercent * 100)}%) - Pain management needed`,
-          healthPercent: health,
-          tags: ['pain', 'overall']
-        });
-      } else if (totalPainPercent > 0.2) {
-        alerts.push({
-          colonistId: col.id,
-          colonistName: col.name,
-          condition: 'Moderate Pain',
-          severity: 'warning',
-          bodyPart: 'Overall',
-          description: `Moderate pain level (${Math.round(totalPainPercent * 100)}%)`,
-          healthPercent: health,
-          tags: ['pain', 'overall']
-        });
-      }
-
-      // Bleeding totals
-      if (bleedingHediffs.length > 0) {
-        if (totalBleedRate > 0.5) {
-          alerts.push({
-            colonistId: col.id,
-            colonistName: col.name,
-            condition: 'Severe Bleeding',
-            severity: 'serious',
-            bodyPart: 'Overall',
-            description: `Bleeding at ${(totalBleedRate * 100).toFixed(1)}%/day - Immediate treatment required`,
-            healthPercent: health,
-            bleedRate: totalBleedRate,
-            tags: ['overall']
-          });
-        } else if (totalBleedRate > 0.01) {
-          alerts.push({
-            colonistId: col.id,
-            colonistName: col.name,
-            condition: 'Bleeding',
-            severity: 'warning',
-            bodyPart: 'Overall',
-            description: `Bleeding at ${(totalBleedRate * 100).toFixed(1)}%/day - Treatment needed`,
-            healthPercent: health,
-            bleedRate: totalBleedRate,
-            tags: ['overall']
-          });
-        }
-      }
-
-      // Blood loss prognosis
-      const bloodLoss = (medical.hediffs || []).find(h => h?.def_name === 'BloodLoss');
-      const bloodLossSeverity = bloodLoss?.severity ?? 0;
-      let deathDueBloodLossTime = 0;
-
-      if (bloodLossSeverity > 0.01 && totalBleedRate > 0.01) {
-        deathDueBloodLossTime = ((1 - bloodLossSeverity) / totalBleedRate * 24 * 60); // minutes
-
-        if (deathDueBloodLossTime < 300) {
-          alerts.push({
-            colonistId: col.id,
-            colonistName: col.name,
-            condition: 'IMMINENT DEATH - Blood Loss',
-            severity: 'critical',
-            bodyPart: 'Circulatory',
-            description: `Will die in ${Math.round(deathDueBloodLossTime)} minutes - EMERGENCY`,
-            healthPercent: health,
-            bleedRate: totalBleedRate,
-            tags: ['overall', 'bloodLoss']
-          });
-        } else if (deathDueBloodLossTime < 600) {
-          alerts.push({
-            colonistId: col.id,
-            colonistName: col.name,
-            condition: 'Critical Blood Loss',
-            severity: 'critical',
-            bodyPart: 'Overall',
-            description: `Will die in ${Math.round(deathDueBloodLossTime / 60)} hours - Immediate treatment required`,
-            healthPercent: health,
-            bleedRate: totalBleedRate,
-            tags: ['overall', 'bloodLoss']
-          });
-        } else if (deathDueBloodLossTime < 900) {
-          alerts.push({
-            colonistId: col.id,
-            colonistName: col.name,
-            condition: 'Severe Blood Loss',
-            severity: 'serious',
-            bodyPart: 'Overall',
-            description: `Will die in ${Math.round(deathDueBloodLossTime / 60)} hours - Urgent treatment needed`,
-            healthPercent: health,
-            bleedRate: totalBleedRate,
-            tags: ['overall', 'bloodLoss']
-          });
-        }
-      }
-
-      // Hunger
-      if ((col.hunger ?? 1) < 0.2) {
-        alerts.push({
-          colonistId: col.id,
-          colonistName: col.name,
-          condition: 'Starvation',
-          severity: 'serious',
-          bodyPart: 'Overall',
-          description: 'Severely malnourished - Immediate food required',
-          healthPercent: health,
-          tags: ['starvation', 'overall']
-        });
-      }
-    });
-
-    return alerts;
-  }, [colonistsDetailed]);
+  const medicalAlerts = React.useMemo(
+    () => triageColony(colonistsDetailed, triageRules),
+    [colonistsDetailed, triageRules]
+  );
 
   // --- Filtering with include/exclude chips ---
   const matchesChip = React.useCallback((alert: MedicalAlert & { tags: string[] }, chip: FilterChip) => {
@@ -306,6 +126,11 @@ const MedicalAlertsCard: React.FC<MedicalAlertsCardProps> = ({
         return alert.tags.some(t => t.toLowerCase() === val);
       case 'bodypart':
         return alert.bodyPart.toLowerCase().includes(val);
+      case 'region': {
+        // `${colonistId}:${region}` from the body map
+        const [colonistId, region] = chip.value.split(':');
+        return String(alert.colonistId) === colonistId && getBodyRegion(alert.bodyPart) === region;
+      }
       case 'severity':
         return alert.severity.toLowerCase() === val;
       case 'search':
@@ -626,6 +451,23 @@ const MedicalAlertsCard: React.FC<MedicalAlertsCardProps> = ({
     addFilterChip(type, value, label, 'include');
   };
 
+  // Body map clicks swap the region filter; clicking the active region clears it
+  const activeRegion = filterChips.find(c => c.type === 'region' && c.mode === 'include')?.value;
+  const handleSelectRegion = (colonist: ColonistDetailed, region: BodyRegionId) => {
+    const value = `${colonist.colonist.id}:${region}`;
+    setFilterChips(prev => {
+      const rest = prev.filter(c => c.type !== 'region');
+      if (value === activeRegion) return rest;
+      return [...rest, {
+        id: `region-include-${value}-${Date.now()}`,
+        type: 'region',
+        value,
+        label: `${colonist.colonist.name} · ${BODY_REGIONS[region].label}`,
+        mode: 'include',
+      }];
+    });
+  };
+
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
       case 'critical':
@@ -696,6 +538,20 @@ const MedicalAlertsCard: React.FC<MedicalAlertsCardProps> = ({
           <span className="total-alerts">
             Injured: {injuredColonists}/{totalColonists} | Total: {filteredAlerts.length}
           </span>
+          <button
+            className={`filter-btn medical-header-btn ${showBodyMap ? 'active' : ''}`}
+            onClick={() => setShowBodyMap(prev => !prev)}
+            title="Show injuries on a body diagram"
+          >
+            🧍 Body map
+          </button>
+          <button
+            className="filter-btn medical-header-btn"
+            onClick={() => setShowTriageRules(true)}
+            title="Edit the rules that grade injuries and vitals"
+          >
+            ⚙️ Triage rules
+          </button>
         </div>
       </div>
 
@@ -792,6 +648,14 @@ const MedicalAlertsCard: React.FC<MedicalAlertsCardProps> = ({
         </div>
       </div>
 
+      {showBodyMap && colonistsDetailed.length > 0 && (
+        <BodyMapPanel
+          colonistsDetailed={colonistsDetailed}
+          activeRegion={activeRegion}
+          onSelectRegion={handleSelectRegion}
+        />
+      )}
+
       <div className="medical-content">
         {filteredAlerts.length === 0 ? (
           <div className="no-alerts">
@@ -874,35 +738,17 @@ const MedicalAlertsCard: React.FC<MedicalAlertsCardProps> = ({
           </div>
         )}
       </div>
+
+      {showTriageRules && (
+        <TriageRulesModal
+          store={triageStore}
+          colonistsDetailed={colonistsDetailed}
+          onSave={handleSaveTriageRules}
+          onClose={() => setShowTriageRules(false)}
+        />
+      )}
     </div>
   );
 };
 
-// Helper functions to analyze medical conditions
-const getHediffSeverity = (hediff: Hediff): MedicalAlert['severity'] | null => {
-  const bleedRate = Number(hediff?.bleed_rate ?? 0);
-  const severityVal = Number(hediff?.severity ?? 0);
-
-  if (hediff?.bleeding && bleedRate > 0.5) return 'critical';
-  if (severityVal > 10) return 'serious';
-  if (severityVal > 5) return 'warning';
-  if (hediff?.is_tended) return 'info';
-  return 'warning';
-};
-
-const getHediffDescription = (hediff: Hediff): string => {
-  const parts: string[] = [];
-
-  if (hediff?.severity_label) parts.push(`Severity: ${hediff.severity_label}`);
-  if (hediff?.bleeding && (hediff.bleed_rate ?? 0) > 0) {
-    parts.push(`Bleeding: ${((hediff.bleed_rate ?? 0) * 100).toFixed(1)}%/day`);
-  }
-  if (hediff?.tendable_now && !hediff?.is_tended) parts.push('Needs treatment');
-  else if (hediff?.is_tended) parts.push('Treated');
-  if (hediff?.is_permanent) parts.push('Permanent');
-  if (hediff?.age_string) parts.push(`Age: ${hediff.age_string}`);
-
-  return parts.join(' • ') || 'Medical condition detected';
-};
-
 export default MedicalAlertsCard;
@@ -0,0 +1,274 @@
+// src/components/MedicalCarePanel.tsx
+import React from 'react';
+import { ColonistDetailed } from '../types';
+import { rimworldApi } from '../services/rimworldApi';
+import {
+    CARE_LEVELS,
+    MedicalSettings,
+    MedicalSettingsChange,
+    auditMedicalCare,
+    describeCareLevel,
+    getMedicalSettings,
+    loadMedicalDefaults,
+    planMedicalSettings,
+    saveMedicalDefaults,
+    toMedicalSettingsPayload,
+} from '../services/medicalCare';
+import { useToast } from './ToastContext';
+import './MedicalCarePanel.css';
+
+interface MedicalCarePanelProps {
+    colonistsDetailed: ColonistDetailed[];
+    colonyKey: string | null;
+}
+
+type SelfTendChoice = '' | 'allow' | 'forbid';
+
+const AUDIT_ICONS = { critical: '🚨', warning: '⚠️', info: 'ℹ️' };
+
+const MedicalCarePanel: React.FC<MedicalCarePanelProps> = ({ colonistsDetailed, colonyKey }) => {
+    const { addToast } = useToast();
+    const [defaults, setDefaults] = React.useState<MedicalSettings>(() => loadMedicalDefaults(colonyKey));
+    const [selected, setSelected] = React.useState<number[]>([]);
+    const [bulkCare, setBulkCare] = React.useState<string>('');
+    const [bulkSelfTend, setBulkSelfTend] = React.useState<SelfTendChoice>('');
+    const [busy, setBusy] = React.useState(false);
+    // Settings we've written since the last poll, shown until the game reports them back
+    const [pushed, setPushed] = React.useState<Record<number, MedicalSettings>>({});
+
+    React.useEffect(() => setDefaults(loadMedicalDefaults(colonyKey)), [colonyKey]);
+    React.useEffect(() => setPushed({}), [colonistsDetailed]);
+
+    const colonists = React.useMemo(() => colonistsDetailed.map(c => {
+        const override = pushed[c.colonist.id];
+        if (!override) return c;
+        return {
+            ...c,
+            colonist_medical_info: {
+                ...c.colonist_medical_info,
+                medical_policy_id: override.careLevel,
+                is_self_tend_allowed: override.selfTend,
+            },
+        };
+    }), [colonistsDetailed, pushed]);
+
+    const audit = React.useMemo(() => auditMedicalCare(colonists, defaults), [colonists, defaults]);
+    const problems = audit.filter(f => f.severity !== 'info');
+    const offDefault = new Set(audit.filter(f => f.kind === 'off-default').map(f => f.colonistId));
+    const noCare = audit.filter(f => f.kind === 'no-care');
+
+    const updateDefaults = (patch: Partial<MedicalSettings>) => {
+        const next = { ...defaults, ...patch };
+        setDefaults(next);
+        if (colonyKey) saveMedicalDefaults(colonyKey, next);
+    };
+
+    const applyChanges = async (changes: MedicalSettingsChange[], title: string) => {
+        if (changes.length === 0) {
+            addToast({ type: 'info', title, message: 'Nothing to change', duration: 2000 });
+            return;
+        }
+        setBusy(true);
+        try {
+            const [only] = changes;
+            if (changes.length === 1 && only.before.selfTend === only.after.selfTend) {
+                await rimworldApi.setColonistMedicalPolicy(only.colonistId, only.after.careLevel);
+            } else if (changes.length === 1 && only.before.careLevel === only.after.careLevel) {
+                await rimworldApi.setColonistSelfTend(only.colonistId, only.after.selfTend);
+            } else {
+                await rimworldApi.setColonistsMedicalSettings(toMedicalSettingsPayload(changes));
+            }
+            setPushed(prev => {
+                const next = { ...prev };
+                changes.forEach(c => { next[c.colonistId] = c.after; });
+                return next;
+            });
+            addToast({
+                type: 'success',
+                title,
+                message: changes.length === 1
+                    ? `${only.colonistName}: ${describeCareLevel(only.after.careLevel)}, self-tend ${only.after.selfTend ? 'on' : 'off'}`
+                    : `Updated ${changes.map(c => c.colonistName).join(', ')}`,
+                duration: 3000,
+            });
+        } catch (error) {
+            console.error('Failed to update medical settings:', error);
+            addToast({
+                type: 'error',
+                title: 'Failed to update medical settings',
+                message: error instanceof Error ? error.message : 'Unknown error occurred',
+                duration: 5000,
+            });
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleRowChange = (colonist: ColonistDetailed, patch: Partial<MedicalSettings>) =>
+        applyChanges(planMedicalSettings(colonists, [colonist.colonist.id], patch), 'Medical care updated');
+
+    const handleBulkApply = () => {
+        const patch: Partial<MedicalSettings> = {};
+        if (bulkCare !== '') patch.careLevel = Number(bulkCare);
+        if (bulkSelfTend !== '') patch.selfTend = bulkSelfTend === 'allow';
+        applyChanges(planMedicalSettings(colonists, selected, patch), 'Medical care updated');
+    };
+
+    const handleApplyDefaults = (ids: number[]) =>
+        applyChanges(planMedicalSettings(colonists, ids, defaults), 'Colony defaults applied');
+
+    const allIds = colonists.map(c => c.colonist.id);
+    const allSelected = allIds.length > 0 && allIds.every(id => selected.includes(id));
+    const toggleSelected = (id: number) =>
+        setSelected(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+
+    if (colonists.length === 0) return null;
+
+    return (
+        <div className="medical-care-panel">
+            <div className="medical-care-header">
+                <h3>🏥 Medical Care</h3>
+                <span className={`medical-care-summary ${noCare.length > 0 ? 'alert' : ''}`}>
+                    {noCare.length === 0
+                        ? 'Everyone receives care'
+                        : `${noCare.length} colonist${noCare.length === 1 ? '' : 's'} on no care`}
+                </span>
+            </div>
+
+            {problems.length > 0 && (
+                <ul className="medical-care-audit">
+                    {problems.map(f => (
+                        <li key={`${f.colonistId}-${f.kind}`} className={`medical-care-finding ${f.severity}`}>
+                            {AUDIT_ICONS[f.severity]} <strong>{f.colonistName}</strong>: {f.message}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="medical-care-defaults">
+                <span className="medical-care-label">Colony defaults</span>
+                <select
+                    aria-label="Default care level"
+                    value={defaults.careLevel}
+                    onChange={(e) => updateDefaults({ careLevel: Number(e.target.value) })}
+                >
+                    {CARE_LEVELS.map(level => (
+                        <option key={level.id} value={level.id}>{level.icon} {level.label}</option>
+                    ))}
+                </select>
+                <label className="medical-care-check">
+                    <input
+                        type="checkbox"
+                        checked={defaults.selfTend}
+                        onChange={(e) => updateDefaults({ selfTend: e.target.checked })}
+                    />
+                    Self-tend
+                </label>
+                <button className="action-btn" disabled={busy} onClick={() => handleApplyDefaults(allIds)}>
+                    Apply to all
+                </button>
+                {selected.length > 0 && (
+                    <button className="action-btn" disabled={busy} onClick={() => handleApplyDefaults(selected)}>
+                        Apply to selected
+                    </button>
+                )}
+            </div>
+
+            {selected.length > 0 && (
+                <div className="medical-care-bulk">
+                    <span className="medical-care-label">{selected.length} selected</span>
+                    <select aria-label="Bulk care level" value={bulkCare} onChange={(e) => setBulkCare(e.target.value)}>
+                        <option value="">Keep care level</option>
+                        {CARE_LEVELS.map(level => (
+                            <option key={level.id} value={level.id}>{level.icon} {level.label}</option>
+                        ))}
+                    </select>
+                    <select
+                        aria-label="Bulk self-tend"
+                        value={bulkSelfTend}
+                        onChange={(e) => setBulkSelfTend(e.target.value as SelfTendChoice)}
+                    >
+                        <option value="">Keep self-tend</option>
+                        <option value="allow">Allow self-tend</option>
+                        <option value="forbid">Forbid self-tend</option>
+                    </select>
+                    <button
+                        className="auto-assign-btn"
+                        disabled={busy || (bulkCare === '' && bulkSelfTend === '')}
+                        onClick={handleBulkApply}
+                    >
+                        Apply
+                    </button>
+                    <button className="action-btn" onClick={() => setSelected([])}>Clear</button>
+                </div>
+            )}
+
+            <table className="medical-care-table">
+                <thead>
+                    <tr>
+                        <th>
+                            <input
+                                type="checkbox"
+                                aria-label="Select all colonists"
+                                checked={allSelected}
+                                onChange={() => setSelected(allSelected ? [] : allIds)}
+                            />
+                        </th>
+                        <th>Colonist</th>
+                        <th>Health</th>
+                        <th>Care level</th>
+                        <th>Self-tend</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {colonists.map(c => {
+                        const settings = getMedicalSettings(c);
+                        const name = c.colonist.name;
+                        return (
+                            <tr key={c.colonist.id} className={settings.careLevel === 0 ? 'no-care' : ''}>
+                                <td>
+                                    <input
+                                        type="checkbox"
+                                        aria-label={`Select ${name}`}
+                                        checked={selected.includes(c.colonist.id)}
+                                        onChange={() => toggleSelected(c.colonist.id)}
+                                    />
+                                </td>
+                                <td>
+                                    {name}
+                                    {offDefault.has(c.colonist.id) && (
+                                        <span className="medical-care-badge" title="Differs from the colony defaults">custom</span>
+                                    )}
+                                </td>
+                                <td>{Math.round((c.colonist_medical_info?.health ?? 0) * 100)}%</td>
+                                <td>
+                                    <select
+                                        aria-label={`Care level for ${name}`}
+                                        value={settings.careLevel}
+                                        disabled={busy}
+                                        onChange={(e) => handleRowChange(c, { careLevel: Number(e.target.value) })}
+                                    >
+                                        {CARE_LEVELS.map(level => (
+                                            <option key={level.id} value={level.id}>{level.icon} {level.label}</option>
+                                        ))}
+                                    </select>
+                                </td>
+                                <td>
+                                    <input
+                                        type="checkbox"
+                                        aria-label={`Self-tend for ${name}`}
+                                        checked={settings.selfTend}
+                                        disabled={busy}
+                                        onChange={(e) => handleRowChange(c, { selfTend: e.target.checked })}
+                                    />
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default MedicalCarePanel;
@@ -0,0 +1,305 @@
+// src/components/OptimizerPolicyModal.tsx
+import React from 'react';
+import {
+    OptimizerPolicy,
+    OptimizerPolicyStore,
+    PRIORITY_TIERS,
+    PriorityTier,
+    WorkPolicyOverride,
+    deleteOptimizerPolicy,
+    describeWorkOverride,
+    duplicateOptimizerPolicy,
+    getOptimizerPolicy,
+    listOptimizerPolicies,
+    upsertOptimizerPolicy,
+} from '../services/optimizerPolicy';
+import './OptimizerPolicyModal.css';
+
+interface OptimizerPolicyModalProps {
+    store: OptimizerPolicyStore;
+    workNames: string[];
+    onChange: (store: OptimizerPolicyStore) => void;
+    onClose: () => void;
+}
+
+type NumericKnob = 'minLevel' | 'passionBonus' | 'busynessPenalty' | 'maxPrimary' | 'maxSecondary' | 'maxTotal';
+
+const KNOBS: { key: NumericKnob; label: string; step: number; hint: string }[] = [
+    { key: 'minLevel', label: 'Minimum skill', step: 1, hint: 'Colonists below this level are taken off the work' },
+    { key: 'passionBonus', label: 'Passion bonus', step: 0.1, hint: 'Score added for passion on skilled work' },
+    { key: 'busynessPenalty', label: 'Busyness penalty', step: 0.1, hint: 'Score removed as a colonist collects jobs' },
+    { key: 'maxPrimary', label: 'Max P1 jobs', step: 1, hint: 'Skilled jobs per colonist at priority 1' },
+    { key: 'maxSecondary', label: 'Max P2–P3 jobs', step: 1, hint: 'Skilled jobs per colonist at priority 2 or 3' },
+    { key: 'maxTotal', label: 'Max jobs', step: 1, hint: 'All jobs per colonist, basic ones included' },
+];
+
+const OptimizerPolicyModal: React.FC<OptimizerPolicyModalProps> = ({ store, workNames, onChange, onClose }) => {
+    const policies = listOptimizerPolicies(store);
+    const [selectedId, setSelectedId] = React.useState(store.activeId);
+    const [newOverrideWork, setNewOverrideWork] = React.useState('');
+
+    const policy = getOptimizerPolicy(store, selectedId);
+    const readOnly = Boolean(policy.builtIn);
+
+    const update = (patch: Partial<OptimizerPolicy>) => {
+        if (readOnly) return;
+        onChange(upsertOptimizerPolicy(store, { ...policy, ...patch }));
+    };
+
+    const updateStaffing = (tier: PriorityTier, field: 'perColonists' | 'min' | 'max', value: number) => {
+        update({ staffing: { ...policy.staffing, [tier]: { ...policy.staffing[tier], [field]: value } } });
+    };
+
+    const updateOverride = (work: string, patch: Partial<WorkPolicyOverride>) => {
+        const merged: WorkPolicyOverride = { ...policy.overrides[work], ...patch };
+        // Drop cleared fields so saved profiles stay small
+        (Object.keys(merged) as (keyof WorkPolicyOverride)[]).forEach(key => {
+            if (merged[key] === undefined || merged[key] === false) delete merged[key];
+        });
+        update({ overrides: { ...policy.overrides, [work]: merged } });
+    };
+
+    const removeOverride = (work: string) => {
+        const { [work]: _removed, ...rest } = policy.overrides;
+        update({ overrides: rest });
+    };
+
+    const handleDuplicate = () => {
+        const copy = duplicateOptimizerPolicy(policy);
+        onChange(upsertOptimizerPolicy(store, copy));
+        setSelectedId(copy.id);
+    };
+
+    const handleDelete = () => {
+        if (readOnly) return;
+        if (!window.confirm(`Delete the "${policy.name}" profile?`)) return;
+        onChange(deleteOptimizerPolicy(store, policy.id));
+        setSelectedId(store.activeId === policy.id ? policies[0].id : store.activeId);
+    };
+
+    const optionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+    const availableWorks = workNames.filter(w => !(w in policy.overrides));
+
+    return (
+        <div className="overflow-modal-overlay" onClick={onClose}>
+            <div className="optimizer-policy-modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <div className="modal-title">
+                        <span className="work-icon">⚙️</span>
+                        <h3>Optimizer Policies</h3>
+                    </div>
+                    <button className="close-modal-btn" onClick={onClose} aria-label="Close">×</button>
+                </div>
+
+                <div className="optimizer-policy-layout">
+                    <div className="optimizer-policy-list">
+                        {policies.map(p => (
+                            <button
+                                key={p.id}
+                                className={`optimizer-policy-item ${p.id === selectedId ? 'selected' : ''}`}
+                                onClick={() => setSelectedId(p.id)}
+                            >
+                                <span>{p.builtIn ? '🔒' : '✏️'} {p.name}</span>
+                                {p.id === store.activeId && <span className="optimizer-policy-active">active</span>}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="optimizer-policy-editor">
+                        {readOnly && (
+                            <div className="optimizer-policy-hint">
+                                Built-in profiles can't be edited. Duplicate this one to customise it.
+                            </div>
+                        )}
+
+                        <div className="optimizer-policy-field">
+                            <label>Name</label>
+                            <input
+                                type="text"
+                                value={policy.name}
+                                disabled={readOnly}
+                                onChange={(e) => update({ name: e.target.value })}
+                            />
+                        </div>
+                        <div className="optimizer-policy-field">
+                            <label>Description</label>
+                            <input
+                                type="text"
+                                value={policy.description}
+                                disabled={readOnly}
+                                onChange={(e) => update({ description: e.target.value })}
+                            />
+                        </div>
+
+                        <h4>Scoring and job caps</h4>
+                        <div className="optimizer-policy-knobs">
+                            {KNOBS.map(knob => (
+                                <div key={knob.key} className="optimizer-policy-field" title={knob.hint}>
+                                    <label>{knob.label}</label>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        step={knob.step}
+                                        value={policy[knob.key]}
+                                        disabled={readOnly}
+                                        onChange={(e) => update({ [knob.key]: Number(e.target.value) } as Partial<OptimizerPolicy>)}
+                                    />
+                                </div>
+                            ))}
+                            <label className="optimizer-policy-checkbox" title="Only colonists with passion get priority 1 on skilled work">
+                                <input
+                                    type="checkbox"
+                                    checked={policy.primaryNeedsPassion}
+                                    disabled={readOnly}
+                                    onChange={(e) => update({ primaryNeedsPassion: e.target.checked })}
+                                />
+                                P1 needs passion
+                            </label>
+                        </div>
+
+                        <h4>Staffing per work type</h4>
+                        <table className="optimizer-policy-table">
+                            <thead>
+                                <tr>
+                                    <th>Tier</th>
+                                    <th title="One colonist per this many colonists">1 per</th>
+                                    <th>Min</th>
+                                    <th>Max</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {PRIORITY_TIERS.map(tier => (
+                                    <tr key={tier}>
+                                        <td>{tier.toUpperCase()}</td>
+                                        {(['perColonists', 'min', 'max'] as const).map(field => (
+                                            <td key={field}>
+                                                <input
+                                                    type="number"
+                                                    min={field === 'perColonists' ? 1 : 0}
+                                                    value={policy.staffing[tier][field]}
+                                                    disabled={readOnly}
+                                                    onChange={(e) => updateStaffing(tier, field, Number(e.target.value))}
+                                                />
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+
+                        <h4>Work type overrides</h4>
+                        <table className="optimizer-policy-table">
+                            <thead>
+                                <tr>
+                                    <th>Work</th>
+                                    <th>Min skill</th>
+                                    {PRIORITY_TIERS.map(tier => <th key={tier}>≥ at {tier.toUpperCase()}</th>)}
+                                    <th title="Colonists picked at P1 get no other skilled work">Dedicated</th>
+                                    <th title="Every capable colonist gets this work">Everyone at</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {Object.entries(policy.overrides).map(([work, override]) => (
+                                    <tr key={work} title={describeWorkOverride(override)}>
+                                        <td>{work}</td>
+                                        <td>
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                max={20}
+                                                placeholder={String(policy.minLevel)}
+                                                value={override.minLevel ?? ''}
+                                                disabled={readOnly}
+                                                onChange={(e) => updateOverride(work, { minLevel: optionalNumber(e.target.value) })}
+                                            />
+                                        </td>
+                                        {PRIORITY_TIERS.map(tier => (
+                                            <td key={tier}>
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    value={override.minCounts?.[tier] ?? ''}
+                                                    disabled={readOnly}
+                                                    onChange={(e) => updateOverride(work, {
+                                                        minCounts: { ...override.minCounts, [tier]: optionalNumber(e.target.value) },
+                                                    })}
+                                                />
+                                            </td>
+                                        ))}
+                                        <td>
+                                            <input
+                                                type="checkbox"
+                                                checked={Boolean(override.dedicated)}
+                                                disabled={readOnly}
+                                                onChange={(e) => updateOverride(work, { dedicated: e.target.checked })}
+                                            />
+                                        </td>
+                                        <td>
+                                            <select
+                                                value={override.forcePriority ?? ''}
+                                                disabled={readOnly}
+                                                onChange={(e) => updateOverride(work, {
+                                                    forcePriority: optionalNumber(e.target.value) as WorkPolicyOverride['forcePriority'],
+                                                })}
+                                            >
+                                                <option value="">—</option>
+                                                {[1, 2, 3, 4].map(p => <option key={p} value={p}>{p}</option>)}
+                                            </select>
+                                        </td>
+                                        <td>
+                                            {!readOnly && (
+                                                <button className="optimizer-policy-remove" onClick={() => removeOverride(work)} title="Remove override">
+                                                    🗑️
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {!readOnly && (
+                            <div className="optimizer-policy-add">
+                                <select value={newOverrideWork} onChange={(e) => setNewOverrideWork(e.target.value)}>
+                                    <option value="">Choose a work type…</option>
+                                    {availableWorks.map(w => <option key={w} value={w}>{w}</option>)}
+                                </select>
+                                <button
+                                    className="auto-assign-btn"
+                                    disabled={!newOverrideWork}
+                                    onClick={() => {
+                                        updateOverride(newOverrideWork, {});
+                                        setNewOverrideWork('');
+                                    }}
+                                >
+                                    ➕ Add override
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                <div className="optimizer-policy-footer">
+                    <button className="auto-assign-btn" onClick={handleDuplicate}>
+                        📄 Duplicate
+                    </button>
+                    {!readOnly && (
+                        <button className="auto-assign-btn" onClick={handleDelete}>
+                            🗑️ Delete
+                        </button>
+                    )}
+                    <button
+                        className="auto-assign-btn optimizer-policy-use"
+                        disabled={policy.id === store.activeId}
+                        onClick={() => onChange({ ...store, activeId: policy.id })}
+                    >
+                        {policy.id === store.activeId ? 'Active profile' : 'Use this profile'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default OptimizerPolicyModal;
@@ -0,0 +1,142 @@
+// src/components/OptimizerPreviewModal.tsx
+import React from 'react';
+import { OptimizerProposal, describeOptimizerReason } from '../services/rimworldWork';
+import './OptimizerPreviewModal.css';
+
+interface OptimizerPreviewModalProps {
+    proposals: OptimizerProposal[];
+    busy?: boolean;
+    onApply: (accepted: OptimizerProposal[]) => void;
+    onClose: () => void;
+}
+
+const proposalKey = (p: OptimizerProposal) => `${p.colonistId}::${p.workTypeId}`;
+
+const priorityLabel = (priority: number) => (priority > 0 ? String(priority) : '–');
+
+const OptimizerPreviewModal: React.FC<OptimizerPreviewModalProps> = ({
+    proposals,
+    busy = false,
+    onApply,
+    onClose,
+}) => {
+    // Everything starts accepted; the review is about opting out
+    const [accepted, setAccepted] = React.useState<Set<string>>(
+        () => new Set(proposals.map(proposalKey))
+    );
+
+    const byColonist = React.useMemo(() => {
+        const groups = new Map<number, { name: string; proposals: OptimizerProposal[] }>();
+        proposals.forEach(p => {
+            const group = groups.get(p.colonistId) ?? { name: p.colonistName, proposals: [] };
+            group.proposals.push(p);
+            groups.set(p.colonistId, group);
+        });
+        return Array.from(groups.entries())
+            .map(([id, group]) => ({
+                id,
+                name: group.name,
+                proposals: group.proposals.sort((a, b) => a.work.localeCompare(b.work)),
+            }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }, [proposals]);
+
+    const setMany = (items: OptimizerProposal[], on: boolean) => {
+        setAccepted(prev => {
+            const next = new Set(prev);
+            items.forEach(p => (on ? next.add(proposalKey(p)) : next.delete(proposalKey(p))));
+            return next;
+        });
+    };
+
+    const acceptedProposals = proposals.filter(p => accepted.has(proposalKey(p)));
+
+    return (
+        <div className="overflow-modal-overlay" onClick={onClose}>
+            <div className="optimizer-preview-modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <div className="modal-title">
+                        <span className="work-icon">🧠</span>
+                        <h3>Review Optimizer Changes</h3>
+                    </div>
+                    <button className="close-modal-btn" onClick={onClose} aria-label="Close">×</button>
+                </div>
+
+                <div className="optimizer-preview-toolbar">
+                    <span>
+                        {acceptedProposals.length} of {proposals.length} change{proposals.length === 1 ? '' : 's'} selected
+                    </span>
+                    <button className="auto-assign-btn" onClick={() => setMany(proposals, true)} disabled={busy}>
+                        Accept all
+                    </button>
+                    <button className="auto-assign-btn" onClick={() => setMany(proposals, false)} disabled={busy}>
+                        Reject all
+                    </button>
+                </div>
+
+                <div className="optimizer-preview-body">
+                    {proposals.length === 0 ? (
+                        <div className="optimizer-preview-empty">Priorities already match the optimizer's picks.</div>
+                    ) : byColonist.map(group => {
+                        const acceptedCount = group.proposals.filter(p => accepted.has(proposalKey(p))).length;
+                        const allAccepted = acceptedCount === group.proposals.length;
+                        return (
+                            <div key={group.id} className="optimizer-preview-colonist">
+                                <label className="optimizer-preview-colonist-header">
+                                    <input
+                                        type="checkbox"
+                                        checked={allAccepted}
+                                        ref={(el) => { if (el) el.indeterminate = acceptedCount > 0 && !allAccepted; }}
+                                        onChange={() => setMany(group.proposals, !allAccepted)}
+                                        disabled={busy}
+                                    />
+                                    <span className="optimizer-preview-name">{group.name}</span>
+                                    <span className="optimizer-preview-count">
+                                        {acceptedCount}/{group.proposals.length}
+                                    </span>
+                                </label>
+
+                                {group.proposals.map(p => {
+                                    const key = proposalKey(p);
+                                    return (
+                                        <label
+                                            key={key}
+                                            className={`optimizer-preview-change ${accepted.has(key) ? '' : 'rejected'}`}
+                                        >
+                                            <input
+                                                type="checkbox"
+                                                checked={accepted.has(key)}
+                                                onChange={() => setMany([p], !accepted.has(key))}
+                                                disabled={busy}
+                                            />
+                                            <span className="optimizer-preview-work">{p.work}</span>
+                                            <span className={`priority-badge priority-${p.before}`}>{priorityLabel(p.before)}</span>
+                                            <span className={p.after === 0 ? 'diff-removed' : p.before === 0 ? 'diff-added' : 'diff-changed'}>→</span>
+                                            <span className={`priority-badge priority-${p.after}`}>{priorityLabel(p.after)}</span>
+                                            <span className="optimizer-preview-reason">{describeOptimizerReason(p.reason)}</span>
+                                        </label>
+                                    );
+                                })}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="optimizer-preview-footer">
+                    <button className="auto-assign-btn" onClick={onClose} disabled={busy}>
+                        Cancel
+                    </button>
+                    <button
+                        className="auto-assign-btn optimizer-preview-apply"
+                        onClick={() => onApply(acceptedProposals)}
+                        disabled={busy || acceptedProposals.length === 0}
+                    >
+                        {busy ? 'Applying…' : `Apply ${acceptedProposals.length} change${acceptedProposals.length === 1 ? '' : 's'}`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default OptimizerPreviewModal;
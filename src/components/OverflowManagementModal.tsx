@@ -1,74 +1,11 @@
 // src/components/OverflowManagementModal.tsx
 import React from 'react';
-import { Colonist, ColonistDetailed, Skill as SkillType, Trait } from '../types';
+import { Colonist, ColonistDetailed, Skill as SkillType } from '../types';
 import './OverflowManagementModal.css';
 import { useImageCache } from './ImageCacheContext';
-
-// ---- WorkTags bitmask (from your enum) ----
-const WorkTags = {
-    None: 0,
-    ManualDumb: 2,
-    ManualSkilled: 4,
-    Violent: 8,
-    Caring: 0x10,
-    Social: 0x20,
-    Commoner: 0x40,
-    Intellectual: 0x80,
-    Animals: 0x100,
-    Artistic: 0x200,
-    Crafting: 0x400,
-    Cooking: 0x800,
-    Firefighting: 0x1000,
-    Cleaning: 0x2000,
-    Hauling: 0x4000,
-    PlantWork: 0x8000,
-    Mining: 0x10000,
-    Hunting: 0x20000,
-    Constructing: 0x40000,
-    Shooting: 0x80000,
-    AllWork: 0x100000,
-} as const;
-
-// Work type -> relevant skills (unchanged)
-const WORKTYPE_TO_SKILLS: Record<string, string[]> = {
-    doctor: ['Medicine'],
-    construction: ['Construction'],
-    mining: ['Mining'],
-    growing: ['Plants', 'Growing'],
-    cooking: ['Cooking'],
-    research: ['Intellectual'],
-    warden: ['Social'],
-    handling: ['Animals'],
-    crafting: ['Crafting'],
-    smithing: ['Crafting'],
-    tailoring: ['Crafting'],
-    art: ['Artistic'],
-    // firefighter/patient/hauling/cleaning: no direct skill
-};
-
-// NEW: Work type -> WorkTags that can block this job
-const WORKTYPE_TO_TAGS: Record<string, number[]> = {
-    firefighter: [WorkTags.Firefighting],
-    patient: [], // leave empty; being incapable of Caring might be relevant, but patient is special
-    doctor: [WorkTags.Caring],
-    construction: [WorkTags.Constructing],
-    mining: [WorkTags.Mining],
-    growing: [WorkTags.PlantWork],
-    cooking: [WorkTags.Cooking],
-    research: [WorkTags.Intellectual],
-    warden: [WorkTags.Social],
-    handling: [WorkTags.Animals],
-    crafting: [WorkTags.Crafting],
-    art: [WorkTags.Artistic],
-    smithing: [WorkTags.Crafting],
-    tailoring: [WorkTags.Crafting],
-    hauling: [WorkTags.Hauling],
-    cleaning: [WorkTags.Cleaning],
-};
-
-function getRelevantSkillNamesForWorkType(workTypeId: string): string[] {
-    return WORKTYPE_TO_SKILLS[workTypeId] || [];
-}
+import { getAffectingTraits } from '../services/rimworldWork';
+import { describeWorkImpact, getIncapabilityReason, getWorkImpacts, isWorkTypeDisabled } from '../services/workTraits';
+import { getRelevantSkills } from '../services/workTypeRegistry';
 
 function getBestSkillLevel(
     skills: SkillType[] | undefined,
@@ -85,22 +22,8 @@ function getBestSkillLevel(
     return best ? best : { level: null, name: null };
 }
 
-// NEW: collect all disabled tags from a pawn's skills (bitwise OR)
-function aggregateDisabledTags(skills: SkillType[] | undefined): number {
-    if (!skills) return 0;
-    return skills.reduce((mask, s) => mask | (s.disabled_work_tags ?? 0), 0);
-}
-
-// NEW: check if any tag required by this work type is disabled
-function isDisabledForWorkTypeByTags(skills: SkillType[] | undefined, workTypeId: string): boolean {
-    const tags = WORKTYPE_TO_TAGS[workTypeId] || [];
-    if (!tags.length) return false;
-    const mask = aggregateDisabledTags(skills);
-    return tags.some(tag => (mask & tag) !== 0);
-}
-
 interface OverflowManagementModalProps {
-    workType: { id: string; name: string; icon: string };
+    workType: { id: string; name: string; icon: string; label?: string };
     colonists: any[]; // assignments: { colonist, priority, skills, detailed? }
     allColonists: ColonistDetailed[];
     onClose: () => void;
@@ -108,13 +31,6 @@ interface OverflowManagementModalProps {
     onRemoveColonist: (workTypeId: string, colonist: Colonist) => void;
 }
 
-// placeholder for future logic: decide which traits affect this work type
-function getAffectingTraits(_workTypeId: string, traits: Trait[] | undefined): string[] {
-    // TODO: real logic later; for now, return [] but typed as string[]
-    const affecting: Trait[] = (traits ?? []).filter(() => false);
-    return affecting.map(t => t.label || t.name);
-}
-
 const OverflowManagementModal: React.FC<OverflowManagementModalProps> = ({
     workType,
     colonists,
@@ -142,7 +58,7 @@ const OverflowManagementModal: React.FC<OverflowManagementModalProps> = ({
 
     // Sorting by best relevant skill
     const sortedColonists = React.useMemo(() => {
-        const names = getRelevantSkillNamesForWorkType(workType.id);
+        const names = getRelevantSkills(workType.name);
         if (!names.length) return colonists.slice();
         const list = colonists.slice().sort((a, b) => {
             const A = getBestSkillLevel(a.skills, names).level ?? -1;
@@ -150,10 +66,12 @@ const OverflowManagementModal: React.FC<OverflowManagementModalProps> = ({
             return sortDir === 'asc' ? A - B : B - A;
         });
         return list;
-    }, [colonists, workType.id, sortDir]);
+    }, [colonists, workType.name, sortDir]);
 
     const handleBulkPriorityChange = (newPriority: number) => {
         sortedColonists.forEach(col => {
+            // Incapable colonists can only be turned off
+            if (newPriority > 0 && isWorkTypeDisabled(col.detailed, workType.name)) return;
             onPriorityChange(workType.id, col.colonist.id, newPriority);
         });
     };
@@ -170,7 +88,7 @@ const OverflowManagementModal: React.FC<OverflowManagementModalProps> = ({
                 <div className="modal-header">
                     <div className="modal-title">
                         <span className="work-icon">{workType.icon}</span>
-                        <h3>Manage {workType.name} Assignments</h3>
+                        <h3>Manage {workType.label ?? workType.name} Assignments</h3>
                     </div>
                     <button className="close-modal-btn" onClick={onClose}>×</button>
                 </div>
@@ -278,15 +196,20 @@ const OverflowManagementModal: React.FC<OverflowManagementModalProps> = ({
                         <div className="add-colonist-panel">
                             <h4>Add Colonist</h4>
                             <div className="available-colonists">
-                                {availableColonists.slice(0, 5).map(colonist => (
-                                    <button
-                                        key={colonist.colonist.id}
-                                        className="available-colonist-btn"
-                                        onClick={() => handleAddColonist(colonist)}
-                                    >
-                                        {colonist.colonist.name}
-                                    </button>
-                                ))}
+                                {availableColonists.slice(0, 5).map(colonist => {
+                                    const incapable = getIncapabilityReason(colonist, workType.name);
+                                    return (
+                                        <button
+                                            key={colonist.colonist.id}
+                                            className="available-colonist-btn"
+                                            onClick={() => handleAddColonist(colonist)}
+                                            disabled={incapable !== null}
+                                            title={incapable ?? undefined}
+                                        >
+                                            {incapable ? '🚫 ' : ''}{colonist.colonist.name}
+                                        </button>
+                                    );
+                                })}
                             </div>
                         </div>
                     </div>
@@ -318,7 +241,7 @@ const ColonistGridCard: React.FC<{
     imageUrl,
     fetchImage
 }) => {
-        const relevantNames = getRelevantSkillNamesForWorkType(workTypeId);
+        const relevantNames = getRelevantSkills(workTypeName);
         const best = getBestSkillLevel(assignment.skills, relevantNames);
 
         // Grab traits list from detailed info
@@ -336,14 +259,13 @@ const ColonistGridCard: React.FC<{
             onPriorityChange(workTypeId, assignment.colonist.id, newPriority);
         };
 
-        const affectingTraits = getAffectingTraits(
-            workTypeId,
-            assignment?.detailed?.colonist_work_info?.traits
-        );
+        const affectingTraits = getAffectingTraits(workTypeName, assignment?.detailed);
+        const impacts = getWorkImpacts(assignment?.detailed, workTypeName);
+        const incapable = impacts.filter(i => i.kind === 'incapable');
 
         return (
             <div
-                className={`colonist-card ${isSelected ? 'selected' : ''}`}
+                className={`colonist-card ${isSelected ? 'selected' : ''} ${incapable.length ? 'incapable' : ''}`}
                 onClick={() => onSelect(assignment)}
                 title={best.name ? `${best.name}: ${best.level ?? '—'}` : 'No relevant skill'}
             >
@@ -381,14 +303,20 @@ const ColonistGridCard: React.FC<{
                             {best.name ? `${best.name}: ${best.level ?? '—'}` : 'No relevant skill'}
                         </span>
 
+                        {incapable.length > 0 && (
+                            <span className="chip chip-incapable" title={incapable.map(describeWorkImpact).join('\n')}>
+                                🚫 Incapable
+                            </span>
+                        )}
+
                         {/* SHOW TRAITS CHIP ONLY IF TRAITS EXIST */}
                         {hasTraits && (
                             <span
                                 className={`chip chip-traits ${affectingTraits.length ? 'chip-attention' : ''}`}
                                 title={
                                     affectingTraits.length
-                                        ? `Potentially affecting: ${affectingTraits.join(', ')}`
-                                        : 'No known trait impact (TBD)'
+                                        ? impacts.filter(i => i.fromTrait).map(describeWorkImpact).join('\n')
+                                        : 'No known trait impact'
                                 }
                             >
                                 Traits {affectingTraits.length ? `(${affectingTraits.length})` : '(—)'}
@@ -417,9 +345,8 @@ const SelectedColonistInfo: React.FC<any> = ({
     onPriorityChange
 }) => {
     const skills = assignment.skills || [];
-    const relevantSkills = skills.filter((skill: any) =>
-        skill.level > 0 && ['Construction', 'Mining', 'Crafting', 'Plants', 'Animals', 'Medicine', 'Social', 'Intellectual'].includes(skill.name)
-    );
+    const relevantNames = getRelevantSkills(workType.name);
+    const relevantSkills = skills.filter((skill: any) => skill.level > 0 && relevantNames.includes(skill.name));
 
     return (
         <div className="selected-colonist-info">
@@ -0,0 +1,73 @@
+// src/components/ProfileSwitcher.tsx
+import React from 'react';
+import { ServerProfile } from '../services/serverProfiles';
+import './ProfileSwitcher.css';
+
+interface ProfileSwitcherProps {
+  profile: ServerProfile;
+  profiles: ServerProfile[];
+  onSwitch: (profile: ServerProfile) => void;
+  onManage: () => void;
+}
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profile, profiles, onSwitch, onManage }) => {
+  const [open, setOpen] = React.useState(false);
+  const panelRef = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  return (
+    <div className="profile-switcher" ref={panelRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="refresh-btn profile-switcher-btn"
+        style={{ borderColor: profile.color }}
+        title={profile.url}
+      >
+        <span className="profile-switcher-dot" style={{ background: profile.color }} />
+        {profile.label} ▾
+      </button>
+
+      {open && (
+        <div className="profile-switcher-panel">
+          {profiles.map(p => (
+            <button
+              key={p.id}
+              className={`profile-switcher-item ${p.id === profile.id ? 'active' : ''}`}
+              onClick={() => {
+                setOpen(false);
+                if (p.id !== profile.id) onSwitch(p);
+              }}
+            >
+              <span className="profile-switcher-dot" style={{ background: p.color }} />
+              <span className="profile-switcher-text">
+                <span>{p.label}</span>
+                <span className="profile-switcher-url">{p.url}</span>
+              </span>
+            </button>
+          ))}
+          <button
+            className="profile-switcher-item manage"
+            onClick={() => {
+              setOpen(false);
+              onManage();
+            }}
+          >
+            ⚙️ Manage servers...
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
@@ -0,0 +1,104 @@
+// src/components/RefreshSchedulerContext.tsx
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
+import {
+    RefreshResource,
+    RefreshSettings,
+    RefreshStatus,
+    computeRefreshStatus,
+    loadRefreshSettings,
+    saveRefreshSettings,
+} from '../services/refreshScheduler';
+
+interface RefreshSchedulerContextType {
+    settings: RefreshSettings;
+    updateSettings: (patch: Partial<RefreshSettings>) => void;
+    gamePaused: boolean;
+    setGamePaused: (paused: boolean) => void;
+    hidden: boolean;
+}
+
+const RefreshSchedulerContext = createContext<RefreshSchedulerContextType | undefined>(undefined);
+
+const isDocumentHidden = () => typeof document !== 'undefined' && document.visibilityState === 'hidden';
+
+export const RefreshSchedulerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [settings, setSettings] = useState<RefreshSettings>(loadRefreshSettings);
+    const [gamePaused, setGamePaused] = useState(false);
+    const [hidden, setHidden] = useState(isDocumentHidden);
+
+    useEffect(() => {
+        const handleVisibility = () => setHidden(isDocumentHidden());
+        document.addEventListener('visibilitychange', handleVisibility);
+        return () => document.removeEventListener('visibilitychange', handleVisibility);
+    }, []);
+
+    const updateSettings = useCallback((patch: Partial<RefreshSettings>) => {
+        setSettings(prev => {
+            const next = { ...prev, ...patch };
+            saveRefreshSettings(next);
+            return next;
+        });
+    }, []);
+
+    return (
+        <RefreshSchedulerContext.Provider value={{ settings, updateSettings, gamePaused, setGamePaused, hidden }}>
+            {children}
+        </RefreshSchedulerContext.Provider>
+    );
+};
+
+export const useRefreshScheduler = () => {
+    const context = useContext(RefreshSchedulerContext);
+    if (context === undefined) {
+        throw new Error('useRefreshScheduler must be used within a RefreshSchedulerProvider');
+    }
+    return context;
+};
+
+/**
+ * Runs `task` on the schedule configured for `resource`.
+ * The task signals failure by throwing or resolving to `false`, which backs the schedule off.
+ */
+export const useScheduledRefresh = (
+    resource: RefreshResource,
+    task: () => Promise<boolean | void>,
+): RefreshStatus => {
+    const { settings, gamePaused, hidden } = useRefreshScheduler();
+    const [failures, setFailures] = useState(0);
+    const [runs, setRuns] = useState(0);
+    const taskRef = useRef(task);
+    const wasIdleRef = useRef(false);
+
+    useEffect(() => {
+        taskRef.current = task;
+    }, [task]);
+
+    const status = computeRefreshStatus(resource, settings, { failures, gamePaused, hidden });
+    const idle = status.state === 'disabled' || status.state === 'hidden';
+
+    useEffect(() => {
+        if (idle) {
+            wasIdleRef.current = true;
+            return;
+        }
+
+        // Catch up straight away when coming back from a hidden tab or a disabled schedule
+        const delay = wasIdleRef.current ? 0 : status.delayMs;
+        wasIdleRef.current = false;
+
+        const timeoutId = setTimeout(async () => {
+            let ok = true;
+            try {
+                ok = (await taskRef.current()) !== false;
+            } catch {
+                ok = false;
+            }
+            setFailures(prev => (ok ? 0 : prev + 1));
+            setRuns(prev => prev + 1);
+        }, delay);
+
+        return () => clearTimeout(timeoutId);
+    }, [idle, status.delayMs, runs]);
+
+    return status;
+};
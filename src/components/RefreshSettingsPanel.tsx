@@ -0,0 +1,123 @@
+// src/components/RefreshSettingsPanel.tsx
+import React from 'react';
+import { useRefreshScheduler } from './RefreshSchedulerContext';
+import {
+  REFRESH_INTERVAL_OPTIONS,
+  REFRESH_RESOURCE_LABELS,
+  RefreshResource,
+  RefreshStatus,
+  formatInterval,
+} from '../services/refreshScheduler';
+import './RefreshSettingsPanel.css';
+
+interface RefreshSettingsPanelProps {
+  status: RefreshStatus;
+}
+
+export const describeRefreshStatus = (status: RefreshStatus): string => {
+  const every = formatInterval(status.delayMs);
+  switch (status.state) {
+    case 'disabled':
+      return 'Auto-refresh off';
+    case 'hidden':
+      return 'Paused while tab is hidden';
+    case 'game-paused':
+      return `Game paused, refreshing every ${every}`;
+    case 'backoff':
+      return `API errors, retrying every ${every}`;
+    case 'running':
+    default:
+      return `Auto-refreshing every ${every}`;
+  }
+};
+
+const RefreshSettingsPanel: React.FC<RefreshSettingsPanelProps> = ({ status }) => {
+  const { settings, updateSettings } = useRefreshScheduler();
+  const [open, setOpen] = React.useState(false);
+  const panelRef = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const setResourceInterval = (resource: RefreshResource, ms: number) => {
+    updateSettings({ intervals: { ...settings.intervals, [resource]: ms } });
+  };
+
+  return (
+    <div className="refresh-settings" ref={panelRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className={`auto-refresh-btn ${status.state === 'running' ? 'active' : ''} state-${status.state}`}
+        title={describeRefreshStatus(status)}
+      >
+        ⏱️ {settings.enabled ? formatInterval(status.delayMs) : 'OFF'}
+      </button>
+
+      {open && (
+        <div className="refresh-settings-panel">
+          <div className="refresh-settings-header">
+            <h4>Refresh Settings</h4>
+            <label className="refresh-toggle">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(e) => updateSettings({ enabled: e.target.checked })}
+              />
+              <span>Auto-refresh</span>
+            </label>
+          </div>
+
+          <div className="refresh-settings-section">
+            {(Object.keys(REFRESH_RESOURCE_LABELS) as RefreshResource[]).map(resource => (
+              <div key={resource} className="refresh-setting-row">
+                <span>{REFRESH_RESOURCE_LABELS[resource]}</span>
+                <select
+                  value={settings.intervals[resource]}
+                  onChange={(e) => setResourceInterval(resource, Number(e.target.value))}
+                  disabled={!settings.enabled}
+                >
+                  {REFRESH_INTERVAL_OPTIONS.map(ms => (
+                    <option key={ms} value={ms}>Every {formatInterval(ms)}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="refresh-settings-section">
+            <label className="refresh-toggle">
+              <input
+                type="checkbox"
+                checked={settings.pauseWhenHidden}
+                onChange={(e) => updateSettings({ pauseWhenHidden: e.target.checked })}
+              />
+              <span>Pause while the browser tab is hidden</span>
+            </label>
+            <label className="refresh-toggle">
+              <input
+                type="checkbox"
+                checked={settings.slowWhenGamePaused}
+                onChange={(e) => updateSettings({ slowWhenGamePaused: e.target.checked })}
+              />
+              <span>Slow down ×{settings.gamePausedMultiplier} while the game is paused</span>
+            </label>
+          </div>
+
+          <div className="refresh-settings-hint">
+            Failed requests back off up to ×{settings.maxErrorBackoffMultiplier} the interval.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RefreshSettingsPanel;
@@ -5,6 +5,7 @@ import { ResourcesData, ResourceItem, Colonist } from '../types';
 import './ResourcesDashboard.css';
 import { useToast } from './ToastContext';
 import { useImageCache } from './ImageCacheContext';
+import { useScheduledRefresh } from './RefreshSchedulerContext';
 
 interface SortOption {
     field: 'name' | 'amount' | 'value' | 'quality' | 'hitPoints' | 'category' | 'type';
@@ -71,7 +72,11 @@ type DisplayItem =
     | { type: 'group'; data: ResourceGroup; label: string; category: string; totalCount: number; totalValue: number; }
     | { type: 'individual'; data: ResourceItem & { category: string }; label: string; category: string; totalCount: number; totalValue: number; };
 
-export const ResourcesDashboard: React.FC = () => {
+interface ResourcesDashboardProps {
+    mapId?: number;
+}
+
+export const ResourcesDashboard: React.FC<ResourcesDashboardProps> = ({ mapId = 0 }) => {
     const [resourcesData, setResourcesData] = useState<ResourcesData | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
@@ -135,19 +140,21 @@ export const ResourcesDashboard: React.FC = () => {
     const qualityOptions = ['awful', 'poor', 'normal', 'good', 'excellent', 'masterwork', 'legendary', 'none'];
 
     // Fetch resources data
-    const fetchResources = async () => {
+    const fetchResources = useCallback(async () => {
         try {
             setLoading(true);
-            const data = await rimworldApi.getResourcesStored();
+            const data = await rimworldApi.getResourcesStored(mapId);
             setResourcesData(data);
             setError(null);
+            return true;
         } catch (err) {
             setError('Failed to fetch resources data');
             console.error('Error fetching resources:', err);
+            return false;
         } finally {
             setLoading(false);
         }
-    };
+    }, [mapId]);
 
     useEffect(() => {
         const fetchPawnsForModal = async () => {
@@ -187,7 +194,8 @@ export const ResourcesDashboard: React.FC = () => {
             const result = await rimworldApi.assignItemToPawn(
                 selectedItem.thing_id.toString(),
                 itemCategory ?? "none",
-                pawnId
+                pawnId,
+                mapId
             );
             if (result.success) {
                 setAssignModalOpen(false);
@@ -934,9 +942,9 @@ export const ResourcesDashboard: React.FC = () => {
     // Initial data fetch
     useEffect(() => {
         fetchResources();
-        const interval = setInterval(fetchResources, 10000);
-        return () => clearInterval(interval);
-    }, []);
+    }, [fetchResources]);
+
+    useScheduledRefresh('resources', fetchResources);
 
     // Fetch item image
     useEffect(() => {
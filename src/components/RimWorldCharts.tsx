@@ -12,8 +12,9 @@ import {
   Tooltip,
   Legend,
 } from 'chart.js';
-import { Bar, Doughnut } from 'react-chartjs-2';
+import { Bar, Doughnut, Line } from 'react-chartjs-2';
 import { Colonist, ResourceSummary, CreaturesSummary, PowerInfo } from '../types';
+import { DiseaseForecast, LETHAL_SEVERITY, TICKS_PER_DAY, TICKS_PER_HOUR } from '../services/diseaseProgression';
 
 
 ChartJS.register(
@@ -221,6 +222,154 @@ export const PopulationChart: React.FC<PopulationChartProps> = ({ creatures }) =
   return <Bar data={data} options={chartOptions} />;
 };
 
+// Chart 5: Metric history over time
+export interface HistorySeries {
+  label: string;
+  values: (number | null)[];
+  color: string;
+}
+
+interface MetricHistoryChartProps {
+  timestamps: number[];
+  series: HistorySeries[];
+  unit?: string;
+}
+
+export const MetricHistoryChart: React.FC<MetricHistoryChartProps> = ({ timestamps, series, unit }) => {
+  if (timestamps.length === 0) {
+    return <div className="no-data">No history recorded yet</div>;
+  }
+
+  const spansDays = timestamps[timestamps.length - 1] - timestamps[0] > 24 * 60 * 60 * 1000;
+  const labels = timestamps.map(t => {
+    const d = new Date(t);
+    return spansDays
+      ? d.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+      : d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  });
+
+  const data = {
+    labels,
+    datasets: series.map(s => ({
+      label: s.label,
+      data: s.values,
+      borderColor: s.color,
+      backgroundColor: s.color,
+      borderWidth: 2,
+      pointRadius: 0,
+      tension: 0.25,
+      spanGaps: true,
+    })),
+  };
+
+  const options = {
+    ...chartOptions,
+    animation: false as const,
+    interaction: { mode: 'index' as const, intersect: false },
+    scales: {
+      x: {
+        ticks: {
+          color: '#eff8fdff',
+          maxTicksLimit: 8,
+          maxRotation: 0,
+        },
+      },
+      y: {
+        ticks: { color: '#eff8fdff' },
+        title: {
+          display: Boolean(unit),
+          text: unit,
+          color: '#eff8fdff',
+        },
+      },
+    },
+  };
+
+  return <Line data={data} options={options} />;
+};
+
+interface DiseaseProgressionChartProps {
+  forecast: DiseaseForecast;
+}
+
+// Severity and immunity against hediff age in game hours, with the trend projected to its end
+export const DiseaseProgressionChart: React.FC<DiseaseProgressionChartProps> = ({ forecast }) => {
+  const { track, severityPerDay, daysToLethal, daysToRecovery } = forecast;
+  const toPoint = (ticks: number, value: number) => ({ x: ticks / TICKS_PER_HOUR, y: Math.round(value * 1000) / 10 });
+  const last = track.samples[track.samples.length - 1];
+
+  const projectionDays = Math.min(daysToLethal ?? Infinity, daysToRecovery ?? Infinity, 5);
+  const projection = last && forecast.outlook !== 'insufficient' && !track.resolvedAt && Number.isFinite(projectionDays)
+    ? [
+      toPoint(last.ticks, last.severity),
+      toPoint(
+        last.ticks + projectionDays * TICKS_PER_DAY,
+        Math.max(0, Math.min(LETHAL_SEVERITY, last.severity + severityPerDay * projectionDays)),
+      ),
+    ]
+    : [];
+  const immunity = track.samples.filter(s => s.immunity !== null).map(s => toPoint(s.ticks, s.immunity as number));
+  const xs = [...track.samples.map(s => s.ticks / TICKS_PER_HOUR), ...projection.map(p => p.x)];
+
+  const data = {
+    datasets: [
+      {
+        label: 'Severity',
+        data: track.samples.map(s => toPoint(s.ticks, s.severity)),
+        borderColor: 'rgba(255, 99, 132, 1)',
+        backgroundColor: 'rgba(255, 99, 132, 1)',
+        borderWidth: 2,
+        pointRadius: 2,
+      },
+      ...(immunity.length > 0 ? [{
+        label: 'Immunity',
+        data: immunity,
+        borderColor: 'rgba(75, 192, 192, 1)',
+        backgroundColor: 'rgba(75, 192, 192, 1)',
+        borderWidth: 2,
+        pointRadius: 2,
+      }] : []),
+      ...(projection.length > 0 ? [{
+        label: 'Projected',
+        data: projection,
+        borderColor: 'rgba(255, 99, 132, 0.6)',
+        backgroundColor: 'rgba(255, 99, 132, 0.6)',
+        borderDash: [6, 4],
+        borderWidth: 2,
+        pointRadius: 0,
+      }] : []),
+      {
+        label: 'Lethal',
+        data: [toPoint(Math.min(...xs) * TICKS_PER_HOUR, LETHAL_SEVERITY), toPoint(Math.max(...xs) * TICKS_PER_HOUR, LETHAL_SEVERITY)],
+        borderColor: 'rgba(255, 255, 255, 0.35)',
+        backgroundColor: 'rgba(255, 255, 255, 0.35)',
+        borderDash: [2, 4],
+        borderWidth: 1,
+        pointRadius: 0,
+      },
+    ],
+  };
+
+  const options = {
+    ...chartOptions,
+    animation: false as const,
+    scales: {
+      x: {
+        type: 'linear' as const,
+        ticks: { color: '#eff8fdff', maxTicksLimit: 8, callback: (value: string | number) => `${Math.round(Number(value))}h` },
+        title: { display: true, text: 'Age (game hours)', color: '#eff8fdff' },
+      },
+      y: {
+        min: 0,
+        max: 100,
+        ticks: { color: '#eff8fdff', callback: (value: string | number) => `${value}%` },
+      },
+    },
+  };
+
+  return <Line data={data} options={options} />;
+};
+
 // Simple Skills Chart
 interface SkillsChartProps {
   colonists: Colonist[];
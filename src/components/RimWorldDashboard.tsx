@@ -8,17 +8,39 @@ import {
 } from './RimWorldCharts';
 import LoadingScreen from './LoadingScreen';
 import ConnectionErrorScreen from './ConnectionErrorScreen';
-import { fetchRimWorldData, setApiBaseUrl } from '../services/rimworldApi';
-import { Colonist, RimWorldData } from '../types';
+import {
+  fetchRimWorldData,
+  mergeRimWorldData,
+  SECTION_LABELS,
+} from '../services/rimworldApi';
+import { Colonist, RimWorldData, RimWorldSectionKey, RimWorldSections } from '../types';
 import './RimWorldDashboard.css';
 import ResearchCards from './ResearchCards';
 import ColonistsTab from './ColonistsTab';
 import Footer from './Footer';
 import MedicalAlertsCard from './MedicalAlertsCard';
+import TreatmentPlannerCard from './TreatmentPlannerCard';
+import DiseaseTrackerCard from './DiseaseTrackerCard';
+import MedicalCarePanel from './MedicalCarePanel';
 import ModsTab from './ModsTab';
 import ResourcesDashboard from './ResourcesDashboard';
-import { useToast } from './ToastContext';
 import DevTab from './DevTab';
+import { useRefreshScheduler, useScheduledRefresh } from './RefreshSchedulerContext';
+import RefreshSettingsPanel, { describeRefreshStatus } from './RefreshSettingsPanel';
+import SectionUnavailable from './SectionUnavailable';
+import MapsOverview, { getMapLabel } from './MapsOverview';
+import ColonyHistoryCard from './ColonyHistoryCard';
+import DefenseTab from './DefenseTab';
+import { extractMetricSample, getColonyKey, recordSample } from '../services/metricsHistory';
+import { trackRaids } from '../services/defense';
+import { trackDiseases } from '../services/diseaseProgression';
+import { ServerProfile } from '../services/serverProfiles';
+import ProfileSwitcher from './ProfileSwitcher';
+import EventStreamStatus from './EventStreamStatus';
+import AlertsPanel from './AlertsPanel';
+import { useAlerts } from './AlertsContext';
+import ColonistProfile from './ColonistProfile';
+import { DashboardRoute, DashboardTabId, getCurrentRoute, navigateTo, onRouteChange } from '../services/navigation';
 
 const getChartSize = (colonistsCount: number): number => {
   if (colonistsCount <= 5) return 1;    // Normal size
@@ -27,9 +49,6 @@ const getChartSize = (colonistsCount: number): number => {
   return 4;                             // 4x width for 16+ colonists
 };
 
-// Tab types
-type DashboardTab = 'dashboard' | 'medical' | 'research' | 'colonists' | 'resources' | 'tools';
-
 const renderColonistCharts = (colonists: Colonist[]) => {
   if (colonists.length <= 10) {
     return (
@@ -72,26 +91,40 @@ const renderColonistCharts = (colonists: Colonist[]) => {
 
 
 interface RimWorldDashboardProps {
-  apiUrl: string;
+  profile: ServerProfile;
+  profiles: ServerProfile[];
+  onSwitchProfile: (profile: ServerProfile) => void;
   onResetConfig: () => void;
 }
 
 const RimWorldDashboard: React.FC<RimWorldDashboardProps> = ({
-  apiUrl,
+  profile,
+  profiles,
+  onSwitchProfile,
   onResetConfig
 }) => {
+  const apiUrl = profile.url;
   const [data, setData] = useState<RimWorldData | null>(null);
   const [loading, setLoading] = useState(true);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
-  const [autoRefresh, setAutoRefresh] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isMobile, setIsMobile] = useState(false);
+  const [colonyKey, setColonyKey] = useState<string | null>(null);
+  const colonyKeyRef = React.useRef<string | null>(null);
+  const [selectedMapId, setSelectedMapId] = useState<number>(() => {
+    const saved = Number(localStorage.getItem('rimworldMapId'));
+    return Number.isFinite(saved) ? saved : 0;
+  });
+  // A poll still in flight when the map changes must not land on the new map
+  const selectedMapIdRef = React.useRef(selectedMapId);
+  selectedMapIdRef.current = selectedMapId;
   const colonistsDetailed = data?.colonistsDetailed || [];
 
   const [sortBy, setSortBy] = useState<'name' | 'mood'>('name');
   const [medicalTabColonistFilter, setMedicalTabColonistFilter] = React.useState<string[]>([]);
 
-  const { addToast } = useToast();
+  const { evaluateAlerts } = useAlerts();
+  const { settings: refreshSettings, updateSettings: updateRefreshSettings, setGamePaused } = useRefreshScheduler();
 
   // Add this function to sort colonists
   const getSortedColonists = useCallback((colonists: Colonist[], sortBy: 'name' | 'health' | 'mood') => {
@@ -119,49 +152,84 @@ const RimWorldDashboard: React.FC<RimWorldDashboardProps> = ({
     return () => window.removeEventListener('resize', checkScreenSize);
   }, []);
 
-  // Set API URL when component mounts or URL changes
+  // Apply the profile's polling defaults once when it is activated
   useEffect(() => {
-    setApiBaseUrl(apiUrl);
-  }, [apiUrl]);
+    if (profile.refreshIntervals) {
+      updateRefreshSettings({ intervals: { ...refreshSettings.intervals, ...profile.refreshIntervals } });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [profile.id]);
 
-  const loadData = useCallback(async () => {
+  const loadData = useCallback(async (): Promise<boolean> => {
     try {
       setLoading(true);
-      const rimWorldData = await fetchRimWorldData();
+      const rimWorldData = await fetchRimWorldData(selectedMapId);
       console.log(rimWorldData)
-      setData(rimWorldData);
+      if (rimWorldData.mapId !== selectedMapIdRef.current) return true;
+      setData(prev => mergeRimWorldData(prev, rimWorldData));
+      if (rimWorldData.gameState) {
+        setGamePaused(rimWorldData.gameState.time_speed === 'Paused');
+      }
+
+      // Only re-derive the colony identity when the sections it depends on came through
+      if (rimWorldData.colonists && rimWorldData.gameState) {
+        colonyKeyRef.current = getColonyKey(apiUrl, rimWorldData, selectedMapId);
+        setColonyKey(colonyKeyRef.current);
+      }
+      if (colonyKeyRef.current) {
+        recordSample(extractMetricSample(colonyKeyRef.current, rimWorldData)).catch(err => {
+          console.warn('Failed to record colony history:', err);
+        });
+        if (rimWorldData.creatures) {
+          trackRaids(
+            colonyKeyRef.current,
+            rimWorldData.creatures,
+            rimWorldData.colonistsDetailed,
+            rimWorldData.map_datetime?.datetime,
+          );
+        }
+        // Fatal disease trends go through the alert rules like everything else; null skips them
+        const fatalDiseases = rimWorldData.colonistsDetailed
+          ? trackDiseases(colonyKeyRef.current, rimWorldData.colonistsDetailed)
+          : null;
+        evaluateAlerts(rimWorldData, colonyKeyRef.current, { fatalDiseases });
+      }
       setLastUpdated(new Date());
       setError(null);
+      return true;
     } catch (error) {
       console.error('Error fetching RimWorld data:', error);
       setError('Failed to load data from RimWorld API');
+      return false;
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [apiUrl, selectedMapId, setGamePaused, evaluateAlerts]);
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
-  useEffect(() => {
-    if (!autoRefresh) return;
+  const refreshStatus = useScheduledRefresh('colony', loadData);
 
-    const intervalId = setInterval(() => {
-      loadData();
-    }, 5000);
+  const handleSelectMap = (mapId: number) => {
+    localStorage.setItem('rimworldMapId', String(mapId));
+    selectedMapIdRef.current = mapId;
+    setSelectedMapId(mapId);
+  };
 
-    return () => clearInterval(intervalId);
-  }, [autoRefresh, loadData]);
+  // Fall back to the first map when the selected one is gone (e.g. a raid map was closed)
+  const maps = React.useMemo(() => data?.maps || [], [data?.maps]);
+  useEffect(() => {
+    if (maps.length > 0 && !maps.some(m => m.id === selectedMapId)) {
+      setSelectedMapId(maps[0].id);
+    }
+  }, [maps, selectedMapId]);
 
   const handleManualRefresh = () => {
     loadData();
   };
 
-  const toggleAutoRefresh = () => {
-    setAutoRefresh(!autoRefresh);
-  };
-
   // Safe data accessors
   const colonists = data?.colonists || [];
   const resources = data?.resources || { categories: [] };
@@ -180,8 +248,21 @@ const RimWorldDashboard: React.FC<RimWorldDashboardProps> = ({
     by_tab: {}
   };
   const modsInfo = data?.modsInfo || [];
-
-  const [activeTab, setActiveTab] = useState<DashboardTab>('dashboard');
+  const sections = data?.sections || {};
+  const failedSections = (Object.keys(sections) as RimWorldSectionKey[])
+    .filter(key => sections[key]?.error);
+
+  // The active tab and open colonist profile live in the URL hash
+  const [route, setRoute] = useState<DashboardRoute>(getCurrentRoute);
+  useEffect(() => onRouteChange(setRoute), []);
+  const activeTab = route.tab;
+
+  const openRoute = (next: DashboardRoute) => {
+    setRoute(next);
+    navigateTo(next);
+  };
+  const setActiveTab = (tab: DashboardTabId) => openRoute({ tab });
+  const openColonistProfile = (colonistId: number) => openRoute({ tab: 'colonists', colonistId });
   const colonistChartSize = getChartSize(colonists.length);
 
   // Update the sorted colonists
@@ -219,14 +300,21 @@ const RimWorldDashboard: React.FC<RimWorldDashboardProps> = ({
           researchProgress={researchProgress}
           researchFinished={researchFinished}
           researchSummary={researchSummary}
+          sections={sections}
+          colonyKey={colonyKey}
+          historyRefreshKey={lastUpdated?.getTime()}
           loading={loading}
         />;
 
       case 'medical':
         return <MedicalTab
           colonistsDetailed={colonistsDetailed}
+          sections={sections}
           loading={loading}
           initialColonistFilter={medicalTabColonistFilter}
+          mapId={selectedMapId}
+          colonyKey={colonyKey}
+          historyRefreshKey={lastUpdated?.getTime()}
         />;
 
       case 'research':
@@ -234,20 +322,74 @@ const RimWorldDashboard: React.FC<RimWorldDashboardProps> = ({
           researchProgress={researchProgress}
           researchFinished={researchFinished}
           researchSummary={researchSummary}
+          sections={sections}
           loading={loading}
         />;
 
       case 'colonists':
-        return <ColonistsTab
-          colonistsDetailed={colonistsDetailed}
-          loading={loading}
-          onViewHealth={handleOpenMedicalTabWithColonist}
-        />;
+        return (
+          <>
+            <SectionUnavailable
+              label={SECTION_LABELS.colonistsDetailed}
+              status={sections.colonistsDetailed}
+            />
+            {route.colonistId !== undefined ? (
+              <ColonistProfile
+                colonistsDetailed={colonistsDetailed}
+                colonistId={route.colonistId}
+                loading={loading}
+                onBack={() => setActiveTab('colonists')}
+                onNavigate={openColonistProfile}
+                onViewHealth={handleOpenMedicalTabWithColonist}
+              />
+            ) : (
+              <ColonistsTab
+                colonistsDetailed={colonistsDetailed}
+                loading={loading}
+                mapId={selectedMapId}
+                onViewHealth={handleOpenMedicalTabWithColonist}
+                onViewProfile={openColonistProfile}
+              />
+            )}
+          </>
+        );
       case 'resources':
-        return <ResourcesTab loading={loading} />;
+        return <ResourcesTab loading={loading} mapId={selectedMapId} />;
+
+      case 'defense':
+        return (
+          <>
+            <SectionUnavailable label={SECTION_LABELS.creatures} status={sections.creatures} />
+            <DefenseTab
+              colonistsDetailed={colonistsDetailed}
+              creatures={creatures}
+              mapId={selectedMapId}
+              colonyKey={colonyKey}
+              refreshKey={lastUpdated?.getTime()}
+            />
+          </>
+        );
+
+      case 'maps':
+        return <MapsOverview
+          maps={maps}
+          selectedMapId={selectedMapId}
+          onSelectMap={(mapId) => {
+            handleSelectMap(mapId);
+            setActiveTab('dashboard');
+          }}
+        />;
 
       case 'tools':
-        return <DevTab modsInfo={modsInfo} loading={loading} />;
+        return (
+          <>
+            <SectionUnavailable
+              label={SECTION_LABELS.modsInfo}
+              status={sections.modsInfo}
+            />
+            <DevTab modsInfo={modsInfo} loading={loading} />
+          </>
+        );
 
       default:
         return <DashboardTab
@@ -258,6 +400,9 @@ const RimWorldDashboard: React.FC<RimWorldDashboardProps> = ({
           researchProgress={researchProgress}
           researchFinished={researchFinished}
           researchSummary={researchSummary}
+          sections={sections}
+          colonyKey={colonyKey}
+          historyRefreshKey={lastUpdated?.getTime()}
           loading={loading}
         />;
     }
@@ -278,22 +423,46 @@ const RimWorldDashboard: React.FC<RimWorldDashboardProps> = ({
                 Last updated: {lastUpdated.toLocaleTimeString()}
               </div>
             )}
+            {failedSections.length > 0 && (
+              <div
+                className="sections-failed-badge"
+                title={failedSections
+                  .map(key => `${SECTION_LABELS[key]}: ${sections[key]?.error}`)
+                  .join('\n')}
+              >
+                ⚠️ {failedSections.length} section{failedSections.length === 1 ? '' : 's'} unavailable
+              </div>
+            )}
           </div>
         </div>
 
         <div className="header-controls">
-          <button
-            onClick={toggleAutoRefresh}
-            className={`auto-refresh-btn ${autoRefresh ? 'active' : ''}`}
-          >
-            Auto Refresh: {autoRefresh ? 'ON' : 'OFF'}
-          </button>
+          {maps.length > 1 && (
+            <select
+              className="map-select"
+              value={selectedMapId}
+              onChange={(e) => handleSelectMap(Number(e.target.value))}
+              title="Select map"
+            >
+              {maps.map(map => (
+                <option key={map.id} value={map.id}>
+                  {getMapLabel(map)}
+                </option>
+              ))}
+            </select>
+          )}
+          <EventStreamStatus />
+          <AlertsPanel />
+          <RefreshSettingsPanel status={refreshStatus} />
           <button onClick={handleManualRefresh} className="refresh-btn">
             Refresh Now
           </button>
-          <button onClick={onResetConfig} className="refresh-btn">
-            Change API URL
-          </button>
+          <ProfileSwitcher
+            profile={profile}
+            profiles={profiles}
+            onSwitch={onSwitchProfile}
+            onManage={onResetConfig}
+          />
         </div>
       </header>
 
@@ -329,6 +498,18 @@ const RimWorldDashboard: React.FC<RimWorldDashboardProps> = ({
         >
           📦 Resources
         </button>
+        <button
+          className={`tab-button ${activeTab === 'defense' ? 'active' : ''}`}
+          onClick={() => setActiveTab('defense')}
+        >
+          🛡️ Defense
+        </button>
+        <button
+          className={`tab-button ${activeTab === 'maps' ? 'active' : ''}`}
+          onClick={() => setActiveTab('maps')}
+        >
+          🗺️ Maps
+        </button>
         <button
           className={`tab-button ${activeTab === 'tools' ? 'active' : ''}`}
           onClick={() => setActiveTab('tools')}
@@ -342,10 +523,10 @@ const RimWorldDashboard: React.FC<RimWorldDashboardProps> = ({
         {renderTabContent()}
       </div>
 
-      {autoRefresh && (
-        <div className="auto-refresh-indicator">
-          <div className="refresh-pulse"></div>
-          Auto-refreshing every 5 seconds...
+      {refreshStatus.state !== 'disabled' && (
+        <div className={`auto-refresh-indicator state-${refreshStatus.state}`}>
+          {refreshStatus.state === 'running' && <div className="refresh-pulse"></div>}
+          {describeRefreshStatus(refreshStatus)}
         </div>
       )}
 
@@ -364,6 +545,9 @@ interface DashboardTabProps {
   researchProgress: any;
   researchFinished: any;
   researchSummary: any;
+  sections: RimWorldSections;
+  colonyKey: string | null;
+  historyRefreshKey?: number;
   loading: boolean;
 }
 
@@ -375,6 +559,9 @@ const DashboardTab: React.FC<DashboardTabProps> = ({
   researchProgress,
   researchFinished,
   researchSummary,
+  sections,
+  colonyKey,
+  historyRefreshKey,
   loading,
 }) => {
   // Add the missing state and functions here
@@ -526,6 +713,7 @@ const DashboardTab: React.FC<DashboardTabProps> = ({
               </div>
             </div>
           </div>
+          <SectionUnavailable label={SECTION_LABELS.colonists} status={sections.colonists} />
           <div className="chart-container">
             {colonists.length > 0 ? (
               <ColonistStatsChart colonists={sortedColonists} />
@@ -537,7 +725,7 @@ const DashboardTab: React.FC<DashboardTabProps> = ({
       )}
 
       {/* Resource Distribution */}
-      {resources.categories && resources.categories.length > 0 ? (
+      {(resources.categories && resources.categories.length > 0) || sections.resources?.error ? (
         <div className="chart-card">
           <div className="chart-header">
             <h3>Resource Distribution</h3>
@@ -545,6 +733,7 @@ const DashboardTab: React.FC<DashboardTabProps> = ({
               Total: {resources.total_items || 0} items
             </div>
           </div>
+          <SectionUnavailable label={SECTION_LABELS.resources} status={sections.resources} />
           <div className="chart-container">
             {resources.categories && resources.categories.length > 0 ? (
               <ResourcesChart resources={resources} />
@@ -572,6 +761,7 @@ const DashboardTab: React.FC<DashboardTabProps> = ({
             </div>
           </div>
         </div>
+        <SectionUnavailable label={SECTION_LABELS.power} status={sections.power} />
         <div className="chart-container">
           <PowerChart power={power} />
         </div>
@@ -582,6 +772,7 @@ const DashboardTab: React.FC<DashboardTabProps> = ({
         <div className="chart-header">
           <h3>Population Overview</h3>
         </div>
+        <SectionUnavailable label={SECTION_LABELS.creatures} status={sections.creatures} />
         <div className="chart-container">
           <PopulationChart creatures={creatures} />
         </div>
@@ -609,24 +800,46 @@ const DashboardTab: React.FC<DashboardTabProps> = ({
           </div>
         </div>
       </div>
+
+      {/* Metric History */}
+      <ColonyHistoryCard colonyKey={colonyKey} refreshKey={historyRefreshKey} />
     </div>
   );
 };
 
 interface MedicalTabProps {
   colonistsDetailed: any[];
+  sections: RimWorldSections;
   loading: boolean;
   initialColonistFilter?: string[];
+  mapId: number;
+  colonyKey: string | null;
+  historyRefreshKey?: number;
 }
 
-const MedicalTab: React.FC<MedicalTabProps> = ({ colonistsDetailed, loading, initialColonistFilter }) => {
+const MedicalTab: React.FC<MedicalTabProps> = ({
+  colonistsDetailed,
+  sections,
+  loading,
+  initialColonistFilter,
+  mapId,
+  colonyKey,
+  historyRefreshKey,
+}) => {
   return (
     <div className="medical-tab">
+      <SectionUnavailable
+        label={SECTION_LABELS.colonistsDetailed}
+        status={sections.colonistsDetailed}
+      />
       <MedicalAlertsCard
         colonistsDetailed={colonistsDetailed}
         loading={loading}
         initialColonistFilter={initialColonistFilter}
       />
+      <TreatmentPlannerCard colonistsDetailed={colonistsDetailed} mapId={mapId} />
+      <DiseaseTrackerCard colonyKey={colonyKey} refreshKey={historyRefreshKey} />
+      <MedicalCarePanel colonistsDetailed={colonistsDetailed} colonyKey={colonyKey} />
       {/* You can add more medical-specific components here */}
     </div>
   );
@@ -636,219 +849,48 @@ interface ResearchTabProps {
   researchProgress: any;
   researchFinished: any;
   researchSummary: any;
+  sections: RimWorldSections;
   loading: boolean;
 }
 
+const RESEARCH_SECTIONS: RimWorldSectionKey[] = ['researchProgress', 'researchFinished', 'researchSummary'];
+
 const ResearchTab: React.FC<ResearchTabProps> = ({
   researchProgress,
   researchFinished,
   researchSummary,
+  sections,
   loading
 }) => {
-  return (
-    <ResearchCards
-      researchProgress={researchProgress}
-      researchFinished={researchFinished}
-      researchSummary={researchSummary}
-      loading={loading}
-    />
-  );
-};
-
-interface DefenseTabProps {
-  loading: boolean;
-}
-
-const DefenseTab: React.FC<DefenseTabProps> = ({ loading }) => {
-  // Mock data - replace with actual API data when available
-  const mockTurrets = [
-    { id: 1, name: 'Auto-Cannon Turret', status: 'Operational', health: 100, ammo: 85, target: '12' },
-    { id: 2, name: 'Mini-Turret', status: 'Operational', health: 100, ammo: 92, target: '5' },
-    { id: 3, name: 'Uranium Slug Turret', status: 'Damaged', health: 65, ammo: 45, target: '17' },
-    { id: 4, name: 'Charge Blaster', status: 'Operational', health: 100, ammo: 78, target: '21' },
-  ];
-
-  const mockThreatAssessment = {
-    defenseScore: 725,
-    threatLevel: 'Medium',
-    recommendedImprovements: ['Repair damaged turrets', 'Add more mini-turrets', 'Stockpile more ammunition'],
-    weakPoints: ['North wall section', 'Eastern flank']
-  };
-
-  const mockCombatHistory = [
-    { id: 1, date: '2 days ago', event: 'Raid - Tribal', damageTaken: 120, damageDealt: 450, outcome: 'Victory' },
-    { id: 2, date: '5 days ago', event: 'Mech Cluster', damageTaken: 340, damageDealt: 680, outcome: 'Victory' },
-    { id: 3, date: '8 days ago', event: 'Infestation', damageTaken: 280, damageDealt: 320, outcome: 'Victory' },
-    { id: 4, date: '12 days ago', event: 'Siege - Pirates', damageTaken: 560, damageDealt: 890, outcome: 'Victory' },
-  ];
+  const failed = RESEARCH_SECTIONS.filter(key => sections[key]?.error);
+  const allUnavailable = failed.length === RESEARCH_SECTIONS.length
+    && failed.every(key => !sections[key]?.lastSuccessAt);
 
   return (
-    <div className="defense-tab">
-
-      {/* API Placeholder Notice */}
-      <div className="api-notice">
-        <div className="notice-icon">🚧</div>
-        <div className="notice-content">
-          <h4>Defense API Coming Soon</h4>
-          <p>This section displays mock data. Real-time defense monitoring will be available when the RIMAPI defense endpoints are implemented.</p>
-        </div>
-      </div>
-
-      {/* Defense Overview Header */}
-      <div className="defense-overview">
-        <div className="defense-header">
-          <h2>🛡️ Colony Defense Systems</h2>
-          <div className="defense-status">
-            <span className="status-indicator operational">Operational</span>
-            <span className="last-drill">Last combat drill: 3 days ago</span>
-          </div>
-        </div>
-      </div>
-
-      <div className="defense-grid">
-        {/* Active Turrets Section */}
-        <div className="defense-section turrets-section">
-          <div className="section-header">
-            <h3>🎯 Active Defense Turrets</h3>
-            <span className="section-count">{mockTurrets.length} Turrets</span>
-          </div>
-          <div className="turrets-grid">
-            {mockTurrets.map(turret => (
-              <div key={turret.id} className={`turret-card ${turret.status.toLowerCase()}`}>
-                <div className="turret-header">
-                  <h4>{turret.name}</h4>
-                  <span className={`status-badge ${turret.status.toLowerCase()}`}>
-                    {turret.status}
-                  </span>
-                </div>
-                <div className="turret-stats">
-                  <div className="stat-row">
-                    <span className="stat-label">Health:</span>
-                    <div className="health-bar">
-                      <div
-                        className="health-fill"
-                        style={{ width: `${turret.health}%` }}
-                      ></div>
-                    </div>
-                    <span className="stat-value">{turret.health}%</span>
-                  </div>
-                  <div className="stat-row">
-                    <span className="stat-label">Ammo:</span>
-                    <div className="ammo-bar">
-                      <div
-                        className="ammo-fill"
-                        style={{ width: `${turret.ammo}%` }}
-                      ></div>
-                    </div>
-                    <span className="stat-value">{turret.ammo}%</span>
-                  </div>
-                  <div className="stat-row">
-                    <span className="stat-label">Damage:</span>
-                    <span className="stat-value target-status">{turret.target}</span>
-                  </div>
-                </div>
-              </div>
-            ))}
-          </div>
-        </div>
-
-        {/* Threat Assessment Section */}
-        <div className="defense-section threat-section">
-          <div className="section-header">
-            <h3>📊 Threat Assessment</h3>
-            <span className={`threat-level ${mockThreatAssessment.threatLevel.toLowerCase()}`}>
-              {mockThreatAssessment.threatLevel} Threat
-            </span>
-          </div>
-          <div className="threat-content">
-            <div className="defense-score">
-              <div className="score-circle">
-                <span className="score-value">{mockThreatAssessment.defenseScore}</span>
-                <span className="score-label">Defense Score</span>
-              </div>
-            </div>
-            <div className="assessment-details">
-              <div className="weak-points">
-                <h4>Weak Points:</h4>
-                <ul>
-                  {mockThreatAssessment.weakPoints.map((point, index) => (
-                    <li key={index}>📍 {point}</li>
-                  ))}
-                </ul>
-              </div>
-              <div className="recommendations">
-                <h4>Recommended Improvements:</h4>
-                <ul>
-                  {mockThreatAssessment.recommendedImprovements.map((rec, index) => (
-                    <li key={index}>✅ {rec}</li>
-                  ))}
-                </ul>
-              </div>
-            </div>
-          </div>
-        </div>
-
-        {/* Combat History Section */}
-        <div className="defense-section history-section">
-          <div className="section-header">
-            <h3>📈 Combat History</h3>
-            <span className="history-count">Last {mockCombatHistory.length} Engagements</span>
-          </div>
-          <div className="combat-history">
-            <div className="history-stats">
-              <div className="history-stat">
-                <span className="stat-number">{mockCombatHistory.length}</span>
-                <span className="stat-label">Total Engagements</span>
-              </div>
-              <div className="history-stat">
-                <span className="stat-number">{mockCombatHistory.filter(e => e.outcome === 'Victory').length}</span>
-                <span className="stat-label">Victories</span>
-              </div>
-              <div className="history-stat">
-                <span className="stat-number">
-                  {Math.round(mockCombatHistory.reduce((acc, curr) => acc + curr.damageDealt, 0) / mockCombatHistory.length)}
-                </span>
-                <span className="stat-label">Avg Damage Dealt</span>
-              </div>
-            </div>
-            <div className="engagements-list">
-              {mockCombatHistory.map(engagement => (
-                <div key={engagement.id} className="engagement-card">
-                  <div className="engagement-header">
-                    <span className="engagement-date">{engagement.date}</span>
-                    <span className={`outcome-badge ${engagement.outcome.toLowerCase()}`}>
-                      {engagement.outcome}
-                    </span>
-                  </div>
-                  <div className="engagement-event">{engagement.event}</div>
-                  <div className="engagement-stats">
-                    <div className="damage-taken">
-                      <span className="damage-label">Damage Taken:</span>
-                      <span className="damage-value">{engagement.damageTaken}</span>
-                    </div>
-                    <div className="damage-dealt">
-                      <span className="damage-label">Damage Dealt:</span>
-                      <span className="damage-value">{engagement.damageDealt}</span>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
-        </div>
-      </div>
-    </div>
+    <>
+      {!allUnavailable && failed.map(key => (
+        <SectionUnavailable key={key} label={SECTION_LABELS[key]} status={sections[key]} />
+      ))}
+      <ResearchCards
+        researchProgress={researchProgress}
+        researchFinished={researchFinished}
+        researchSummary={researchSummary}
+        loading={loading}
+        error={allUnavailable ? sections.researchProgress?.error : undefined}
+      />
+    </>
   );
 };
 
 interface ResourcesTabProps {
   loading: boolean;
+  mapId: number;
 }
 
-const ResourcesTab: React.FC<ResourcesTabProps> = ({ loading }) => {
+const ResourcesTab: React.FC<ResourcesTabProps> = ({ loading, mapId }) => {
   return (
     <div className="resources-tab">
-      <ResourcesDashboard />
+      <ResourcesDashboard mapId={mapId} />
     </div>
   );
 };
@@ -0,0 +1,316 @@
+// src/components/ScheduleTab.tsx
+import React from 'react';
+import { ColonistDetailed, TimeAssignment } from '../types';
+import { rimworldApi } from '../services/rimworldApi';
+import {
+    HOURS_PER_DAY,
+    ScheduleTemplate,
+    TIME_ASSIGNMENTS,
+    createScheduleTemplate,
+    deleteScheduleTemplate,
+    getTimeAssignmentMeta,
+    listScheduleTemplates,
+    loadScheduleTemplates,
+    paintHours,
+    planScheduleApply,
+    saveScheduleTemplates,
+    schedulesEqual,
+    summarizeSchedule,
+    upsertScheduleTemplate,
+} from '../services/timetables';
+import { useToast } from './ToastContext';
+import './ScheduleTab.css';
+
+interface ScheduleTabProps {
+    colonistsDetailed?: ColonistDetailed[];
+    loading?: boolean;
+}
+
+interface PaintStroke {
+    colonistId: number;
+    anchorHour: number;
+    before: TimeAssignment[];
+}
+
+const HOURS = Array.from({ length: HOURS_PER_DAY }, (_, hour) => hour);
+
+const ScheduleTab: React.FC<ScheduleTabProps> = ({ colonistsDetailed = [], loading = false }) => {
+    const { addToast } = useToast();
+    const [timetables, setTimetables] = React.useState<Record<number, TimeAssignment[]>>({});
+    const [fetching, setFetching] = React.useState(false);
+    const [loadError, setLoadError] = React.useState<string | null>(null);
+    const [brush, setBrush] = React.useState<TimeAssignment>('Work');
+    const [selected, setSelected] = React.useState<Set<number>>(new Set());
+    const [customTemplates, setCustomTemplates] = React.useState<ScheduleTemplate[]>(loadScheduleTemplates);
+    const [templateId, setTemplateId] = React.useState<string>('default');
+    const [saving, setSaving] = React.useState(false);
+    const strokeRef = React.useRef<PaintStroke | null>(null);
+    const timetablesRef = React.useRef(timetables);
+    timetablesRef.current = timetables;
+
+    const templates = listScheduleTemplates(customTemplates);
+    const template = templates.find(t => t.id === templateId) ?? templates[0];
+
+    const loadTimetables = React.useCallback(async () => {
+        setFetching(true);
+        try {
+            const list = await rimworldApi.fetchColonistsTimetables();
+            setTimetables(Object.fromEntries(list.map(t => [t.id, t.schedule])));
+            setLoadError(null);
+        } catch (error) {
+            setLoadError(error instanceof Error ? error.message : String(error));
+        } finally {
+            setFetching(false);
+        }
+    }, []);
+
+    React.useEffect(() => {
+        loadTimetables();
+    }, [loadTimetables]);
+
+    React.useEffect(() => {
+        saveScheduleTemplates(customTemplates);
+    }, [customTemplates]);
+
+    const pushTimetables = React.useCallback(async (
+        changes: { id: number; schedule: TimeAssignment[] }[],
+        rollback: Record<number, TimeAssignment[]>,
+    ) => {
+        if (!changes.length) return true;
+        setSaving(true);
+        try {
+            await rimworldApi.setColonistsTimetables(changes);
+            return true;
+        } catch (error) {
+            setTimetables(prev => ({ ...prev, ...rollback }));
+            addToast({
+                type: 'error',
+                title: 'Schedule not saved',
+                message: error instanceof Error ? error.message : String(error),
+                duration: 5000,
+            });
+            return false;
+        } finally {
+            setSaving(false);
+        }
+    }, [addToast]);
+
+    // A stroke ends wherever the mouse is released, so listen on the window
+    React.useEffect(() => {
+        const endStroke = () => {
+            const stroke = strokeRef.current;
+            if (!stroke) return;
+            strokeRef.current = null;
+            const after = timetablesRef.current[stroke.colonistId];
+            if (after && !schedulesEqual(after, stroke.before)) {
+                pushTimetables([{ id: stroke.colonistId, schedule: after }], { [stroke.colonistId]: stroke.before });
+            }
+        };
+        window.addEventListener('mouseup', endStroke);
+        return () => window.removeEventListener('mouseup', endStroke);
+    }, [pushTimetables]);
+
+    const paintTo = (colonistId: number, hour: number) => {
+        const stroke = strokeRef.current;
+        if (!stroke || stroke.colonistId !== colonistId) return;
+        setTimetables(prev => ({
+            ...prev,
+            [colonistId]: paintHours(stroke.before, stroke.anchorHour, hour, brush),
+        }));
+    };
+
+    const startStroke = (colonistId: number, hour: number, e: React.MouseEvent) => {
+        if (e.button !== 0) return;
+        e.preventDefault();
+        const before = timetables[colonistId];
+        if (!before) return;
+        strokeRef.current = { colonistId, anchorHour: hour, before };
+        paintTo(colonistId, hour);
+    };
+
+    const toggleSelected = (id: number) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const allSelected = colonistsDetailed.length > 0 && colonistsDetailed.every(c => selected.has(c.colonist.id));
+
+    const handleApplyTemplate = async () => {
+        if (!template) return;
+        const changes = planScheduleApply(timetables, Array.from(selected), template.schedule);
+        if (!changes.length) {
+            addToast({ type: 'info', title: 'Nothing to change', message: `Selected colonists already follow "${template.name}".` });
+            return;
+        }
+        const rollback: Record<number, TimeAssignment[]> = {};
+        const applied: Record<number, TimeAssignment[]> = {};
+        changes.forEach(c => {
+            if (timetables[c.id]) rollback[c.id] = timetables[c.id];
+            applied[c.id] = c.schedule;
+        });
+        setTimetables(prev => ({ ...prev, ...applied }));
+        if (await pushTimetables(changes, rollback)) {
+            addToast({
+                type: 'success',
+                title: 'Schedule applied',
+                message: `"${template.name}" applied to ${changes.length} colonist${changes.length === 1 ? '' : 's'}.`,
+                duration: 3000,
+            });
+        }
+    };
+
+    const handleSaveAsTemplate = (colonist: ColonistDetailed) => {
+        const schedule = timetables[colonist.colonist.id];
+        if (!schedule) return;
+        const name = window.prompt('Template name', `${colonist.colonist.name}'s schedule`);
+        if (!name?.trim()) return;
+        const created = createScheduleTemplate(name.trim(), schedule);
+        setCustomTemplates(prev => upsertScheduleTemplate(prev, created));
+        setTemplateId(created.id);
+    };
+
+    const handleDeleteTemplate = () => {
+        if (!template || template.builtIn) return;
+        if (!window.confirm(`Delete the "${template.name}" template?`)) return;
+        setCustomTemplates(prev => deleteScheduleTemplate(prev, template.id));
+        setTemplateId('default');
+    };
+
+    if (loading && colonistsDetailed.length === 0) {
+        return <div className="tab-placeholder">Loading colonists...</div>;
+    }
+
+    return (
+        <div className="schedule-tab">
+            <div className="schedule-toolbar">
+                <div className="schedule-brushes">
+                    {TIME_ASSIGNMENTS.map(a => (
+                        <button
+                            key={a.id}
+                            className={`schedule-brush ${brush === a.id ? 'active' : ''}`}
+                            style={{ borderColor: a.color }}
+                            onClick={() => setBrush(a.id)}
+                            title={`Paint ${a.label}`}
+                        >
+                            <span className="schedule-swatch" style={{ background: a.color }} />
+                            {a.icon} {a.label}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="schedule-templates">
+                    <select value={template?.id} onChange={(e) => setTemplateId(e.target.value)}>
+                        {templates.map(t => (
+                            <option key={t.id} value={t.id}>{t.builtIn ? '🔒 ' : ''}{t.name}</option>
+                        ))}
+                    </select>
+                    <button
+                        className="auto-assign-btn"
+                        disabled={selected.size === 0 || saving}
+                        onClick={handleApplyTemplate}
+                    >
+                        📋 Apply to selected ({selected.size})
+                    </button>
+                    {template && !template.builtIn && (
+                        <button className="auto-assign-btn" onClick={handleDeleteTemplate} title="Delete template">
+                            🗑️
+                        </button>
+                    )}
+                    <button className="auto-assign-btn" onClick={loadTimetables} disabled={fetching}>
+                        🔄 Reload
+                    </button>
+                </div>
+            </div>
+
+            {template && (
+                <div className="schedule-template-preview" title="Selected template">
+                    <span className="schedule-template-name">{template.name}</span>
+                    <div className="schedule-strip">
+                        {template.schedule.map((a, hour) => (
+                            <span key={hour} style={{ background: getTimeAssignmentMeta(a).color }} />
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {loadError && (
+                <div className="schedule-error">
+                    Couldn't load schedules: {loadError}
+                </div>
+            )}
+
+            <div className="schedule-grid" onDragStart={(e) => e.preventDefault()}>
+                <div className="schedule-row schedule-header">
+                    <label className="schedule-select">
+                        <input
+                            type="checkbox"
+                            checked={allSelected}
+                            onChange={() => setSelected(allSelected ? new Set() : new Set(colonistsDetailed.map(c => c.colonist.id)))}
+                        />
+                    </label>
+                    <span className="schedule-name">Colonist</span>
+                    <div className="schedule-hours">
+                        {HOURS.map(hour => <span key={hour} className="schedule-hour-label">{hour}</span>)}
+                    </div>
+                    <span className="schedule-summary" />
+                </div>
+
+                {colonistsDetailed.map(c => {
+                    const id = c.colonist.id;
+                    const schedule = timetables[id];
+                    const summary = schedule ? summarizeSchedule(schedule) : {};
+                    return (
+                        <div key={id} className={`schedule-row ${selected.has(id) ? 'selected' : ''}`}>
+                            <label className="schedule-select">
+                                <input type="checkbox" checked={selected.has(id)} onChange={() => toggleSelected(id)} />
+                            </label>
+                            <span className="schedule-name" title={c.colonist.name}>{c.colonist.name}</span>
+                            <div className="schedule-hours">
+                                {schedule ? schedule.map((a, hour) => {
+                                    const meta = getTimeAssignmentMeta(a);
+                                    return (
+                                        <span
+                                            key={hour}
+                                            className="schedule-cell"
+                                            style={{ background: meta.color }}
+                                            title={`${hour}h: ${meta.label}`}
+                                            onMouseDown={(e) => startStroke(id, hour, e)}
+                                            onMouseEnter={() => paintTo(id, hour)}
+                                        >
+                                            {meta.short}
+                                        </span>
+                                    );
+                                }) : (
+                                    <span className="schedule-missing">{fetching ? 'Loading…' : 'No schedule'}</span>
+                                )}
+                            </div>
+                            <span className="schedule-summary">
+                                {TIME_ASSIGNMENTS.filter(a => summary[a.id]).map(a => (
+                                    <span key={a.id} title={a.label}>{a.icon}{summary[a.id]}</span>
+                                ))}
+                                <button
+                                    className="schedule-save-template"
+                                    disabled={!schedule}
+                                    onClick={() => handleSaveAsTemplate(c)}
+                                    title="Save as template"
+                                >
+                                    💾
+                                </button>
+                            </span>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="schedule-hint">
+                Drag across the hours to paint them with the selected assignment. Changes are sent to the game when you release the mouse.
+            </div>
+        </div>
+    );
+};
+
+export default ScheduleTab;
@@ -0,0 +1,35 @@
+// src/components/SectionUnavailable.tsx
+import React from 'react';
+import { SectionStatus } from '../types';
+import './SectionUnavailable.css';
+
+interface SectionUnavailableProps {
+  label: string;
+  status?: SectionStatus;
+}
+
+// Inline notice for a dashboard section whose endpoint failed on the last poll.
+// If an earlier poll succeeded it renders a compact "stale" badge, otherwise a full placeholder.
+const SectionUnavailable: React.FC<SectionUnavailableProps> = ({ label, status }) => {
+  if (!status?.error) return null;
+
+  if (status.lastSuccessAt) {
+    return (
+      <div className="section-stale" title={status.error}>
+        ⚠️ {label} stale since {new Date(status.lastSuccessAt).toLocaleTimeString()}
+      </div>
+    );
+  }
+
+  return (
+    <div className="section-unavailable" role="status">
+      <div className="section-unavailable-icon">⚠️</div>
+      <div className="section-unavailable-content">
+        <div className="section-unavailable-title">{label} unavailable</div>
+        <div className="section-unavailable-error">{status.error}</div>
+      </div>
+    </div>
+  );
+};
+
+export default SectionUnavailable;
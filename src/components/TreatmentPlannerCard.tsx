@@ -0,0 +1,193 @@
+// src/components/TreatmentPlannerCard.tsx
+import React from 'react';
+import { ColonistDetailed, ResourceItem } from '../types';
+import { getApiBaseUrl, rimworldApi } from '../services/rimworldApi';
+import { DOCTOR_WORK, formatBleedOut, planTreatment, reportedPriority } from '../services/treatmentPlanner';
+import {
+    PriorityChange,
+    createJournalEntry,
+    loadWorkJournal,
+    pushPriorityChanges,
+    recordEntry,
+    saveWorkJournal,
+} from '../services/workJournal';
+import { useToast } from './ToastContext';
+import './TreatmentPlannerCard.css';
+
+interface TreatmentPlannerCardProps {
+    colonistsDetailed: ColonistDetailed[];
+    mapId: number;
+}
+
+const TreatmentPlannerCard: React.FC<TreatmentPlannerCardProps> = ({ colonistsDetailed, mapId }) => {
+    const { addToast } = useToast();
+    const [medicine, setMedicine] = React.useState<ResourceItem[] | null>(null);
+    const [busy, setBusy] = React.useState(false);
+    // Priorities we've pushed since the last poll, so the plan doesn't offer them again
+    const [pushed, setPushed] = React.useState<Record<number, number>>({});
+
+    // Stock is fetched once per map rather than every poll; the summary the scheduler polls has no per-def counts
+    React.useEffect(() => {
+        let cancelled = false;
+        rimworldApi.getResourcesStored(mapId)
+            .then(data => { if (!cancelled) setMedicine(data.medicine || []); })
+            .catch(() => { if (!cancelled) setMedicine(null); });
+        return () => { cancelled = true; };
+    }, [mapId]);
+
+    React.useEffect(() => setPushed({}), [colonistsDetailed]);
+
+    const plan = React.useMemo(() => planTreatment(colonistsDetailed, {
+        medicine: medicine || [],
+        priorityOf: (colonist, work) => (work === DOCTOR_WORK ? pushed[colonist.colonist.id] : undefined)
+            ?? reportedPriority(colonist, work),
+    }), [colonistsDetailed, medicine, pushed]);
+
+    const handlePrioritise = async (changes: PriorityChange[]) => {
+        if (changes.length === 0) return;
+        setBusy(true);
+        try {
+            await pushPriorityChanges(changes);
+            // Recorded in the work journal so the Work tab can undo it
+            const apiUrl = getApiBaseUrl();
+            const label = changes.length === 1
+                ? `Treatment: ${changes[0].colonistName} to Doctor P1`
+                : `Treatment: ${changes.length} doctors to P1`;
+            saveWorkJournal(apiUrl, recordEntry(loadWorkJournal(apiUrl), createJournalEntry('treatment', label, changes)));
+            setPushed(prev => {
+                const next = { ...prev };
+                changes.forEach(c => { next[c.colonistId] = c.after; });
+                return next;
+            });
+            addToast({
+                type: 'success',
+                title: 'Doctors prioritised',
+                message: `${changes.map(c => c.colonistName).join(', ')} set to ${DOCTOR_WORK} priority 1`,
+                duration: 3000,
+            });
+        } catch (error) {
+            console.error('Failed to update doctor priorities:', error);
+            addToast({
+                type: 'error',
+                title: 'Failed to update doctor priorities',
+                message: error instanceof Error ? error.message : 'Unknown error occurred',
+                duration: 5000,
+            });
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const available = plan.doctors.filter(d => !d.unavailable);
+    const shortOfMedicine = medicine !== null && plan.medicine.total < plan.tendsNeeded;
+
+    return (
+        <div className="treatment-planner-card">
+            <div className="treatment-header">
+                <h3>🩺 Treatment Queue</h3>
+                <div className="treatment-medicine" title="Medicine in storage">
+                    {medicine === null ? (
+                        <span className="treatment-muted">Medicine stock unavailable</span>
+                    ) : plan.medicine.items.length === 0 ? (
+                        <span className="treatment-stock empty">💊 No medicine</span>
+                    ) : plan.medicine.items.map(item => (
+                        <span key={item.defName} className="treatment-stock" title={`Potency ×${item.potency}`}>
+                            💊 {item.label} ×{item.count}
+                        </span>
+                    ))}
+                    {plan.changes.length > 0 && (
+                        <button
+                            className="auto-assign-btn"
+                            disabled={busy}
+                            onClick={() => handlePrioritise(plan.changes)}
+                            title={plan.changes.map(c => `${c.colonistName}: Doctor P${c.before || '–'} → P1`).join('\n')}
+                        >
+                            ⬆️ Prioritise {plan.changes.length} doctor{plan.changes.length === 1 ? '' : 's'}
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {shortOfMedicine && (
+                <div className="treatment-warning">
+                    ⚠️ {plan.tendsNeeded} wounds need tending but only {plan.medicine.total} medicine is stored.
+                </div>
+            )}
+            {plan.patients.length > 0 && available.length === 0 && (
+                <div className="treatment-warning">
+                    🚫 Nobody able to doctor is fit to work. Patients will have to self-tend.
+                </div>
+            )}
+
+            {plan.patients.length === 0 ? (
+                <div className="treatment-empty">✅ Nobody needs treatment right now.</div>
+            ) : (
+                <div className="treatment-layout">
+                    <ol className="treatment-queue">
+                        {plan.pairings.map(({ patient, doctor, queuePosition }) => {
+                            const change = doctor && doctor.priority !== 1
+                                ? plan.changes.find(c => c.colonistId === doctor.colonistId)
+                                : undefined;
+                            const urgent = patient.lifeThreatening
+                                || (patient.bleedOutMinutes !== null && patient.bleedOutMinutes < 600);
+                            return (
+                                <li key={patient.colonistId} className={`treatment-pairing ${urgent ? 'urgent' : ''}`}>
+                                    <div className="treatment-patient">
+                                        <strong>{patient.colonistName}</strong>
+                                        <span className="treatment-muted"> · health {Math.round(patient.health * 100)}%</span>
+                                        <div className="treatment-reasons">{patient.reasons.join(' · ')}</div>
+                                    </div>
+                                    <span className="treatment-arrow">→</span>
+                                    <div className="treatment-doctor">
+                                        {doctor ? (
+                                            <>
+                                                <strong>{doctor.colonistName}</strong>
+                                                <span className="treatment-muted">
+                                                    {' '}Medicine {doctor.medicine} · P{doctor.priority || '–'}
+                                                    {queuePosition > 1 && ` · ${queuePosition}${queuePosition === 2 ? 'nd' : queuePosition === 3 ? 'rd' : 'th'} in line`}
+                                                </span>
+                                            </>
+                                        ) : (
+                                            <span className="treatment-muted">No doctor available</span>
+                                        )}
+                                    </div>
+                                    {change && (
+                                        <button
+                                            className="action-btn"
+                                            disabled={busy}
+                                            onClick={() => handlePrioritise([change])}
+                                            title={`Set ${change.colonistName}'s Doctor priority to 1`}
+                                        >
+                                            Doctor P1
+                                        </button>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ol>
+
+                    <div className="treatment-doctors">
+                        <h4>Doctors</h4>
+                        {plan.doctors.map(d => (
+                            <div key={d.colonistId} className={`treatment-doctor-row ${d.unavailable ? 'unavailable' : ''}`} title={d.unavailable || undefined}>
+                                <span>{d.colonistName}</span>
+                                <span className="treatment-muted">
+                                    {d.unavailable ? `out: ${d.unavailable}` : `Medicine ${d.medicine} · ${Math.round(d.health * 100)}% · P${d.priority || '–'}`}
+                                </span>
+                            </div>
+                        ))}
+                        {plan.patients.some(p => p.bleedOutMinutes !== null) && (
+                            <div className="treatment-muted treatment-footnote">
+                                First bleed-out in {formatBleedOut(Math.min(...plan.patients
+                                    .filter(p => p.bleedOutMinutes !== null)
+                                    .map(p => p.bleedOutMinutes as number)))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TreatmentPlannerCard;
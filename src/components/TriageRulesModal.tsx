@@ -0,0 +1,394 @@
+// src/components/TriageRulesModal.tsx
+import React from 'react';
+import { ColonistDetailed } from '../types';
+import {
+    COLONIST_METRICS,
+    ColonistMetric,
+    DEFAULT_TRIAGE_RULES,
+    HediffFlag,
+    HediffMatch,
+    TRIAGE_SEVERITIES,
+    TriageRule,
+    TriageRuleStore,
+    TriageScope,
+    createTriageRule,
+    deleteTriageRule,
+    describeTriageRule,
+    resetTriageRule,
+    resolveTriageRules,
+    triageColony,
+    updateTriageRule,
+} from '../services/medicalTriage';
+import './TriageRulesModal.css';
+
+interface TriageRulesModalProps {
+    store: TriageRuleStore;
+    colonistsDetailed: ColonistDetailed[];
+    onSave: (store: TriageRuleStore) => void;
+    onClose: () => void;
+}
+
+const SCOPES: { scope: TriageScope; label: string; hint: string }[] = [
+    { scope: 'tag', label: '🏷️ Tags', hint: 'Label hediffs for filtering and for other rules to match on' },
+    { scope: 'hediff', label: '🩹 Hediffs', hint: 'Grade each injury or disease; the first matching rule wins' },
+    { scope: 'colonist', label: '❤️ Vitals', hint: 'Colony-wide checks; one alert per group, first match wins' },
+];
+
+const FLAG_LABELS: Record<HediffFlag, string> = {
+    bleeding: 'Bleeding',
+    tended: 'Tended',
+    tendable: 'Needs tending',
+    permanent: 'Permanent',
+    lifeThreatening: 'Life-threatening',
+    lethal: 'Can be lethal',
+};
+
+const parseList = (text: string) => text.split(',').map(s => s.trim()).filter(Boolean);
+const optionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+/** Comma-separated list that commits on blur, so typing a comma doesn't get swallowed. */
+const ListInput: React.FC<{ value?: string[]; placeholder?: string; onChange: (list: string[]) => void }> = ({
+    value = [],
+    placeholder,
+    onChange,
+}) => {
+    const [text, setText] = React.useState(value.join(', '));
+    React.useEffect(() => setText(value.join(', ')), [value]);
+    return (
+        <input
+            type="text"
+            value={text}
+            placeholder={placeholder}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={() => onChange(parseList(text))}
+        />
+    );
+};
+
+const TriageRulesModal: React.FC<TriageRulesModalProps> = ({ store, colonistsDetailed, onSave, onClose }) => {
+    const [draft, setDraft] = React.useState<TriageRuleStore>(store);
+    const [selectedId, setSelectedId] = React.useState(DEFAULT_TRIAGE_RULES[0].id);
+
+    const rules = React.useMemo(() => resolveTriageRules(draft), [draft]);
+    const rule = rules.find(r => r.id === selectedId) || rules[0];
+    const overridden = Boolean(rule.builtIn && draft.overrides[rule.id]);
+
+    const savedAlerts = React.useMemo(
+        () => triageColony(colonistsDetailed, resolveTriageRules(store)),
+        [colonistsDetailed, store]
+    );
+    const previewAlerts = React.useMemo(() => triageColony(colonistsDetailed, rules), [colonistsDetailed, rules]);
+    const ruleHits = previewAlerts.filter(a => a.ruleId === rule.id);
+    const taggedHediffs = rule.scope === 'tag'
+        ? previewAlerts.filter(a => a.hediffId !== undefined && (rule.tags || []).some(t => a.tags.includes(t)))
+        : [];
+
+    const update = (patch: Partial<TriageRule>) => setDraft(d => updateTriageRule(d, { ...rule, ...patch }));
+    const updateMatch = (patch: Partial<HediffMatch>) => {
+        const match: HediffMatch = { ...rule.match, ...patch };
+        // Drop cleared conditions so overrides only record what changed
+        (Object.keys(match) as (keyof HediffMatch)[]).forEach(key => {
+            const value = match[key];
+            if (value === undefined || (Array.isArray(value) && value.length === 0)) delete match[key];
+        });
+        update({ match });
+    };
+    const updateFlag = (flag: HediffFlag, value: string) => {
+        const flags = { ...rule.match?.flags };
+        if (value === '') delete flags[flag];
+        else flags[flag] = value === 'yes';
+        updateMatch({ flags: Object.keys(flags).length ? flags : undefined });
+    };
+
+    const handleAdd = (scope: TriageScope) => {
+        const created = createTriageRule(scope);
+        setDraft(d => updateTriageRule(d, created));
+        setSelectedId(created.id);
+    };
+
+    const handleDelete = () => {
+        if (rule.builtIn) return;
+        setDraft(d => deleteTriageRule(d, rule.id));
+        setSelectedId(DEFAULT_TRIAGE_RULES[0].id);
+    };
+
+    const handleResetAll = () => {
+        if (!window.confirm('Discard all overrides and custom rules and go back to the default pack?')) return;
+        setDraft({ overrides: {}, custom: [] });
+        setSelectedId(DEFAULT_TRIAGE_RULES[0].id);
+    };
+
+    const countBy = (alerts: { severity: string }[], severity: string) => alerts.filter(a => a.severity === severity).length;
+    const dirty = JSON.stringify(draft) !== JSON.stringify(store);
+
+    return (
+        <div className="overflow-modal-overlay" onClick={onClose}>
+            <div className="triage-rules-modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <div className="modal-title">
+                        <span className="work-icon">⚙️</span>
+                        <h3>Triage Rules</h3>
+                    </div>
+                    <button className="close-modal-btn" onClick={onClose} aria-label="Close">×</button>
+                </div>
+
+                <div className="triage-rules-layout">
+                    <div className="triage-rules-list">
+                        {SCOPES.map(({ scope, label, hint }) => (
+                            <div key={scope} className="triage-rules-section">
+                                <div className="triage-rules-section-header" title={hint}>
+                                    <span>{label}</span>
+                                    <button className="action-btn" onClick={() => handleAdd(scope)} title="Add a custom rule">＋</button>
+                                </div>
+                                {rules.filter(r => r.scope === scope).map(r => (
+                                    <button
+                                        key={r.id}
+                                        className={`triage-rule-item ${r.id === rule.id ? 'selected' : ''} ${r.enabled ? '' : 'disabled'}`}
+                                        onClick={() => setSelectedId(r.id)}
+                                        title={describeTriageRule(r)}
+                                    >
+                                        <span>{r.builtIn ? (draft.overrides[r.id] ? '✏️' : '🔒') : '⭐'} {r.name}</span>
+                                        {r.severity && <span className={`triage-rule-severity ${r.severity}`}>{r.severity}</span>}
+                                    </button>
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="triage-rules-editor">
+                        <div className="triage-rules-hint">
+                            {rule.builtIn
+                                ? overridden
+                                    ? 'Built-in rule with your changes. Reset to restore the default.'
+                                    : 'Built-in rule. Edits are saved as overrides on top of the default pack.'
+                                : 'Custom rule. Custom rules are checked before the built-ins.'}
+                        </div>
+
+                        <div className="triage-rules-row">
+                            <div className="triage-rules-field grow">
+                                <label>Name</label>
+                                <input type="text" value={rule.name} onChange={(e) => update({ name: e.target.value })} />
+                            </div>
+                            <label className="triage-rules-checkbox">
+                                <input type="checkbox" checked={rule.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+                                Enabled
+                            </label>
+                        </div>
+
+                        {rule.scope === 'colonist' ? (
+                            <>
+                                <h4>When</h4>
+                                <div className="triage-rules-row">
+                                    <div className="triage-rules-field grow">
+                                        <label>Metric</label>
+                                        <select
+                                            value={rule.metric}
+                                            onChange={(e) => update({ metric: e.target.value as ColonistMetric })}
+                                            title={rule.metric ? COLONIST_METRICS[rule.metric].hint : undefined}
+                                        >
+                                            {(Object.keys(COLONIST_METRICS) as ColonistMetric[]).map(m => (
+                                                <option key={m} value={m}>{COLONIST_METRICS[m].label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="triage-rules-field">
+                                        <label>Is</label>
+                                        <select value={rule.comparator} onChange={(e) => update({ comparator: e.target.value as '<' | '>' })}>
+                                            <option value="<">below</option>
+                                            <option value=">">above</option>
+                                        </select>
+                                    </div>
+                                    <div className="triage-rules-field">
+                                        <label>Threshold</label>
+                                        <input
+                                            type="number"
+                                            step="any"
+                                            value={rule.threshold ?? ''}
+                                            onChange={(e) => update({ threshold: optionalNumber(e.target.value) })}
+                                        />
+                                    </div>
+                                    <div className="triage-rules-field">
+                                        <label title="Only the first matching rule of a group fires">Group</label>
+                                        <input type="text" value={rule.group || ''} onChange={(e) => update({ group: e.target.value || undefined })} />
+                                    </div>
+                                </div>
+                            </>
+                        ) : (
+                            <>
+                                <h4>Matches hediffs</h4>
+                                <div className="triage-rules-grid">
+                                    <div className="triage-rules-field">
+                                        <label>Def names</label>
+                                        <ListInput value={rule.match?.defNames} placeholder="e.g. Plague, Flu" onChange={(defNames) => updateMatch({ defNames })} />
+                                    </div>
+                                    <div className="triage-rules-field">
+                                        <label>Def or label contains</label>
+                                        <ListInput value={rule.match?.text} placeholder="e.g. infection" onChange={(text) => updateMatch({ text })} />
+                                    </div>
+                                    <div className="triage-rules-field">
+                                        <label>Body part contains</label>
+                                        <ListInput value={rule.match?.bodyParts} placeholder="e.g. heart, lung" onChange={(bodyParts) => updateMatch({ bodyParts })} />
+                                    </div>
+                                    <div className="triage-rules-field">
+                                        <label>Has tags</label>
+                                        <ListInput value={rule.match?.tags} placeholder="e.g. infection, emergency" onChange={(tags) => updateMatch({ tags })} />
+                                    </div>
+                                    <div className="triage-rules-field">
+                                        <label>Severity above</label>
+                                        <input
+                                            type="number"
+                                            step="any"
+                                            value={rule.match?.severityAbove ?? ''}
+                                            onChange={(e) => updateMatch({ severityAbove: optionalNumber(e.target.value) })}
+                                        />
+                                    </div>
+                                    <div className="triage-rules-field">
+                                        <label>Severity below</label>
+                                        <input
+                                            type="number"
+                                            step="any"
+                                            value={rule.match?.severityBelow ?? ''}
+                                            onChange={(e) => updateMatch({ severityBelow: optionalNumber(e.target.value) })}
+                                        />
+                                    </div>
+                                    <div className="triage-rules-field">
+                                        <label>Bleed rate above (1 = 100%/day)</label>
+                                        <input
+                                            type="number"
+                                            step="any"
+                                            value={rule.match?.bleedRateAbove ?? ''}
+                                            onChange={(e) => updateMatch({ bleedRateAbove: optionalNumber(e.target.value) })}
+                                        />
+                                    </div>
+                                </div>
+                                <div className="triage-rules-flags">
+                                    {(Object.keys(FLAG_LABELS) as HediffFlag[]).map(flag => {
+                                        const value = rule.match?.flags?.[flag];
+                                        return (
+                                            <label key={flag} className="triage-rules-flag">
+                                                {FLAG_LABELS[flag]}
+                                                <select
+                                                    value={value === undefined ? '' : value ? 'yes' : 'no'}
+                                                    onChange={(e) => updateFlag(flag, e.target.value)}
+                                                >
+                                                    <option value="">any</option>
+                                                    <option value="yes">yes</option>
+                                                    <option value="no">no</option>
+                                                </select>
+                                            </label>
+                                        );
+                                    })}
+                                </div>
+                            </>
+                        )}
+
+                        <h4>Then</h4>
+                        <div className="triage-rules-grid">
+                            {rule.scope !== 'tag' && (
+                                <div className="triage-rules-field">
+                                    <label>Severity</label>
+                                    <select
+                                        value={rule.severity || 'warning'}
+                                        onChange={(e) => update({ severity: e.target.value as TriageRule['severity'] })}
+                                    >
+                                        {TRIAGE_SEVERITIES.map(s => <option key={s} value={s}>{s}</option>)}
+                                        <option value="ignore">ignore (no alert)</option>
+                                    </select>
+                                </div>
+                            )}
+                            {rule.scope === 'colonist' && (
+                                <div className="triage-rules-field">
+                                    <label>Condition</label>
+                                    <input type="text" value={rule.condition || ''} onChange={(e) => update({ condition: e.target.value })} />
+                                </div>
+                            )}
+                            {rule.scope !== 'tag' && (
+                                <div className="triage-rules-field">
+                                    <label>Body part</label>
+                                    <input
+                                        type="text"
+                                        value={rule.bodyPart || ''}
+                                        placeholder={rule.scope === 'hediff' ? "The hediff's part" : 'Overall'}
+                                        onChange={(e) => update({ bodyPart: e.target.value || undefined })}
+                                    />
+                                </div>
+                            )}
+                            <div className="triage-rules-field">
+                                <label>{rule.scope === 'tag' ? 'Add tags' : 'Alert tags'}</label>
+                                <ListInput value={rule.tags} onChange={(tags) => update({ tags })} />
+                            </div>
+                        </div>
+                        {rule.scope !== 'tag' && (
+                            <div className="triage-rules-field">
+                                <label>Description</label>
+                                <input
+                                    type="text"
+                                    value={rule.description || ''}
+                                    placeholder={rule.scope === 'hediff' ? 'Default: severity, bleeding and treatment summary' : ''}
+                                    onChange={(e) => update({ description: e.target.value || undefined })}
+                                />
+                                <span className="triage-rules-muted">
+                                    Placeholders: {rule.scope === 'hediff' ? '{label} {part} {value} {percent}' : '{value} {percent} {rate} {minutes} {hours}'}
+                                </span>
+                            </div>
+                        )}
+
+                        <div className="triage-rules-actions">
+                            {overridden && (
+                                <button className="action-btn" onClick={() => setDraft(d => resetTriageRule(d, rule.id))}>↺ Reset to default</button>
+                            )}
+                            {!rule.builtIn && (
+                                <button className="action-btn" onClick={handleDelete}>🗑️ Delete rule</button>
+                            )}
+                        </div>
+
+                        <h4>Preview against the current colony</h4>
+                        <div className="triage-rules-preview-stats">
+                            {TRIAGE_SEVERITIES.map(s => {
+                                const now = countBy(previewAlerts, s);
+                                const delta = now - countBy(savedAlerts, s);
+                                return (
+                                    <span key={s} className={`triage-rule-severity ${s}`}>
+                                        {s}: {now}{delta !== 0 && ` (${delta > 0 ? '+' : ''}${delta})`}
+                                    </span>
+                                );
+                            })}
+                        </div>
+                        {rule.scope === 'tag' ? (
+                            <div className="triage-rules-muted">
+                                {taggedHediffs.length} alert{taggedHediffs.length === 1 ? '' : 's'} carry this rule's tags
+                            </div>
+                        ) : ruleHits.length === 0 ? (
+                            <div className="triage-rules-muted">This rule doesn't fire for anyone right now.</div>
+                        ) : (
+                            <ul className="triage-rules-hits">
+                                {ruleHits.map((a, i) => (
+                                    <li key={`${a.colonistId}-${a.hediffId ?? i}`} className={a.severity}>
+                                        <strong>{a.colonistName}</strong> · {a.condition} · {a.bodyPart}
+                                        <span className="triage-rules-muted"> — {a.description}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+
+                <div className="triage-rules-footer">
+                    <button className="action-btn" onClick={handleResetAll}>Restore default pack</button>
+                    <div className="triage-rules-footer-right">
+                        <button className="action-btn" onClick={onClose}>Cancel</button>
+                        <button
+                            className="auto-assign-btn"
+                            disabled={!dirty}
+                            onClick={() => { onSave(draft); onClose(); }}
+                        >
+                            💾 Save rules
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TriageRulesModal;
@@ -0,0 +1,147 @@
+// src/components/WorkCoverageModal.tsx
+import React from 'react';
+import { CoverageGap, CoverageGapKind, CoverageReport, coverageHeat } from '../services/workCoverage';
+import { PriorityChange } from '../services/workJournal';
+import './WorkCoverageModal.css';
+
+interface WorkCoverageModalProps {
+    report: CoverageReport;
+    busy?: boolean;
+    onApply: (changes: PriorityChange[]) => void;
+    onClose: () => void;
+}
+
+const GAP_LABELS: Record<CoverageGapKind, string> = {
+    uncovered: 'Not covered',
+    'low-skill': 'Low skill',
+    'single-point': 'Single point of failure',
+};
+
+const PRIORITIES = [1, 2, 3, 4];
+
+/** One change per colonist and work type, so overlapping fixes don't fight each other. */
+const uniqueChanges = (gaps: CoverageGap[]): PriorityChange[] => {
+    const byKey = new Map<string, PriorityChange>();
+    gaps.forEach(gap => {
+        const change = gap.suggestion?.change;
+        if (!change) return;
+        const key = `${change.colonistId}::${change.work}`;
+        const existing = byKey.get(key);
+        // Keep the more urgent (lower) priority
+        if (!existing || change.after < existing.after) byKey.set(key, change);
+    });
+    return Array.from(byKey.values());
+};
+
+const WorkCoverageModal: React.FC<WorkCoverageModalProps> = ({ report, busy = false, onApply, onClose }) => {
+    const gapsByWork = new Map<string, CoverageGap[]>();
+    report.gaps.forEach(gap => gapsByWork.set(gap.work, [...(gapsByWork.get(gap.work) || []), gap]));
+
+    const allFixes = uniqueChanges(report.gaps);
+    const criticalCount = report.gaps.filter(g => g.severity === 'critical').length;
+
+    return (
+        <div className="overflow-modal-overlay" onClick={onClose}>
+            <div className="work-coverage-modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <div className="modal-title">
+                        <span className="work-icon">📊</span>
+                        <h3>Work Coverage</h3>
+                    </div>
+                    <button className="close-modal-btn" onClick={onClose} aria-label="Close">×</button>
+                </div>
+
+                <div className="work-coverage-body">
+                    <table className="work-coverage-matrix">
+                        <thead>
+                            <tr>
+                                <th>Work</th>
+                                {PRIORITIES.map(p => <th key={p}>P{p}</th>)}
+                                <th></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {report.coverage.map(cov => {
+                                const gaps = gapsByWork.get(cov.work) || [];
+                                const worst = gaps.some(g => g.severity === 'critical') ? 'critical' : gaps.length ? 'warning' : '';
+                                return (
+                                    <tr key={cov.work} className={worst}>
+                                        <td className="work-coverage-name">{cov.icon} {cov.label}</td>
+                                        {PRIORITIES.map(p => {
+                                            const workers = cov.workers.filter(w => Math.min(w.priority, 4) === p);
+                                            return (
+                                                <td
+                                                    key={p}
+                                                    className="work-coverage-cell"
+                                                    style={{ '--heat': coverageHeat(cov, p) } as React.CSSProperties}
+                                                    title={workers.map(w =>
+                                                        `${w.colonistName}${w.skill >= 0 ? ` (skill ${w.skill})` : ''}${w.unavailable ? ` – ${w.unavailable}` : ''}`
+                                                    ).join('\n') || 'Nobody'}
+                                                >
+                                                    {cov.counts[p - 1] || ''}
+                                                    {workers.some(w => w.unavailable) && <span className="work-coverage-hurt">🩹</span>}
+                                                </td>
+                                            );
+                                        })}
+                                        <td className="work-coverage-flags">
+                                            {gaps.map(g => (
+                                                <span key={g.kind} className={`work-coverage-flag ${g.severity}`} title={g.message}>
+                                                    {GAP_LABELS[g.kind]}
+                                                </span>
+                                            ))}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+
+                    <div className="work-coverage-gaps">
+                        <h4>
+                            Staffing gaps ({report.gaps.length}{criticalCount ? `, ${criticalCount} critical` : ''})
+                        </h4>
+                        {report.gaps.length === 0 ? (
+                            <div className="work-coverage-empty">✅ Every work type has a capable P1/P2 worker and a backup.</div>
+                        ) : report.gaps.map(gap => {
+                            const cov = report.coverage.find(c => c.work === gap.work);
+                            return (
+                                <div key={`${gap.work}-${gap.kind}`} className={`work-coverage-gap ${gap.severity}`}>
+                                    <div className="work-coverage-gap-text">
+                                        <strong>{cov?.icon} {cov?.label ?? gap.work}</strong>
+                                        <span className="work-coverage-gap-kind">{GAP_LABELS[gap.kind]}</span>
+                                        <div>{gap.message}</div>
+                                        <div className="work-coverage-suggestion">
+                                            {gap.suggestion ? `💡 ${gap.suggestion.description}` : 'No capable colonist is free to take this on.'}
+                                        </div>
+                                    </div>
+                                    {gap.suggestion && (
+                                        <button
+                                            className="auto-assign-btn"
+                                            disabled={busy}
+                                            onClick={() => onApply([gap.suggestion!.change])}
+                                        >
+                                            Apply
+                                        </button>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                <div className="work-coverage-footer">
+                    <button className="auto-assign-btn" onClick={onClose}>Close</button>
+                    <button
+                        className="auto-assign-btn work-coverage-apply-all"
+                        disabled={busy || allFixes.length === 0}
+                        onClick={() => onApply(allFixes)}
+                    >
+                        {busy ? 'Applying…' : `Apply ${allFixes.length} suggested fix${allFixes.length === 1 ? '' : 'es'}`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default WorkCoverageModal;
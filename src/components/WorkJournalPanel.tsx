@@ -0,0 +1,135 @@
+// src/components/WorkJournalPanel.tsx
+import React from 'react';
+import { JournalEntry, JournalEntryKind, WorkJournal } from '../services/workJournal';
+import './WorkJournalPanel.css';
+
+interface WorkJournalPanelProps {
+    journal: WorkJournal;
+    focusEntryId?: string | null;
+    busy?: boolean;
+    onRevert: (entry: JournalEntry) => void;
+    onClose: () => void;
+}
+
+const KIND_ICONS: Record<JournalEntryKind, string> = {
+    edit: '✏️',
+    remove: '➖',
+    optimize: '🧠',
+    default: '📋',
+    coverage: '📊',
+    treatment: '🩺',
+    revert: '↩️',
+};
+
+const priorityLabel = (priority: number) => (priority > 0 ? String(priority) : '–');
+
+const WorkJournalPanel: React.FC<WorkJournalPanelProps> = ({
+    journal,
+    focusEntryId = null,
+    busy = false,
+    onRevert,
+    onClose,
+}) => {
+    const [expanded, setExpanded] = React.useState<Set<string>>(
+        () => new Set(focusEntryId ? [focusEntryId] : [])
+    );
+
+    const toggle = (id: string) => {
+        setExpanded(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    // Newest first, remembering each entry's position relative to the undo cursor
+    const rows = journal.entries
+        .map((entry, index) => ({ entry, applied: index < journal.cursor }))
+        .reverse();
+
+    return (
+        <div className="overflow-modal-overlay" onClick={onClose}>
+            <div className="work-journal-modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <div className="modal-title">
+                        <span className="work-icon">📜</span>
+                        <h3>Work Priority History</h3>
+                    </div>
+                    <button className="close-modal-btn" onClick={onClose} aria-label="Close">×</button>
+                </div>
+
+                <div className="work-journal-body">
+                    {rows.length === 0 ? (
+                        <div className="work-journal-empty">No priority changes recorded yet.</div>
+                    ) : rows.map(({ entry, applied }) => {
+                        const isOpen = expanded.has(entry.id);
+                        return (
+                            <div
+                                key={entry.id}
+                                className={`work-journal-entry ${applied ? '' : 'undone'} ${entry.id === focusEntryId ? 'focused' : ''}`}
+                            >
+                                <div className="work-journal-entry-header" onClick={() => toggle(entry.id)}>
+                                    <span className="work-journal-toggle">{isOpen ? '▾' : '▸'}</span>
+                                    <span className="work-journal-kind">{KIND_ICONS[entry.kind]}</span>
+                                    <span className="work-journal-label">{entry.label}</span>
+                                    <span className="work-journal-meta">
+                                        {entry.changes.length} change{entry.changes.length === 1 ? '' : 's'}
+                                        {' · '}
+                                        {new Date(entry.at).toLocaleTimeString()}
+                                        {!applied && ' · undone'}
+                                    </span>
+                                    {applied && (
+                                        <button
+                                            className="auto-assign-btn work-journal-revert"
+                                            disabled={busy}
+                                            onClick={(e) => { e.stopPropagation(); onRevert(entry); }}
+                                            title="Put every priority in this batch back to what it was"
+                                        >
+                                            Revert batch
+                                        </button>
+                                    )}
+                                </div>
+
+                                {isOpen && (
+                                    <table className="work-journal-diff">
+                                        <thead>
+                                            <tr>
+                                                <th>Colonist</th>
+                                                <th>Work</th>
+                                                <th>Before</th>
+                                                <th></th>
+                                                <th>After</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {[...entry.changes]
+                                                .sort((a, b) => a.work.localeCompare(b.work) || a.colonistName.localeCompare(b.colonistName))
+                                                .map(change => (
+                                                    <tr key={`${change.work}-${change.colonistId}`}>
+                                                        <td>{change.colonistName}</td>
+                                                        <td>{change.work}</td>
+                                                        <td>
+                                                            <span className={`priority-badge priority-${change.before}`}>{priorityLabel(change.before)}</span>
+                                                        </td>
+                                                        <td className={change.after === 0 ? 'diff-removed' : change.before === 0 ? 'diff-added' : 'diff-changed'}>
+                                                            →
+                                                        </td>
+                                                        <td>
+                                                            <span className={`priority-badge priority-${change.after}`}>{priorityLabel(change.after)}</span>
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                        </tbody>
+                                    </table>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default WorkJournalPanel;
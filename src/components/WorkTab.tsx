@@ -4,16 +4,47 @@ import { Colonist, ColonistDetailed, Skill as SkillType } from '../types';
 import './WorkTab.css';
 import OverflowManagementModal from './OverflowManagementModal';
 import { useImageCache } from './ImageCacheContext';
-import { rimworldApi } from '../services/rimworldApi';
+import { getApiBaseUrl, rimworldApi } from '../services/rimworldApi';
+import { getIncapabilityReason, isWorkTypeDisabled } from '../services/workTraits';
+import { loadWorkTypeRegistry } from '../services/workTypeRegistry';
 import { useToast } from './ToastContext';
+import WorkJournalPanel from './WorkJournalPanel';
+import OptimizerPreviewModal from './OptimizerPreviewModal';
+import OptimizerPolicyModal from './OptimizerPolicyModal';
+import WorkCoverageModal from './WorkCoverageModal';
+import { buildCoverageReport } from '../services/workCoverage';
 import {
-    WORKTYPE_TO_SKILLS,
     Assignment,
+    OptimizerProposal,
     WorkTypeLite,
     sortAssignmentsBySkill,
     optimizeAllWorkTypes,
     getRelevantSkillNamesForWorkType,
 } from '../services/rimworldWork';
+import {
+    OptimizerPolicyStore,
+    getOptimizerPolicy,
+    listOptimizerPolicies,
+    loadOptimizerPolicies,
+    saveOptimizerPolicies,
+} from '../services/optimizerPolicy';
+import {
+    JournalEntry,
+    PriorityChange,
+    WorkJournal,
+    applyChangesToAssignments,
+    canRedo,
+    canUndo,
+    createJournalEntry,
+    diffAssignments,
+    getAssignedPriority,
+    invertChanges,
+    loadWorkJournal,
+    pushPriorityChanges,
+    recordEntry,
+    revertChanges,
+    saveWorkJournal,
+} from '../services/workJournal';
 
 interface WorkTabProps {
     colonistsDetailed?: ColonistDetailed[];
@@ -24,25 +55,6 @@ interface WorkTabProps {
 
 type WorkType = WorkTypeLite;
 
-const WORK_TYPES: WorkType[] = [
-    { id: 'firefighter', name: 'Firefighter', icon: '🔥', category: 'defense' },
-    { id: 'patient', name: 'Patient', icon: '🛏️', category: 'health' },
-    { id: 'doctor', name: 'Doctor', icon: '🏥', category: 'health' },
-    { id: 'construction', name: 'Construction', icon: '🏗️', category: 'production' },
-    { id: 'mining', name: 'Mining', icon: '⛏️', category: 'production' },
-    { id: 'growing', name: 'Growing', icon: '🌱', category: 'agriculture' },
-    { id: 'cooking', name: 'Cooking', icon: '👨‍🍳', category: 'agriculture' },
-    { id: 'research', name: 'Research', icon: '🔬', category: 'research' },
-    { id: 'warden', name: 'Warden', icon: '👮', category: 'social' },
-    { id: 'handling', name: 'Handling', icon: '🐾', category: 'agriculture' },
-    { id: 'crafting', name: 'Crafting', icon: '🛠️', category: 'production' },
-    { id: 'art', name: 'Art', icon: '🎨', category: 'production' },
-    { id: 'smithing', name: 'Smithing', icon: '⚒️', category: 'production' },
-    { id: 'tailoring', name: 'Tailoring', icon: '🧵', category: 'production' },
-    { id: 'hauling', name: 'Hauling', icon: '📦', category: 'logistics' },
-    { id: 'cleaning', name: 'Cleaning', icon: '🧹', category: 'logistics' },
-];
-
 const LOW_SKILL_THRESHOLD = 3; // highlight when skill <= 3
 
 const WorkTab: React.FC<WorkTabProps> = ({
@@ -58,28 +70,46 @@ const WorkTab: React.FC<WorkTabProps> = ({
     const [selectedColonists, setSelectedColonists] = React.useState<Assignment[]>([]);
     const [searchQuery, setSearchQuery] = React.useState('');
     const [workTypes, setWorkTypes] = React.useState<WorkTypeLite[]>([]);  // Added state for work types
+    const [journal, setJournal] = React.useState<WorkJournal>(() => loadWorkJournal(getApiBaseUrl()));
+    const [showJournal, setShowJournal] = React.useState(false);
+    const [journalFocusId, setJournalFocusId] = React.useState<string | null>(null);
+    const [journalBusy, setJournalBusy] = React.useState(false);
+    const [optimizerProposals, setOptimizerProposals] = React.useState<OptimizerProposal[] | null>(null);
+    const [optimizerBusy, setOptimizerBusy] = React.useState(false);
+    const [policyStore, setPolicyStore] = React.useState<OptimizerPolicyStore>(loadOptimizerPolicies);
+    const [showPolicyEditor, setShowPolicyEditor] = React.useState(false);
+    const [showCoverage, setShowCoverage] = React.useState(false);
+    const [coverageBusy, setCoverageBusy] = React.useState(false);
 
     const { imageCache, fetchColonistImage } = useImageCache();
     const { addToast } = useToast();
 
+    React.useEffect(() => {
+        saveWorkJournal(getApiBaseUrl(), journal);
+    }, [journal]);
+
+    React.useEffect(() => {
+        saveOptimizerPolicies(policyStore);
+    }, [policyStore]);
+
+    const recordJournalEntry = (entry: JournalEntry) => {
+        setJournal(prev => recordEntry(prev, entry));
+    };
+
     // Fetch work types from the API
     React.useEffect(() => {
         const fetchWorkTypes = async () => {
             try {
-                const workTypesFromApi = (await rimworldApi.fetchWorkList()).work;
-
-                // Map the work names from the API response to the WorkTypeLite structure with emoji and category
-                const workTypesWithDetails = workTypesFromApi.map(work => {
-                    const workType = WORK_TYPES.find(w => w.id.toLowerCase() === work.toLowerCase());
-                    return {
-                        id: work,
-                        name: work,
-                        icon: workType ? workType.icon : '⚙️', // Default icon if not found
-                        category: workType ? workType.category : 'general', // Default category if not found
-                    };
-                });
-
-                setWorkTypes(workTypesWithDetails);  // Update state with fetched work types
+                const registry = await loadWorkTypeRegistry();
+
+                // Ids stay the server-facing names so assignments can be sent back as-is
+                setWorkTypes(registry.map(meta => ({
+                    id: meta.name,
+                    name: meta.name,
+                    label: meta.label,
+                    icon: meta.icon,
+                    category: meta.category,
+                })));
             } catch (error) {
                 console.error("Failed to fetch work types:");
                 console.error(error);
@@ -164,6 +194,21 @@ const WorkTab: React.FC<WorkTabProps> = ({
     const handlePriorityChange = async (workTypeId: string, colonistId: number, newPriority: number) => {
         // Determine the server-facing work name (falls back to id if not found)
         const workName = workTypes.find(w => w.id === workTypeId)?.name ?? workTypeId;
+        const previousPriority = getAssignedPriority(assignments, workTypeId, colonistId);
+        const colonistName = assignments[workTypeId]?.find(a => a.colonist.id === colonistId)?.colonist.name ?? `#${colonistId}`;
+
+        // The game ignores priorities on work a colonist is incapable of
+        const detailed = colonistsDetailed.find(cd => cd.colonist.id === colonistId);
+        const incapable = newPriority > 0 ? getIncapabilityReason(detailed, workName) : null;
+        if (incapable) {
+            addToast({
+                type: 'warning',
+                title: `${colonistName} can't do ${workName}`,
+                message: incapable,
+                duration: 4000,
+            });
+            return;
+        }
 
         // --- optimistic update ---
         setAssignments(prev => {
@@ -176,6 +221,11 @@ const WorkTab: React.FC<WorkTabProps> = ({
 
         try {
             await rimworldApi.setColonistWorkPriority(colonistId, workName, newPriority);
+            recordJournalEntry(createJournalEntry(
+                'edit',
+                `${colonistName}: ${workName} ${previousPriority} → ${newPriority}`,
+                [{ colonistId, colonistName, work: workTypeId, before: previousPriority, after: newPriority }],
+            ));
         } catch (err) {
             console.error("Failed to update work priority:", err);
 
@@ -183,7 +233,7 @@ const WorkTab: React.FC<WorkTabProps> = ({
             setAssignments(prev => {
                 const next = { ...prev };
                 next[workTypeId] = (prev[workTypeId] || []).map(a =>
-                    a.colonist.id === colonistId ? { ...a, priority: (a.priority + 9) % 10 } : a
+                    a.colonist.id === colonistId ? { ...a, priority: previousPriority } : a
                 );
                 return next;
             });
@@ -195,6 +245,7 @@ const WorkTab: React.FC<WorkTabProps> = ({
     };
 
     const handleRemoveColonist = async (workTypeId: string, colonist: Colonist) => {
+        const previousPriority = getAssignedPriority(assignments, workTypeId, colonist.id);
         try {
             // Immediately reflect change in UI
             setAssignments(prev => ({
@@ -204,6 +255,11 @@ const WorkTab: React.FC<WorkTabProps> = ({
 
             // Send to backend: set priority = 0 (disabled)
             await rimworldApi.setColonistWorkPriority(colonist.id, workTypeId, 0);
+            recordJournalEntry(createJournalEntry(
+                'remove',
+                `${colonist.name} removed from ${workTypeId}`,
+                [{ colonistId: colonist.id, colonistName: colonist.name, work: workTypeId, before: previousPriority, after: 0 }],
+            ));
 
             addToast({
                 type: 'success',
@@ -234,52 +290,215 @@ const WorkTab: React.FC<WorkTabProps> = ({
             category: w.category, // Added category here
         }));
 
-        const getCurrentPriorityFor = (workTypeId: string, colonistId: number) => {
-            const arr = assignments[workTypeId] || [];
-            const found = arr.find(a => a.colonist.id === colonistId);
-            return found ? found.priority : 0;
-        };
+        // Dry run: nothing reaches the game until the proposals are reviewed
+        setOptimizerBusy(true);
+        try {
+            const { proposals } = await optimizeAllWorkTypes({
+                colonistsDetailed,
+                assignments,
+                workTypes: workTypesLite,
+                policy: getOptimizerPolicy(policyStore),
+                dryRun: true,
+            });
+            setOptimizerProposals(proposals);
+        } catch (error) {
+            console.error('Failed to optimize work priorities:', error);
+            addToast({
+                type: 'error',
+                title: 'Failed to optimize work priorities',
+                message: error instanceof Error ? error.message : 'Unknown error occurred',
+                duration: 5000,
+            });
+        } finally {
+            setOptimizerBusy(false);
+        }
+    };
 
-        const { nextAssignments, changes } = await optimizeAllWorkTypes({
-            colonistsDetailed,
-            assignments,
-            workTypes: workTypesLite,
-        });
+    const handleApplyOptimizerProposals = async (accepted: OptimizerProposal[]) => {
+        const changes: PriorityChange[] = accepted.map(p => ({
+            colonistId: p.colonistId,
+            colonistName: p.colonistName,
+            work: p.workTypeId,
+            before: p.before,
+            after: p.after,
+        }));
 
-        setAssignments(nextAssignments);
+        setOptimizerBusy(true);
+        try {
+            await pushPriorityChanges(changes);
+            const nextAssignments = applyChangesToAssignments(assignments, changes, colonistsDetailed);
+            setAssignments(nextAssignments);
+
+            // Open the journal on this run so the user sees exactly what the optimizer changed
+            const entry = createJournalEntry(
+                'optimize',
+                `Optimize by skills (${getOptimizerPolicy(policyStore).name})`,
+                diffAssignments(assignments, nextAssignments),
+            );
+            recordJournalEntry(entry);
+            setOptimizerProposals(null);
+            setJournalFocusId(entry.id);
+            setShowJournal(true);
 
-        addToast?.({
-            type: 'success',
-            title: 'Optimization complete',
-            message: `Made ${changes} change${changes === 1 ? '' : 's'}`,
-            duration: 3000,
-        });
+            addToast({
+                type: 'success',
+                title: 'Optimization complete',
+                message: `Applied ${changes.length} of ${optimizerProposals?.length ?? changes.length} proposed change${changes.length === 1 ? '' : 's'}`,
+                duration: 3000,
+            });
+        } catch (error) {
+            console.error('Failed to apply optimizer changes:', error);
+            addToast({
+                type: 'error',
+                title: 'Failed to apply optimizer changes',
+                message: error instanceof Error ? error.message : 'Unknown error occurred',
+                duration: 5000,
+            });
+        } finally {
+            setOptimizerBusy(false);
+        }
+    };
+
+    // Coverage follows local edits, not just the last poll
+    const coverageReport = React.useMemo(() => buildCoverageReport(
+        colonistsDetailed,
+        workTypes.map(w => w.id),
+        { priorityOf: (cd, work) => getAssignedPriority(assignments, work, cd.colonist.id) },
+    ), [colonistsDetailed, workTypes, assignments]);
+
+    const handleApplyCoverageFixes = async (changes: PriorityChange[]) => {
+        setCoverageBusy(true);
+        try {
+            await pushPriorityChanges(changes);
+            setAssignments(prev => applyChangesToAssignments(prev, changes, colonistsDetailed));
+            recordJournalEntry(createJournalEntry(
+                'coverage',
+                changes.length === 1 ? `Coverage fix: ${changes[0].work}` : `Coverage fixes (${changes.length})`,
+                changes,
+            ));
+            addToast({
+                type: 'success',
+                title: 'Coverage updated',
+                message: `Applied ${changes.length} staffing fix${changes.length === 1 ? '' : 'es'}`,
+                duration: 3000,
+            });
+        } catch (error) {
+            console.error('Failed to apply coverage fixes:', error);
+            addToast({
+                type: 'error',
+                title: 'Failed to apply coverage fixes',
+                message: error instanceof Error ? error.message : 'Unknown error occurred',
+                duration: 5000,
+            });
+        } finally {
+            setCoverageBusy(false);
+        }
     };
 
     const handleSetDefaultPriorities = async () => {
         if (!colonistsDetailed || colonistsDetailed.length === 0) return;
         console.log('Setting default priorities for skilled colonists...');
 
-        const newAssignments = { ...assignments };
-
+        const changes: PriorityChange[] = [];
         for (const cd of colonistsDetailed) {
             const c = cd.colonist;
-            for (const skill of cd.colonist_work_info.skills) {
-                if (skill.level > 5) {
-                    // find matching work types
-                    for (const [workTypeId, skills] of Object.entries(WORKTYPE_TO_SKILLS)) {
-                        if (skills.includes(skill.name)) {
-                            await rimworldApi.setColonistWorkPriority(c.id, workTypeId, 3);
-                        }
-                    }
+            for (const workType of workTypes) {
+                // priority 3 for every work type a skill above 5 qualifies for
+                const relevant = getRelevantSkillNamesForWorkType(workType.name);
+                const skilled = cd.colonist_work_info.skills.some(skill => skill.level > 5 && relevant.includes(skill.name))
+                    && !isWorkTypeDisabled(cd, workType.name);
+                const before = getAssignedPriority(assignments, workType.id, c.id);
+                if (skilled && before !== 3) {
+                    changes.push({ colonistId: c.id, colonistName: c.name, work: workType.id, before, after: 3 });
                 }
             }
         }
 
-        setAssignments(newAssignments);
-        console.log('Default priorities assigned where skill > 5.');
+        try {
+            await pushPriorityChanges(changes);
+            setAssignments(prev => applyChangesToAssignments(prev, changes, colonistsDetailed));
+            recordJournalEntry(createJournalEntry('default', 'Set default priorities', changes));
+            console.log('Default priorities assigned where skill > 5.');
+        } catch (error) {
+            console.error('Failed to set default priorities:', error);
+            addToast({
+                type: 'error',
+                title: 'Failed to set default priorities',
+                message: error instanceof Error ? error.message : 'Unknown error occurred',
+                duration: 5000
+            });
+        }
+    };
+
+    // --- change journal ---
+    const applyJournalChanges = async (changes: PriorityChange[], message: string): Promise<boolean> => {
+        setJournalBusy(true);
+        try {
+            await pushPriorityChanges(changes);
+            setAssignments(prev => applyChangesToAssignments(prev, changes, colonistsDetailed));
+            addToast({ type: 'success', title: 'Work priorities', message, duration: 3000 });
+            return true;
+        } catch (error) {
+            console.error('Failed to apply journal changes:', error);
+            addToast({
+                type: 'error',
+                title: 'Failed to update work priorities',
+                message: error instanceof Error ? error.message : 'Unknown error occurred',
+                duration: 5000
+            });
+            return false;
+        } finally {
+            setJournalBusy(false);
+        }
+    };
+
+    const handleUndo = async () => {
+        if (!canUndo(journal) || journalBusy) return;
+        const entry = journal.entries[journal.cursor - 1];
+        if (await applyJournalChanges(invertChanges(entry.changes), `Undid "${entry.label}"`)) {
+            setJournal(prev => ({ ...prev, cursor: prev.cursor - 1 }));
+        }
+    };
+
+    const handleRedo = async () => {
+        if (!canRedo(journal) || journalBusy) return;
+        const entry = journal.entries[journal.cursor];
+        if (await applyJournalChanges(entry.changes, `Redid "${entry.label}"`)) {
+            setJournal(prev => ({ ...prev, cursor: prev.cursor + 1 }));
+        }
     };
 
+    const handleRevertEntry = async (entry: JournalEntry) => {
+        const changes = revertChanges(entry, (colonistId, work) => getAssignedPriority(assignments, work, colonistId));
+        if (changes.length === 0) {
+            addToast({ type: 'info', title: 'Nothing to revert', message: 'These priorities are already back to their old values.', duration: 3000 });
+            return;
+        }
+        if (await applyJournalChanges(changes, `Reverted ${changes.length} change${changes.length === 1 ? '' : 's'} from "${entry.label}"`)) {
+            recordJournalEntry(createJournalEntry('revert', `Revert: ${entry.label}`, changes));
+        }
+    };
+
+    // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) outside of text fields
+    const shortcutsRef = React.useRef({ undo: handleUndo, redo: handleRedo });
+    shortcutsRef.current = { undo: handleUndo, redo: handleRedo };
+    React.useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            const target = e.target as HTMLElement | null;
+            if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                shortcutsRef.current.undo();
+            } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+                e.preventDefault();
+                shortcutsRef.current.redo();
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, []);
 
     React.useEffect(() => {
         if (showOverflowModal && selectedWorkType) {
@@ -323,10 +542,28 @@ const WorkTab: React.FC<WorkTabProps> = ({
                     <button
                         className="auto-assign-btn"
                         onClick={handleOptimizeBySkills}
-                        title="Assign colonists to jobs based on their highest skills"
+                        disabled={optimizerBusy}
+                        title="Propose jobs based on colonists' highest skills, then review them before applying"
                     >
                         Optimize By Skills
                     </button>
+                    <select
+                        className="optimizer-policy-select"
+                        value={policyStore.activeId}
+                        onChange={(e) => setPolicyStore(prev => ({ ...prev, activeId: e.target.value }))}
+                        title={getOptimizerPolicy(policyStore).description}
+                    >
+                        {listOptimizerPolicies(policyStore).map(p => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                    </select>
+                    <button
+                        className="auto-assign-btn"
+                        onClick={() => setShowPolicyEditor(true)}
+                        title="Edit optimizer policy profiles"
+                    >
+                        ⚙️ Policies
+                    </button>
                     <button
                         className="auto-assign-btn"
                         onClick={handleSetDefaultPriorities}
@@ -334,6 +571,38 @@ const WorkTab: React.FC<WorkTabProps> = ({
                     >
                         Set Default
                     </button>
+                    <button
+                        className="auto-assign-btn"
+                        onClick={() => setShowCoverage(true)}
+                        title="Coverage matrix and staffing gaps"
+                    >
+                        📊 Coverage{coverageReport.gaps.length > 0 ? ` (${coverageReport.gaps.length})` : ''}
+                    </button>
+                    <div className="journal-buttons">
+                        <button
+                            className="auto-assign-btn"
+                            onClick={handleUndo}
+                            disabled={!canUndo(journal) || journalBusy}
+                            title={canUndo(journal) ? `Undo "${journal.entries[journal.cursor - 1].label}" (Ctrl+Z)` : 'Nothing to undo'}
+                        >
+                            ↶ Undo
+                        </button>
+                        <button
+                            className="auto-assign-btn"
+                            onClick={handleRedo}
+                            disabled={!canRedo(journal) || journalBusy}
+                            title={canRedo(journal) ? `Redo "${journal.entries[journal.cursor].label}" (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                        >
+                            ↷ Redo
+                        </button>
+                        <button
+                            className="auto-assign-btn"
+                            onClick={() => { setJournalFocusId(null); setShowJournal(true); }}
+                            title="Show every work priority change"
+                        >
+                            📜 History ({journal.entries.length})
+                        </button>
+                    </div>
                 </div>
             </div>
 
@@ -343,7 +612,7 @@ const WorkTab: React.FC<WorkTabProps> = ({
                     .map(workType => {
                         const list = (assignments[workType.id] || []);
                         const sorted = sortAssignmentsBySkill(list, workType.id);
-                        const { matchesCard, filtered } = filterAssignmentsForWork(sorted, workType.name);
+                        const { matchesCard, filtered } = filterAssignmentsForWork(sorted, `${workType.name} ${workType.label ?? ''}`);
 
                         if (!matchesCard) return null;
 
@@ -376,6 +645,43 @@ const WorkTab: React.FC<WorkTabProps> = ({
                     onRemoveColonist={handleRemoveColonist}
                 />
             )}
+
+            {optimizerProposals && (
+                <OptimizerPreviewModal
+                    proposals={optimizerProposals}
+                    busy={optimizerBusy}
+                    onApply={handleApplyOptimizerProposals}
+                    onClose={() => setOptimizerProposals(null)}
+                />
+            )}
+
+            {showPolicyEditor && (
+                <OptimizerPolicyModal
+                    store={policyStore}
+                    workNames={workTypes.map(w => w.name)}
+                    onChange={setPolicyStore}
+                    onClose={() => setShowPolicyEditor(false)}
+                />
+            )}
+
+            {showCoverage && (
+                <WorkCoverageModal
+                    report={coverageReport}
+                    busy={coverageBusy}
+                    onApply={handleApplyCoverageFixes}
+                    onClose={() => setShowCoverage(false)}
+                />
+            )}
+
+            {showJournal && (
+                <WorkJournalPanel
+                    journal={journal}
+                    focusEntryId={journalFocusId}
+                    busy={journalBusy}
+                    onRevert={handleRevertEntry}
+                    onClose={() => setShowJournal(false)}
+                />
+            )}
         </div>
     );
 };
@@ -394,12 +700,6 @@ function getSkillLevel(skills: SkillType[] | undefined, names: string[]): number
     return best;
 }
 
-function isWorkTypeDisabledByTraits(_detailed: ColonistDetailed | undefined, _workTypeId: string): boolean {
-    // Placeholder for future dev: inspect detailed.colonist_work_info.traits for incapabilities (e.g., "Incapable of Violence")
-    // return true/false accordingly.
-    return false;
-}
-
 // ---------- Work Type Card ----------
 
 interface WorkTypeCardProps {
@@ -438,7 +738,7 @@ const WorkTypeCard: React.FC<WorkTypeCardProps> = ({
             {/* Work Type Header + count pill */}
             <div className="work-type-header">
                 <span className="work-icon">{workType.icon}</span>
-                <span className="work-name">{workType.name}</span>
+                <span className="work-name" title={workType.name}>{workType.label ?? workType.name}</span>
                 <span className="work-count-pill" aria-label="assigned count">{count}</span>
             </div>
 
@@ -506,7 +806,8 @@ const ColonistAssignmentCard: React.FC<ColonistAssignmentCardProps> = ({
 }) => {
     const relevantSkills = getRelevantSkillNamesForWorkType(workTypeId);
     const level = getSkillLevel(assignment.skills, relevantSkills);
-    const disabledByTrait = isWorkTypeDisabledByTraits(assignment.detailed, workTypeId);
+    const incapableReason = getIncapabilityReason(assignment.detailed, workTypeId);
+    const disabledByTrait = incapableReason !== null;
 
     const isLowSkill = (level ?? -1) < LOW_SKILL_THRESHOLD && relevantSkills.length > 0 && !disabledByTrait;
 
@@ -531,10 +832,10 @@ const ColonistAssignmentCard: React.FC<ColonistAssignmentCardProps> = ({
 
     return (
         <div
-            className={`colonist-assignment-card ${isLowSkill ? 'low-skill' : ''}`}
+            className={`colonist-assignment-card ${isLowSkill ? 'low-skill' : ''} ${disabledByTrait ? 'incapable' : ''}`}
             title={
                 disabledByTrait
-                    ? 'Incapable due to trait'
+                    ? `Incapable: ${incapableReason}`
                     : relevantSkills.length
                         ? `${relevantSkills.join('/')} level: ${level ?? '—'}`
                         : 'No relevant skill'
@@ -3,6 +3,12 @@ import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
 import reportWebVitals from './reportWebVitals';
+import { getRequestedDemoScenario, startDemoMode } from './mocks/demoMode';
+
+const demoScenario = getRequestedDemoScenario();
+if (demoScenario) {
+  startDemoMode(demoScenario);
+}
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
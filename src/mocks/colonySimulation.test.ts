@@ -0,0 +1,58 @@
+import { advanceColony, formatGameDate } from './colonySimulation';
+import { MOCK_SCENARIOS } from './scenarios';
+
+const quiet = () => 0.99; // no weather change, no raid
+const eventful = () => 0; // every roll succeeds
+
+test('formats ticks as a RimWorld date', () => {
+  expect(formatGameDate(7_475_000)).toMatchObject({ date: '5th of Aprimay, 5502', hour: 14 });
+  expect(formatGameDate(0).date).toBe('1st of Aprimay, 5500');
+});
+
+test('advances the clock by six hours per step', () => {
+  const colony = MOCK_SCENARIOS.healthy.build();
+  advanceColony(colony, quiet);
+  expect(colony.datetime).toBe('5th of Aprimay, 5502, 20h');
+});
+
+test('researchers make progress and finish projects', () => {
+  const colony = MOCK_SCENARIOS.healthy.build();
+  colony.researchSummary.by_tab.Anomaly = { finished: 0, total: 40, percent_complete: 0, projects: [] };
+  const before = colony.researchProgress!.progress;
+  advanceColony(colony, quiet);
+  expect(colony.researchProgress!.progress).toBeGreaterThan(before);
+
+  const events = [];
+  for (let i = 0; i < 10 && colony.researchFinished.finished_projects.length === 6; i++) {
+    events.push(...advanceColony(colony, quiet));
+  }
+  expect(colony.researchFinished.finished_projects).toContain('Electricity');
+  expect(colony.researchSummary.finished_projects_count).toBe(7);
+  expect(colony.researchSummary.by_tab.Main).toMatchObject({ finished: 7, percent_complete: 8 });
+  expect(colony.researchSummary.by_tab.Anomaly.finished).toBe(0);
+  expect(events.map((e) => e.message)).toContain('Research finished: electricity');
+});
+
+test('starts a project when nothing is being researched', () => {
+  const colony = MOCK_SCENARIOS.emptyResearch.build();
+  advanceColony(colony, quiet);
+  expect(colony.researchProgress?.name).toBe('Electricity');
+});
+
+test('raids arrive, get repelled and leave injuries behind', () => {
+  const colony = MOCK_SCENARIOS.healthy.build();
+  advanceColony(colony, eventful);
+  const hostiles = () => (colony.creatures.enemies_count ?? 0) + (colony.creatures.mechanoids_count ?? 0);
+  expect(hostiles()).toBeGreaterThan(0);
+
+  for (let i = 0; i < 10 && hostiles() > 0; i++) advanceColony(colony, () => 0.9);
+  expect(hostiles()).toBe(0);
+  expect(colony.colonists.some((c) => c.colonist_medical_info.hediffs.length > 0)).toBe(true);
+});
+
+test('doctors tend bleeding wounds', () => {
+  const colony = MOCK_SCENARIOS.massCasualty.build();
+  advanceColony(colony, quiet);
+  const bleeding = colony.colonists.flatMap((c) => c.colonist_medical_info.hediffs).filter((h) => h.bleeding);
+  expect(bleeding).toHaveLength(0);
+});
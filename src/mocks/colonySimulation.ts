@@ -0,0 +1,422 @@
+// src/mocks/colonySimulation.ts
+// Moves a MockColony forward in time for the demo mode: the clock and weather advance,
+// power follows the daylight, moods drift, research progresses, food is cooked and
+// eaten, colonists have birthdays and the occasional raid leaves injuries behind.
+import { ColonistDetailed, Hediff } from '../types';
+import { buildHediff, MockColony } from './fixtures';
+import { MockRimApi } from './mockRimApi';
+
+export interface SimulationEvent {
+  level: 'Info' | 'Warning' | 'Error';
+  message: string;
+}
+
+export interface SimulationOptions {
+  intervalMs?: number;
+  random?: () => number;
+}
+
+const TICKS_PER_HOUR = 2500;
+const HOURS_PER_STEP = 6;
+const TICKS_PER_STEP = TICKS_PER_HOUR * HOURS_PER_STEP;
+const DAYS_PER_QUADRUM = 15;
+const QUADRUMS = ['Aprimay', 'Jugust', 'Septober', 'Decembary'];
+const DAYS_PER_YEAR = DAYS_PER_QUADRUM * QUADRUMS.length;
+const START_YEAR = 5500;
+
+const RAID_CHANCE = 0.04;
+const MECHANOID_RAID_SHARE = 0.2;
+const WEATHERS = ['Clear', 'Clear', 'Clear', 'Rain', 'Fog', 'Overcast', 'Eclipse'];
+
+const RESEARCH_QUEUE = [
+  { name: 'Electricity', label: 'electricity', points: 1600, tech: 'Industrial', tab: 'Main' },
+  { name: 'Batteries', label: 'batteries', points: 400, tech: 'Industrial', tab: 'Main' },
+  { name: 'AirConditioning', label: 'air conditioning', points: 600, tech: 'Industrial', tab: 'Main' },
+  { name: 'Hydroponics', label: 'hydroponics', points: 700, tech: 'Industrial', tab: 'Main' },
+  { name: 'GunTurrets', label: 'gun turrets', points: 500, tech: 'Industrial', tab: 'Main' },
+  { name: 'Machining', label: 'machining', points: 1000, tech: 'Industrial', tab: 'Main' },
+  { name: 'Microelectronics', label: 'microelectronics basics', points: 3000, tech: 'Industrial', tab: 'Main' },
+  { name: 'MultiAnalyzer', label: 'multi-analyzer', points: 4000, tech: 'Spacer', tab: 'Main' },
+];
+
+const JOBS: Record<string, string> = {
+  Doctor: 'Tending to wounds',
+  Construction: 'Constructing wall',
+  Mining: 'Mining granite',
+  Growing: 'Sowing rice',
+  PlantCutting: 'Harvesting rice',
+  Cooking: 'Cooking simple meal',
+  Research: 'Researching',
+  Warden: 'Chatting with prisoner',
+  Handling: 'Taming muffalo',
+  Crafting: 'Making components',
+  Smithing: 'Smithing longsword',
+  Tailoring: 'Tailoring parka',
+  Art: 'Sculpting',
+  Hauling: 'Hauling steel',
+  Cleaning: 'Cleaning',
+  Hunting: 'Hunting deer',
+};
+
+// -----------------------------
+// Helpers
+// -----------------------------
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const ordinal = (n: number) => {
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
+
+/** RimWorld calendar for a tick count, e.g. "5th of Aprimay, 5502". */
+export const formatGameDate = (ticks: number) => {
+  const totalHours = Math.floor(ticks / TICKS_PER_HOUR);
+  const totalDays = Math.floor(totalHours / 24);
+  const dayOfYear = totalDays % DAYS_PER_YEAR;
+  const date = `${ordinal((dayOfYear % DAYS_PER_QUADRUM) + 1)} of ${QUADRUMS[Math.floor(dayOfYear / DAYS_PER_QUADRUM)]}, ${START_YEAR + Math.floor(totalDays / DAYS_PER_YEAR)}`;
+  return { date, hour: totalHours % 24, dayOfYear, totalDays };
+};
+
+const skillLevel = (cd: ColonistDetailed, name: string) =>
+  cd.colonist_work_info.skills.find((s) => s.name === name)?.level ?? 0;
+
+const priorityFor = (cd: ColonistDetailed, work: string) =>
+  cd.colonist_work_info.work_priorities.find((wp) => wp.work_type === work)?.priority ?? 0;
+
+const workers = (colony: MockColony, work: string) =>
+  colony.colonists.filter((cd) => priorityFor(cd, work) > 0 && cd.colonist_medical_info.health > 0.3);
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length) % items.length];
+
+const nextHediffId = (colony: MockColony) =>
+  1 + Math.max(10000, ...colony.colonists.flatMap((cd) => cd.colonist_medical_info.hediffs.map((h) => h.load_id)));
+
+const setCategoryCount = (colony: MockColony, category: string, count: number) => {
+  const entry = colony.resourcesSummary.categories?.find((c) => c.category === category);
+  if (!entry) return;
+  const unitValue = entry.count > 0 ? entry.market_value / entry.count : 1;
+  entry.count = Math.max(0, Math.round(count));
+  entry.market_value = Math.round(entry.count * unitValue);
+};
+
+const categoryCount = (colony: MockColony, category: string) =>
+  colony.resourcesSummary.categories?.find((c) => c.category === category)?.count ?? 0;
+
+// -----------------------------
+// Steps
+// -----------------------------
+const advanceClock = (colony: MockColony, random: () => number, events: SimulationEvent[]) => {
+  const before = formatGameDate(colony.ticks);
+  colony.ticks += TICKS_PER_STEP;
+  const now = formatGameDate(colony.ticks);
+
+  colony.datetime = `${now.date}, ${now.hour}h`;
+  colony.gameState = { ...colony.gameState, game_time: now.date };
+
+  // Weather changes every few hours; an eclipse shuts solar panels down until it passes
+  if (random() < 0.2) {
+    const weather = pick(WEATHERS, random);
+    if (weather !== colony.weather.weather) {
+      colony.weather = { ...colony.weather, weather };
+      colony.gameState.weather = weather;
+      if (weather === 'Eclipse') events.push({ level: 'Warning', message: 'An eclipse has started. Solar generators are offline.' });
+    }
+  }
+  const season = Math.sin((now.dayOfYear / DAYS_PER_YEAR) * 2 * Math.PI);
+  const daytime = Math.sin(((now.hour - 6) / 24) * 2 * Math.PI);
+  const temperature = Math.round((12 + season * 14 + daytime * 6 + (random() - 0.5) * 3) * 10) / 10;
+  colony.weather.temperature = temperature;
+  colony.gameState.temperature = temperature;
+
+  return { crossedDay: now.totalDays !== before.totalDays, dayOfYear: now.dayOfYear };
+};
+
+const advancePower = (colony: MockColony) => {
+  const { hour } = formatGameDate(colony.ticks);
+  const daylight = hour >= 6 && hour < 18 && colony.weather.weather !== 'Eclipse';
+  const possible = colony.power.total_possible_power ?? 0;
+  const consumption = colony.power.total_consumption ?? 0;
+  const storage = colony.power.total_power_storage ?? 0;
+
+  const generated = daylight ? possible : Math.round(possible * 0.15);
+  const net = generated - consumption;
+  const stored = clamp((colony.power.currently_stored_power ?? 0) + net * (HOURS_PER_STEP / 24), 0, storage);
+  const powered = net >= 0 || stored > 0;
+
+  colony.power = {
+    ...colony.power,
+    current_power: generated,
+    currently_stored_power: Math.round(stored),
+    consumption_power_on: powered ? consumption : 0,
+  };
+  colony.buildings = colony.buildings.map((b) => ('is_turret' in b ? { ...b, is_powered: powered } : b));
+  return powered;
+};
+
+const advanceResearch = (colony: MockColony, events: SimulationEvent[]) => {
+  const researchers = workers(colony, 'Research');
+  if (researchers.length === 0) return;
+
+  const finished = colony.researchFinished.finished_projects;
+  if (!colony.researchProgress) {
+    const next = RESEARCH_QUEUE.find((p) => !finished.includes(p.name));
+    if (!next) return;
+    colony.researchProgress = {
+      name: next.name,
+      label: next.label,
+      progress: 0,
+      research_points: next.points,
+      description: `Research ${next.label}.`,
+      is_finished: false,
+      can_start_now: true,
+      player_has_any_appropriate_research_bench: true,
+      required_analyzed_thing_count: 0,
+      analyzed_things_completed: 0,
+      tech_level: next.tech,
+      prerequisites: [],
+      hidden_prerequisites: [],
+      required_by_this: [],
+      progress_percent: 0,
+    };
+    events.push({ level: 'Info', message: `Research started: ${next.label}` });
+  }
+
+  const project = colony.researchProgress;
+  const gained = researchers.reduce((sum, cd) => sum + skillLevel(cd, 'Intellectual') * 8, 0);
+  project.progress = Math.min(project.research_points, project.progress + gained);
+  project.progress_percent = Math.round((project.progress / project.research_points) * 1000) / 10;
+
+  if (project.progress >= project.research_points) {
+    colony.researchFinished = { finished_projects: [...finished, project.name] };
+    const summary = colony.researchSummary;
+    summary.finished_projects_count += 1;
+    const level = summary.by_tech_level[project.tech_level];
+    if (level) {
+      level.finished += 1;
+      level.projects = [...level.projects, project.name];
+      level.percent_complete = Math.round((level.finished / level.total) * 1000) / 10;
+    }
+    const tab = summary.by_tab[RESEARCH_QUEUE.find((p) => p.name === project.name)?.tab ?? 'Main'];
+    if (tab) {
+      tab.finished += 1;
+      tab.projects = [...tab.projects, project.name];
+      tab.percent_complete = Math.round((tab.finished / tab.total) * 1000) / 10;
+    }
+    events.push({ level: 'Info', message: `Research finished: ${project.label}` });
+    colony.researchProgress = null;
+  }
+};
+
+const advanceFood = (colony: MockColony, events: SimulationEvent[]) => {
+  const raw = categoryCount(colony, 'Foods') + workers(colony, 'Growing')
+    .reduce((sum, cd) => sum + skillLevel(cd, 'Plants') * 2, 0);
+  const cooked = Math.min(
+    Math.floor(raw / 10),
+    workers(colony, 'Cooking').reduce((sum, cd) => sum + Math.ceil(skillLevel(cd, 'Cooking') / 3), 0),
+  );
+  const mealsBefore = categoryCount(colony, 'Meals');
+  const meals = Math.max(0, mealsBefore + cooked - Math.ceil(colony.colonists.length / 2));
+
+  setCategoryCount(colony, 'Foods', raw - cooked * 10);
+  setCategoryCount(colony, 'Meals', meals);
+  colony.stored.food?.forEach((item) => {
+    if (item.def_name === 'MealSimple') item.stack_count = meals;
+    if (item.def_name === 'RawRice') item.stack_count = Math.max(0, Math.round(raw - cooked * 10));
+  });
+  const categories = colony.resourcesSummary.categories || [];
+  colony.resourcesSummary.total_items = categories.reduce((sum, c) => sum + c.count, 0);
+  colony.resourcesSummary.total_market_value = categories.reduce((sum, c) => sum + c.market_value, 0);
+
+  if (meals < 10 && mealsBefore >= 10) {
+    events.push({ level: 'Warning', message: 'Low on meals. Assign more cooks or growers.' });
+  }
+};
+
+const injure = (colony: MockColony, cd: ColonistDetailed, random: () => number): Hediff => {
+  const wound = pick([
+    { def_name: 'Gunshot', label: 'gunshot', bleed: 0.18 },
+    { def_name: 'Cut', label: 'cut', bleed: 0.1 },
+    { def_name: 'Scratch', label: 'scratch', bleed: 0.06 },
+    { def_name: 'Bruise', label: 'bruise', bleed: 0 },
+  ], random);
+  const part = pick(['torso', 'left arm', 'right arm', 'left leg', 'right leg', 'head'], random);
+  const hediff = buildHediff(nextHediffId(colony), {
+    def_name: wound.def_name,
+    label: wound.label,
+    part_label: part,
+    part_def_name: part.replace(/^(left|right) /, '').replace(/^\w/, (c) => c.toUpperCase()),
+    severity: Math.round((3 + random() * 9) * 10) / 10,
+    bleeding: wound.bleed > 0,
+    bleed_rate: wound.bleed,
+    pain_offset: 0.08 + random() * 0.12,
+    age_ticks: 0,
+    age_string: 'just now',
+  });
+  cd.colonist_medical_info.hediffs.push(hediff);
+  return hediff;
+};
+
+const advanceRaids = (colony: MockColony, powered: boolean, random: () => number, events: SimulationEvent[]) => {
+  const creatures = colony.creatures;
+  const hostiles = (creatures.enemies_count ?? 0) + (creatures.mechanoids_count ?? 0);
+
+  if (hostiles === 0) {
+    if (random() >= RAID_CHANCE) return false;
+    const size = 3 + Math.floor(random() * 6);
+    if (random() < MECHANOID_RAID_SHARE) {
+      creatures.mechanoids_count = size;
+      events.push({ level: 'Error', message: `A cluster of ${size} mechanoids is attacking the colony!` });
+    } else {
+      creatures.enemies_count = size;
+      events.push({ level: 'Error', message: `Raid! ${size} pirates are attacking the colony.` });
+    }
+    return true;
+  }
+
+  // Defenders and powered turrets whittle the attackers down while some of them get hurt
+  const defenders = colony.colonists.filter((cd) => cd.colonist_medical_info.health > 0.3);
+  const turrets = powered ? colony.buildings.filter((b) => 'is_turret' in b).length : 0;
+  const killed = Math.max(1, Math.round(defenders.length * 0.5 + turrets * 0.5 + random()));
+
+  const injuries = Math.min(defenders.length, Math.floor(hostiles * random() * 0.4));
+  for (let i = 0; i < injuries; i++) {
+    const victim = pick(defenders, random);
+    const hediff = injure(colony, victim, random);
+    events.push({ level: 'Warning', message: `${victim.colonist.name} suffered a ${hediff.label} to the ${hediff.part_label}.` });
+  }
+
+  if (creatures.mechanoids_count) creatures.mechanoids_count = Math.max(0, creatures.mechanoids_count - killed);
+  else creatures.enemies_count = Math.max(0, (creatures.enemies_count ?? 0) - killed);
+
+  if ((creatures.enemies_count ?? 0) + (creatures.mechanoids_count ?? 0) === 0) {
+    events.push({ level: 'Info', message: 'The attackers have been repelled.' });
+    return false;
+  }
+  return true;
+};
+
+const advanceHealth = (colony: MockColony, events: SimulationEvent[]) => {
+  const hasDoctor = workers(colony, 'Doctor').length > 0;
+
+  colony.colonists.forEach((cd) => {
+    const medical = cd.colonist_medical_info;
+    let hediffs = medical.hediffs;
+
+    if (hasDoctor) {
+      hediffs.filter((h) => h.tendable_now && !h.is_tended).forEach((h) => {
+        h.is_tended = true;
+        h.tendable_now = false;
+        h.bleeding = false;
+        h.bleed_rate = 0;
+      });
+    }
+
+    const bleeding = hediffs.reduce((sum, h) => sum + (h.bleeding ? h.bleed_rate : 0), 0);
+    let bloodLoss = hediffs.find((h) => h.def_name === 'BloodLoss');
+    if (bleeding > 0 && !bloodLoss) {
+      bloodLoss = buildHediff(nextHediffId(colony), {
+        def_name: 'BloodLoss', label: 'blood loss', part_label: null, part_def_name: null,
+        severity: 0, tendable_now: false, pain_offset: 0, is_lethal: true, can_ever_kill: true,
+      });
+      hediffs.push(bloodLoss);
+    }
+
+    hediffs.forEach((h) => {
+      h.age_ticks += TICKS_PER_STEP;
+      h.age_string = `${Math.round(h.age_ticks / TICKS_PER_HOUR)} hours`;
+      if (h === bloodLoss) {
+        h.severity = bleeding > 0 ? Math.min(1, h.severity + bleeding * 0.25) : h.severity - 0.1;
+      } else if (h.is_permanent) {
+        return;
+      } else if (h.severity < 1) {
+        // Diseases: tending beats them back, otherwise they progress
+        h.severity = Math.min(1, h.severity + (h.is_tended ? -0.03 : 0.04));
+      } else if (h.is_tended) {
+        h.severity = Math.round((h.severity - 1) * 10) / 10;
+      }
+    });
+
+    const healed = hediffs.filter((h) => !h.is_permanent && h.severity <= 0);
+    if (healed.length > 0) {
+      hediffs = hediffs.filter((h) => !healed.includes(h));
+      medical.hediffs = hediffs;
+    }
+
+    const injurySeverity = hediffs
+      .filter((h) => h.def_name !== 'BloodLoss' && !h.is_permanent)
+      .reduce((sum, h) => sum + (h.severity >= 1 ? h.severity : h.severity * 10), 0);
+    const health = clamp(1 - injurySeverity / 40 - (bloodLoss?.severity ?? 0) * 0.6, 0.05, 1);
+    const wasHealthy = medical.health >= 0.25;
+    medical.health = Math.round(health * 100) / 100;
+    cd.colonist.health = medical.health;
+
+    if (wasHealthy && medical.health < 0.25) {
+      events.push({ level: 'Error', message: `${cd.colonist.name} is in critical condition.` });
+    }
+  });
+};
+
+const advanceColonists = (
+  colony: MockColony,
+  dayOfYear: number,
+  crossedDay: boolean,
+  raiding: boolean,
+  powered: boolean,
+  random: () => number,
+  events: SimulationEvent[],
+) => {
+  const mealsShort = categoryCount(colony, 'Meals') < colony.colonists.length;
+
+  colony.colonists.forEach((cd) => {
+    const c = cd.colonist;
+    const target = 0.7 - (raiding ? 0.2 : 0) - (1 - c.health) * 0.4 - (powered ? 0 : 0.1) - (mealsShort ? 0.15 : 0);
+    c.mood = Math.round(clamp(c.mood + (target - c.mood) * 0.15 + (random() - 0.5) * 0.06, 0, 1) * 100) / 100;
+    c.hunger = mealsShort ? Math.max(0.05, c.hunger - 0.1) : Math.min(1, c.hunger + 0.1);
+
+    // Every colonist has a birthday somewhere in the year
+    if (crossedDay && dayOfYear === (c.id * 7) % DAYS_PER_YEAR) {
+      c.age += 1;
+      events.push({ level: 'Info', message: `${c.name} turned ${c.age} today.` });
+    }
+
+    const primaryWork = cd.colonist_work_info.work_priorities
+      .filter((wp) => wp.priority > 0 && JOBS[wp.work_type])
+      .sort((a, b) => a.priority - b.priority);
+    if (raiding && c.health > 0.3) {
+      cd.colonist_work_info.current_job = 'Defending the colony';
+    } else if (c.health < 0.3) {
+      cd.colonist_work_info.current_job = 'Lying in bed';
+    } else if (primaryWork.length > 0) {
+      cd.colonist_work_info.current_job = JOBS[pick(primaryWork.slice(0, 3), random).work_type];
+    }
+  });
+};
+
+// -----------------------------
+// Public API
+// -----------------------------
+
+/** Advances `colony` by one step (six in-game hours) and returns what happened. */
+export const advanceColony = (colony: MockColony, random: () => number = Math.random): SimulationEvent[] => {
+  const events: SimulationEvent[] = [];
+  const { crossedDay, dayOfYear } = advanceClock(colony, random, events);
+  const powered = advancePower(colony);
+  const raiding = advanceRaids(colony, powered, random, events);
+  advanceHealth(colony, events);
+  advanceResearch(colony, events);
+  advanceFood(colony, events);
+  advanceColonists(colony, dayOfYear, crossedDay, raiding, powered, random, events);
+  colony.creatures.colonists_count = colony.colonists.length;
+  return events;
+};
+
+/** Steps the mock's colony on an interval and posts each happening to /events. Returns a stop function. */
+export const startColonySimulation = (api: MockRimApi, options: SimulationOptions = {}): (() => void) => {
+  const { intervalMs = 5000, random = Math.random } = options;
+  const id = setInterval(() => {
+    advanceColony(api.colony, random).forEach((event) => {
+      api.emit('log_message', { level: event.level, message: `[Demo] ${event.message}` });
+    });
+  }, intervalMs);
+  return () => clearInterval(id);
+};
@@ -0,0 +1,55 @@
+// src/mocks/demoMode.ts
+// Runs the dashboard against a simulated colony served by the mock RIMAPI, for trying it
+// out without RimWorld. Pick "Try demo colony" on the connect screen, or enable it with
+// `?demo=<scenario>` in the URL or REACT_APP_DEMO_SCENARIO=<scenario> for `npm start`.
+import { ServerProfile } from '../services/serverProfiles';
+import { startColonySimulation, SimulationOptions } from './colonySimulation';
+import { createMockRimApi, installMockRimApi, MOCK_API_URL, MockRimApi } from './mockRimApi';
+import { isMockScenarioId, MOCK_SCENARIOS, MockScenarioId } from './scenarios';
+
+let mockApi: MockRimApi | null = null;
+let activeDemo: { scenario: MockScenarioId; stopSimulation: () => void } | null = null;
+
+/** The scenario requested by the URL or the build environment, if any. */
+export const getRequestedDemoScenario = (): MockScenarioId | null => {
+  const fromUrl = new URLSearchParams(window.location.search).get('demo');
+  if (fromUrl !== null) return isMockScenarioId(fromUrl) ? fromUrl : 'healthy';
+  const fromEnv = process.env.REACT_APP_DEMO_SCENARIO;
+  return isMockScenarioId(fromEnv) ? fromEnv : null;
+};
+
+/**
+ * Serves a fresh colony for `scenario` from the mock API and starts simulating it.
+ * The mock is installed on first use; calling this again restarts with another scenario.
+ */
+export const startDemoMode = (scenario: MockScenarioId, options?: SimulationOptions): MockRimApi => {
+  activeDemo?.stopSimulation();
+
+  if (mockApi) {
+    mockApi.loadScenario(scenario);
+  } else {
+    mockApi = createMockRimApi(scenario);
+    installMockRimApi(mockApi);
+  }
+
+  activeDemo = { scenario, stopSimulation: startColonySimulation(mockApi, options) };
+  return mockApi;
+};
+
+/** Stops the simulation. The mock stays installed but only answers the demo URL. */
+export const stopDemoMode = () => {
+  activeDemo?.stopSimulation();
+  activeDemo = null;
+};
+
+export const getActiveDemoScenario = (): MockScenarioId | null => activeDemo?.scenario ?? null;
+
+export const isDemoProfile = (profile: Pick<ServerProfile, 'url'>) => profile.url === MOCK_API_URL;
+
+/** Connection profile pointing at the mock API. It is never persisted. */
+export const createDemoProfile = (scenario: MockScenarioId): ServerProfile => ({
+  id: `demo-${scenario}`,
+  label: `Demo: ${MOCK_SCENARIOS[scenario].label}`,
+  url: MOCK_API_URL,
+  color: '#adb5bd',
+});
@@ -0,0 +1,386 @@
+// src/mocks/fixtures.ts
+// Payloads recorded from a RIMAPI session (trimmed and anonymised), plus builders
+// to derive variations of them for the scenario presets.
+import {
+  ColonistDetailed,
+  CreaturesSummary,
+  GameState,
+  Hediff,
+  MapInfo,
+  ModInfo,
+  PowerInfo,
+  ResearchFinished,
+  ResearchProgress,
+  ResearchSummary,
+  ResourceItem,
+  ResourcesData,
+  ResourceSummary,
+  Skill,
+  TimeAssignment,
+  Trait,
+  WorkPriority,
+} from '../types';
+
+/** Everything the mock server serves; one instance per simulated colony. */
+export interface MockColony {
+  ticks: number; // game ticks since 1st of Aprimay, 5500
+  gameState: GameState;
+  datetime: string;
+  weather: { weather: string; temperature: number };
+  maps: MapInfo[];
+  colonists: ColonistDetailed[];
+  creatures: CreaturesSummary;
+  power: PowerInfo;
+  resourcesSummary: ResourceSummary;
+  stored: ResourcesData;
+  inventories: Record<number, ResourceItem[]>;
+  buildings: Record<string, unknown>[];
+  researchProgress: ResearchProgress | null;
+  researchFinished: ResearchFinished;
+  researchSummary: ResearchSummary;
+  mods: ModInfo[];
+  workList: string[];
+  materials: string[];
+  timetables: Record<number, TimeAssignment[]>;
+}
+
+// 1x1 transparent PNG, served for every portrait and item texture
+export const PLACEHOLDER_IMAGE_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+export const WORK_LIST = [
+  'Firefighter', 'Patient', 'Doctor', 'PatientBedRest', 'BasicWorker', 'Warden', 'Handling',
+  'Cooking', 'Hunting', 'Construction', 'Growing', 'Mining', 'PlantCutting', 'Smithing',
+  'Tailoring', 'Art', 'Crafting', 'Hauling', 'Cleaning', 'Research',
+];
+
+const SKILL_NAMES = [
+  'Shooting', 'Melee', 'Construction', 'Mining', 'Cooking', 'Plants',
+  'Animals', 'Crafting', 'Artistic', 'Medicine', 'Social', 'Intellectual',
+];
+
+const LEVEL_DESCRIPTORS = [
+  'Incapable', 'Awful', 'Poor', 'Poor', 'Mediocre', 'Mediocre', 'Average', 'Average',
+  'Decent', 'Decent', 'Skilled', 'Skilled', 'Good', 'Good', 'Very good', 'Very good',
+  'Excellent', 'Excellent', 'Master', 'Master', 'Legendary',
+];
+
+// -----------------------------
+// Builders
+// -----------------------------
+export const buildSkill = (name: string, level: number, passion = 0, disabledTags = 0): Skill => ({
+  name,
+  level,
+  description: `${name} skill`,
+  min_level: 0,
+  max_level: 20,
+  level_descriptor: LEVEL_DESCRIPTORS[Math.max(0, Math.min(20, level))],
+  permanently_disabled: false,
+  totally_disabled: false,
+  xp_total_earned: level * 4000,
+  xp_progress_percent: 0.4,
+  xp_required_for_level_up: 1000 + level * 1000,
+  xp_since_last_level: 400,
+  aptitude: 0,
+  passion,
+  disabled_work_tags: disabledTags,
+});
+
+export const buildTrait = (name: string, label: string, disabledTags = 0): Trait => ({
+  name,
+  label,
+  description: `${label}.`,
+  disabled_work_tags: disabledTags,
+  suppressed: false,
+});
+
+export const buildHediff = (load_id: number, overrides: Partial<Hediff> = {}): Hediff => {
+  const label = overrides.label ?? 'bruise';
+  return {
+    load_id,
+    def_name: 'Bruise',
+    label,
+    label_cap: label.charAt(0).toUpperCase() + label.slice(1),
+    label_in_brackets: '',
+    severity: 2,
+    severity_label: '',
+    cur_stage_index: 0,
+    cur_stage_label: null,
+    part_label: 'torso',
+    part_def_name: 'Torso',
+    age_ticks: 15000,
+    age_string: '6 hours',
+    visible: true,
+    is_permanent: false,
+    is_tended: false,
+    tendable_now: true,
+    bleeding: false,
+    bleed_rate: 0,
+    source_def_name: null,
+    source_label: null,
+    source_body_part_group_def_name: null,
+    source_hediff_def_name: null,
+    combat_log_text: null,
+    tip_string_extra: '',
+    pain_factor: 1,
+    pain_offset: 0.0125,
+    is_lethal: false,
+    is_currently_life_threatening: false,
+    can_ever_kill: false,
+    ...overrides,
+  };
+};
+
+interface ColonistSpec {
+  id: number;
+  name: string;
+  gender: string;
+  age: number;
+  mood: number;
+  // level and passion per skill, in SKILL_NAMES order
+  skills: [number, number][];
+  traits?: Trait[];
+  priorities: Record<string, number>;
+  job: string;
+}
+
+export const buildColonist = (spec: ColonistSpec): ColonistDetailed => {
+  const work_priorities: WorkPriority[] = WORK_LIST.map((work_type) => ({
+    work_type,
+    priority: spec.priorities[work_type] ?? 0,
+    is_totally_disabled: false,
+  }));
+
+  return {
+    sleep: 0.8,
+    comfort: 0.6,
+    surrounding_beauty: 0.1,
+    fresh_air: 1,
+    colonist: {
+      id: spec.id,
+      name: spec.name,
+      gender: spec.gender,
+      age: spec.age,
+      health: 1,
+      mood: spec.mood,
+      hunger: 0.7,
+    },
+    colonist_work_info: {
+      skills: SKILL_NAMES.map((name, i) => buildSkill(name, spec.skills[i][0], spec.skills[i][1])),
+      current_job: spec.job,
+      traits: spec.traits ?? [],
+      work_priorities,
+    },
+    colonist_medical_info: {
+      health: 1,
+      hediffs: [],
+      medical_policy_id: 4,
+      is_self_tend_allowed: false,
+    },
+  };
+};
+
+export const buildItem = (
+  thing_id: number,
+  def_name: string,
+  label: string,
+  categories: string[],
+  overrides: Partial<ResourceItem> = {},
+): ResourceItem => ({
+  thing_id,
+  def_name,
+  label,
+  categories,
+  position: { x: 100 + (thing_id % 20), y: 0, z: 120 + (thing_id % 15) },
+  stack_count: 1,
+  market_value: 50,
+  is_forbidden: false,
+  quality: null,
+  hit_points: 100,
+  max_hit_points: 100,
+  ...overrides,
+});
+
+/** The game's default for new colonists: sleep 22h–6h, anything otherwise. */
+export const defaultTimetable = (): TimeAssignment[] =>
+  Array.from({ length: 24 }, (_, hour) => (hour < 6 || hour >= 22 ? 'Sleep' : 'Anything'));
+
+/** Deep copy, so scenarios and tests can mutate a colony freely. */
+export const cloneColony = (colony: MockColony): MockColony => JSON.parse(JSON.stringify(colony));
+
+// -----------------------------
+// Recorded colony
+// -----------------------------
+const COMMON = { Firefighter: 1, Patient: 1, PatientBedRest: 1, BasicWorker: 1 };
+
+export const RECORDED_COLONY: MockColony = {
+  ticks: 7_475_000,
+  gameState: {
+    game_time: '5th of Aprimay, 5502',
+    time_speed: 'Normal',
+    weather: 'Clear',
+    temperature: 18.4,
+    storyteller: 'Cassandra Classic',
+    difficulty: 'Strive to Survive',
+  },
+  datetime: '5th of Aprimay, 5502, 14h',
+  weather: { weather: 'Clear', temperature: 18.4 },
+  maps: [
+    { id: 0, index: 0, label: 'Ironhold', is_player_home: true, is_temp_incident_map: false, size_x: 250, size_z: 250 },
+  ],
+  colonists: [
+    buildColonist({
+      id: 101, name: 'Ada', gender: 'Female', age: 34, mood: 0.72, job: 'Treating patient',
+      skills: [[4, 0], [3, 0], [5, 0], [2, 0], [6, 1], [5, 0], [3, 0], [4, 0], [2, 0], [14, 2], [9, 1], [8, 0]],
+      traits: [buildTrait('Kind', 'kind')],
+      priorities: { ...COMMON, Doctor: 1, Cooking: 3, Warden: 2, Hauling: 4, Cleaning: 4 },
+    }),
+    buildColonist({
+      id: 102, name: 'Boris', gender: 'Male', age: 41, mood: 0.58, job: 'Constructing wall',
+      skills: [[8, 1], [7, 0], [13, 2], [11, 1], [3, 0], [4, 0], [2, 0], [6, 0], [0, 0], [2, 0], [3, 0], [2, 0]],
+      traits: [buildTrait('Industriousness', 'industrious'), buildTrait('Brawler', 'brawler')],
+      priorities: { ...COMMON, Construction: 1, Mining: 2, Hunting: 3, Hauling: 3 },
+    }),
+    buildColonist({
+      id: 103, name: 'Cass', gender: 'Female', age: 27, mood: 0.81, job: 'Sowing rice',
+      skills: [[6, 0], [2, 0], [4, 0], [3, 0], [9, 1], [12, 2], [10, 1], [3, 0], [5, 0], [4, 0], [6, 0], [5, 0]],
+      priorities: { ...COMMON, Growing: 1, PlantCutting: 2, Handling: 2, Cooking: 2, Cleaning: 3 },
+    }),
+    buildColonist({
+      id: 104, name: 'Dmitri', gender: 'Male', age: 52, mood: 0.64, job: 'Researching',
+      skills: [[3, 0], [1, 0], [3, 0], [2, 0], [2, 0], [3, 0], [1, 0], [9, 1], [7, 1], [5, 0], [4, 0], [15, 2]],
+      traits: [buildTrait('Nerves', 'steadfast')],
+      priorities: { ...COMMON, Research: 1, Crafting: 2, Smithing: 3, Tailoring: 3, Art: 4 },
+    }),
+    buildColonist({
+      id: 105, name: 'Eve', gender: 'Female', age: 23, mood: 0.47, job: 'Hauling steel',
+      skills: [[11, 2], [9, 1], [5, 0], [6, 0], [4, 0], [2, 0], [5, 0], [3, 0], [1, 0], [3, 0], [2, 0], [2, 0]],
+      traits: [buildTrait('Tough', 'tough')],
+      priorities: { ...COMMON, Hunting: 1, Hauling: 2, Cleaning: 2, Mining: 3 },
+    }),
+  ],
+  creatures: {
+    colonists_count: 5,
+    prisoners_count: 0,
+    enemies_count: 0,
+    animals_count: 14,
+    insectoids_count: 0,
+    mechanoids_count: 0,
+  },
+  power: {
+    current_power: 2400,
+    total_possible_power: 3000,
+    currently_stored_power: 1800,
+    total_power_storage: 2000,
+    total_consumption: 1650,
+    consumption_power_on: 1650,
+  },
+  resourcesSummary: {
+    total_items: 4213,
+    total_market_value: 48250,
+    categories: [
+      { category: 'Foods', count: 640, market_value: 1120 },
+      { category: 'Meals', count: 38, market_value: 760 },
+      { category: 'Medicine', count: 24, market_value: 1440 },
+      { category: 'Raw resources', count: 2850, market_value: 9800 },
+      { category: 'Weapons', count: 9, market_value: 5400 },
+      { category: 'Apparel', count: 21, market_value: 4300 },
+      { category: 'Manufactured', count: 631, market_value: 25430 },
+    ],
+  },
+  stored: {
+    resources_raw: [
+      buildItem(2001, 'Steel', 'steel', ['ResourcesRaw'], { stack_count: 75, market_value: 1.9 }),
+      buildItem(2002, 'WoodLog', 'wood', ['ResourcesRaw'], { stack_count: 75, market_value: 1.2 }),
+      buildItem(2003, 'Plasteel', 'plasteel', ['ResourcesRaw'], { stack_count: 32, market_value: 9 }),
+    ],
+    stone_chunks: [buildItem(2101, 'ChunkGranite', 'granite chunk', ['StoneChunks'], { market_value: 0 })],
+    weapons_melee: [
+      buildItem(2201, 'MeleeWeapon_LongSword', 'plasteel longsword', ['WeaponsMelee'], { quality: 4, market_value: 780 }),
+    ],
+    weapons_ranged: [
+      buildItem(2301, 'Gun_AssaultRifle', 'assault rifle', ['WeaponsRanged'], { quality: 3, market_value: 690 }),
+      buildItem(2302, 'Gun_BoltActionRifle', 'bolt-action rifle', ['WeaponsRanged'], { quality: 2, market_value: 260 }),
+    ],
+    apparel: [
+      buildItem(2401, 'Apparel_Parka', 'parka', ['Apparel'], { quality: 2, market_value: 220 }),
+    ],
+    apparel_armor: [
+      buildItem(2501, 'Apparel_FlakVest', 'flak vest', ['ApparelArmor'], { quality: 3, market_value: 340 }),
+    ],
+    armor_headgear: [
+      buildItem(2601, 'Apparel_AdvancedHelmet', 'advanced helmet', ['Headgear'], { quality: 2, market_value: 410 }),
+    ],
+    medicine: [
+      buildItem(2701, 'MedicineIndustrial', 'medicine', ['Medicine'], { stack_count: 18, market_value: 18 }),
+      buildItem(2702, 'MedicineHerbal', 'herbal medicine', ['Medicine'], { stack_count: 6, market_value: 10 }),
+    ],
+    food: [
+      buildItem(2801, 'MealSimple', 'simple meal', ['Meals'], { stack_count: 38, market_value: 15 }),
+      buildItem(2802, 'RawRice', 'rice', ['Foods'], { stack_count: 640, market_value: 1.1 }),
+    ],
+  },
+  inventories: {
+    101: [buildItem(3001, 'Gun_Autopistol', 'autopistol', ['WeaponsRanged'], { quality: 2, market_value: 220 })],
+    102: [buildItem(3002, 'MeleeWeapon_Mace', 'steel mace', ['WeaponsMelee'], { quality: 2, market_value: 90 })],
+    103: [],
+    104: [buildItem(3004, 'Apparel_Pants', 'cloth pants', ['Apparel'], { quality: 1, market_value: 40 })],
+    105: [buildItem(3005, 'Gun_BoltActionRifle', 'bolt-action rifle', ['WeaponsRanged'], { quality: 3, market_value: 300 })],
+  },
+  buildings: [
+    { thing_id: 4001, def_name: 'Turret_MiniTurret', label: 'mini-turret', position: { x: 118, y: 0, z: 140 }, hit_points: 150, max_hit_points: 150, fuel_percent: 0.8, is_powered: true, is_turret: true },
+    { thing_id: 4002, def_name: 'Turret_MiniTurret', label: 'mini-turret', position: { x: 132, y: 0, z: 140 }, hit_points: 95, max_hit_points: 150, fuel_percent: 0.2, is_powered: true, is_turret: true },
+    { thing_id: 4101, def_name: 'SolarGenerator', label: 'solar generator', position: { x: 90, y: 0, z: 110 }, hit_points: 300, max_hit_points: 300 },
+  ],
+  researchProgress: {
+    name: 'Electricity',
+    label: 'electricity',
+    progress: 960,
+    research_points: 1600,
+    description: 'Build power generators, batteries and conduits.',
+    is_finished: false,
+    can_start_now: true,
+    player_has_any_appropriate_research_bench: true,
+    required_analyzed_thing_count: 0,
+    analyzed_things_completed: 0,
+    tech_level: 'Industrial',
+    prerequisites: [],
+    hidden_prerequisites: [],
+    required_by_this: ['Batteries', 'AirConditioning'],
+    progress_percent: 60,
+  },
+  researchFinished: {
+    finished_projects: ['PsychiteRefining', 'Brewing', 'ComplexFurniture', 'PassiveCooler', 'Stonecutting', 'Smithing'],
+  },
+  researchSummary: {
+    finished_projects_count: 6,
+    total_projects_count: 87,
+    available_projects_count: 14,
+    by_tech_level: {
+      Neolithic: { finished: 5, total: 12, percent_complete: 41.7, projects: ['PsychiteRefining', 'Brewing', 'ComplexFurniture', 'PassiveCooler', 'Stonecutting'] },
+      Medieval: { finished: 1, total: 9, percent_complete: 11.1, projects: ['Smithing'] },
+      Industrial: { finished: 0, total: 38, percent_complete: 0, projects: [] },
+      Spacer: { finished: 0, total: 28, percent_complete: 0, projects: [] },
+    },
+    by_tab: {
+      Main: { finished: 6, total: 87, percent_complete: 6.9, projects: ['PsychiteRefining', 'Brewing', 'ComplexFurniture', 'PassiveCooler', 'Stonecutting', 'Smithing'] },
+    },
+  },
+  mods: [
+    { name: 'Harmony', package_id: 'brrainz.harmony', load_order: 0 },
+    { name: 'Core', package_id: 'ludeon.rimworld', load_order: 1 },
+    { name: 'Royalty', package_id: 'ludeon.rimworld.royalty', load_order: 2 },
+    { name: 'Ideology', package_id: 'ludeon.rimworld.ideology', load_order: 3 },
+    { name: 'RIMAPI', package_id: 'ilyachichkov.rimapi', load_order: 4 },
+  ],
+  workList: WORK_LIST,
+  materials: ['Steel', 'WoodLog', 'Plasteel', 'BlocksGranite'],
+  timetables: {
+    101: defaultTimetable(),
+    102: defaultTimetable().map((a, hour) => (hour >= 8 && hour < 18 ? 'Work' : a)),
+    103: defaultTimetable(),
+    // Night owl
+    104: Array.from({ length: 24 }, (_, hour) => (hour >= 11 && hour < 19 ? 'Sleep' : hour === 20 ? 'Joy' : 'Anything')),
+    105: defaultTimetable().map((a, hour) => (hour === 21 ? 'Joy' : a)),
+  },
+};
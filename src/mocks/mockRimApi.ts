@@ -0,0 +1,437 @@
+// src/mocks/mockRimApi.ts
+// In-memory stand-in for the RIMAPI mod: a fetch implementation that answers every
+// endpoint the client calls from a MockColony, and an EventSource that emits /events.
+import { ResourceItem } from '../types';
+import { getApiBaseUrl, setApiBaseUrl } from '../services/rimworldApi';
+import { findTimeAssignment } from '../services/timetables';
+import { defaultTimetable, MockColony, PLACEHOLDER_IMAGE_BASE64 } from './fixtures';
+import { MOCK_SCENARIOS, MockScenarioId } from './scenarios';
+
+export const MOCK_API_URL = 'http://demo.rimapi.local/api/v1';
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  params: URLSearchParams;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+interface RouteContext {
+  colony: MockColony;
+  params: URLSearchParams;
+  body: unknown;
+}
+
+type RouteHandler = (ctx: RouteContext) => unknown;
+
+/** Thrown by a route to answer with an error envelope instead of data. */
+class MockRouteError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export interface MockRimApi {
+  baseUrl: string;
+  colony: MockColony;
+  requests: MockRequest[];
+  fetch: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+  EventSource: typeof EventSource;
+  /** Sends an SSE event to every open /events connection. */
+  emit: (type: string, data: unknown, id?: string) => void;
+  /**
+   * Drops the open /events connections. Like a browser, each retries after a moment with a
+   * Last-Event-ID header, and closes for good if /events then fails (see `failEndpoint`).
+   */
+  dropEventConnections: () => void;
+  /** Makes an endpoint (path without query) answer 500 until cleared with `null`. */
+  failEndpoint: (path: string, message?: string | null) => void;
+  loadScenario: (scenario: MockScenarioId | MockColony) => void;
+}
+
+export interface MockRimApiOptions {
+  baseUrl?: string;
+  latencyMs?: number;
+}
+
+const normWork = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const mapSection = <T>(colony: MockColony, params: URLSearchParams, value: T): T => {
+  const mapId = Number(params.get('map_id') ?? 0);
+  if (!colony.maps.some((m) => m.id === mapId)) {
+    throw new MockRouteError(`Map ${mapId} not found`, 404);
+  }
+  return value;
+};
+
+const findColonist = (colony: MockColony, id: string | number | null) => {
+  const colonist = colony.colonists.find((c) => String(c.colonist.id) === String(id));
+  if (!colonist) throw new MockRouteError(`Pawn ${id} not found`, 404);
+  return colonist;
+};
+
+const setWorkPriority = (colony: MockColony, id: number | string, work: string, priority: number) => {
+  const colonist = findColonist(colony, id);
+  const entry = colonist.colonist_work_info.work_priorities.find(
+    (wp) => normWork(wp.work_type) === normWork(work),
+  );
+  if (!entry) throw new MockRouteError(`Unknown work type ${work}`);
+  if (entry.is_totally_disabled) throw new MockRouteError(`${colonist.colonist.name} cannot do ${work}`);
+  entry.priority = Math.max(0, Math.min(4, priority));
+};
+
+const timetableOf = (colony: MockColony, id: number) => ({ id, schedule: colony.timetables[id] || defaultTimetable() });
+
+const setTimeAssignment = (colony: MockColony, id: number | string, hour: number, assignment: string) => {
+  const { colonist } = findColonist(colony, id);
+  const def = findTimeAssignment(assignment);
+  if (!def) throw new MockRouteError(`Unknown time assignment ${assignment}`);
+  if (!Number.isInteger(hour) || hour < 0 || hour > 23) throw new MockRouteError(`Hour ${hour} out of range`);
+  const schedule = [...timetableOf(colony, colonist.id).schedule];
+  schedule[hour] = def;
+  colony.timetables[colonist.id] = schedule;
+};
+
+const setMedicalSettings = (
+  colony: MockColony,
+  id: number | string,
+  { medical_policy_id, is_self_tend_allowed }: { medical_policy_id?: number; is_self_tend_allowed?: boolean },
+) => {
+  const colonist = findColonist(colony, id);
+  if (medical_policy_id !== undefined) {
+    if (!Number.isInteger(medical_policy_id) || medical_policy_id < 0 || medical_policy_id > 4) {
+      throw new MockRouteError(`Unknown medical care category ${medical_policy_id}`);
+    }
+    colonist.colonist_medical_info.medical_policy_id = medical_policy_id;
+  }
+  if (is_self_tend_allowed !== undefined) colonist.colonist_medical_info.is_self_tend_allowed = is_self_tend_allowed;
+};
+
+const colonistPosition = (id: number) => ({ x: 100 + (id % 50), y: 0, z: 110 + (id % 30) });
+
+const ROUTES: Record<string, RouteHandler> = {
+  // ---- reads ----
+  'GET /game/state': ({ colony }) => colony.gameState,
+  'GET /datetime': ({ colony }) => ({ datetime: colony.datetime }),
+  'GET /maps': ({ colony }) => colony.maps,
+  'GET /mods/info': ({ colony }) => colony.mods,
+  'GET /colonists': ({ colony, params }) => {
+    const fields = (params.get('fields') || '').split(',').filter(Boolean);
+    return colony.colonists.map(({ colonist }) =>
+      fields.length > 0
+        ? Object.fromEntries(fields.map((f) => [f, (colonist as unknown as Record<string, unknown>)[f]]))
+        : colonist,
+    );
+  },
+  'GET /colonists/detailed': ({ colony }) => colony.colonists,
+  'GET /colonist': ({ colony, params }) => {
+    const { colonist } = findColonist(colony, params.get('id'));
+    return { ...colonist, position: colonistPosition(colonist.id) };
+  },
+  'GET /colonist/inventory': ({ colony, params }) => {
+    const { colonist } = findColonist(colony, params.get('id'));
+    return { items: colony.inventories[colonist.id] || [] };
+  },
+  'GET /resources/summary': ({ colony, params }) => mapSection(colony, params, colony.resourcesSummary),
+  'GET /resources/stored': ({ colony, params }) => mapSection(colony, params, colony.stored),
+  'GET /map/creatures/summary': ({ colony, params }) => mapSection(colony, params, colony.creatures),
+  'GET /map/power/info': ({ colony, params }) => mapSection(colony, params, colony.power),
+  'GET /map/weather': ({ colony, params }) => mapSection(colony, params, colony.weather),
+  'GET /map/buildings': ({ colony, params }) => mapSection(colony, params, colony.buildings),
+  'GET /research/progress': ({ colony }) => colony.researchProgress,
+  'GET /research/finished': ({ colony }) => colony.researchFinished,
+  'GET /research/summary': ({ colony }) => colony.researchSummary,
+  'GET /colonist/time-assignments': ({ colony, params }) =>
+    timetableOf(colony, findColonist(colony, params.get('id')).colonist.id),
+  'GET /colonists/time-assignments': ({ colony }) =>
+    colony.colonists.map(({ colonist }) => timetableOf(colony, colonist.id)),
+  'GET /work-list': ({ colony }) => ({ work: colony.workList }),
+  'GET /materials-atlas': ({ colony }) => ({ materials: colony.materials }),
+  'GET /item/image': () => ({ result: 'success', image_base64: PLACEHOLDER_IMAGE_BASE64 }),
+  'GET /pawn/portrait/image': ({ colony, params }) => {
+    findColonist(colony, params.get('pawn_id'));
+    return { result: 'success', image_base64: PLACEHOLDER_IMAGE_BASE64 };
+  },
+
+  // ---- writes ----
+  'POST /colonist/work-priority': ({ colony, params }) => {
+    setWorkPriority(colony, params.get('id') ?? '', params.get('work') ?? '', Number(params.get('priority')));
+    return null;
+  },
+  'POST /colonists/work-priority': ({ colony, body }) => {
+    if (!Array.isArray(body)) throw new MockRouteError('Expected a list of work priorities');
+    body.forEach((wp: { id: number; work: string; priority: number }) =>
+      setWorkPriority(colony, wp.id, wp.work, wp.priority),
+    );
+    return null;
+  },
+  'POST /colonist/time-assignment': ({ colony, params }) => {
+    setTimeAssignment(colony, params.get('id') ?? '', Number(params.get('hour')), params.get('assignment') ?? '');
+    return null;
+  },
+  'POST /colonists/time-assignments': ({ colony, body }) => {
+    if (!Array.isArray(body)) throw new MockRouteError('Expected a list of timetables');
+    body.forEach((t: { id: number; schedule: string[] }) =>
+      (t.schedule || []).forEach((assignment, hour) => setTimeAssignment(colony, t.id, hour, assignment)),
+    );
+    return null;
+  },
+  'POST /colonist/medical-policy': ({ colony, params }) => {
+    setMedicalSettings(colony, params.get('id') ?? '', { medical_policy_id: Number(params.get('policy_id')) });
+    return null;
+  },
+  'POST /colonist/self-tend': ({ colony, params }) => {
+    setMedicalSettings(colony, params.get('id') ?? '', { is_self_tend_allowed: params.get('allowed') === 'true' });
+    return null;
+  },
+  'POST /colonists/medical-settings': ({ colony, body }) => {
+    if (!Array.isArray(body)) throw new MockRouteError('Expected a list of medical settings');
+    body.forEach((m: { id: number; medical_policy_id?: number; is_self_tend_allowed?: boolean }) =>
+      setMedicalSettings(colony, m.id, m),
+    );
+    return null;
+  },
+  'POST /jobs/make/equip': ({ colony, params }) => {
+    const pawnId = Number(params.get('pawn_id'));
+    findColonist(colony, pawnId);
+    const itemId = Number(params.get('item_id'));
+
+    let item: ResourceItem | undefined;
+    Object.keys(colony.stored).forEach((category) => {
+      const items = colony.stored[category];
+      const index = items?.findIndex((i) => i.thing_id === itemId) ?? -1;
+      if (items && index >= 0) item = items.splice(index, 1)[0];
+    });
+    if (!item) throw new MockRouteError(`Item ${itemId} not found in storage`, 404);
+
+    colony.inventories[pawnId] = [...(colony.inventories[pawnId] || []), item];
+    return null;
+  },
+  'POST /item/image': () => null,
+  'POST /stuff/color': () => null,
+  'POST /materials-atlas/clear': ({ colony }) => {
+    colony.materials = [];
+    return null;
+  },
+  'POST /select': () => null,
+  'POST /deselect': () => null,
+  'POST /open-tab': () => null,
+  'POST /camera/change/position': () => null,
+  'POST /camera/change/zoom': () => null,
+};
+
+const jsonResponse = (status: number, payload: unknown): Response => {
+  const text = JSON.stringify(payload);
+  // jsdom has no Response, so hand back just the parts the client reads
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    headers: { get: (name: string) => (name.toLowerCase() === 'content-type' ? 'application/json' : null) },
+    json: async () => JSON.parse(text),
+    text: async () => text,
+  } as unknown as Response;
+};
+
+const envelope = (success: boolean, data: unknown, errors: string[] = []) => ({
+  success,
+  data,
+  errors,
+  warnings: [],
+  timestamp: new Date().toISOString(),
+});
+
+const requestUrl = (input: RequestInfo | URL) =>
+  typeof input === 'string' ? input : 'url' in input ? input.url : input.toString();
+
+const parseBody = (body: BodyInit | null | undefined): unknown => {
+  if (typeof body !== 'string') return undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+/**
+ * Creates a mock RIMAPI serving `scenario`. Requests are answered from, and writes
+ * applied to, `api.colony`, so tests can assert on both the request log and the state.
+ */
+export const createMockRimApi = (
+  scenario: MockScenarioId | MockColony = 'healthy',
+  options: MockRimApiOptions = {},
+): MockRimApi => {
+  const baseUrl = (options.baseUrl ?? MOCK_API_URL).replace(/\/+$/, '');
+  const failures = new Map<string, string>();
+  const sources = new Set<MockEventSource>();
+
+  const api = {
+    baseUrl,
+    colony: typeof scenario === 'string' ? MOCK_SCENARIOS[scenario].build() : scenario,
+    requests: [] as MockRequest[],
+  } as MockRimApi;
+
+  api.loadScenario = (next) => {
+    api.colony = typeof next === 'string' ? MOCK_SCENARIOS[next].build() : next;
+  };
+
+  api.failEndpoint = (path, message = 'Simulated failure') => {
+    if (message === null) failures.delete(path);
+    else failures.set(path, message);
+  };
+
+  api.fetch = async (input, init = {}) => {
+    const url = new URL(requestUrl(input));
+    const path = url.pathname.replace(new URL(baseUrl).pathname, '') || '/';
+    const method = (init.method || 'GET').toUpperCase();
+    const body = parseBody(init.body);
+    api.requests.push({ method, path, params: url.searchParams, body });
+
+    if (options.latencyMs) {
+      await new Promise((resolve) => setTimeout(resolve, options.latencyMs));
+    }
+    if (init.signal?.aborted) {
+      throw new DOMException('The operation was aborted.', 'AbortError');
+    }
+
+    const failure = failures.get(path);
+    if (failure) return jsonResponse(500, envelope(false, null, [failure]));
+
+    const route = ROUTES[`${method} ${path}`];
+    if (!route) return jsonResponse(404, envelope(false, null, [`No route for ${method} ${path}`]));
+
+    try {
+      return jsonResponse(200, envelope(true, route({ colony: api.colony, params: url.searchParams, body })));
+    } catch (err) {
+      if (err instanceof MockRouteError) return jsonResponse(err.status, envelope(false, null, [err.message]));
+      throw err;
+    }
+  };
+
+  // Implements the subset of EventSource that services/eventStream.ts uses
+  class MockEventSource {
+    /** The browser's default reconnection time */
+    static readonly RETRY_MS = 3000;
+
+    static readonly CONNECTING = 0;
+    static readonly OPEN = 1;
+    static readonly CLOSED = 2;
+
+    readonly url: string;
+    readonly withCredentials = false;
+    readyState = MockEventSource.CONNECTING;
+    onopen: ((ev: Event) => void) | null = null;
+    onerror: ((ev: Event) => void) | null = null;
+    onmessage: ((ev: MessageEvent) => void) | null = null;
+    private listeners = new Map<string, Set<(ev: MessageEvent) => void>>();
+    private lastEventId = '';
+
+    constructor(url: string | URL) {
+      this.url = String(url);
+      sources.add(this);
+      this.open(0);
+    }
+
+    private open(delayMs: number) {
+      setTimeout(() => {
+        if (this.readyState !== MockEventSource.CONNECTING) return;
+        const path = new URL(this.url).pathname.replace(new URL(baseUrl).pathname, '');
+        const headers: Record<string, string> = this.lastEventId ? { 'Last-Event-ID': this.lastEventId } : {};
+        api.requests.push({ method: 'GET', path, params: new URL(this.url).searchParams, body: null, headers });
+        if (!this.url.startsWith(`${baseUrl}/events`) || failures.has('/events')) {
+          this.fail();
+          return;
+        }
+        this.readyState = MockEventSource.OPEN;
+        this.onopen?.(new Event('open'));
+      }, delayMs);
+    }
+
+    addEventListener(type: string, listener: (ev: MessageEvent) => void) {
+      if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+      this.listeners.get(type)!.add(listener);
+    }
+
+    removeEventListener(type: string, listener: (ev: MessageEvent) => void) {
+      this.listeners.get(type)?.delete(listener);
+    }
+
+    close() {
+      this.readyState = MockEventSource.CLOSED;
+      sources.delete(this);
+    }
+
+    deliver(type: string, data: string, id: string) {
+      if (this.readyState !== MockEventSource.OPEN) return;
+      this.lastEventId = id;
+      const ev = new MessageEvent(type, { data, lastEventId: id });
+      if (type === 'message') this.onmessage?.(ev);
+      this.listeners.get(type)?.forEach((listener) => listener(ev));
+    }
+
+    fail() {
+      this.readyState = MockEventSource.CLOSED;
+      sources.delete(this);
+      this.onerror?.(new Event('error'));
+    }
+
+    drop() {
+      if (this.readyState !== MockEventSource.OPEN) return;
+      this.readyState = MockEventSource.CONNECTING;
+      this.onerror?.(new Event('error'));
+      this.open(MockEventSource.RETRY_MS);
+    }
+  }
+
+  let nextEventId = 1;
+  api.EventSource = MockEventSource as unknown as typeof EventSource;
+  api.emit = (type, data, id = String(nextEventId++)) => {
+    const payload = typeof data === 'string' ? data : JSON.stringify(data);
+    Array.from(sources).forEach((source) => source.deliver(type, payload, id));
+  };
+  api.dropEventConnections = () => {
+    Array.from(sources).forEach((source) => source.drop());
+  };
+
+  return api;
+};
+
+/**
+ * Routes fetch and EventSource calls for the mock's base URL to `api`; everything
+ * else still goes to the network. Returns a function that restores the originals.
+ */
+export const installMockRimApi = (api: MockRimApi): (() => void) => {
+  const originalFetch = window.fetch;
+  const OriginalEventSource = window.EventSource;
+  const isMockUrl = (url: string) => url.startsWith(api.baseUrl);
+
+  window.fetch = (input: RequestInfo | URL, init?: RequestInit) => {
+    if (isMockUrl(requestUrl(input))) return api.fetch(input, init);
+    if (!originalFetch) return Promise.reject(new TypeError('fetch is not available'));
+    return originalFetch(input, init);
+  };
+
+  function RoutedEventSource(url: string | URL, init?: EventSourceInit) {
+    return isMockUrl(String(url)) || !OriginalEventSource
+      ? new api.EventSource(url, init)
+      : new OriginalEventSource(url, init);
+  }
+  window.EventSource = RoutedEventSource as unknown as typeof EventSource;
+
+  return () => {
+    window.fetch = originalFetch;
+    window.EventSource = OriginalEventSource;
+  };
+};
+
+/** Installs `api` and points the RIMAPI client at it; for tests. Returns a restore function. */
+export const connectMockRimApi = (api: MockRimApi): (() => void) => {
+  const uninstall = installMockRimApi(api);
+  const previousUrl = getApiBaseUrl();
+  setApiBaseUrl(api.baseUrl);
+  return () => {
+    uninstall();
+    setApiBaseUrl(previousUrl);
+  };
+};
@@ -0,0 +1,122 @@
+// src/mocks/scenarios.ts
+// Scenario presets for the mock RIMAPI: variations of the recorded colony
+// that put specific parts of the dashboard under stress.
+import { buildHediff, cloneColony, MockColony, RECORDED_COLONY } from './fixtures';
+
+export type MockScenarioId = 'healthy' | 'massCasualty' | 'blackout' | 'emptyResearch';
+
+export interface MockScenario {
+  id: MockScenarioId;
+  label: string;
+  description: string;
+  build: () => MockColony;
+}
+
+const massCasualty = (): MockColony => {
+  const colony = cloneColony(RECORDED_COLONY);
+  const [ada, boris, cass, dmitri, eve] = colony.colonists;
+
+  boris.colonist_medical_info.health = 0.18;
+  boris.colonist_medical_info.hediffs = [
+    buildHediff(9001, { def_name: 'Gunshot', label: 'gunshot', part_label: 'left lung', part_def_name: 'Lung', severity: 8, bleeding: true, bleed_rate: 0.45, pain_offset: 0.3, is_currently_life_threatening: true, can_ever_kill: true }),
+    buildHediff(9002, { def_name: 'Cut', label: 'cut', part_label: 'right arm', part_def_name: 'Arm', severity: 5, bleeding: true, bleed_rate: 0.2, pain_offset: 0.15 }),
+    buildHediff(9003, { def_name: 'BloodLoss', label: 'blood loss', part_label: null, part_def_name: null, severity: 0.62, tendable_now: false, pain_offset: 0, is_lethal: true, can_ever_kill: true }),
+  ];
+  boris.colonist.health = 0.18;
+
+  eve.colonist_medical_info.health = 0.41;
+  eve.colonist_medical_info.hediffs = [
+    buildHediff(9011, { def_name: 'Bite', label: 'scratch', part_label: 'left leg', part_def_name: 'Leg', severity: 6, bleeding: true, bleed_rate: 0.12, pain_offset: 0.2 }),
+    buildHediff(9012, { def_name: 'Fracture', label: 'fracture', part_label: 'left femur', part_def_name: 'Femur', severity: 10, pain_offset: 0.35, is_tended: true, tendable_now: false }),
+    buildHediff(9013, { def_name: 'WoundInfection', label: 'infection', part_label: 'left leg', part_def_name: 'Leg', severity: 0.34, pain_offset: 0.08, can_ever_kill: true, is_lethal: true }),
+  ];
+  eve.colonist.health = 0.41;
+
+  dmitri.colonist_medical_info.health = 0.55;
+  dmitri.colonist_medical_info.hediffs = [
+    buildHediff(9021, { def_name: 'Burn', label: 'burn', part_label: 'head', part_def_name: 'Head', severity: 7, pain_offset: 0.4 }),
+    buildHediff(9022, { def_name: 'Flu', label: 'flu', part_label: null, part_def_name: null, severity: 0.52, cur_stage_label: 'major', pain_offset: 0.05, can_ever_kill: true, is_lethal: true }),
+  ];
+  dmitri.colonist.health = 0.55;
+  // Left on "no care" after a quarantine, so nobody will tend the burn
+  dmitri.colonist_medical_info.medical_policy_id = 0;
+
+  cass.colonist_medical_info.hediffs = [
+    buildHediff(9031, { def_name: 'MissingBodyPart', label: 'missing body part', part_label: 'left pinky', part_def_name: 'Finger', severity: 0, is_permanent: true, tendable_now: false, pain_offset: 0 }),
+  ];
+
+  // The doctor is still standing, but only just
+  ada.colonist_medical_info.health = 0.74;
+  ada.colonist_medical_info.hediffs = [buildHediff(9041, { label: 'bruise', part_label: 'jaw', severity: 3 })];
+
+  colony.colonists.forEach((c) => { c.colonist.mood = Math.max(0.1, c.colonist.mood - 0.3); });
+  colony.creatures = { ...colony.creatures, enemies_count: 7, prisoners_count: 1 };
+  colony.stored.medicine = [colony.stored.medicine![1]];
+  return colony;
+};
+
+const blackout = (): MockColony => {
+  const colony = cloneColony(RECORDED_COLONY);
+  colony.power = {
+    current_power: 0,
+    total_possible_power: 3000,
+    currently_stored_power: 0,
+    total_power_storage: 2000,
+    total_consumption: 1650,
+    consumption_power_on: 0,
+  };
+  colony.gameState = { ...colony.gameState, weather: 'Eclipse' };
+  colony.weather = { weather: 'Eclipse', temperature: 4.5 };
+  colony.buildings = colony.buildings.map((b) => ('is_turret' in b ? { ...b, is_powered: false } : b));
+  return colony;
+};
+
+const emptyResearch = (): MockColony => {
+  const colony = cloneColony(RECORDED_COLONY);
+  colony.researchProgress = null;
+  colony.researchFinished = { finished_projects: [] };
+  colony.researchSummary = {
+    ...colony.researchSummary,
+    finished_projects_count: 0,
+    available_projects_count: 9,
+    by_tech_level: Object.fromEntries(
+      Object.entries(colony.researchSummary.by_tech_level)
+        .map(([level, summary]) => [level, { ...summary, finished: 0, percent_complete: 0, projects: [] }]),
+    ),
+    by_tab: Object.fromEntries(
+      Object.entries(colony.researchSummary.by_tab)
+        .map(([tab, summary]) => [tab, { ...summary, finished: 0, percent_complete: 0, projects: [] }]),
+    ),
+  };
+  return colony;
+};
+
+export const MOCK_SCENARIOS: Record<MockScenarioId, MockScenario> = {
+  healthy: {
+    id: 'healthy',
+    label: 'Healthy colony',
+    description: 'Five colonists, stable power and a research project under way.',
+    build: () => cloneColony(RECORDED_COLONY),
+  },
+  massCasualty: {
+    id: 'massCasualty',
+    label: 'Mass casualty',
+    description: 'A raid left most colonists bleeding, infected or in pain.',
+    build: massCasualty,
+  },
+  blackout: {
+    id: 'blackout',
+    label: 'Blackout',
+    description: 'An eclipse drained the batteries and the turrets are down.',
+    build: blackout,
+  },
+  emptyResearch: {
+    id: 'emptyResearch',
+    label: 'Empty research',
+    description: 'A fresh start: nothing researched and no active project.',
+    build: emptyResearch,
+  },
+};
+
+export const isMockScenarioId = (value: string | null | undefined): value is MockScenarioId =>
+  Boolean(value) && Object.prototype.hasOwnProperty.call(MOCK_SCENARIOS, value as string);
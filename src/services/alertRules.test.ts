@@ -0,0 +1,123 @@
+import { connectMockRimApi, createMockRimApi } from '../mocks/mockRimApi';
+import { MOCK_SCENARIOS } from '../mocks/scenarios';
+import { fetchRimWorldData } from './rimworldApi';
+import {
+  AlertMetrics,
+  AlertRule,
+  AlertRuleState,
+  DEFAULT_ALERT_RULES,
+  evaluateAlertRules,
+  extractAlertMetrics,
+  isAlertOpen,
+  loadAlertRules,
+  saveAlertRules,
+} from './alertRules';
+
+const rule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+  id: 'power',
+  name: 'Power deficit',
+  metric: 'powerNet',
+  comparator: '<',
+  threshold: 0,
+  severity: 'warning',
+  enabled: true,
+  notify: false,
+  sound: false,
+  ...overrides,
+});
+
+const metrics = (overrides: Partial<AlertMetrics>): AlertMetrics => ({
+  powerNet: null, powerStored: null, avgMood: null, minMood: null, minHealth: null, food: null, colonists: null,
+  enemies: null, mechanoids: null, insectoids: null, researchFinished: null, wealth: null, fatalDiseases: null,
+  ...overrides,
+});
+
+/** Runs one rule over a series of values, returning how many times it fired per poll and the final state. */
+const run = (r: AlertRule, values: (number | null)[], start: Record<string, AlertRuleState> = {}, t0 = 0) => {
+  let states = start;
+  const fired = values.map((value, i) => {
+    const result = evaluateAlertRules([r], metrics({ [r.metric]: value }), states, t0 + i * 1000);
+    states = result.states;
+    return result.fired.length;
+  });
+  return { fired, state: states[r.id] };
+};
+
+test('fires a threshold rule once per crossing', () => {
+  const { fired, state } = run(rule(), [100, -50, -80, 20, -10]);
+
+  expect(fired).toEqual([0, 1, 0, 0, 1]);
+  expect(state).toMatchObject({ active: true, lastValue: -10, firedAt: 4000 });
+});
+
+test('fires edge rules on every change in their direction', () => {
+  expect(run(rule({ metric: 'researchFinished', comparator: 'increases' }), [3, 4, 4, 6, 5]).fired).toEqual([0, 1, 0, 1, 0]);
+  expect(run(rule({ metric: 'colonists', comparator: 'decreases' }), [5, 4, 4, 3]).fired).toEqual([0, 1, 0, 1]);
+
+  const fatalDisease = DEFAULT_ALERT_RULES.find((r) => r.metric === 'fatalDiseases')!;
+  expect(run(fatalDisease, [0, 1, 1, 2, 3]).fired).toEqual([0, 1, 0, 1, 1]);
+});
+
+test('skips polls where the metric is missing and tracks disabled rules quietly', () => {
+  expect(run(rule(), [-5, null, -5]).fired).toEqual([1, 0, 0]);
+
+  const { fired, state } = run(rule({ enabled: false }), [100, -50]);
+  expect(fired).toEqual([0, 0]);
+  expect(state).toEqual({ active: false, lastValue: -50 });
+});
+
+test('keeps snoozed rules quiet until the snooze runs out', () => {
+  const snoozed = { power: { active: false, lastValue: 100, snoozedUntil: 2500 } };
+  const { fired, state } = run(rule(), [-5, 10, -5, 10, -5], snoozed);
+
+  // Crossings at t=0 and t=2000 are snoozed; the one at t=4000 fires
+  expect(fired).toEqual([0, 0, 0, 0, 1]);
+  expect(state.snoozedUntil).toBeUndefined();
+});
+
+test('clears acknowledgement once the condition stops holding', () => {
+  const r = rule();
+  let { states } = evaluateAlertRules([r], metrics({ powerNet: -5 }), {}, 0);
+  states = { power: { ...states.power, acknowledgedAt: 500 } };
+  expect(isAlertOpen(r, states.power)).toBe(false);
+
+  states = evaluateAlertRules([r], metrics({ powerNet: -8 }), states, 1000).states;
+  expect(states.power.acknowledgedAt).toBe(500);
+
+  states = evaluateAlertRules([r], metrics({ powerNet: 10 }), states, 2000).states;
+  expect(states.power.acknowledgedAt).toBeUndefined();
+  expect(isAlertOpen(r, states.power)).toBe(false);
+
+  states = evaluateAlertRules([r], metrics({ powerNet: -1 }), states, 3000).states;
+  expect(isAlertOpen(r, states.power)).toBe(true);
+});
+
+test('reads metrics from a poll and leaves failed sections null', async () => {
+  const api = createMockRimApi(MOCK_SCENARIOS.massCasualty.build());
+  const restore = connectMockRimApi(api);
+  api.failEndpoint('/map/power/info');
+  try {
+    const extracted = extractAlertMetrics(await fetchRimWorldData(0));
+    expect(extracted.powerNet).toBeNull();
+    expect(extracted.enemies).toBe(7);
+    expect(extracted.minHealth).toBeCloseTo(18);
+
+    const { fired } = evaluateAlertRules(DEFAULT_ALERT_RULES, extracted, {});
+    expect(fired.map((f) => f.rule.id)).toContain('enemies');
+  } finally {
+    restore();
+  }
+});
+
+test('adds built-in rules missing from the saved ones', () => {
+  localStorage.clear();
+  expect(loadAlertRules()).toEqual(DEFAULT_ALERT_RULES);
+
+  const edited = { ...DEFAULT_ALERT_RULES[0], threshold: -500 };
+  saveAlertRules([edited, rule({ id: 'custom' })]);
+  const loaded = loadAlertRules();
+
+  expect(loaded.slice(0, 2)).toEqual([edited, rule({ id: 'custom' })]);
+  expect(loaded.map((r) => r.id)).toEqual(['power-deficit', 'custom', ...DEFAULT_ALERT_RULES.slice(1).map((r) => r.id)]);
+  expect(loaded.some((r) => r.id === 'fatal-disease')).toBe(true);
+});
@@ -0,0 +1,253 @@
+// src/services/alertRules.ts
+// User-defined colony alert rules, evaluated against every RimWorldData poll.
+import { RimWorldData, RimWorldSectionKey } from '../types';
+import { extractMetricSample } from './metricsHistory';
+
+export type AlertMetric =
+  | 'powerNet'
+  | 'powerStored'
+  | 'avgMood'
+  | 'minMood'
+  | 'minHealth'
+  | 'food'
+  | 'colonists'
+  | 'enemies'
+  | 'mechanoids'
+  | 'insectoids'
+  | 'researchFinished'
+  | 'wealth'
+  | 'fatalDiseases';
+
+export type AlertComparator = '<' | '<=' | '>' | '>=' | 'increases' | 'decreases';
+export type AlertSeverity = 'info' | 'warning' | 'error';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  metric: AlertMetric;
+  comparator: AlertComparator;
+  threshold: number; // ignored by increases/decreases
+  severity: AlertSeverity;
+  enabled: boolean;
+  notify: boolean; // browser Notification
+  sound: boolean;
+}
+
+export interface AlertRuleState {
+  active: boolean;
+  lastValue: number | null;
+  firedAt?: number;
+  acknowledgedAt?: number;
+  snoozedUntil?: number;
+}
+
+export interface AlertFiring {
+  rule: AlertRule;
+  value: number;
+  previous: number | null;
+  at: number;
+}
+
+export type AlertMetrics = Record<AlertMetric, number | null>;
+
+export const ALERT_METRICS: Record<AlertMetric, { label: string; unit?: string }> = {
+  powerNet: { label: 'Power net', unit: 'W' },
+  powerStored: { label: 'Stored power', unit: 'Wd' },
+  avgMood: { label: 'Average mood', unit: '%' },
+  minMood: { label: 'Lowest colonist mood', unit: '%' },
+  minHealth: { label: 'Lowest colonist health', unit: '%' },
+  food: { label: 'Food items' },
+  colonists: { label: 'Colonists' },
+  enemies: { label: 'Enemies on map' },
+  mechanoids: { label: 'Mechanoids on map' },
+  insectoids: { label: 'Insectoids on map' },
+  researchFinished: { label: 'Finished research projects' },
+  wealth: { label: 'Colony wealth', unit: '$' },
+  fatalDiseases: { label: 'Diseases that turned fatal' },
+};
+
+export const ALERT_COMPARATORS: Record<AlertComparator, string> = {
+  '<': 'is below',
+  '<=': 'is at most',
+  '>': 'is above',
+  '>=': 'is at least',
+  increases: 'increases',
+  decreases: 'decreases',
+};
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'power-deficit', name: 'Power deficit', metric: 'powerNet', comparator: '<', threshold: 0, severity: 'warning', enabled: true, notify: false, sound: false },
+  { id: 'low-mood', name: 'Colony mood is low', metric: 'avgMood', comparator: '<', threshold: 30, severity: 'warning', enabled: true, notify: false, sound: false },
+  { id: 'low-food', name: 'Food running out', metric: 'food', comparator: '<', threshold: 50, severity: 'warning', enabled: true, notify: false, sound: false },
+  { id: 'enemies', name: 'Enemies on the map', metric: 'enemies', comparator: '>', threshold: 0, severity: 'error', enabled: true, notify: true, sound: true },
+  { id: 'fatal-disease', name: 'Disease trending toward death', metric: 'fatalDiseases', comparator: 'increases', threshold: 0, severity: 'error', enabled: true, notify: true, sound: true },
+  { id: 'research-finished', name: 'Research finished', metric: 'researchFinished', comparator: 'increases', threshold: 0, severity: 'info', enabled: true, notify: false, sound: false },
+];
+
+const RULES_KEY = 'rimworldAlertRules';
+const STATE_KEY = 'rimworldAlertState';
+
+/** Saved rules, plus any built-in rule added since they were saved */
+export const loadAlertRules = (): AlertRule[] => {
+  try {
+    const raw = localStorage.getItem(RULES_KEY);
+    if (!raw) return DEFAULT_ALERT_RULES;
+    const saved: AlertRule[] = JSON.parse(raw);
+    return [...saved, ...DEFAULT_ALERT_RULES.filter((rule) => !saved.some((s) => s.id === rule.id))];
+  } catch {
+    return DEFAULT_ALERT_RULES;
+  }
+};
+
+export const saveAlertRules = (rules: AlertRule[]) => {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
+
+// Rule states are kept per colony so switching servers doesn't look like a change in value
+export type AlertStatesByColony = Record<string, Record<string, AlertRuleState>>;
+
+export const loadAlertStates = (): AlertStatesByColony => {
+  try {
+    return JSON.parse(localStorage.getItem(STATE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveAlertStates = (states: AlertStatesByColony) => {
+  localStorage.setItem(STATE_KEY, JSON.stringify(states));
+};
+
+export const createAlertRule = (): AlertRule => ({
+  id: `rule-${Date.now().toString(36)}`,
+  name: 'New rule',
+  metric: 'avgMood',
+  comparator: '<',
+  threshold: 50,
+  severity: 'warning',
+  enabled: true,
+  notify: false,
+  sound: false,
+});
+
+// -----------------------------
+// Metrics
+// -----------------------------
+const FOOD_CATEGORY = /food|meal/i;
+
+/**
+ * Pulls every metric a rule can watch out of a poll; sections that failed yield null.
+ * fatalDiseases is a running count kept by the disease tracker, so it's left null here.
+ */
+export const extractAlertMetrics = (data: RimWorldData): AlertMetrics => {
+  const sample = extractMetricSample('', data);
+  const sectionOk = (key: RimWorldSectionKey) =>
+    data[key] !== undefined && !data.sections?.[key]?.error;
+
+  const colonists = sectionOk('colonists') ? data.colonists || [] : null;
+  const creatures = sectionOk('creatures') ? data.creatures : undefined;
+  const categories = sectionOk('resources') ? data.resources?.categories : undefined;
+
+  const minOf = (values: number[]) => (values.length > 0 ? Math.min(...values) * 100 : null);
+
+  return {
+    powerNet: sample.powerNet,
+    powerStored: sample.powerStored,
+    avgMood: sample.avgMood,
+    minMood: colonists ? minOf(colonists.map((c) => c.mood).filter((m) => typeof m === 'number')) : null,
+    minHealth: colonists ? minOf(colonists.map((c) => c.health).filter((h) => typeof h === 'number')) : null,
+    food: categories
+      ? categories.filter((c) => FOOD_CATEGORY.test(c.category)).reduce((sum, c) => sum + (c.count || 0), 0)
+      : null,
+    colonists: sample.colonists,
+    enemies: sample.enemies,
+    mechanoids: creatures ? creatures.mechanoids_count ?? 0 : null,
+    insectoids: creatures ? creatures.insectoids_count ?? 0 : null,
+    researchFinished: sectionOk('researchSummary') ? data.researchSummary?.finished_projects_count ?? null : null,
+    wealth: sample.wealth,
+    fatalDiseases: null,
+  };
+};
+
+// -----------------------------
+// Evaluation
+// -----------------------------
+export const isConditionMet = (rule: AlertRule, value: number, previous: number | null): boolean => {
+  switch (rule.comparator) {
+    case '<': return value < rule.threshold;
+    case '<=': return value <= rule.threshold;
+    case '>': return value > rule.threshold;
+    case '>=': return value >= rule.threshold;
+    case 'increases': return previous !== null && value > previous;
+    case 'decreases': return previous !== null && value < previous;
+    default: return false;
+  }
+};
+
+/**
+ * Advances every rule by one poll. Threshold rules fire when their condition
+ * starts holding; increases/decreases fire on every change. Snoozed rules
+ * keep tracking state but stay quiet. Acknowledgement clears once the condition does.
+ */
+export const evaluateAlertRules = (
+  rules: AlertRule[],
+  metrics: AlertMetrics,
+  states: Record<string, AlertRuleState>,
+  now = Date.now(),
+): { states: Record<string, AlertRuleState>; fired: AlertFiring[] } => {
+  const nextStates: Record<string, AlertRuleState> = { ...states };
+  const fired: AlertFiring[] = [];
+
+  rules.forEach((rule) => {
+    const value = metrics[rule.metric];
+    const prev = states[rule.id] ?? { active: false, lastValue: null };
+    if (value === null || value === undefined) return;
+
+    if (!rule.enabled) {
+      nextStates[rule.id] = { ...prev, active: false, lastValue: value };
+      return;
+    }
+
+    const met = isConditionMet(rule, value, prev.lastValue);
+    const isEdgeRule = rule.comparator === 'increases' || rule.comparator === 'decreases';
+    const starts = isEdgeRule ? met : met && !prev.active;
+    const snoozed = prev.snoozedUntil !== undefined && prev.snoozedUntil > now;
+
+    const next: AlertRuleState = { ...prev, active: met, lastValue: value };
+    if (starts) {
+      next.firedAt = now;
+      next.acknowledgedAt = undefined;
+      if (!snoozed) fired.push({ rule, value, previous: prev.lastValue, at: now });
+    }
+    if (!met && !isEdgeRule) next.acknowledgedAt = undefined;
+    if (prev.snoozedUntil !== undefined && !snoozed) next.snoozedUntil = undefined;
+
+    nextStates[rule.id] = next;
+  });
+
+  return { states: nextStates, fired };
+};
+
+export const formatAlertValue = (metric: AlertMetric, value: number): string => {
+  const unit = ALERT_METRICS[metric].unit;
+  const rounded = Math.abs(value) >= 100 ? Math.round(value) : Math.round(value * 10) / 10;
+  if (unit === '$') return `$${rounded.toLocaleString()}`;
+  return unit ? `${rounded.toLocaleString()} ${unit}` : rounded.toLocaleString();
+};
+
+export const describeAlertRule = (rule: AlertRule): string => {
+  const metric = ALERT_METRICS[rule.metric].label;
+  const comparator = ALERT_COMPARATORS[rule.comparator];
+  if (rule.comparator === 'increases' || rule.comparator === 'decreases') return `${metric} ${comparator}`;
+  return `${metric} ${comparator} ${formatAlertValue(rule.metric, rule.threshold)}`;
+};
+
+/**
+ * Whether an alert still needs attention: it fired and hasn't been acknowledged,
+ * and for threshold rules the condition still holds.
+ */
+export const isAlertOpen = (rule: AlertRule, state: AlertRuleState | undefined): boolean => {
+  if (!rule.enabled || !state?.firedAt || state.acknowledgedAt) return false;
+  const isEdgeRule = rule.comparator === 'increases' || rule.comparator === 'decreases';
+  return isEdgeRule || state.active;
+};
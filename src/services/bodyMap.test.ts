@@ -0,0 +1,43 @@
+import { buildHediff, cloneColony, RECORDED_COLONY } from '../mocks/fixtures';
+import { MOCK_SCENARIOS } from '../mocks/scenarios';
+import { getBodyRegion, summarizeBody } from './bodyMap';
+
+const colonist = (name: string) => MOCK_SCENARIOS.massCasualty.build().colonists.find((c) => c.colonist.name === name)!;
+
+test('maps part labels to diagram regions', () => {
+  expect(getBodyRegion('left lung')).toBe('torso');
+  expect(getBodyRegion('heart')).toBe('torso');
+  expect(getBodyRegion('right ear')).toBe('head');
+  expect(getBodyRegion('left pinky')).toBe('leftArm');
+  expect(getBodyRegion('right little toe')).toBe('rightLeg');
+  expect(getBodyRegion('left femur')).toBe('leftLeg');
+  expect(getBodyRegion(null)).toBe('whole');
+  expect(getBodyRegion('Overall')).toBe('whole');
+  // Tails and modded parts have no place on the diagram
+  expect(getBodyRegion('tail')).toBe('whole');
+  expect(getBodyRegion('mechanite gland')).toBe('whole');
+});
+
+test('sums injury severity per region and flags bleeding', () => {
+  const body = summarizeBody(colonist('Boris'));
+
+  expect(body.torso).toMatchObject({ severity: 8, bleeding: true, heat: 'moderate' });
+  expect(body.rightArm).toMatchObject({ severity: 5, bleeding: true });
+  expect(body.whole.hediffs.map((h) => h.def_name)).toEqual(['BloodLoss']);
+  expect(body.leftLeg.heat).toBe('none');
+});
+
+test('separates missing parts, prosthetics and scars from fresh injuries', () => {
+  const cass = colonist('Cass');
+  cass.colonist_medical_info.hediffs.push(
+    buildHediff(9901, { def_name: 'BionicLeg', label: 'bionic leg', part_label: 'right leg', severity: 0, is_permanent: false }),
+    buildHediff(9902, { def_name: 'Gunshot', label: 'gunshot scar', part_label: 'left shoulder', severity: 4, is_permanent: true }),
+  );
+  const body = summarizeBody(cass);
+
+  expect(body.leftArm.missing).toEqual(['left pinky']);
+  expect(body.leftArm.scars).toEqual(['gunshot scar (left shoulder)']);
+  expect(body.leftArm.heat).toBe('none');
+  expect(body.rightLeg.prosthetics).toEqual(['bionic leg (right leg)']);
+  expect(summarizeBody(cloneColony(RECORDED_COLONY).colonists[0]).torso.hediffs).toEqual([]);
+});
@@ -0,0 +1,109 @@
+// src/services/bodyMap.ts
+// Groups a colonist's hediffs into the regions of a humanoid body diagram: injuries and their
+// combined severity per region, missing parts, prosthetics and permanent scars.
+import { ColonistDetailed, Hediff } from '../types';
+
+export type BodyRegionId = 'head' | 'neck' | 'torso' | 'leftArm' | 'rightArm' | 'leftLeg' | 'rightLeg' | 'whole';
+
+export const BODY_REGIONS: Record<BodyRegionId, { label: string }> = {
+  head: { label: 'Head' },
+  neck: { label: 'Neck' },
+  torso: { label: 'Torso' },
+  leftArm: { label: 'Left arm' },
+  rightArm: { label: 'Right arm' },
+  leftLeg: { label: 'Left leg' },
+  rightLeg: { label: 'Right leg' },
+  whole: { label: 'Whole body' },
+};
+
+// Checked in order: "heart" must not match the ear, "little toe" must not match a finger
+const REGION_PATTERNS: { pattern: RegExp; region: BodyRegionId | 'arm' | 'leg' }[] = [
+  { pattern: /\b(head|skull|brain|eyes?|ears?|nose|jaw|tongue|face|teeth|tooth)\b/, region: 'head' },
+  { pattern: /\bneck\b/, region: 'neck' },
+  { pattern: /\b(legs?|femur|tibia|foot|feet|toes?|knee)\b/, region: 'leg' },
+  { pattern: /\b(arms?|shoulder|clavicle|humerus|radius|ulna|hand|fingers?|thumb|pinky)\b/, region: 'arm' },
+  { pattern: /\b(torso|chest|lungs?|heart|liver|kidneys?|stomach|spine|ribs?|sternum|pelvis|waist)\b/, region: 'torso' },
+];
+
+/** Added parts: bionics, prosthetics, peg legs, dentures and the like */
+const ADDED_PART_PATTERN = /bionic|prosthetic|archotech|peg|denture|wooden|cochlear|powerclaw|implant/i;
+
+const NO_PART = new Set(['', 'unknown', 'overall', 'circulatory', 'whole body']);
+
+/** The diagram region a body part label belongs to; unlabelled or unknown parts are the whole body. */
+export const getBodyRegion = (partLabel: string | null | undefined): BodyRegionId => {
+  const label = (partLabel || '').toLowerCase().trim();
+  if (NO_PART.has(label)) return 'whole';
+  const found = REGION_PATTERNS.find(r => r.pattern.test(label));
+  if (!found) return 'whole';
+  if (found.region === 'arm') return /\bleft\b/.test(label) ? 'leftArm' : 'rightArm';
+  if (found.region === 'leg') return /\bleft\b/.test(label) ? 'leftLeg' : 'rightLeg';
+  return found.region;
+};
+
+export const isMissingPart = (hediff: Hediff) => hediff.def_name === 'MissingBodyPart';
+export const isAddedPart = (hediff: Hediff) => ADDED_PART_PATTERN.test(hediff.def_name);
+/** Permanent injuries that aren't a missing or replaced part */
+export const isScar = (hediff: Hediff) => hediff.is_permanent && !isMissingPart(hediff) && !isAddedPart(hediff);
+
+export type RegionHeat = 'none' | 'light' | 'moderate' | 'severe';
+
+export interface BodyRegionStatus {
+  region: BodyRegionId;
+  hediffs: Hediff[];
+  /** Fresh injuries and conditions: not permanent and not an added part */
+  injuries: Hediff[];
+  /** Summed severity of the fresh injuries */
+  severity: number;
+  heat: RegionHeat;
+  bleeding: boolean;
+  missing: string[];
+  prosthetics: string[];
+  scars: string[];
+}
+
+// Injury severity is hit points lost; a few points sting, a dozen cripples a limb
+const HEAT_THRESHOLDS: [RegionHeat, number][] = [['severe', 12], ['moderate', 5], ['light', 0]];
+
+export const getRegionHeat = (status: Pick<BodyRegionStatus, 'severity' | 'injuries' | 'bleeding'>): RegionHeat => {
+  if (status.injuries.length === 0) return 'none';
+  if (status.bleeding && status.severity < 5) return 'moderate';
+  return HEAT_THRESHOLDS.find(([, min]) => status.severity > min)?.[0] ?? 'light';
+};
+
+export const summarizeBody = (colonist: ColonistDetailed): Record<BodyRegionId, BodyRegionStatus> => {
+  const regions = {} as Record<BodyRegionId, BodyRegionStatus>;
+  (Object.keys(BODY_REGIONS) as BodyRegionId[]).forEach(region => {
+    regions[region] = { region, hediffs: [], injuries: [], severity: 0, heat: 'none', bleeding: false, missing: [], prosthetics: [], scars: [] };
+  });
+
+  (colonist.colonist_medical_info?.hediffs || [])
+    .filter(h => h && h.visible !== false)
+    .forEach(hediff => {
+      const status = regions[getBodyRegion(hediff.part_label)];
+      const part = hediff.part_label || hediff.label;
+      status.hediffs.push(hediff);
+      if (isMissingPart(hediff)) status.missing.push(part);
+      else if (isAddedPart(hediff)) status.prosthetics.push(`${hediff.label} (${part})`);
+      else if (isScar(hediff)) status.scars.push(`${hediff.label} (${part})`);
+      else {
+        status.injuries.push(hediff);
+        status.severity += hediff.severity || 0;
+        if (hediff.bleeding && hediff.bleed_rate > 0) status.bleeding = true;
+      }
+    });
+
+  Object.values(regions).forEach(status => { status.heat = getRegionHeat(status); });
+  return regions;
+};
+
+/** One line per region for tooltips. */
+export const describeRegion = (status: BodyRegionStatus): string => {
+  const lines = [BODY_REGIONS[status.region].label];
+  status.injuries.forEach(h => lines.push(`• ${h.label}${h.part_label ? ` (${h.part_label})` : ''}${h.bleeding ? ' 🩸' : ''}`));
+  status.missing.forEach(p => lines.push(`✖ missing ${p}`));
+  status.prosthetics.forEach(p => lines.push(`⚙ ${p}`));
+  status.scars.forEach(s => lines.push(`〰 ${s}`));
+  if (lines.length === 1) lines.push('No injuries');
+  return lines.join('\n');
+};
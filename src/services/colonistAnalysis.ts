@@ -0,0 +1,212 @@
+// src/services/colonistAnalysis.ts
+// Role recommendations and gear upgrades for the colonists "Analyze" sub-tab.
+import { ColonistDetailed, ResourceItem, ResourcesData } from '../types';
+import { isWeapon } from './defense';
+
+// ---- WorkTags bitmask (RimWorld's WorkTags enum) ----
+export const WorkTags = {
+  None: 0,
+  ManualDumb: 2,
+  ManualSkilled: 4,
+  Violent: 8,
+  Caring: 0x10,
+  Social: 0x20,
+  Commoner: 0x40,
+  Intellectual: 0x80,
+  Animals: 0x100,
+  Artistic: 0x200,
+  Crafting: 0x400,
+  Cooking: 0x800,
+  Firefighting: 0x1000,
+  Cleaning: 0x2000,
+  Hauling: 0x4000,
+  PlantWork: 0x8000,
+  Mining: 0x10000,
+  Hunting: 0x20000,
+  Constructing: 0x40000,
+  Shooting: 0x80000,
+  AllWork: 0x100000,
+} as const;
+
+/** Every tag a colonist cannot do, from both skills and traits. */
+export const getDisabledWorkTags = (colonist: ColonistDetailed): number => {
+  const info = colonist.colonist_work_info;
+  const fromSkills = (info?.skills || []).reduce((mask, s) => mask | (s.disabled_work_tags ?? 0), 0);
+  const fromTraits = (info?.traits || []).reduce((mask, t) => mask | (t.disabled_work_tags ?? 0), 0);
+  return fromSkills | fromTraits;
+};
+
+// -----------------------------
+// Role recommender
+// -----------------------------
+export interface RoleDefinition {
+  id: string;
+  label: string;
+  icon: string;
+  skill: string;
+  tags: number;
+}
+
+export const ROLES: RoleDefinition[] = [
+  { id: 'doctor', label: 'Doctor', icon: '🩺', skill: 'Medicine', tags: WorkTags.Caring },
+  { id: 'builder', label: 'Builder', icon: '🏗️', skill: 'Construction', tags: WorkTags.Constructing },
+  { id: 'miner', label: 'Miner', icon: '⛏️', skill: 'Mining', tags: WorkTags.Mining },
+  { id: 'grower', label: 'Grower', icon: '🌱', skill: 'Plants', tags: WorkTags.PlantWork },
+  { id: 'cook', label: 'Cook', icon: '🍳', skill: 'Cooking', tags: WorkTags.Cooking },
+  { id: 'researcher', label: 'Researcher', icon: '🔬', skill: 'Intellectual', tags: WorkTags.Intellectual },
+  { id: 'warden', label: 'Warden / Negotiator', icon: '🗣️', skill: 'Social', tags: WorkTags.Social },
+  { id: 'handler', label: 'Animal Handler', icon: '🐾', skill: 'Animals', tags: WorkTags.Animals },
+  { id: 'crafter', label: 'Crafter', icon: '🔨', skill: 'Crafting', tags: WorkTags.Crafting },
+  { id: 'artist', label: 'Artist', icon: '🎨', skill: 'Artistic', tags: WorkTags.Artistic },
+  { id: 'shooter', label: 'Shooter', icon: '🔫', skill: 'Shooting', tags: WorkTags.Violent },
+  { id: 'brawler', label: 'Melee Fighter', icon: '🗡️', skill: 'Melee', tags: WorkTags.Violent },
+];
+
+const PASSION_BONUS = [0, 3, 6]; // none, minor, major
+const TRAIT_ROLE_MODIFIERS: Record<string, Record<string, number>> = {
+  Brawler: { brawler: 5, shooter: -5 },
+  ShootingAccuracy: { shooter: 2 },
+  Bloodlust: { shooter: 2, brawler: 2 },
+  Wimp: { shooter: -4, brawler: -4 },
+  Tough: { brawler: 3 },
+  Nimble: { brawler: 2 },
+  TooSmart: { researcher: 3 },
+  Kind: { warden: 2 },
+  Abrasive: { warden: -3 },
+  Pyromaniac: { cook: -2 },
+};
+
+export interface RoleRecommendation {
+  role: RoleDefinition;
+  score: number;
+  level: number;
+  passion: number;
+  blocked: boolean;
+  reasons: string[];
+}
+
+export const recommendRoles = (colonist: ColonistDetailed): RoleRecommendation[] => {
+  const skills = colonist.colonist_work_info?.skills || [];
+  const traits = (colonist.colonist_work_info?.traits || []).filter(t => !t.suppressed);
+  const disabledTags = getDisabledWorkTags(colonist);
+
+  return ROLES.map(role => {
+    const skill = skills.find(s => s.name === role.skill);
+    const level = skill?.level ?? 0;
+    const passion = skill?.passion ?? 0;
+    const reasons: string[] = [];
+
+    const blocked = !skill || skill.totally_disabled || (disabledTags & role.tags) !== 0;
+    if (blocked) {
+      reasons.push(`Incapable of ${role.skill.toLowerCase()} work`);
+      return { role, score: 0, level, passion, blocked, reasons };
+    }
+
+    let score = level + (PASSION_BONUS[passion] ?? 0);
+    reasons.push(`${role.skill} ${level}`);
+    if (passion > 0) reasons.push(passion >= 2 ? 'Burning passion' : 'Interested');
+
+    traits.forEach(trait => {
+      const modifier = TRAIT_ROLE_MODIFIERS[trait.name]?.[role.id];
+      if (modifier) {
+        score += modifier;
+        reasons.push(`${trait.label} ${modifier > 0 ? '+' : ''}${modifier}`);
+      }
+    });
+
+    return { role, score, level, passion, blocked, reasons };
+  }).sort((a, b) => Number(a.blocked) - Number(b.blocked) || b.score - a.score);
+};
+
+// -----------------------------
+// Gear matcher
+// -----------------------------
+export type GearSlot = 'weapon' | 'armor' | 'headgear';
+
+export interface GearUpgrade {
+  colonistId: number;
+  slot: GearSlot;
+  item: ResourceItem;
+  current: ResourceItem | null;
+  gain: number;
+}
+
+const MIN_GAIN = 0.15;
+
+const isHeadgear = (item: ResourceItem) =>
+  (item.categories || []).some(c => c.toLowerCase().includes('headgear'));
+const isArmor = (item: ResourceItem) =>
+  !isHeadgear(item) && (item.categories || []).some(c => c.toLowerCase().includes('armor'));
+const isRanged = (item: ResourceItem) =>
+  (item.categories || []).some(c => c.toLowerCase().includes('ranged'));
+
+/** Rough item worth: market value scaled by quality and remaining durability. */
+export const gearScore = (item: ResourceItem): number => {
+  const quality = item.quality ?? 2;
+  const durability = item.max_hit_points > 0 ? item.hit_points / item.max_hit_points : 1;
+  return item.market_value * (0.6 + quality * 0.2) * (0.3 + 0.7 * durability);
+};
+
+const bestOf = (items: ResourceItem[]): ResourceItem | null =>
+  items.reduce<ResourceItem | null>((best, item) => (!best || gearScore(item) > gearScore(best) ? item : best), null);
+
+const prefersRanged = (colonist: ColonistDetailed) => {
+  const skills = colonist.colonist_work_info?.skills || [];
+  const shooting = skills.find(s => s.name === 'Shooting');
+  const melee = skills.find(s => s.name === 'Melee');
+  if (!shooting || shooting.totally_disabled) return false;
+  if (!melee || melee.totally_disabled) return true;
+  const hasBrawler = (colonist.colonist_work_info?.traits || []).some(t => t.name === 'Brawler');
+  return !hasBrawler && shooting.level >= melee.level;
+};
+
+/**
+ * Matches stored weapons and armor against what each colonist carries.
+ * Colonists are served in order so a stored item is only offered once.
+ */
+export const findGearUpgrades = (
+  colonists: ColonistDetailed[],
+  inventories: Record<number, ResourceItem[]>,
+  stored: ResourcesData,
+): GearUpgrade[] => {
+  const available = (keys: string[]) =>
+    keys.flatMap(key => stored[key] || []).filter(item => !item.is_forbidden);
+
+  const pools: Record<GearSlot, ResourceItem[]> = {
+    weapon: available(['weapons_ranged', 'weapons_melee']),
+    armor: available(['apparel_armor']).filter(isArmor),
+    headgear: available(['armor_headgear']),
+  };
+  const taken = new Set<number>();
+  const upgrades: GearUpgrade[] = [];
+
+  const offer = (colonistId: number, slot: GearSlot, candidates: ResourceItem[], current: ResourceItem | null) => {
+    const best = bestOf(candidates.filter(item => !taken.has(item.thing_id)));
+    if (!best) return;
+    const currentScore = current ? gearScore(current) : 0;
+    const gain = currentScore > 0 ? gearScore(best) / currentScore - 1 : 1;
+    if (gain < MIN_GAIN) return;
+    taken.add(best.thing_id);
+    upgrades.push({ colonistId, slot, item: best, current, gain });
+  };
+
+  colonists.forEach(colonist => {
+    const id = colonist.colonist.id;
+    const carried = inventories[id] || [];
+    const canFight = (getDisabledWorkTags(colonist) & WorkTags.Violent) === 0;
+
+    if (canFight) {
+      const ranged = prefersRanged(colonist);
+      offer(
+        id,
+        'weapon',
+        pools.weapon.filter(item => isRanged(item) === ranged),
+        bestOf(carried.filter(isWeapon)),
+      );
+    }
+    offer(id, 'armor', pools.armor, bestOf(carried.filter(isArmor)));
+    offer(id, 'headgear', pools.headgear, bestOf(carried.filter(isHeadgear)));
+  });
+
+  return upgrades;
+};
@@ -0,0 +1,86 @@
+import { cloneColony, RECORDED_COLONY } from '../mocks/fixtures';
+import { Turret } from '../types';
+import { assessDefense, getTurretStatus, updateRaidLog } from './defense';
+
+const turret = (overrides: Partial<Turret> = {}): Turret => ({
+  thing_id: 4001,
+  def_name: 'Turret_MiniTurret',
+  label: 'mini-turret',
+  position: { x: 0, y: 0, z: 0 },
+  hit_points: 150,
+  max_hit_points: 150,
+  fuel_percent: 0.8,
+  is_powered: true,
+  ...overrides,
+});
+
+const weaponsOf = (colony = cloneColony(RECORDED_COLONY)) =>
+  Object.fromEntries(colony.colonists.map((c) => [c.colonist.id, colony.inventories[c.colonist.id]?.[0] ?? null]));
+
+describe('assessDefense', () => {
+  test('rates turrets by power, damage and ammo', () => {
+    expect(getTurretStatus(turret())).toBe('Operational');
+    expect(getTurretStatus(turret({ is_powered: false, hit_points: 10 }))).toBe('Unpowered');
+    expect(getTurretStatus(turret({ hit_points: 95 }))).toBe('Damaged');
+    expect(getTurretStatus(turret({ fuel_percent: 0.2 }))).toBe('Low ammo');
+  });
+
+  test('scores combatants and turrets and recommends fixes', () => {
+    const { colonists } = cloneColony(RECORDED_COLONY);
+    const assessment = assessDefense(colonists, weaponsOf(), [turret(), turret({ thing_id: 4002, is_powered: false })], {});
+
+    expect(assessment.turretScore).toBe(60);
+    expect(assessment.combatants[0].name).toBe('Eve');
+    expect(assessment.score).toBe(assessment.turretScore + assessment.combatants.reduce((s, c) => s + c.contribution, 0));
+    expect(assessment.threatLevel).toBe('None');
+    expect(assessment.recommendations).toContain('Restore power to 1 turret');
+  });
+
+  test('rates the threat against the colony score', () => {
+    const { colonists } = cloneColony(RECORDED_COLONY);
+    const weapons = weaponsOf();
+    const { score } = assessDefense(colonists, weapons, [], {});
+
+    expect(assessDefense(colonists, weapons, [], { enemies_count: 1 }).threatLevel).toBe('Low');
+    expect(assessDefense(colonists, weapons, [], { enemies_count: Math.ceil(score / 40) + 1 }).threatLevel).toBe('High');
+    expect(assessDefense(colonists, {}, [], { mechanoids_count: 2 }).weakPoints).toEqual(
+      expect.arrayContaining(['Less than half of the colonists are armed', 'Mechanoids on map: bring EMP and high armor penetration']),
+    );
+  });
+});
+
+describe('updateRaidLog', () => {
+  test('opens a raid on a spike, tracks the peak and closes it when clear', () => {
+    const { colonists } = cloneColony(RECORDED_COLONY);
+    let log = updateRaidLog([], { enemies_count: 2 }, colonists, 1000);
+    expect(log).toEqual([]);
+
+    log = updateRaidLog(log, { enemies_count: 4 }, colonists, 2000, '5th of Aprimay');
+    log = updateRaidLog(log, { enemies_count: 1, mechanoids_count: 6 }, colonists, 3000);
+    log = updateRaidLog(log, {}, colonists, 4000);
+
+    expect(log).toHaveLength(1);
+    expect(log[0]).toMatchObject({
+      startedAt: 2000, endedAt: 4000, gameDateStart: '5th of Aprimay', peakEnemies: 6, kind: 'Mechanoid raid', lost: [],
+    });
+    expect(log[0].roster).toHaveLength(5);
+  });
+
+  test('counts colonists who died or vanished, not a smaller map count', () => {
+    const { colonists } = cloneColony(RECORDED_COLONY);
+    let log = updateRaidLog([], { enemies_count: 5, colonists_count: 5 }, colonists, 1000);
+
+    // Three colonists left on a caravan: fewer on the map, but all still in the colony
+    log = updateRaidLog(log, { enemies_count: 3, colonists_count: 2 }, colonists, 2000);
+    expect(log[0].lost).toEqual([]);
+
+    const [, boris, cass] = colonists;
+    boris.colonist_medical_info.health = 0;
+    log = updateRaidLog(log, { enemies_count: 3, colonists_count: 2 }, colonists.filter((c) => c !== cass), 3000);
+    // A failed colonists section keeps the losses seen so far
+    log = updateRaidLog(log, { colonists_count: 2 }, undefined, 4000);
+
+    expect(log[0].lost.map((c) => c.name)).toEqual(['Boris', 'Cass']);
+    expect(log[0].endedAt).toBe(4000);
+  });
+});
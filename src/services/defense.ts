@@ -0,0 +1,222 @@
+// src/services/defense.ts
+// Defense scoring and raid detection computed from live colony data.
+import { ColonistDetailed, CreaturesSummary, RaidColonist, RaidEvent, ResourceItem, Turret } from '../types';
+
+export type TurretStatus = 'Operational' | 'Damaged' | 'Unpowered' | 'Low ammo';
+
+export interface CombatantScore {
+  colonistId: number;
+  name: string;
+  shooting: number;
+  melee: number;
+  weapon: ResourceItem | null;
+  canFight: boolean;
+  contribution: number;
+}
+
+export interface DefenseAssessment {
+  score: number;
+  combatants: CombatantScore[];
+  armedCount: number;
+  turretScore: number;
+  threatLevel: 'None' | 'Low' | 'Medium' | 'High';
+  hostiles: number;
+  recommendations: string[];
+  weakPoints: string[];
+}
+
+const DAMAGED_BELOW = 0.7;
+const LOW_AMMO_BELOW = 0.25;
+const TURRET_BASE_SCORE = 60;
+const THREAT_PER_HOSTILE = 40;
+
+export const isWeapon = (item: ResourceItem): boolean =>
+  (item.categories || []).some((c) => c.toLowerCase().includes('weapon'));
+
+export const getTurretStatus = (turret: Turret): TurretStatus => {
+  const health = turret.max_hit_points > 0 ? turret.hit_points / turret.max_hit_points : 1;
+  if (turret.is_powered === false) return 'Unpowered';
+  if (health < DAMAGED_BELOW) return 'Damaged';
+  if (turret.fuel_percent !== null && turret.fuel_percent < LOW_AMMO_BELOW) return 'Low ammo';
+  return 'Operational';
+};
+
+const skillLevel = (colonist: ColonistDetailed, name: string) => {
+  const skill = colonist.colonist_work_info?.skills?.find((s) => s.name === name);
+  if (!skill || skill.totally_disabled) return { level: 0, disabled: true };
+  return { level: skill.level, disabled: false };
+};
+
+/** A colonist's contribution to defense: combat skill scaled by weapon and health. */
+export const scoreCombatant = (colonist: ColonistDetailed, weapon: ResourceItem | null): CombatantScore => {
+  const shooting = skillLevel(colonist, 'Shooting');
+  const melee = skillLevel(colonist, 'Melee');
+  const canFight = !(shooting.disabled && melee.disabled);
+
+  const combatSkill = Math.max(shooting.level, melee.level * 0.8);
+  const quality = weapon?.quality ?? 2; // "normal"
+  const weaponFactor = weapon ? 1 + quality * 0.1 + Math.min(weapon.market_value / 2000, 0.5) : 0.4;
+  const health = colonist.colonist_medical_info?.health ?? colonist.colonist.health ?? 1;
+
+  return {
+    colonistId: colonist.colonist.id,
+    name: colonist.colonist.name,
+    shooting: shooting.level,
+    melee: melee.level,
+    weapon,
+    canFight,
+    contribution: canFight ? Math.round((combatSkill + 2) * 10 * weaponFactor * health) : 0,
+  };
+};
+
+export const assessDefense = (
+  colonists: ColonistDetailed[],
+  weaponsByColonist: Record<number, ResourceItem | null>,
+  turrets: Turret[],
+  creatures: CreaturesSummary,
+): DefenseAssessment => {
+  const combatants = colonists
+    .map((c) => scoreCombatant(c, weaponsByColonist[c.colonist.id] ?? null))
+    .sort((a, b) => b.contribution - a.contribution);
+
+  const turretScore = turrets.reduce((sum, t) => {
+    const status = getTurretStatus(t);
+    if (status === 'Unpowered') return sum;
+    const health = t.max_hit_points > 0 ? t.hit_points / t.max_hit_points : 1;
+    return sum + Math.round(TURRET_BASE_SCORE * health);
+  }, 0);
+
+  const score = combatants.reduce((sum, c) => sum + c.contribution, 0) + turretScore;
+  const armedCount = combatants.filter((c) => c.canFight && c.weapon).length;
+  const hostiles = getHostileCount(creatures);
+
+  let threatLevel: DefenseAssessment['threatLevel'] = 'None';
+  if (hostiles > 0) {
+    const ratio = (hostiles * THREAT_PER_HOSTILE) / Math.max(score, 1);
+    threatLevel = ratio > 1 ? 'High' : ratio > 0.5 ? 'Medium' : 'Low';
+  }
+
+  const recommendations: string[] = [];
+  const weakPoints: string[] = [];
+
+  const damaged = turrets.filter((t) => getTurretStatus(t) === 'Damaged');
+  const unpowered = turrets.filter((t) => getTurretStatus(t) === 'Unpowered');
+  const lowAmmo = turrets.filter((t) => getTurretStatus(t) === 'Low ammo');
+  const unarmed = combatants.filter((c) => c.canFight && !c.weapon);
+  const pacifists = combatants.filter((c) => !c.canFight);
+
+  if (damaged.length > 0) recommendations.push(`Repair ${damaged.length} damaged turret${damaged.length === 1 ? '' : 's'}`);
+  if (unpowered.length > 0) recommendations.push(`Restore power to ${unpowered.length} turret${unpowered.length === 1 ? '' : 's'}`);
+  if (lowAmmo.length > 0) recommendations.push(`Rearm or rebarrel ${lowAmmo.length} turret${lowAmmo.length === 1 ? '' : 's'}`);
+  if (unarmed.length > 0) recommendations.push(`Equip weapons for ${unarmed.map((c) => c.name).join(', ')}`);
+  if (turrets.length === 0) recommendations.push('Build turrets to cover approaches');
+
+  if (armedCount < Math.ceil(colonists.length / 2)) weakPoints.push('Less than half of the colonists are armed');
+  if (pacifists.length > 0) weakPoints.push(`${pacifists.length} colonist${pacifists.length === 1 ? '' : 's'} incapable of violence`);
+  if ((creatures.mechanoids_count || 0) > 0) weakPoints.push('Mechanoids on map: bring EMP and high armor penetration');
+  if ((creatures.insectoids_count || 0) > 0) weakPoints.push('Insectoids on map: watch for hive spread');
+
+  return { score, combatants, armedCount, turretScore, threatLevel, hostiles, recommendations, weakPoints };
+};
+
+// -----------------------------
+// Raid history
+// -----------------------------
+export const RAID_MIN_HOSTILES = 3;
+const MAX_RAIDS_PER_COLONY = 50;
+const STORAGE_KEY = 'rimworldRaidLog';
+
+export const getHostileCount = (creatures: CreaturesSummary): number =>
+  Math.max(creatures.enemies_count || 0, creatures.mechanoids_count || 0, creatures.insectoids_count || 0);
+
+const classifyRaid = (raid: RaidEvent): RaidEvent['kind'] => {
+  if (raid.peakMechanoids >= raid.peakEnemies / 2 && raid.peakMechanoids > 0) return 'Mechanoid raid';
+  if (raid.peakInsectoids >= raid.peakEnemies / 2 && raid.peakInsectoids > 0) return 'Infestation';
+  return 'Raid';
+};
+
+const toRaidColonist = (c: ColonistDetailed): RaidColonist => ({ id: c.colonist.id, name: c.colonist.name });
+
+const isAlive = (c: ColonistDetailed) => (c.colonist_medical_info?.health ?? c.colonist.health ?? 1) > 0;
+
+/**
+ * Colonists of the raid's roster who are now dead or gone from the colony. Colonists
+ * on a caravan or another map are still listed, so only real losses count.
+ */
+const findLost = (raid: RaidEvent, colonists: ColonistDetailed[]): RaidColonist[] => {
+  const alive = new Set(colonists.filter(isAlive).map((c) => c.colonist.id));
+  // Raids logged by older versions have no roster
+  return (raid.roster || []).filter((c) => !alive.has(c.id));
+};
+
+/**
+ * Advances the raid log by one poll: opens a raid when hostiles reach
+ * RAID_MIN_HOSTILES, tracks the peak and losses while it lasts and closes
+ * it once the map is clear again. `colonists` is undefined when that
+ * section failed to load; losses are then left as last seen.
+ */
+export const updateRaidLog = (
+  log: RaidEvent[],
+  creatures: CreaturesSummary,
+  colonists: ColonistDetailed[] | undefined,
+  now = Date.now(),
+  gameDate?: string,
+): RaidEvent[] => {
+  const hostiles = getHostileCount(creatures);
+  const active = log.find((r) => r.endedAt === undefined);
+
+  if (active) {
+    const updated: RaidEvent = {
+      ...active,
+      peakEnemies: Math.max(active.peakEnemies, hostiles),
+      peakMechanoids: Math.max(active.peakMechanoids, creatures.mechanoids_count || 0),
+      peakInsectoids: Math.max(active.peakInsectoids, creatures.insectoids_count || 0),
+      lost: colonists ? findLost(active, colonists) : active.lost,
+    };
+    updated.kind = classifyRaid(updated);
+    if (hostiles === 0) updated.endedAt = now;
+    return log.map((r) => (r.id === active.id ? updated : r));
+  }
+
+  if (hostiles < RAID_MIN_HOSTILES) return log;
+
+  const raid: RaidEvent = {
+    id: `${now}`,
+    kind: 'Raid',
+    startedAt: now,
+    gameDateStart: gameDate,
+    peakEnemies: hostiles,
+    peakMechanoids: creatures.mechanoids_count || 0,
+    peakInsectoids: creatures.insectoids_count || 0,
+    roster: (colonists || []).filter(isAlive).map(toRaidColonist),
+    lost: [],
+  };
+  raid.kind = classifyRaid(raid);
+  return [raid, ...log].slice(0, MAX_RAIDS_PER_COLONY);
+};
+
+const loadAllRaidLogs = (): Record<string, RaidEvent[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadRaidLog = (colony: string): RaidEvent[] => loadAllRaidLogs()[colony] || [];
+
+export const trackRaids = (
+  colony: string,
+  creatures: CreaturesSummary,
+  colonists: ColonistDetailed[] | undefined,
+  gameDate?: string,
+): RaidEvent[] => {
+  const all = loadAllRaidLogs();
+  const prev = all[colony] || [];
+  const next = updateRaidLog(prev, creatures, colonists, Date.now(), gameDate);
+  if (next !== prev) {
+    all[colony] = next;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  }
+  return next;
+};
@@ -0,0 +1,122 @@
+import { buildHediff, cloneColony, RECORDED_COLONY } from '../mocks/fixtures';
+import {
+  TICKS_PER_HOUR,
+  DiseaseHistory,
+  forecastDisease,
+  loadDiseaseHistory,
+  parseImmunity,
+  trackDiseases,
+  updateDiseaseHistory,
+} from './diseaseProgression';
+
+const HOURS_6 = 6 * TICKS_PER_HOUR;
+
+/** Polls one colonist with a plague at the given severities (and immunities), six game hours apart. */
+const poll = (severities: number[], immunities: (number | null)[] = []) => {
+  const colony = cloneColony(RECORDED_COLONY);
+  const [ada] = colony.colonists;
+  let history: DiseaseHistory = {};
+  severities.forEach((severity, i) => {
+    const immunity = immunities[i];
+    ada.colonist_medical_info.hediffs = [
+      buildHediff(7001, {
+        def_name: 'Plague', label: 'plague', part_label: null, severity, age_ticks: i * HOURS_6, is_lethal: true,
+        tip_string_extra: immunity === undefined || immunity === null ? '' : `Immunity: ${immunity * 100}%`,
+      }),
+    ];
+    history = updateDiseaseHistory(history, colony.colonists, 1000 + i);
+  });
+  return { colony, history, track: history['7001'] };
+};
+
+beforeEach(() => localStorage.clear());
+
+test('keeps one sample per game tick and ignores non-lethal hediffs', () => {
+  const { colony, history, track } = poll([0.2, 0.2, 0.3]);
+  expect(track.samples.map((s) => s.severity)).toEqual([0.2, 0.2, 0.3]);
+  // A paused game polls the same tick again
+  expect(updateDiseaseHistory(history, colony.colonists)['7001'].samples).toHaveLength(3);
+
+  const bruised = cloneColony(RECORDED_COLONY);
+  bruised.colonists[0].colonist_medical_info.hediffs = [buildHediff(7002, { label: 'bruise', severity: 3 })];
+  expect(updateDiseaseHistory({}, bruised.colonists)).toEqual({});
+});
+
+test('forecasts death when severity outpaces immunity', () => {
+  // +0.1 severity per 6h = +0.4/day; from 0.5 that's 1.25 days to lethal
+  const { track } = poll([0.3, 0.4, 0.5], [0.1, 0.15, 0.2]);
+  const forecast = forecastDisease(track);
+
+  expect(forecast.severityPerDay).toBeCloseTo(0.4);
+  expect(forecast.daysToLethal).toBeCloseTo(1.25);
+  expect(forecast.daysToRecovery).toBeCloseTo(4);
+  expect(forecast.outlook).toBe('fatal');
+});
+
+test('forecasts recovery when immunity wins or severity falls', () => {
+  expect(forecastDisease(poll([0.3, 0.35, 0.4], [0.6, 0.75, 0.9]).track).outlook).toBe('recovering');
+  expect(forecastDisease(poll([0.5, 0.4, 0.3]).track)).toMatchObject({ outlook: 'recovering', daysToLethal: null });
+  expect(forecastDisease(poll([0.3, 0.4]).track).outlook).toBe('insufficient');
+});
+
+test('marks diseases that disappear as resolved', () => {
+  const { colony, history } = poll([0.3, 0.4, 0.5]);
+  colony.colonists[0].colonist_medical_info.hediffs = [];
+
+  const next = updateDiseaseHistory(history, colony.colonists, 5000);
+  expect(next['7001'].resolvedAt).toBe(5000);
+  expect(forecastDisease(next['7001']).outlook).toBe('gone');
+
+  // Only a disease that reached full immunity counts as healed
+  const immune = poll([0.3, 0.2, 0.1], [0.8, 0.9, 1]);
+  immune.colony.colonists[0].colonist_medical_info.hediffs = [];
+  expect(forecastDisease(updateDiseaseHistory(immune.history, immune.colony.colonists, 5000)['7001']).outlook)
+    .toBe('recovering');
+});
+
+const plague = (loadId: number, severity: number, i: number) =>
+  buildHediff(loadId, { def_name: 'Plague', label: 'plague', severity, age_ticks: i * HOURS_6, is_lethal: true });
+
+test('counts each fatal trend once and persists per colony', () => {
+  const { colony } = poll([0.3]);
+  const [ada] = colony.colonists;
+  const counts = [0.3, 0.4, 0.5, 0.6].map((severity, i) => {
+    ada.colonist_medical_info.hediffs = [plague(7001, severity, i)];
+    return trackDiseases('colony-a', colony.colonists, 1000 + i);
+  });
+
+  expect(counts).toEqual([0, 0, 1, 1]);
+  expect(loadDiseaseHistory('colony-a')['7001'].samples).toHaveLength(4);
+  expect(loadDiseaseHistory('colony-b')).toEqual({});
+});
+
+test('counts a new fatal trend even when another one ends in the same poll', () => {
+  const { colony } = poll([0.3]);
+  const [ada, boris] = colony.colonists;
+  [0.3, 0.4, 0.5].forEach((severity, i) => {
+    ada.colonist_medical_info.hediffs = [plague(7001, severity, i)];
+    boris.colonist_medical_info.hediffs = [plague(7002, 0.1, i)];
+    trackDiseases('colony-a', colony.colonists, 1000 + i);
+  });
+
+  // Ada's plague is gone as Boris's turns fatal
+  ada.colonist_medical_info.hediffs = [];
+  boris.colonist_medical_info.hediffs = [plague(7002, 0.5, 3)];
+  expect(trackDiseases('colony-a', colony.colonists, 1003)).toBe(2);
+  expect(trackDiseases('colony-a|map1', colony.colonists, 1004)).toBe(0);
+});
+
+test('keeps the history when switching maps', () => {
+  const { colony } = poll([0.3]);
+  colony.colonists[0].colonist_medical_info.hediffs = [
+    buildHediff(7001, { def_name: 'Plague', label: 'plague', severity: 0.3, is_lethal: true }),
+  ];
+  trackDiseases('save|map0', colony.colonists, 1000);
+
+  expect(loadDiseaseHistory('save|map1')['7001'].samples).toHaveLength(1);
+});
+
+test('reads immunity from the tooltip', () => {
+  expect(parseImmunity(buildHediff(1, { tip_string_extra: 'Immunity: 42.5%' }))).toBeCloseTo(0.425);
+  expect(parseImmunity(buildHediff(1, { tip_string_extra: '' }))).toBeNull();
+});
@@ -0,0 +1,271 @@
+// src/services/diseaseProgression.ts
+// Per-hediff disease history across polls, keyed by load_id. Diseases in RimWorld are a race
+// between severity reaching the lethal mark and immunity reaching 100%, so each poll adds a
+// sample and the recent trend projects which one gets there first.
+import { ColonistDetailed, Hediff } from '../types';
+import { getSaveKey } from './metricsHistory';
+
+export const TICKS_PER_HOUR = 2500;
+export const TICKS_PER_DAY = 24 * TICKS_PER_HOUR;
+
+/** Severity at which the game's lethal diseases kill */
+export const LETHAL_SEVERITY = 1;
+
+/** Samples the trend is fitted to, and the fewest needed for a forecast */
+const TREND_WINDOW = 8;
+const MIN_SAMPLES = 3;
+const MAX_SAMPLES = 240;
+
+/** Recovery projected this close to the lethal mark (fraction of the time left) still counts as close */
+const CLOSE_MARGIN = 0.15;
+/** Cured or dead diseases stay on the chart this long */
+const RESOLVED_RETENTION_MS = 6 * 60 * 60 * 1000;
+
+const STORAGE_KEY = 'rimworldDiseaseHistory';
+const FATAL_TRENDS_KEY = 'rimworldDiseaseFatalTrends';
+
+export interface DiseaseSample {
+  /** Hediff age in game ticks, so pauses and game speed don't skew the trend */
+  ticks: number;
+  severity: number;
+  /** 0–1 when the API exposes it, otherwise null */
+  immunity: number | null;
+  tended: boolean;
+}
+
+export interface DiseaseTrack {
+  loadId: number;
+  colonistId: number;
+  colonistName: string;
+  defName: string;
+  label: string;
+  partLabel: string | null;
+  samples: DiseaseSample[];
+  firstSeenAt: number;
+  lastSeenAt: number;
+  resolvedAt?: number;
+  /** Set while the disease is trending toward death, so each fatal trend is counted once */
+  fatalAt?: number;
+}
+
+export type DiseaseHistory = Record<string, DiseaseTrack>;
+
+export type DiseaseOutlook = 'insufficient' | 'stable' | 'recovering' | 'close' | 'fatal' | 'gone';
+
+export interface DiseaseForecast {
+  track: DiseaseTrack;
+  severity: number;
+  immunity: number | null;
+  /** Change per game day from the recent trend */
+  severityPerDay: number;
+  immunityPerDay: number | null;
+  daysToLethal: number | null;
+  /** Days until immunity completes, or until severity reaches zero without immunity data */
+  daysToRecovery: number | null;
+  outlook: DiseaseOutlook;
+}
+
+export const DISEASE_OUTLOOKS: Record<DiseaseOutlook, { label: string; icon: string }> = {
+  insufficient: { label: 'Gathering data', icon: '⏳' },
+  stable: { label: 'Stable', icon: '➖' },
+  recovering: { label: 'Recovering', icon: '💚' },
+  close: { label: 'Too close to call', icon: '⚖️' },
+  fatal: { label: 'Trending toward death', icon: '☠️' },
+  gone: { label: 'No longer reported', icon: '❔' },
+};
+
+// -----------------------------
+// Sampling
+// -----------------------------
+
+/** Diseases with a lethal severity; blood loss is left to the triage rules. */
+export const isTrackedDisease = (hediff: Hediff): boolean =>
+  Boolean(hediff.is_lethal) && !hediff.is_permanent && hediff.def_name !== 'BloodLoss';
+
+const IMMUNITY_PATTERN = /immun\w*\D{0,12}?(\d+(?:\.\d+)?)\s*%/i;
+
+/** Best-effort immunity from the hediff's tooltip or bracket label, as 0–1. */
+export const parseImmunity = (hediff: Hediff): number | null => {
+  const match = `${hediff.tip_string_extra || ''} ${hediff.label_in_brackets || ''}`.match(IMMUNITY_PATTERN);
+  return match ? Math.min(1, Number(match[1]) / 100) : null;
+};
+
+/** Advances the history by one poll. Diseases missing from the poll are marked resolved. */
+export const updateDiseaseHistory = (
+  history: DiseaseHistory,
+  colonists: ColonistDetailed[],
+  now = Date.now(),
+): DiseaseHistory => {
+  const next: DiseaseHistory = {};
+  const seen = new Set<string>();
+
+  colonists.forEach(({ colonist, colonist_medical_info: medical }) => {
+    (medical?.hediffs || []).filter(h => h && isTrackedDisease(h)).forEach(hediff => {
+      const key = String(hediff.load_id);
+      seen.add(key);
+      const sample: DiseaseSample = {
+        ticks: hediff.age_ticks,
+        severity: hediff.severity,
+        immunity: parseImmunity(hediff),
+        tended: hediff.is_tended,
+      };
+      const prev = history[key];
+      let samples = prev && !prev.resolvedAt ? prev.samples : [];
+      const last = samples[samples.length - 1];
+      // Same age means the game was paused; an older one means a reload, so start over
+      if (last && sample.ticks === last.ticks) samples = samples.slice(0, -1);
+      else if (last && sample.ticks < last.ticks) samples = [];
+
+      next[key] = {
+        ...prev,
+        loadId: hediff.load_id,
+        colonistId: colonist.id,
+        colonistName: colonist.name,
+        defName: hediff.def_name,
+        label: hediff.label,
+        partLabel: hediff.part_label,
+        samples: [...samples, sample].slice(-MAX_SAMPLES),
+        firstSeenAt: prev && !prev.resolvedAt ? prev.firstSeenAt : now,
+        lastSeenAt: now,
+        resolvedAt: undefined,
+      };
+    });
+  });
+
+  Object.entries(history).forEach(([key, track]) => {
+    if (seen.has(key)) return;
+    const resolvedAt = track.resolvedAt ?? now;
+    if (now - resolvedAt <= RESOLVED_RETENTION_MS) next[key] = { ...track, resolvedAt, fatalAt: undefined };
+  });
+
+  return next;
+};
+
+// -----------------------------
+// Forecast
+// -----------------------------
+
+/** Least-squares slope of `value` per game day over the points that have one. */
+const slopePerDay = (samples: DiseaseSample[], value: (s: DiseaseSample) => number | null): number | null => {
+  const points = samples
+    .map(s => ({ x: s.ticks / TICKS_PER_DAY, y: value(s) }))
+    .filter((p): p is { x: number; y: number } => p.y !== null);
+  if (points.length < 2) return null;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  if (sxx === 0) return null;
+  return points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0) / sxx;
+};
+
+export const forecastDisease = (track: DiseaseTrack): DiseaseForecast => {
+  const latest = track.samples[track.samples.length - 1];
+  const recent = track.samples.slice(-TREND_WINDOW);
+  const severityPerDay = slopePerDay(recent, s => s.severity);
+  const immunityPerDay = slopePerDay(recent, s => s.immunity);
+  const base = {
+    track,
+    severity: latest?.severity ?? 0,
+    immunity: latest?.immunity ?? null,
+    severityPerDay: severityPerDay ?? 0,
+    immunityPerDay,
+    daysToLethal: null,
+    daysToRecovery: null,
+  };
+
+  // Gone from the poll: healed if immunity got there, otherwise treated, fatal or simply out of sight
+  if (track.resolvedAt) return { ...base, outlook: base.immunity !== null && base.immunity >= 1 ? 'recovering' : 'gone' };
+  if (recent.length < MIN_SAMPLES || severityPerDay === null) return { ...base, outlook: 'insufficient' };
+
+  const daysToLethal = severityPerDay > 0 ? Math.max(0, LETHAL_SEVERITY - base.severity) / severityPerDay : null;
+  const daysToRecovery = base.immunity !== null && immunityPerDay !== null && immunityPerDay > 0
+    ? Math.max(0, 1 - base.immunity) / immunityPerDay
+    : severityPerDay < 0
+      ? base.severity / -severityPerDay
+      : null;
+
+  let outlook: DiseaseOutlook;
+  if (daysToLethal === null) outlook = daysToRecovery !== null ? 'recovering' : 'stable';
+  else if (daysToRecovery === null || daysToRecovery >= daysToLethal) outlook = 'fatal';
+  else outlook = daysToLethal - daysToRecovery < daysToLethal * CLOSE_MARGIN ? 'close' : 'recovering';
+
+  return { ...base, daysToLethal, daysToRecovery, outlook };
+};
+
+/** Forecasts for every tracked disease, worst outlook and soonest death first. */
+export const forecastDiseases = (history: DiseaseHistory): DiseaseForecast[] => {
+  const rank: Record<DiseaseOutlook, number> = { fatal: 0, close: 1, insufficient: 2, stable: 3, recovering: 4, gone: 5 };
+  return Object.values(history)
+    .map(forecastDisease)
+    .sort((a, b) => rank[a.outlook] - rank[b.outlook]
+      || (a.daysToLethal ?? Infinity) - (b.daysToLethal ?? Infinity)
+      || b.severity - a.severity);
+};
+
+export const formatGameDays = (days: number): string =>
+  days < 1 ? `${Math.max(1, Math.round(days * 24))} h` : `${days.toFixed(1)} days`;
+
+// -----------------------------
+// Persistence
+// -----------------------------
+// Stored per save rather than per map: the detailed colonist poll covers every map, so a map
+// switch must not start the history over.
+const loadAll = (): Record<string, DiseaseHistory> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadDiseaseHistory = (colony: string): DiseaseHistory => loadAll()[getSaveKey(colony)] || {};
+
+export const clearDiseaseHistory = (colony: string) => {
+  const all = loadAll();
+  delete all[getSaveKey(colony)];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+};
+
+// Running count of diseases that turned fatal, per colony key rather than per save: alert
+// states are kept per map, and a map switch must not look like a new fatal trend
+const loadFatalTrends = (): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(FATAL_TRENDS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Records one poll for a colony. Returns how many diseases have started trending toward death
+ * so far; the count only grows, so an "increases" alert rule fires once per new fatal trend even
+ * when another disease recovers or its colonist dies in the same poll.
+ */
+export const trackDiseases = (
+  colony: string,
+  colonists: ColonistDetailed[],
+  now = Date.now(),
+): number => {
+  const all = loadAll();
+  const key = getSaveKey(colony);
+  const history = updateDiseaseHistory(all[key] || {}, colonists, now);
+  let newlyFatal = 0;
+
+  Object.values(history).forEach(track => {
+    const { outlook } = forecastDisease(track);
+    if (outlook === 'fatal' && !track.fatalAt) {
+      track.fatalAt = now;
+      newlyFatal += 1;
+    } else if (outlook !== 'fatal' && outlook !== 'insufficient') {
+      track.fatalAt = undefined;
+    }
+  });
+
+  all[key] = history;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+
+  const fatalTrends = loadFatalTrends();
+  fatalTrends[colony] = (fatalTrends[colony] ?? 0) + newlyFatal;
+  localStorage.setItem(FATAL_TRENDS_KEY, JSON.stringify(fatalTrends));
+  return fatalTrends[colony];
+};
@@ -0,0 +1,75 @@
+import { createMockRimApi, connectMockRimApi, MockRimApi } from '../mocks/mockRimApi';
+import { getEventStreamStatus, getReconnectDelay, StreamEvent, subscribeToEvents } from './eventStream';
+
+let api: MockRimApi;
+let restore: () => void;
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  api = createMockRimApi('healthy');
+  restore = connectMockRimApi(api);
+});
+
+afterEach(() => {
+  restore();
+  jest.useRealTimers();
+});
+
+test('delivers events to subscribers and tracks the last event id', () => {
+  const received: StreamEvent[] = [];
+  const unsubscribe = subscribeToEvents('log_message', (ev) => received.push(ev));
+
+  jest.advanceTimersByTime(0);
+  expect(getEventStreamStatus().state).toBe('open');
+
+  api.emit('log_message', { level: 'Info', message: 'Colony saved' }, '42');
+  api.emit('other_event', 'ignored');
+
+  expect(received).toHaveLength(1);
+  expect(JSON.parse(received[0].data).message).toBe('Colony saved');
+  expect(getEventStreamStatus().lastEventId).toBe('42');
+
+  unsubscribe();
+  expect(getEventStreamStatus().state).toBe('idle');
+});
+
+test('lets the browser reconnect a dropped stream with Last-Event-ID', () => {
+  const unsubscribe = subscribeToEvents('log_message', () => undefined);
+  jest.advanceTimersByTime(0);
+  api.emit('log_message', 'first', '7');
+
+  api.dropEventConnections();
+  expect(getEventStreamStatus()).toMatchObject({ state: 'reconnecting', attempt: 0, retryAt: null });
+
+  jest.advanceTimersByTime(3000);
+  expect(getEventStreamStatus().state).toBe('open');
+  const connections = api.requests.filter((r) => r.path === '/events');
+  expect(connections).toHaveLength(2);
+  expect(connections[1].headers).toEqual({ 'Last-Event-ID': '7' });
+  expect(getEventStreamStatus().url).not.toContain('lastEventId');
+
+  unsubscribe();
+});
+
+test('rebuilds the stream with back-off once the browser gives up', () => {
+  const unsubscribe = subscribeToEvents('log_message', () => undefined);
+  jest.advanceTimersByTime(0);
+
+  api.failEndpoint('/events', 'Game closed');
+  api.dropEventConnections();
+  jest.advanceTimersByTime(3000);
+  expect(getEventStreamStatus()).toMatchObject({ state: 'reconnecting', attempt: 1 });
+
+  api.failEndpoint('/events', null);
+  jest.advanceTimersByTime(getReconnectDelay(1, 1));
+  jest.advanceTimersByTime(0);
+  expect(getEventStreamStatus()).toMatchObject({ state: 'open', attempt: 0 });
+
+  unsubscribe();
+});
+
+test('backs off exponentially up to the cap', () => {
+  expect(getReconnectDelay(1, 0.5)).toBe(1000);
+  expect(getReconnectDelay(3, 0.5)).toBe(4000);
+  expect(getReconnectDelay(20, 0.5)).toBe(30000);
+});
@@ -0,0 +1,198 @@
+// src/services/eventStream.ts
+// Shared SSE client for the RIMAPI /events stream. One EventSource serves every subscriber.
+// Dropped connections are retried by the browser, which resumes with the Last-Event-ID header;
+// once the browser gives up, the stream is rebuilt with exponential back-off.
+//
+// EventSource cannot send custom headers, so a profile's auth header never reaches /events.
+import { getApiBaseUrl } from './rimworldApi';
+
+export type EventStreamState = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+export interface EventStreamStatus {
+  state: EventStreamState;
+  url: string | null;
+  attempt: number; // consecutive failed connection attempts
+  retryAt: number | null;
+  lastEventAt: number | null;
+  lastEventId: string | null;
+}
+
+export interface StreamEvent {
+  type: string;
+  data: string;
+  id: string | null;
+  receivedAt: number;
+}
+
+type EventHandler = (event: StreamEvent) => void;
+type StatusListener = (status: EventStreamStatus) => void;
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+const EVENT_SOURCE_CONNECTING = 0; // EventSource.CONNECTING
+
+const handlers = new Map<string, Set<EventHandler>>();
+const statusListeners = new Set<StatusListener>();
+
+let source: EventSource | null = null;
+let listenedTypes = new Set<string>();
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let resumeBaseUrl: string | null = null; // lastEventId is only meaningful for the server that issued it
+
+let status: EventStreamStatus = {
+  state: 'idle',
+  url: null,
+  attempt: 0,
+  retryAt: null,
+  lastEventAt: null,
+  lastEventId: null,
+};
+
+const setStatus = (patch: Partial<EventStreamStatus>) => {
+  status = { ...status, ...patch };
+  statusListeners.forEach((listener) => listener(status));
+};
+
+export const getEventStreamStatus = () => status;
+
+/** Delay before reconnect attempt `attempt` (1-based), doubling up to RECONNECT_MAX_MS with a little jitter. */
+export const getReconnectDelay = (attempt: number, random = Math.random()): number => {
+  const base = Math.min(RECONNECT_BASE_MS * 2 ** Math.max(0, attempt - 1), RECONNECT_MAX_MS);
+  return Math.round(base * (0.8 + random * 0.4));
+};
+
+const hasSubscribers = () => handlers.size > 0 || statusListeners.size > 0;
+
+const dispatch = (type: string, ev: MessageEvent) => {
+  const id = ev.lastEventId || null;
+  if (id) setStatus({ lastEventId: id, lastEventAt: Date.now() });
+  else setStatus({ lastEventAt: Date.now() });
+
+  const event: StreamEvent = { type, data: ev.data, id, receivedAt: Date.now() };
+  handlers.get(type)?.forEach((handler) => {
+    try {
+      handler(event);
+    } catch (err) {
+      console.error(`SSE ${type} handler error`, err);
+    }
+  });
+};
+
+const listenFor = (type: string) => {
+  if (!source || listenedTypes.has(type)) return;
+  listenedTypes.add(type);
+  source.addEventListener(type, (ev) => dispatch(type, ev as MessageEvent));
+};
+
+const closeSource = () => {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  if (source) {
+    source.close();
+    source = null;
+  }
+  listenedTypes = new Set();
+};
+
+const connect = () => {
+  closeSource();
+
+  const baseUrl = getApiBaseUrl();
+  if (resumeBaseUrl !== baseUrl) {
+    resumeBaseUrl = baseUrl;
+    setStatus({ lastEventId: null, lastEventAt: null });
+  }
+
+  // A new EventSource cannot send Last-Event-ID, so events missed while it was closed are lost
+  const url = `${baseUrl}/events`;
+
+  setStatus({ state: status.attempt > 0 ? 'reconnecting' : 'connecting', url, retryAt: null });
+
+  try {
+    source = new EventSource(url);
+  } catch (err) {
+    console.error('SSE setup error', err);
+    scheduleReconnect();
+    return;
+  }
+
+  const current = source;
+  current.onopen = () => setStatus({ state: 'open', attempt: 0, retryAt: null });
+  current.onerror = () => {
+    // Still CONNECTING: the browser retries on its own and resumes with Last-Event-ID
+    if (current.readyState === EVENT_SOURCE_CONNECTING) {
+      setStatus({ state: 'reconnecting', retryAt: null });
+      return;
+    }
+    // CLOSED: the browser gave up (e.g. an error response), so rebuild it with back-off
+    scheduleReconnect();
+  };
+  handlers.forEach((_set, type) => listenFor(type));
+};
+
+const scheduleReconnect = () => {
+  closeSource();
+  if (!hasSubscribers()) {
+    setStatus({ state: 'idle', retryAt: null });
+    return;
+  }
+  const attempt = status.attempt + 1;
+  const delay = getReconnectDelay(attempt);
+  setStatus({ state: 'reconnecting', attempt, retryAt: Date.now() + delay });
+  reconnectTimer = setTimeout(connect, delay);
+};
+
+const ensureConnected = () => {
+  if (!source && !reconnectTimer && hasSubscribers()) connect();
+};
+
+const disconnectIfUnused = () => {
+  if (hasSubscribers()) return;
+  closeSource();
+  setStatus({ state: 'idle', attempt: 0, retryAt: null });
+};
+
+/**
+ * Subscribes to one or more SSE event types (e.g. 'log_message').
+ * The stream connects on the first subscription and closes after the last one goes away.
+ */
+export const subscribeToEvents = (types: string | string[], handler: EventHandler): (() => void) => {
+  const list = Array.isArray(types) ? types : [types];
+  list.forEach((type) => {
+    if (!handlers.has(type)) handlers.set(type, new Set());
+    handlers.get(type)!.add(handler);
+    listenFor(type);
+  });
+  ensureConnected();
+
+  return () => {
+    list.forEach((type) => {
+      const set = handlers.get(type);
+      set?.delete(handler);
+      // The EventSource keeps its listener; dispatch simply finds nobody to call
+      if (set && set.size === 0) handlers.delete(type);
+    });
+    disconnectIfUnused();
+  };
+};
+
+/** Watches connection status; watching also keeps the stream open. */
+export const subscribeToEventStreamStatus = (listener: StatusListener): (() => void) => {
+  statusListeners.add(listener);
+  listener(status);
+  ensureConnected();
+
+  return () => {
+    statusListeners.delete(listener);
+    disconnectIfUnused();
+  };
+};
+
+/** Drops the current connection and connects again straight away, e.g. after the API URL changed. */
+export const reconnectEventStream = () => {
+  if (!hasSubscribers()) return;
+  setStatus({ attempt: 0 });
+  connect();
+};
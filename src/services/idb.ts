@@ -0,0 +1,48 @@
+// src/services/idb.ts
+// Minimal promise wrappers around IndexedDB, shared by the client-side stores.
+
+export const isIndexedDbAvailable = (): boolean =>
+  typeof indexedDB !== 'undefined' && indexedDB !== null;
+
+export const promisifyRequest = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Opens (and caches) a database. `upgrade` runs on version changes and
+ * should create any missing object stores.
+ */
+export const createDatabaseOpener = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void,
+) => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  return (): Promise<IDBDatabase> => {
+    if (!isIndexedDbAvailable()) {
+      return Promise.reject(new Error('IndexedDB is not available'));
+    }
+    if (!dbPromise) {
+      dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const req = indexedDB.open(name, version);
+        req.onupgradeneeded = () => upgrade(req.result);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      }).catch((err) => {
+        dbPromise = null;
+        throw err;
+      });
+    }
+    return dbPromise;
+  };
+};
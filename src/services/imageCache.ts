@@ -0,0 +1,234 @@
+// src/services/imageCache.ts
+// Persistent cache for portraits and item textures, stored in IndexedDB so reloads don't refetch them.
+import { createDatabaseOpener, promisifyRequest, transactionDone } from './idb';
+
+export type CachedImageKind = 'item' | 'portrait';
+
+export interface CachedImage {
+  apiUrl: string;
+  kind: CachedImageKind;
+  id: string;
+  dataUrl: string;
+  size: number; // bytes of the data URL string
+  storedAt: number;
+}
+
+export interface ImageCacheSettings {
+  itemTtlMs: number;
+  portraitTtlMs: number;
+  maxBytes: number;
+}
+
+export interface ImageCacheStats {
+  count: number;
+  bytes: number;
+  expired: number;
+  byKind: Record<CachedImageKind, { count: number; bytes: number }>;
+  byServer: Record<string, { count: number; bytes: number }>;
+  oldest: number | null;
+  newest: number | null;
+  recent: CachedImage[];
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const MB = 1024 * 1024;
+
+export const DEFAULT_IMAGE_CACHE_SETTINGS: ImageCacheSettings = {
+  itemTtlMs: 7 * DAY,
+  portraitTtlMs: HOUR, // portraits change with apparel and injuries
+  maxBytes: 50 * MB,
+};
+
+const SETTINGS_KEY = 'rimworldImageCacheSettings';
+const STORE = 'images';
+const PRUNE_EVERY_MS = 5 * 60 * 1000;
+
+const openDb = createDatabaseOpener('rimapi-images', 1, (db) => {
+  if (!db.objectStoreNames.contains(STORE)) {
+    const store = db.createObjectStore(STORE, { keyPath: ['apiUrl', 'kind', 'id'] });
+    store.createIndex('storedAt', 'storedAt');
+  }
+});
+
+export const loadImageCacheSettings = (): ImageCacheSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_IMAGE_CACHE_SETTINGS, ...JSON.parse(raw) } : DEFAULT_IMAGE_CACHE_SETTINGS;
+  } catch {
+    return DEFAULT_IMAGE_CACHE_SETTINGS;
+  }
+};
+
+export const saveImageCacheSettings = (settings: ImageCacheSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const isExpired = (entry: CachedImage, settings: ImageCacheSettings, now: number) =>
+  now - entry.storedAt > (entry.kind === 'portrait' ? settings.portraitTtlMs : settings.itemTtlMs);
+
+// -----------------------------
+// Invalidation listeners
+// -----------------------------
+type InvalidationListener = (kind: CachedImageKind, id: string) => void;
+const listeners = new Set<InvalidationListener>();
+
+/** Notifies in-memory caches when a persisted image is dropped. Returns an unsubscribe function. */
+export const onImageInvalidated = (listener: InvalidationListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// -----------------------------
+// Reads and writes
+// -----------------------------
+export const getCachedImage = async (
+  apiUrl: string,
+  kind: CachedImageKind,
+  id: string,
+): Promise<string | null> => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(STORE, 'readonly');
+    const entry = await promisifyRequest(
+      tx.objectStore(STORE).get([apiUrl, kind, id]) as IDBRequest<CachedImage | undefined>,
+    );
+    if (!entry || isExpired(entry, loadImageCacheSettings(), Date.now())) return null;
+    return entry.dataUrl;
+  } catch {
+    return null;
+  }
+};
+
+let lastPruneAt = 0;
+
+export const putCachedImage = async (
+  apiUrl: string,
+  kind: CachedImageKind,
+  id: string,
+  dataUrl: string,
+): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const entry: CachedImage = { apiUrl, kind, id, dataUrl, size: dataUrl.length, storedAt: Date.now() };
+  tx.objectStore(STORE).put(entry);
+  await transactionDone(tx);
+
+  if (Date.now() - lastPruneAt > PRUNE_EVERY_MS) {
+    lastPruneAt = Date.now();
+    await pruneImageCache();
+  }
+};
+
+export const invalidateCachedImage = async (
+  apiUrl: string,
+  kind: CachedImageKind,
+  id: string,
+): Promise<void> => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).delete([apiUrl, kind, id]);
+    await transactionDone(tx);
+  } catch (err) {
+    console.warn(`Failed to invalidate cached image ${id}:`, err);
+  }
+  listeners.forEach((listener) => listener(kind, id));
+};
+
+// -----------------------------
+// Maintenance
+// -----------------------------
+const loadAllEntries = async (): Promise<CachedImage[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readonly');
+  return promisifyRequest(tx.objectStore(STORE).index('storedAt').getAll() as IDBRequest<CachedImage[]>);
+};
+
+/**
+ * Drops expired entries, then the oldest ones until the cache fits in `maxBytes`.
+ * Returns how many entries were removed.
+ */
+export const pruneImageCache = async (
+  settings = loadImageCacheSettings(),
+  now = Date.now(),
+): Promise<number> => {
+  const entries = await loadAllEntries(); // oldest first
+  const doomed: CachedImage[] = [];
+  let bytes = 0;
+
+  const fresh = entries.filter((entry) => {
+    if (isExpired(entry, settings, now)) {
+      doomed.push(entry);
+      return false;
+    }
+    bytes += entry.size;
+    return true;
+  });
+
+  for (const entry of fresh) {
+    if (bytes <= settings.maxBytes) break;
+    doomed.push(entry);
+    bytes -= entry.size;
+  }
+
+  if (doomed.length === 0) return 0;
+
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  doomed.forEach((entry) => store.delete([entry.apiUrl, entry.kind, entry.id]));
+  await transactionDone(tx);
+  doomed.forEach((entry) => listeners.forEach((listener) => listener(entry.kind, entry.id)));
+  return doomed.length;
+};
+
+export const clearImageCache = async (apiUrl?: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  if (apiUrl) {
+    store.delete(IDBKeyRange.bound([apiUrl], [apiUrl, []]));
+  } else {
+    store.clear();
+  }
+  await transactionDone(tx);
+};
+
+export const getImageCacheStats = async (
+  settings = loadImageCacheSettings(),
+  now = Date.now(),
+): Promise<ImageCacheStats> => {
+  const entries = await loadAllEntries();
+  const stats: ImageCacheStats = {
+    count: entries.length,
+    bytes: 0,
+    expired: 0,
+    byKind: { item: { count: 0, bytes: 0 }, portrait: { count: 0, bytes: 0 } },
+    byServer: {},
+    oldest: entries.length > 0 ? entries[0].storedAt : null,
+    newest: entries.length > 0 ? entries[entries.length - 1].storedAt : null,
+    recent: entries.slice(-24).reverse(),
+  };
+
+  entries.forEach((entry) => {
+    stats.bytes += entry.size;
+    if (isExpired(entry, settings, now)) stats.expired += 1;
+    stats.byKind[entry.kind].count += 1;
+    stats.byKind[entry.kind].bytes += entry.size;
+    const server = stats.byServer[entry.apiUrl] || { count: 0, bytes: 0 };
+    server.count += 1;
+    server.bytes += entry.size;
+    stats.byServer[entry.apiUrl] = server;
+  });
+
+  return stats;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / MB).toFixed(1)} MB`;
+};
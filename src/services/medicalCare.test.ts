@@ -0,0 +1,51 @@
+import { buildHediff, cloneColony, RECORDED_COLONY } from '../mocks/fixtures';
+import { MOCK_SCENARIOS } from '../mocks/scenarios';
+import {
+  auditMedicalCare,
+  loadMedicalDefaults,
+  planMedicalSettings,
+  saveMedicalDefaults,
+  toMedicalSettingsPayload,
+} from './medicalCare';
+
+beforeEach(() => localStorage.clear());
+
+test('audits who is on no care, critically when they are wounded', () => {
+  const findings = auditMedicalCare(MOCK_SCENARIOS.massCasualty.build().colonists, { careLevel: 4, selfTend: true });
+
+  expect(findings.filter((f) => f.kind === 'no-care')).toEqual([
+    expect.objectContaining({ colonistName: 'Dmitri', severity: 'critical' }),
+  ]);
+  expect(findings[findings.length - 1].severity).toBe('info');
+});
+
+test('flags a lone doctor who cannot self-tend and settings off the defaults', () => {
+  const colony = cloneColony(RECORDED_COLONY);
+  const [ada, boris] = colony.colonists;
+  boris.colonist_medical_info.medical_policy_id = 2;
+  boris.colonist_medical_info.hediffs = [buildHediff(8001, { label: 'cut', tendable_now: true })];
+
+  const findings = auditMedicalCare(colony.colonists);
+  expect(findings.find((f) => f.kind === 'lone-doctor')?.colonistId).toBe(ada.colonist.id);
+  expect(findings.filter((f) => f.kind === 'off-default').map((f) => f.colonistName)).toEqual(['Boris']);
+
+  ada.colonist_medical_info.is_self_tend_allowed = true;
+  expect(auditMedicalCare(colony.colonists, { careLevel: 4, selfTend: true }).some((f) => f.kind === 'lone-doctor')).toBe(false);
+});
+
+test('plans only the changes a bulk edit actually makes', () => {
+  const { colonists } = MOCK_SCENARIOS.massCasualty.build();
+  const changes = planMedicalSettings(colonists, [102, 104], { careLevel: 4, selfTend: false });
+
+  expect(changes.map((c) => c.colonistName)).toEqual(['Dmitri']);
+  expect(toMedicalSettingsPayload(changes)).toEqual([{ id: 104, medical_policy_id: 4, is_self_tend_allowed: false }]);
+  expect(planMedicalSettings(colonists, [101, 102], { selfTend: true })).toHaveLength(2);
+});
+
+test('keeps colony defaults per colony', () => {
+  saveMedicalDefaults('colony-a', { careLevel: 3, selfTend: true });
+
+  expect(loadMedicalDefaults('colony-a')).toEqual({ careLevel: 3, selfTend: true });
+  expect(loadMedicalDefaults('colony-b')).toEqual({ careLevel: 4, selfTend: false });
+  expect(loadMedicalDefaults(null)).toEqual({ careLevel: 4, selfTend: false });
+});
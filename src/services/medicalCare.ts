@@ -0,0 +1,177 @@
+// src/services/medicalCare.ts
+// Care levels and self-tend: the game's MedicalCareCategory ladder, per-colony defaults for new
+// settings, the changes needed to apply them, and an audit of colonists nobody will treat.
+import { ColonistDetailed } from '../types';
+import { DOCTOR_WORK } from './treatmentPlanner';
+import { getIncapabilityReason } from './workTraits';
+
+const STORAGE_KEY = 'rimworldMedicalDefaults';
+
+export type CareLevelKey = 'NoCare' | 'NoMeds' | 'HerbalOrWorse' | 'NormalOrWorse' | 'Best';
+
+export interface CareLevel {
+  /** The MedicalCareCategory value RIMAPI reports as medical_policy_id */
+  id: number;
+  key: CareLevelKey;
+  label: string;
+  icon: string;
+}
+
+export const CARE_LEVELS: CareLevel[] = [
+  { id: 0, key: 'NoCare', label: 'No care', icon: '🚫' },
+  { id: 1, key: 'NoMeds', label: 'No medicine', icon: '🛏️' },
+  { id: 2, key: 'HerbalOrWorse', label: 'Herbal or worse', icon: '🌿' },
+  { id: 3, key: 'NormalOrWorse', label: 'Industrial or worse', icon: '💊' },
+  { id: 4, key: 'Best', label: 'Best available', icon: '✨' },
+];
+
+export const NO_CARE = 0;
+
+export const getCareLevel = (id: number | null | undefined): CareLevel | undefined =>
+  CARE_LEVELS.find(level => level.id === id);
+
+export const describeCareLevel = (id: number | null | undefined) => {
+  const level = getCareLevel(id);
+  return level ? `${level.icon} ${level.label}` : `Unknown (${id})`;
+};
+
+export interface MedicalSettings {
+  careLevel: number;
+  selfTend: boolean;
+}
+
+/** The game's own defaults for colonists */
+export const DEFAULT_MEDICAL_SETTINGS: MedicalSettings = { careLevel: 4, selfTend: false };
+
+export const getMedicalSettings = (colonist: ColonistDetailed): MedicalSettings => ({
+  careLevel: colonist.colonist_medical_info?.medical_policy_id ?? DEFAULT_MEDICAL_SETTINGS.careLevel,
+  selfTend: colonist.colonist_medical_info?.is_self_tend_allowed ?? false,
+});
+
+// -----------------------------
+// Colony defaults
+// -----------------------------
+const loadAll = (): Record<string, MedicalSettings> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadMedicalDefaults = (colony: string | null): MedicalSettings => ({
+  ...DEFAULT_MEDICAL_SETTINGS,
+  ...(colony ? loadAll()[colony] : undefined),
+});
+
+export const saveMedicalDefaults = (colony: string, defaults: MedicalSettings) => {
+  const all = loadAll();
+  all[colony] = defaults;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+};
+
+// -----------------------------
+// Bulk edits
+// -----------------------------
+export interface MedicalSettingsChange {
+  colonistId: number;
+  colonistName: string;
+  before: MedicalSettings;
+  after: MedicalSettings;
+}
+
+/**
+ * What applying a patch to the given colonists would change. Colonists already matching it
+ * are left out, so the result can go straight to the API.
+ */
+export const planMedicalSettings = (
+  colonists: ColonistDetailed[],
+  colonistIds: number[],
+  patch: Partial<MedicalSettings>,
+): MedicalSettingsChange[] =>
+  colonists
+    .filter(c => colonistIds.includes(c.colonist.id))
+    .map(c => {
+      const before = getMedicalSettings(c);
+      return { colonistId: c.colonist.id, colonistName: c.colonist.name, before, after: { ...before, ...patch } };
+    })
+    .filter(({ before, after }) => before.careLevel !== after.careLevel || before.selfTend !== after.selfTend);
+
+/** The body RIMAPI's bulk endpoint expects */
+export const toMedicalSettingsPayload = (changes: MedicalSettingsChange[]) =>
+  changes.map(c => ({
+    id: c.colonistId,
+    medical_policy_id: c.after.careLevel,
+    is_self_tend_allowed: c.after.selfTend,
+  }));
+
+// -----------------------------
+// Audit
+// -----------------------------
+export type MedicalAuditKind = 'no-care' | 'no-meds' | 'off-default' | 'lone-doctor';
+
+export interface MedicalAuditFinding {
+  colonistId: number;
+  colonistName: string;
+  kind: MedicalAuditKind;
+  severity: 'critical' | 'warning' | 'info';
+  message: string;
+}
+
+const SEVERITY_ORDER = { critical: 0, warning: 1, info: 2 };
+
+const canDoctor = (colonist: ColonistDetailed) =>
+  !getIncapabilityReason(colonist, DOCTOR_WORK)
+  && (colonist.colonist_work_info?.work_priorities
+    ?.find(wp => wp.work_type.toLowerCase() === DOCTOR_WORK.toLowerCase())?.priority ?? 0) > 0;
+
+const countTendable = (colonist: ColonistDetailed) =>
+  (colonist.colonist_medical_info?.hediffs || []).filter(h => h?.tendable_now).length;
+
+/**
+ * Colonists who won't get the care they need: anyone on "no care" (critical when they're hurt),
+ * anyone barred from medicine, a lone doctor who can't tend themselves, and settings that
+ * differ from the colony defaults.
+ */
+export const auditMedicalCare = (
+  colonists: ColonistDetailed[],
+  defaults: MedicalSettings = DEFAULT_MEDICAL_SETTINGS,
+): MedicalAuditFinding[] => {
+  const findings: MedicalAuditFinding[] = [];
+  const doctors = colonists.filter(canDoctor);
+
+  colonists.forEach(colonist => {
+    const settings = getMedicalSettings(colonist);
+    const base = { colonistId: colonist.colonist.id, colonistName: colonist.colonist.name };
+    const tendable = countTendable(colonist);
+
+    if (settings.careLevel === NO_CARE) {
+      findings.push({
+        ...base,
+        kind: 'no-care',
+        severity: tendable > 0 ? 'critical' : 'warning',
+        message: tendable > 0
+          ? `${tendable} untended wound${tendable === 1 ? '' : 's'} and set to no care: nobody will treat them`
+          : 'Set to no care: doctors will ignore them',
+      });
+    } else if (settings.careLevel === 1 && tendable > 0) {
+      findings.push({ ...base, kind: 'no-meds', severity: 'warning', message: 'Wounded but barred from medicine' });
+    }
+
+    if (doctors.length === 1 && doctors[0] === colonist && !settings.selfTend) {
+      findings.push({
+        ...base,
+        kind: 'lone-doctor',
+        severity: tendable > 0 ? 'critical' : 'warning',
+        message: 'Only doctor and self-tend is off: nobody can treat them',
+      });
+    }
+
+    if (settings.careLevel !== NO_CARE
+      && (settings.careLevel !== defaults.careLevel || settings.selfTend !== defaults.selfTend)) {
+      findings.push({ ...base, kind: 'off-default', severity: 'info', message: 'Differs from the colony defaults' });
+    }
+  });
+
+  return findings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+};
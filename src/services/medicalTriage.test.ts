@@ -0,0 +1,81 @@
+import { MOCK_SCENARIOS } from '../mocks/scenarios';
+import {
+  DEFAULT_TRIAGE_RULES,
+  EMPTY_TRIAGE_STORE,
+  createTriageRule,
+  getHediffTags,
+  loadTriageRules,
+  resetTriageRule,
+  resolveTriageRules,
+  saveTriageRules,
+  triageColony,
+  updateTriageRule,
+} from './medicalTriage';
+
+const colonists = () => MOCK_SCENARIOS.massCasualty.build().colonists;
+const alertsFor = (alerts: ReturnType<typeof triageColony>, name: string) =>
+  alerts.filter((a) => a.colonistName === name).map((a) => `${a.severity} ${a.condition}`);
+
+beforeEach(() => localStorage.clear());
+
+test('the default pack grades hediffs and vitals like the original card', () => {
+  const alerts = triageColony(colonists());
+
+  expect(alertsFor(alerts, 'Boris')).toEqual([
+    'warning Gunshot',
+    'warning Cut',
+    'warning Blood loss',
+    'critical Critical Health',
+    'warning Moderate Pain',
+    'serious Severe Bleeding',
+    'serious Severe Blood Loss',
+  ]);
+  const bloodLoss = alerts.find((a) => a.ruleId === 'bloodloss-severe')!;
+  expect(bloodLoss.description).toBe('Will die in 14 hours - Urgent treatment needed');
+  expect(bloodLoss.tags).toEqual(['overall', 'bloodLoss']);
+  expect(alerts.find((a) => a.ruleId === 'bleed-severe')!.description).toBe('Bleeding at 65.0%/day - Immediate treatment required');
+});
+
+test('tag rules label hediffs by def, label and flags', () => {
+  const eve = colonists().find((c) => c.colonist.name === 'Eve')!;
+  const [bite, fracture, infection] = eve.colonist_medical_info.hediffs;
+
+  expect(getHediffTags(bite)).toEqual(['bleeding']);
+  expect(getHediffTags(fracture)).toEqual(['fracture', 'treated']);
+  expect(getHediffTags(infection)).toEqual(['infection']);
+});
+
+test('custom rules take precedence and can match on tags and body parts', () => {
+  const flu = { ...createTriageRule('hediff'), match: { defNames: ['flu'] }, severity: 'critical' as const };
+  const leg = { ...createTriageRule('hediff'), match: { tags: ['infection'], bodyParts: ['leg'] }, severity: 'ignore' as const };
+  let store = updateTriageRule(EMPTY_TRIAGE_STORE, flu);
+  store = updateTriageRule(store, leg);
+
+  const alerts = triageColony(colonists(), resolveTriageRules(store));
+
+  expect(alerts.find((a) => a.condition === 'Flu')).toMatchObject({ severity: 'critical', ruleId: flu.id });
+  expect(alerts.some((a) => a.colonistName === 'Eve' && a.condition === 'Infection')).toBe(false);
+});
+
+test('overrides patch built-in rules and reset drops them', () => {
+  const base = DEFAULT_TRIAGE_RULES.find((r) => r.id === 'health-critical')!;
+  const store = updateTriageRule(EMPTY_TRIAGE_STORE, { ...base, threshold: 0.1 });
+
+  expect(store.overrides).toEqual({ 'health-critical': { threshold: 0.1 } });
+  // The health group falls through to the next rule
+  expect(alertsFor(triageColony(colonists(), resolveTriageRules(store)), 'Boris')).toContain('serious Poor Health');
+
+  expect(updateTriageRule(store, base).overrides).toEqual({});
+  expect(resetTriageRule(store, 'health-critical').overrides).toEqual({});
+});
+
+test('persists the rule store', () => {
+  expect(loadTriageRules()).toEqual(EMPTY_TRIAGE_STORE);
+
+  const rule = createTriageRule('tag');
+  saveTriageRules(updateTriageRule(EMPTY_TRIAGE_STORE, rule));
+
+  expect(loadTriageRules().custom.map((r) => r.id)).toEqual([rule.id]);
+  localStorage.setItem('rimworldTriageRules', '{not json');
+  expect(loadTriageRules()).toEqual(EMPTY_TRIAGE_STORE);
+});
@@ -0,0 +1,389 @@
+// src/services/medicalTriage.ts
+// Declarative medical triage: rules tag hediffs, grade each hediff, and grade colonist-wide
+// vitals (health, pain, bleeding, blood loss, hunger). The built-in pack reproduces the
+// dashboard's original thresholds; user overrides patch built-in rules and custom rules
+// (modded hediffs, house rules) take precedence over them.
+import { ColonistDetailed, Hediff, MedicalAlert } from '../types';
+
+export type TriageSeverity = MedicalAlert['severity'];
+export type TriageScope = 'tag' | 'hediff' | 'colonist';
+
+export const TRIAGE_SEVERITIES: TriageSeverity[] = ['critical', 'serious', 'warning', 'info'];
+
+export type HediffFlag = 'bleeding' | 'tended' | 'tendable' | 'permanent' | 'lifeThreatening' | 'lethal';
+
+/** Every condition present must hold; list conditions match if any entry matches. */
+export interface HediffMatch {
+  /** Exact def names, case-insensitive */
+  defNames?: string[];
+  /** Substrings of the def name or label, case-insensitive */
+  text?: string[];
+  /** Tags from tag rules the hediff must all carry */
+  tags?: string[];
+  /** Substrings of the body part label or def name */
+  bodyParts?: string[];
+  /** Exclusive bounds, matching how the game's stage thresholds read */
+  severityAbove?: number;
+  severityBelow?: number;
+  /** Exclusive; 1 = 100%/day */
+  bleedRateAbove?: number;
+  flags?: Partial<Record<HediffFlag, boolean>>;
+}
+
+export type ColonistMetric = 'health' | 'pain' | 'bleedRate' | 'bloodLossMinutes' | 'hunger';
+
+export interface TriageRule {
+  id: string;
+  name: string;
+  scope: TriageScope;
+  enabled: boolean;
+  builtIn?: boolean;
+  /** tag and hediff rules */
+  match?: HediffMatch;
+  /** colonist rules: fires when `metric comparator threshold` */
+  metric?: ColonistMetric;
+  comparator?: '<' | '>';
+  threshold?: number;
+  /** Only the first matching colonist rule of a group fires, e.g. critical before poor health */
+  group?: string;
+  /** hediff and colonist rules; 'ignore' drops the hediff from the alert list */
+  severity?: TriageSeverity | 'ignore';
+  /** colonist rules: the alert's condition; hediff rules fall back to the hediff label */
+  condition?: string;
+  bodyPart?: string;
+  /**
+   * Placeholders: {label} {part} {value} {percent} {rate} {minutes} {hours}.
+   * Hediff rules without one get the generic severity/bleeding/treatment summary.
+   */
+  description?: string;
+  /** Tags added to the alert (tag rules: to the hediff) */
+  tags?: string[];
+}
+
+export interface TriageRuleStore {
+  /** Partial edits of built-in rules, keyed by rule id */
+  overrides: Record<string, Partial<TriageRule>>;
+  custom: TriageRule[];
+}
+
+export interface TriageAlert extends MedicalAlert {
+  tags: string[];
+  ruleId: string;
+  hediffId?: number;
+}
+
+export const COLONIST_METRICS: Record<ColonistMetric, { label: string; hint: string }> = {
+  health: { label: 'Health', hint: '0–1 fraction of full health' },
+  pain: { label: 'Pain', hint: '0–1 total pain from all hediffs' },
+  bleedRate: { label: 'Bleed rate', hint: 'Total bleeding per day, 1 = 100%/day' },
+  bloodLossMinutes: { label: 'Minutes to death by blood loss', hint: 'Only while bleeding with some blood loss' },
+  hunger: { label: 'Food', hint: '0–1 food need; low means starving' },
+};
+
+// -----------------------------
+// Default pack
+// -----------------------------
+const tagRule = (id: string, name: string, match: HediffMatch, tags: string[]): TriageRule =>
+  ({ id, name, scope: 'tag', enabled: true, builtIn: true, match, tags });
+
+const vitalRule = (rule: Omit<TriageRule, 'scope' | 'enabled' | 'builtIn'>): TriageRule =>
+  ({ scope: 'colonist', enabled: true, builtIn: true, bodyPart: 'Overall', ...rule });
+
+export const DEFAULT_TRIAGE_RULES: TriageRule[] = [
+  tagRule('tag-bleeding', 'Bleeding wounds', { flags: { bleeding: true }, bleedRateAbove: 0 }, ['bleeding']),
+  tagRule('tag-infection', 'Infections', { text: ['infection'] }, ['infection']),
+  tagRule('tag-fracture', 'Fractures', { text: ['fracture'] }, ['fracture']),
+  tagRule('tag-burn', 'Burns', { text: ['burn'] }, ['burn']),
+  tagRule('tag-chronic', 'Permanent conditions', { flags: { permanent: true } }, ['chronic']),
+  tagRule('tag-emergency', 'Life-threatening', { flags: { lifeThreatening: true } }, ['emergency']),
+  tagRule('tag-treated', 'Tended', { flags: { tended: true } }, ['treated']),
+
+  // First match wins, top to bottom
+  { id: 'hediff-heavy-bleed', name: 'Heavy bleeding wound', scope: 'hediff', enabled: true, builtIn: true, match: { flags: { bleeding: true }, bleedRateAbove: 0.5 }, severity: 'critical' },
+  { id: 'hediff-major', name: 'Major condition', scope: 'hediff', enabled: true, builtIn: true, match: { severityAbove: 10 }, severity: 'serious' },
+  { id: 'hediff-moderate', name: 'Moderate condition', scope: 'hediff', enabled: true, builtIn: true, match: { severityAbove: 5 }, severity: 'warning' },
+  { id: 'hediff-tended', name: 'Tended condition', scope: 'hediff', enabled: true, builtIn: true, match: { flags: { tended: true } }, severity: 'info' },
+  { id: 'hediff-any', name: 'Any other condition', scope: 'hediff', enabled: true, builtIn: true, match: {}, severity: 'warning' },
+
+  vitalRule({ id: 'health-critical', name: 'Critical health', group: 'health', metric: 'health', comparator: '<', threshold: 0.25, severity: 'critical', condition: 'Critical Health', description: 'Health at {percent}% - Immediate medical attention required', tags: ['critical-health', 'overall'] }),
+  vitalRule({ id: 'health-poor', name: 'Poor health', group: 'health', metric: 'health', comparator: '<', threshold: 0.6, severity: 'serious', condition: 'Poor Health', description: 'Health at {percent}% - Medical attention recommended', tags: ['overall'] }),
+  vitalRule({ id: 'pain-severe', name: 'Severe pain', group: 'pain', metric: 'pain', comparator: '>', threshold: 0.8, severity: 'serious', condition: 'Severe Pain', description: 'High pain level ({percent}%) - Pain management needed', tags: ['pain', 'overall'] }),
+  vitalRule({ id: 'pain-moderate', name: 'Moderate pain', group: 'pain', metric: 'pain', comparator: '>', threshold: 0.2, severity: 'warning', condition: 'Moderate Pain', description: 'Moderate pain level ({percent}%)', tags: ['pain', 'overall'] }),
+  vitalRule({ id: 'bleed-severe', name: 'Severe bleeding', group: 'bleeding', metric: 'bleedRate', comparator: '>', threshold: 0.5, severity: 'serious', condition: 'Severe Bleeding', description: 'Bleeding at {rate}%/day - Immediate treatment required', tags: ['overall'] }),
+  vitalRule({ id: 'bleed', name: 'Bleeding', group: 'bleeding', metric: 'bleedRate', comparator: '>', threshold: 0.01, severity: 'warning', condition: 'Bleeding', description: 'Bleeding at {rate}%/day - Treatment needed', tags: ['overall'] }),
+  vitalRule({ id: 'bloodloss-imminent', name: 'Imminent death from blood loss', group: 'bloodLoss', metric: 'bloodLossMinutes', comparator: '<', threshold: 300, severity: 'critical', condition: 'IMMINENT DEATH - Blood Loss', bodyPart: 'Circulatory', description: 'Will die in {minutes} minutes - EMERGENCY', tags: ['overall', 'bloodLoss'] }),
+  vitalRule({ id: 'bloodloss-critical', name: 'Critical blood loss', group: 'bloodLoss', metric: 'bloodLossMinutes', comparator: '<', threshold: 600, severity: 'critical', condition: 'Critical Blood Loss', description: 'Will die in {hours} hours - Immediate treatment required', tags: ['overall', 'bloodLoss'] }),
+  vitalRule({ id: 'bloodloss-severe', name: 'Severe blood loss', group: 'bloodLoss', metric: 'bloodLossMinutes', comparator: '<', threshold: 900, severity: 'serious', condition: 'Severe Blood Loss', description: 'Will die in {hours} hours - Urgent treatment needed', tags: ['overall', 'bloodLoss'] }),
+  vitalRule({ id: 'starvation', name: 'Starvation', group: 'hunger', metric: 'hunger', comparator: '<', threshold: 0.2, severity: 'serious', condition: 'Starvation', description: 'Severely malnourished - Immediate food required', tags: ['starvation', 'overall'] }),
+];
+
+// -----------------------------
+// Store
+// -----------------------------
+const RULES_KEY = 'rimworldTriageRules';
+
+export const EMPTY_TRIAGE_STORE: TriageRuleStore = { overrides: {}, custom: [] };
+
+export const loadTriageRules = (): TriageRuleStore => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RULES_KEY) || 'null') as TriageRuleStore | null;
+    if (stored && Array.isArray(stored.custom)) {
+      return {
+        overrides: stored.overrides && typeof stored.overrides === 'object' ? stored.overrides : {},
+        custom: stored.custom.map(r => ({ ...r, builtIn: false })),
+      };
+    }
+  } catch {
+    // fall through to the default pack
+  }
+  return EMPTY_TRIAGE_STORE;
+};
+
+export const saveTriageRules = (store: TriageRuleStore) => {
+  localStorage.setItem(RULES_KEY, JSON.stringify(store));
+};
+
+export const createTriageRule = (scope: TriageScope): TriageRule => {
+  const id = `triage-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+  switch (scope) {
+    case 'tag':
+      return { id, name: 'New tag rule', scope, enabled: true, match: { text: [] }, tags: [] };
+    case 'colonist':
+      return { id, name: 'New vitals rule', scope, enabled: true, metric: 'health', comparator: '<', threshold: 0.5, severity: 'warning', condition: 'Low health', bodyPart: 'Overall', description: 'Health at {percent}%', tags: ['overall'] };
+    default:
+      return { id, name: 'New hediff rule', scope, enabled: true, match: { defNames: [] }, severity: 'serious' };
+  }
+};
+
+/** Saves an edit: built-in rules keep only the fields that differ, custom rules are replaced. */
+export const updateTriageRule = (store: TriageRuleStore, rule: TriageRule): TriageRuleStore => {
+  const base = DEFAULT_TRIAGE_RULES.find(r => r.id === rule.id);
+  if (base) {
+    const patch: Partial<TriageRule> = {};
+    (Object.keys(rule) as (keyof TriageRule)[]).forEach(key => {
+      if (JSON.stringify(rule[key]) !== JSON.stringify(base[key])) {
+        (patch as Record<string, unknown>)[key] = rule[key];
+      }
+    });
+    const overrides = { ...store.overrides };
+    if (Object.keys(patch).length) overrides[rule.id] = patch;
+    else delete overrides[rule.id];
+    return { ...store, overrides };
+  }
+  const exists = store.custom.some(r => r.id === rule.id);
+  return {
+    ...store,
+    custom: exists ? store.custom.map(r => (r.id === rule.id ? rule : r)) : [...store.custom, { ...rule, builtIn: false }],
+  };
+};
+
+export const resetTriageRule = (store: TriageRuleStore, id: string): TriageRuleStore => {
+  const { [id]: _dropped, ...overrides } = store.overrides;
+  return { ...store, overrides };
+};
+
+export const deleteTriageRule = (store: TriageRuleStore, id: string): TriageRuleStore =>
+  ({ ...store, custom: store.custom.filter(r => r.id !== id) });
+
+/** The rules in evaluation order: custom rules ahead of the built-ins they refine. */
+export const resolveTriageRules = (store: TriageRuleStore = EMPTY_TRIAGE_STORE): TriageRule[] => {
+  const builtIns = DEFAULT_TRIAGE_RULES.map(r => ({ ...r, ...store.overrides[r.id], id: r.id, scope: r.scope, builtIn: true }));
+  return [...store.custom, ...builtIns];
+};
+
+// -----------------------------
+// Evaluation
+// -----------------------------
+const lower = (s: string | null | undefined) => (s || '').toLowerCase();
+
+const FLAG_VALUES: Record<HediffFlag, (h: Hediff) => boolean> = {
+  bleeding: h => Boolean(h.bleeding),
+  tended: h => Boolean(h.is_tended),
+  tendable: h => Boolean(h.tendable_now),
+  permanent: h => Boolean(h.is_permanent),
+  lifeThreatening: h => Boolean(h.is_currently_life_threatening),
+  lethal: h => Boolean(h.is_lethal),
+};
+
+export const matchesHediff = (match: HediffMatch | undefined, hediff: Hediff, tags: string[] = []): boolean => {
+  if (!match) return false;
+  const def = lower(hediff.def_name);
+  const label = lower(hediff.label);
+  const severity = Number(hediff.severity ?? 0);
+
+  if (match.defNames?.length && !match.defNames.some(d => lower(d) === def)) return false;
+  if (match.text?.length && !match.text.some(t => def.includes(lower(t)) || label.includes(lower(t)))) return false;
+  if (match.tags?.length && !match.tags.every(t => tags.includes(t))) return false;
+  if (match.bodyParts?.length) {
+    const part = `${lower(hediff.part_label)} ${lower(hediff.part_def_name)}`;
+    if (!match.bodyParts.some(p => part.includes(lower(p)))) return false;
+  }
+  if (match.severityAbove !== undefined && !(severity > match.severityAbove)) return false;
+  if (match.severityBelow !== undefined && !(severity < match.severityBelow)) return false;
+  if (match.bleedRateAbove !== undefined && !(Number(hediff.bleed_rate ?? 0) > match.bleedRateAbove)) return false;
+  if (match.flags) {
+    const flags = Object.entries(match.flags) as [HediffFlag, boolean | undefined][];
+    if (flags.some(([flag, want]) => want !== undefined && FLAG_VALUES[flag](hediff) !== want)) return false;
+  }
+  return true;
+};
+
+/** Tags every enabled tag rule gives `hediff`, in rule order. */
+export const getHediffTags = (hediff: Hediff, rules: TriageRule[] = resolveTriageRules()): string[] => {
+  const tags: string[] = [];
+  rules
+    .filter(r => r.enabled && r.scope === 'tag')
+    .forEach(r => {
+      if (!matchesHediff(r.match, hediff, tags)) return;
+      (r.tags || []).forEach(t => { if (!tags.includes(t)) tags.push(t); });
+    });
+  return tags;
+};
+
+/** The first enabled hediff rule matching `hediff`, if any. */
+export const findHediffRule = (hediff: Hediff, tags: string[], rules: TriageRule[]): TriageRule | undefined =>
+  rules.find(r => r.enabled && r.scope === 'hediff' && matchesHediff(r.match, hediff, tags));
+
+export const getHediffSeverity = (
+  hediff: Hediff,
+  rules: TriageRule[] = resolveTriageRules(),
+): TriageSeverity | null => {
+  const rule = findHediffRule(hediff, getHediffTags(hediff, rules), rules);
+  return !rule || rule.severity === 'ignore' ? null : rule.severity ?? 'warning';
+};
+
+export const describeHediff = (hediff: Hediff): string => {
+  const parts: string[] = [];
+
+  if (hediff?.severity_label) parts.push(`Severity: ${hediff.severity_label}`);
+  if (hediff?.bleeding && (hediff.bleed_rate ?? 0) > 0) {
+    parts.push(`Bleeding: ${((hediff.bleed_rate ?? 0) * 100).toFixed(1)}%/day`);
+  }
+  if (hediff?.tendable_now && !hediff?.is_tended) parts.push('Needs treatment');
+  else if (hediff?.is_tended) parts.push('Treated');
+  if (hediff?.is_permanent) parts.push('Permanent');
+  if (hediff?.age_string) parts.push(`Age: ${hediff.age_string}`);
+
+  return parts.join(' • ') || 'Medical condition detected';
+};
+
+const fillTemplate = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (whole, key) => (key in values ? String(values[key]) : whole));
+
+/** Vitals the colonist rules compare against; null when a metric doesn't apply. */
+export const getColonistMetrics = (colonist: ColonistDetailed): Record<ColonistMetric, number | null> => {
+  const hediffs = (colonist.colonist_medical_info?.hediffs || []).filter(Boolean);
+
+  // pain_factor * pain_offset per hediff, guarding against NaN
+  const pain = hediffs.reduce((total, h) => {
+    const add = Number(h.pain_factor ?? 0) * Number(h.pain_offset ?? 0);
+    return total + (isFinite(add) ? add : 0);
+  }, 0);
+  const bleedRate = hediffs
+    .filter(h => h.bleeding && (h.bleed_rate ?? 0) > 0)
+    .reduce((total, h) => total + (h.bleed_rate ?? 0), 0);
+  const bloodLoss = hediffs.find(h => h.def_name === 'BloodLoss')?.severity ?? 0;
+
+  return {
+    health: colonist.colonist_medical_info?.health ?? 0,
+    pain,
+    bleedRate,
+    bloodLossMinutes: bloodLoss > 0.01 && bleedRate > 0.01 ? ((1 - bloodLoss) / bleedRate) * 24 * 60 : null,
+    hunger: colonist.colonist.hunger ?? 1,
+  };
+};
+
+const vitalsMatch = (rule: TriageRule, value: number | null) => {
+  if (value === null || rule.threshold === undefined) return false;
+  return rule.comparator === '>' ? value > rule.threshold : value < rule.threshold;
+};
+
+/** Runs every rule against one colonist. */
+export const triageColonist = (colonist: ColonistDetailed, rules: TriageRule[] = resolveTriageRules()): TriageAlert[] => {
+  const { colonist: col, colonist_medical_info: medical } = colonist;
+  if (!medical) return [];
+  const alerts: TriageAlert[] = [];
+  const metrics = getColonistMetrics(colonist);
+  const health = medical.health ?? 0;
+
+  (medical.hediffs || []).forEach(hediff => {
+    if (!hediff) return;
+    const tags = getHediffTags(hediff, rules);
+    const rule = findHediffRule(hediff, tags, rules);
+    if (!rule || rule.severity === 'ignore') return;
+    const part = hediff.part_label || 'Unknown';
+    alerts.push({
+      colonistId: col.id,
+      colonistName: col.name,
+      condition: hediff.label_cap || hediff.label,
+      severity: rule.severity ?? 'warning',
+      bodyPart: rule.bodyPart ?? part,
+      description: rule.description
+        ? fillTemplate(rule.description, { label: hediff.label, part, value: hediff.severity, percent: Math.round(hediff.severity * 100) })
+        : describeHediff(hediff),
+      healthPercent: health,
+      bleedRate: hediff.bleed_rate,
+      tags: [...tags, ...(rule.tags || []).filter(t => !tags.includes(t))],
+      ruleId: rule.id,
+      hediffId: hediff.load_id,
+    });
+  });
+
+  const firedGroups = new Set<string>();
+  rules
+    .filter(r => r.enabled && r.scope === 'colonist' && r.metric)
+    .forEach(rule => {
+      const group = rule.group || rule.id;
+      if (firedGroups.has(group)) return;
+      const value = metrics[rule.metric!];
+      if (!vitalsMatch(rule, value)) return;
+      firedGroups.add(group);
+      if (rule.severity === 'ignore') return;
+      const v = value as number;
+      const bleeding = rule.metric === 'bleedRate' || rule.metric === 'bloodLossMinutes';
+      alerts.push({
+        colonistId: col.id,
+        colonistName: col.name,
+        condition: rule.condition || rule.name,
+        severity: rule.severity ?? 'warning',
+        bodyPart: rule.bodyPart || 'Overall',
+        description: fillTemplate(rule.description || '', {
+          value: Math.round(v * 100) / 100,
+          percent: Math.round(v * 100),
+          rate: (v * 100).toFixed(1),
+          minutes: Math.round(v),
+          hours: Math.round(v / 60),
+        }),
+        healthPercent: health,
+        ...(bleeding ? { bleedRate: metrics.bleedRate ?? 0 } : {}),
+        tags: rule.tags || [],
+        ruleId: rule.id,
+      });
+    });
+
+  return alerts;
+};
+
+export const triageColony = (colonists: ColonistDetailed[], rules: TriageRule[] = resolveTriageRules()): TriageAlert[] =>
+  colonists.flatMap(c => triageColonist(c, rules));
+
+/** One-line summary of what a rule matches, for rule lists. */
+export const describeTriageRule = (rule: TriageRule): string => {
+  if (rule.scope === 'colonist') {
+    const metric = rule.metric ? COLONIST_METRICS[rule.metric].label : '?';
+    return `${metric} ${rule.comparator === '>' ? 'above' : 'below'} ${rule.threshold}`;
+  }
+  const m = rule.match || {};
+  const parts: string[] = [];
+  if (m.defNames?.length) parts.push(`def ${m.defNames.join('/')}`);
+  if (m.text?.length) parts.push(`"${m.text.join('" or "')}"`);
+  if (m.tags?.length) parts.push(`tags ${m.tags.join('+')}`);
+  if (m.bodyParts?.length) parts.push(`on ${m.bodyParts.join('/')}`);
+  if (m.severityAbove !== undefined) parts.push(`severity > ${m.severityAbove}`);
+  if (m.severityBelow !== undefined) parts.push(`severity < ${m.severityBelow}`);
+  if (m.bleedRateAbove !== undefined) parts.push(`bleeding > ${+(m.bleedRateAbove * 100).toFixed(2)}%/day`);
+  Object.entries(m.flags || {}).forEach(([flag, want]) => {
+    if (want !== undefined) parts.push(want ? flag : `not ${flag}`);
+  });
+  return parts.join(', ') || 'any hediff';
+};
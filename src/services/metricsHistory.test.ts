@@ -0,0 +1,60 @@
+import { MetricSample, bucketSamples, planRetention } from './metricsHistory';
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const NOW = 100 * DAY;
+
+const sample = (t: number, wealth: number, resolution = 0): MetricSample => ({
+  colony: 'colony-a',
+  t,
+  wealth,
+  avgMood: null,
+  powerNet: null,
+  powerStored: null,
+  colonists: null,
+  prisoners: null,
+  animals: null,
+  enemies: null,
+  researchPercent: null,
+  resolution,
+});
+
+const ages = (samples: MetricSample[]) => samples.map((s) => NOW - s.t);
+
+test('averages samples into buckets that start on the bucket boundary', () => {
+  const buckets = bucketSamples([sample(MINUTE + 1000, 10), sample(MINUTE + 2000, 20), sample(2 * MINUTE, 40)], MINUTE);
+
+  expect(buckets.map((b) => [b.t, b.wealth, b.resolution])).toEqual([[MINUTE, 15, MINUTE], [2 * MINUTE, 40, MINUTE]]);
+});
+
+test('keeps raw samples up to six hours old and minute buckets up to two days', () => {
+  const samples = [
+    sample(NOW - 6 * HOUR, 1),
+    sample(NOW - 2 * DAY, 2, MINUTE),
+    sample(NOW - 30 * DAY, 3, 15 * MINUTE),
+  ];
+
+  expect(planRetention(samples, NOW)).toEqual({ remove: [], add: [] });
+});
+
+test('compacts each tier just past its boundary and drops what is older than thirty days', () => {
+  const raw = sample(NOW - 6 * HOUR - 1, 1);
+  const minute = sample(NOW - 2 * DAY - MINUTE, 2, MINUTE);
+  const expired = sample(NOW - 30 * DAY - 1, 3, 15 * MINUTE);
+
+  const { remove, add } = planRetention([raw, minute, expired], NOW);
+  expect(remove).toEqual([expired, raw, minute]);
+  expect(add.map((s) => s.resolution)).toEqual([MINUTE, 15 * MINUTE]);
+  expect(ages(add)[0]).toBeGreaterThan(6 * HOUR);
+});
+
+test('folds an earlier bucket into the one that replaces it instead of overwriting it', () => {
+  const start = NOW - 7 * HOUR;
+  const earlier = { ...sample(start, 10), resolution: MINUTE };
+  const late = sample(start + 30_000, 40);
+
+  const { remove, add } = planRetention([earlier, late], NOW);
+  expect(remove).toEqual([late, earlier]);
+  expect(add).toEqual([expect.objectContaining({ t: start, wealth: 25, resolution: MINUTE })]);
+});
@@ -0,0 +1,226 @@
+// src/services/metricsHistory.ts
+// Client-side time-series store for colony metrics, backed by IndexedDB.
+import { RimWorldData, RimWorldSectionKey } from '../types';
+import { createDatabaseOpener, promisifyRequest, transactionDone } from './idb';
+
+export interface MetricSample {
+  colony: string;
+  t: number;            // epoch ms of the poll
+  wealth: number | null;
+  avgMood: number | null;     // 0..100
+  powerNet: number | null;    // W, generated - consumed
+  powerStored: number | null; // Wd
+  colonists: number | null;
+  prisoners: number | null;
+  animals: number | null;
+  enemies: number | null;
+  researchPercent: number | null; // finished / total projects, 0..100
+  resolution: number;   // bucket size in ms (0 = raw poll)
+}
+
+export type MetricKey = Exclude<keyof MetricSample, 'colony' | 't' | 'resolution'>;
+
+export interface HistoryWindow {
+  id: string;
+  label: string;
+  durationMs: number;
+}
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const HISTORY_WINDOWS: HistoryWindow[] = [
+  { id: '1h', label: '1 hour', durationMs: HOUR },
+  { id: '6h', label: '6 hours', durationMs: 6 * HOUR },
+  { id: '24h', label: '24 hours', durationMs: DAY },
+  { id: '7d', label: '7 days', durationMs: 7 * DAY },
+  { id: '30d', label: '30 days', durationMs: 30 * DAY },
+];
+
+/**
+ * Retention tiers: samples older than `olderThan` are averaged into
+ * `bucket`-sized buckets. Anything past MAX_AGE is dropped.
+ */
+const RETENTION_TIERS = [
+  { olderThan: 6 * HOUR, bucket: MINUTE },
+  { olderThan: 2 * DAY, bucket: 15 * MINUTE },
+];
+const MAX_AGE = 30 * DAY;
+const COMPACT_EVERY_MS = 10 * MINUTE;
+
+const STORE = 'samples';
+
+const openDb = createDatabaseOpener('rimapi-metrics', 1, (db) => {
+  if (!db.objectStoreNames.contains(STORE)) {
+    db.createObjectStore(STORE, { keyPath: ['colony', 't'] });
+  }
+});
+
+// -----------------------------
+// Sample extraction
+// -----------------------------
+
+/**
+ * Best-effort identity of the current save: the API it comes from, the
+ * storyteller setup, the map and the oldest colonist (lowest thing id).
+ */
+export const getColonyKey = (apiUrl: string, data: RimWorldData, mapId: number): string => {
+  const ids = (data.colonists || []).map((c) => c.id).filter((id) => Number.isFinite(id));
+  const founder = ids.length > 0 ? Math.min(...ids) : 'none';
+  const storyteller = data.gameState?.storyteller || 'unknown';
+  const difficulty = data.gameState?.difficulty || 'unknown';
+  return `${apiUrl}|${storyteller}|${difficulty}|${founder}|map${mapId}`;
+};
+
+/** The part of a colony key shared by all of the save's maps */
+export const getSaveKey = (colonyKey: string): string => colonyKey.replace(/\|map-?\d+$/, '');
+
+const sectionOk = (data: RimWorldData, key: RimWorldSectionKey) =>
+  data[key] !== undefined && !data.sections?.[key]?.error;
+
+export const extractMetricSample = (colony: string, data: RimWorldData, t = Date.now()): MetricSample => {
+  const colonists = sectionOk(data, 'colonists') ? data.colonists || [] : null;
+  const creatures = sectionOk(data, 'creatures') ? data.creatures : undefined;
+  const power = sectionOk(data, 'power') ? data.power : undefined;
+  const resources = sectionOk(data, 'resources') ? data.resources : undefined;
+  const research = sectionOk(data, 'researchSummary') ? data.researchSummary : undefined;
+
+  const moods = (colonists || []).map((c) => c.mood).filter((m) => typeof m === 'number');
+
+  return {
+    colony,
+    t,
+    wealth: resources ? resources.total_market_value ?? 0 : null,
+    avgMood: moods.length > 0 ? (moods.reduce((a, b) => a + b, 0) / moods.length) * 100 : null,
+    powerNet: power ? (power.current_power || 0) - (power.total_consumption || 0) : null,
+    powerStored: power ? power.currently_stored_power || 0 : null,
+    colonists: colonists ? colonists.length : null,
+    prisoners: creatures ? creatures.prisoners_count ?? 0 : null,
+    animals: creatures ? creatures.animals_count ?? 0 : null,
+    enemies: creatures ? creatures.enemies_count ?? 0 : null,
+    researchPercent: research && research.total_projects_count > 0
+      ? (research.finished_projects_count / research.total_projects_count) * 100
+      : null,
+    resolution: 0,
+  };
+};
+
+// -----------------------------
+// Downsampling
+// -----------------------------
+const METRIC_KEYS: MetricKey[] = [
+  'wealth', 'avgMood', 'powerNet', 'powerStored', 'colonists',
+  'prisoners', 'animals', 'enemies', 'researchPercent',
+];
+
+const averageSamples = (samples: MetricSample[], t: number, resolution: number): MetricSample => {
+  const merged = { colony: samples[0].colony, t, resolution } as MetricSample;
+  METRIC_KEYS.forEach((key) => {
+    const values = samples.map((s) => s[key]).filter((v): v is number => v !== null);
+    merged[key] = values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+  });
+  return merged;
+};
+
+/** Averages samples into fixed time buckets; input must be sorted by time. */
+export const bucketSamples = (samples: MetricSample[], bucketMs: number): MetricSample[] => {
+  if (bucketMs <= 0) return samples;
+
+  const buckets = new Map<number, MetricSample[]>();
+  samples.forEach((s) => {
+    const start = Math.floor(s.t / bucketMs) * bucketMs;
+    const bucket = buckets.get(start);
+    if (bucket) bucket.push(s);
+    else buckets.set(start, [s]);
+  });
+
+  return Array.from(buckets.entries()).map(([start, group]) =>
+    group.length === 1 && group[0].resolution >= bucketMs
+      ? group[0]
+      : averageSamples(group, start, bucketMs),
+  );
+};
+
+/** Reduces a series to at most `maxPoints` points for charting. */
+export const downsampleForChart = (samples: MetricSample[], maxPoints = 200): MetricSample[] => {
+  if (samples.length <= maxPoints) return samples;
+  const span = samples[samples.length - 1].t - samples[0].t;
+  return bucketSamples(samples, Math.ceil(span / maxPoints));
+};
+
+/**
+ * Applies the retention tiers to one colony's samples.
+ * Returns the samples to delete and the compacted replacements to write.
+ */
+export const planRetention = (
+  samples: MetricSample[],
+  now = Date.now(),
+): { remove: MetricSample[]; add: MetricSample[] } => {
+  const remove: MetricSample[] = samples.filter((s) => now - s.t > MAX_AGE);
+  const add: MetricSample[] = [];
+
+  RETENTION_TIERS.forEach(({ olderThan, bucket }, i) => {
+    const nextOlderThan = RETENTION_TIERS[i + 1]?.olderThan ?? MAX_AGE;
+    const tier = samples.filter((s) => {
+      const age = now - s.t;
+      return age > olderThan && age <= nextOlderThan && s.resolution < bucket;
+    });
+    if (tier.length === 0) return;
+
+    // An earlier compaction may already hold part of a bucket; fold it in rather than overwrite it
+    const starts = new Set(tier.map((s) => Math.floor(s.t / bucket) * bucket));
+    const previous = samples.filter((s) => s.resolution === bucket && starts.has(s.t));
+
+    remove.push(...tier, ...previous);
+    add.push(...bucketSamples([...previous, ...tier].sort((a, b) => a.t - b.t), bucket));
+  });
+
+  return { remove, add };
+};
+
+// -----------------------------
+// Persistence
+// -----------------------------
+const lastCompaction: Record<string, number> = {};
+
+export const loadSamples = async (colony: string, since: number): Promise<MetricSample[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readonly');
+  const range = IDBKeyRange.bound([colony, since], [colony, Number.MAX_SAFE_INTEGER]);
+  return promisifyRequest(tx.objectStore(STORE).getAll(range) as IDBRequest<MetricSample[]>);
+};
+
+export const compactSamples = async (colony: string, now = Date.now()): Promise<void> => {
+  const all = await loadSamples(colony, 0);
+  const { remove, add } = planRetention(all, now);
+  if (remove.length === 0) return;
+
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  remove.forEach((s) => store.delete([s.colony, s.t]));
+  add.forEach((s) => store.put(s));
+  await transactionDone(tx);
+};
+
+/** Persists one poll and compacts the colony's history every few minutes. */
+export const recordSample = async (sample: MetricSample): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put(sample);
+  await transactionDone(tx);
+
+  const last = lastCompaction[sample.colony] ?? 0;
+  if (sample.t - last > COMPACT_EVERY_MS) {
+    lastCompaction[sample.colony] = sample.t;
+    await compactSamples(sample.colony, sample.t);
+  }
+};
+
+export const clearHistory = async (colony: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).delete(IDBKeyRange.bound([colony, 0], [colony, Number.MAX_SAFE_INTEGER]));
+  await transactionDone(tx);
+};
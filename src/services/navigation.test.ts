@@ -0,0 +1,24 @@
+import { formatRoute, getColonistProfileUrl, navigateTo, onRouteChange, parseRoute } from './navigation';
+
+afterEach(() => { window.location.hash = ''; });
+
+test('parses tabs and colonist profiles from the hash', () => {
+  expect(parseRoute('#/medical')).toEqual({ tab: 'medical' });
+  expect(parseRoute('#/colonists/101')).toEqual({ tab: 'colonists', colonistId: 101 });
+  expect(parseRoute('#/colonists/ada')).toEqual({ tab: 'colonists' });
+  expect(parseRoute('#/nowhere')).toEqual({ tab: 'dashboard' });
+  expect(parseRoute('')).toEqual({ tab: 'dashboard' });
+});
+
+test('round-trips routes through the URL', () => {
+  const seen: unknown[] = [];
+  const stop = onRouteChange((route) => seen.push(route));
+
+  navigateTo({ tab: 'colonists', colonistId: 104 });
+  window.dispatchEvent(new HashChangeEvent('hashchange'));
+  stop();
+
+  expect(window.location.hash).toBe(formatRoute({ tab: 'colonists', colonistId: 104 }));
+  expect(seen).toContainEqual({ tab: 'colonists', colonistId: 104 });
+  expect(getColonistProfileUrl(104)).toMatch(/#\/colonists\/104$/);
+});
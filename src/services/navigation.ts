@@ -0,0 +1,50 @@
+// src/services/navigation.ts
+// Hash-based routes for the dashboard ("#/medical", "#/colonists/101"), so tabs and colonist
+// profiles survive a reload and can be bookmarked or shared. The hash keeps working on static
+// hosting and leaves `?demo=` in the query string alone.
+
+export type DashboardTabId = 'dashboard' | 'medical' | 'research' | 'colonists' | 'resources' | 'defense' | 'maps' | 'tools';
+
+export const DASHBOARD_TABS: DashboardTabId[] = [
+  'dashboard', 'medical', 'research', 'colonists', 'resources', 'defense', 'maps', 'tools',
+];
+
+export interface DashboardRoute {
+  tab: DashboardTabId;
+  /** Set when a colonist profile is open */
+  colonistId?: number;
+}
+
+export const DEFAULT_ROUTE: DashboardRoute = { tab: 'dashboard' };
+
+export const parseRoute = (hash: string): DashboardRoute => {
+  const [tab, id] = hash.replace(/^#\/?/, '').split(/[/?]/);
+  if (!DASHBOARD_TABS.includes(tab as DashboardTabId)) return DEFAULT_ROUTE;
+  const colonistId = tab === 'colonists' && id ? Number(id) : NaN;
+  return Number.isInteger(colonistId)
+    ? { tab: 'colonists', colonistId }
+    : { tab: tab as DashboardTabId };
+};
+
+export const formatRoute = (route: DashboardRoute): string =>
+  route.colonistId !== undefined ? `#/colonists/${route.colonistId}` : `#/${route.tab}`;
+
+export const getCurrentRoute = (): DashboardRoute => parseRoute(window.location.hash);
+
+/** Pushes a history entry; listeners pick the change up from `hashchange`. */
+export const navigateTo = (route: DashboardRoute) => {
+  const hash = formatRoute(route);
+  if (window.location.hash !== hash) window.location.hash = hash;
+};
+
+/** Absolute link to a colonist's profile, for copying and sharing. */
+export const getColonistProfileUrl = (colonistId: number): string => {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${formatRoute({ tab: 'colonists', colonistId })}`;
+};
+
+export const onRouteChange = (listener: (route: DashboardRoute) => void): (() => void) => {
+  const handler = () => listener(getCurrentRoute());
+  window.addEventListener('hashchange', handler);
+  return () => window.removeEventListener('hashchange', handler);
+};
@@ -0,0 +1,45 @@
+import {
+  DEFAULT_OPTIMIZER_POLICY,
+  deleteOptimizerPolicy,
+  desiredCountsForWork,
+  duplicateOptimizerPolicy,
+  getOptimizerPolicy,
+  getWorkOverride,
+  loadOptimizerPolicies,
+  saveOptimizerPolicies,
+  upsertOptimizerPolicy,
+} from './optimizerPolicy';
+
+beforeEach(() => localStorage.clear());
+
+test('the balanced profile keeps the original staffing formula', () => {
+  expect(desiredCountsForWork(DEFAULT_OPTIMIZER_POLICY, 5, 'Doctor')).toEqual({ p1: 1, p2: 1, p3: 1 });
+  expect(desiredCountsForWork(DEFAULT_OPTIMIZER_POLICY, 24, 'Doctor')).toEqual({ p1: 3, p2: 4, p3: 5 });
+});
+
+test('minimum counts raise the formula but never lower it', () => {
+  const policy = { ...DEFAULT_OPTIMIZER_POLICY, overrides: { Doctor: { minCounts: { p1: 2 } } } };
+  expect(desiredCountsForWork(policy, 5, 'doctor').p1).toBe(2);
+  expect(desiredCountsForWork(policy, 24, 'Doctor').p1).toBe(3);
+  expect(getWorkOverride(policy, 'plant_cutting')).toEqual({});
+});
+
+test('custom profiles persist, and deleting the active one falls back to the default', () => {
+  const copy = duplicateOptimizerPolicy(DEFAULT_OPTIMIZER_POLICY, 'Mine');
+  copy.overrides.Hauling = { forcePriority: 2 };
+  expect(DEFAULT_OPTIMIZER_POLICY.overrides).toEqual({});
+
+  const store = { ...upsertOptimizerPolicy(loadOptimizerPolicies(), copy), activeId: copy.id };
+  saveOptimizerPolicies(store);
+
+  const loaded = loadOptimizerPolicies();
+  expect(getOptimizerPolicy(loaded).name).toBe('Mine');
+  expect(getOptimizerPolicy(loaded).overrides.Hauling).toEqual({ forcePriority: 2 });
+
+  // Built-ins are read-only
+  expect(upsertOptimizerPolicy(loaded, { ...DEFAULT_OPTIMIZER_POLICY, minLevel: 1 })).toBe(loaded);
+
+  const afterDelete = deleteOptimizerPolicy(loaded, copy.id);
+  expect(afterDelete.custom).toEqual([]);
+  expect(getOptimizerPolicy(afterDelete)).toBe(DEFAULT_OPTIMIZER_POLICY);
+});
@@ -0,0 +1,214 @@
+// src/services/optimizerPolicy.ts
+// Named policy profiles for the work optimizer ("Optimize By Skills"): the scoring knobs,
+// job caps and staffing formula, plus per-work-type overrides. Built-in profiles are
+// read-only; custom ones are persisted in localStorage.
+
+export type PriorityTier = 'p1' | 'p2' | 'p3';
+
+/** How many colonists a work type wants at one tier: round(colonists / perColonists), clamped. */
+export interface StaffingRule {
+  perColonists: number;
+  min: number;
+  max: number;
+}
+
+export interface WorkPolicyOverride {
+  /** Minimum skill level for this work type only */
+  minLevel?: number;
+  /** At least this many colonists per tier, on top of the staffing formula */
+  minCounts?: Partial<Record<PriorityTier, number>>;
+  /** Colonists picked at priority 1 get no other skilled work */
+  dedicated?: boolean;
+  /** Every capable colonist gets this work at this priority, ignoring skill and job caps */
+  forcePriority?: 1 | 2 | 3 | 4;
+}
+
+export interface OptimizerPolicy {
+  id: string;
+  name: string;
+  description: string;
+  builtIn?: boolean;
+  minLevel: number;          // skip below this
+  passionBonus: number;      // scoring boost for non-basic P1 contention
+  busynessPenalty: number;   // scoring malus as colonist accumulates jobs
+  primaryNeedsPassion: boolean;
+  maxPrimary: number;
+  maxSecondary: number;
+  maxTotal: number;
+  staffing: Record<PriorityTier, StaffingRule>;
+  /** Keyed by work type name as returned by /work-list */
+  overrides: Record<string, WorkPolicyOverride>;
+}
+
+export interface OptimizerPolicyStore {
+  custom: OptimizerPolicy[];
+  activeId: string;
+}
+
+export const PRIORITY_TIERS: PriorityTier[] = ['p1', 'p2', 'p3'];
+
+export const DEFAULT_OPTIMIZER_POLICY: OptimizerPolicy = {
+  id: 'balanced',
+  name: 'Balanced',
+  description: 'One specialty per colonist, a few secondary jobs, staffing scaled to colony size.',
+  builtIn: true,
+  minLevel: 6,
+  passionBonus: 0.6,
+  busynessPenalty: 0.5,
+  primaryNeedsPassion: true,
+  maxPrimary: 1,
+  maxSecondary: 3,
+  maxTotal: 6,
+  staffing: {
+    p1: { perColonists: 8, min: 1, max: 3 },
+    p2: { perColonists: 6, min: 1, max: 4 },
+    p3: { perColonists: 5, min: 1, max: 5 },
+  },
+  overrides: {},
+};
+
+export const BUILT_IN_POLICIES: OptimizerPolicy[] = [
+  DEFAULT_OPTIMIZER_POLICY,
+  {
+    ...DEFAULT_OPTIMIZER_POLICY,
+    id: 'early-game',
+    name: 'Early game',
+    description: 'Few colonists doing a bit of everything: low skill bar, everyone hauls and cleans.',
+    minLevel: 3,
+    passionBonus: 0.3,
+    busynessPenalty: 0.2,
+    primaryNeedsPassion: false,
+    maxPrimary: 2,
+    maxSecondary: 5,
+    maxTotal: 10,
+    staffing: {
+      p1: { perColonists: 4, min: 1, max: 2 },
+      p2: { perColonists: 3, min: 1, max: 3 },
+      p3: { perColonists: 2, min: 1, max: 4 },
+    },
+    overrides: {
+      Hauling: { forcePriority: 3 },
+      Cleaning: { forcePriority: 3 },
+      Doctor: { minCounts: { p1: 1, p2: 1 } },
+    },
+  },
+  {
+    ...DEFAULT_OPTIMIZER_POLICY,
+    id: 'specialists',
+    name: 'Late-game specialists',
+    description: 'Large colony of experts: high skill bar, dedicated researchers, two doctors on call.',
+    minLevel: 8,
+    passionBonus: 1,
+    busynessPenalty: 0.8,
+    maxTotal: 4,
+    maxSecondary: 2,
+    overrides: {
+      Research: { dedicated: true },
+      Doctor: { minCounts: { p1: 2 } },
+      Cleaning: { forcePriority: 4 },
+    },
+  },
+];
+
+const POLICIES_KEY = 'rimworldOptimizerPolicies';
+
+export const loadOptimizerPolicies = (): OptimizerPolicyStore => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(POLICIES_KEY) || 'null') as OptimizerPolicyStore | null;
+    if (stored && Array.isArray(stored.custom)) {
+      return {
+        custom: stored.custom.map(p => ({ ...DEFAULT_OPTIMIZER_POLICY, ...p, builtIn: false })),
+        activeId: stored.activeId || DEFAULT_OPTIMIZER_POLICY.id,
+      };
+    }
+  } catch {
+    // fall through to defaults
+  }
+  return { custom: [], activeId: DEFAULT_OPTIMIZER_POLICY.id };
+};
+
+export const saveOptimizerPolicies = (store: OptimizerPolicyStore) => {
+  localStorage.setItem(POLICIES_KEY, JSON.stringify(store));
+};
+
+export const listOptimizerPolicies = (store: OptimizerPolicyStore): OptimizerPolicy[] =>
+  [...BUILT_IN_POLICIES, ...store.custom];
+
+export const getOptimizerPolicy = (store: OptimizerPolicyStore, id: string = store.activeId): OptimizerPolicy =>
+  listOptimizerPolicies(store).find(p => p.id === id) ?? DEFAULT_OPTIMIZER_POLICY;
+
+/** Editable copy of `source`, e.g. to customise a built-in profile. */
+export const duplicateOptimizerPolicy = (source: OptimizerPolicy, name = `${source.name} (copy)`): OptimizerPolicy => ({
+  ...source,
+  id: `policy-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  builtIn: false,
+  staffing: {
+    p1: { ...source.staffing.p1 },
+    p2: { ...source.staffing.p2 },
+    p3: { ...source.staffing.p3 },
+  },
+  overrides: JSON.parse(JSON.stringify(source.overrides)),
+});
+
+/** Inserts or replaces a custom profile. Built-ins cannot be changed. */
+export const upsertOptimizerPolicy = (store: OptimizerPolicyStore, policy: OptimizerPolicy): OptimizerPolicyStore => {
+  if (BUILT_IN_POLICIES.some(p => p.id === policy.id)) return store;
+  const exists = store.custom.some(p => p.id === policy.id);
+  return {
+    ...store,
+    custom: exists
+      ? store.custom.map(p => (p.id === policy.id ? policy : p))
+      : [...store.custom, policy],
+  };
+};
+
+export const deleteOptimizerPolicy = (store: OptimizerPolicyStore, id: string): OptimizerPolicyStore => ({
+  custom: store.custom.filter(p => p.id !== id),
+  activeId: store.activeId === id ? DEFAULT_OPTIMIZER_POLICY.id : store.activeId,
+});
+
+// -----------------------------
+// Lookups used by the optimizer
+// -----------------------------
+const normKey = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+/** The override for a work type, matching its id or name loosely ("plant_cutting" = "PlantCutting"). */
+export const getWorkOverride = (policy: OptimizerPolicy, workIdOrName: string): WorkPolicyOverride => {
+  const key = normKey(workIdOrName);
+  const match = Object.keys(policy.overrides).find(k => normKey(k) === key);
+  return match ? policy.overrides[match] : {};
+};
+
+export const minLevelForWork = (policy: OptimizerPolicy, workIdOrName: string): number =>
+  getWorkOverride(policy, workIdOrName).minLevel ?? policy.minLevel;
+
+/** Colonists wanted at P1/P2/P3 for a work type in a colony of `colonistCount`. */
+export const desiredCountsForWork = (
+  policy: OptimizerPolicy,
+  colonistCount: number,
+  workIdOrName: string,
+): Record<PriorityTier, number> => {
+  const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+  const minCounts = getWorkOverride(policy, workIdOrName).minCounts ?? {};
+  const counts = {} as Record<PriorityTier, number>;
+  PRIORITY_TIERS.forEach(tier => {
+    const rule = policy.staffing[tier];
+    const formula = clamp(Math.round(colonistCount / Math.max(rule.perColonists, 1)), rule.min, rule.max);
+    counts[tier] = Math.max(formula, minCounts[tier] ?? 0);
+  });
+  return counts;
+};
+
+/** Short summary of an override for lists, e.g. "min level 4 · ≥2 at P1 · dedicated". */
+export const describeWorkOverride = (override: WorkPolicyOverride): string => {
+  const parts: string[] = [];
+  if (override.forcePriority) parts.push(`everyone at ${override.forcePriority}`);
+  if (override.minLevel !== undefined) parts.push(`min level ${override.minLevel}`);
+  PRIORITY_TIERS.forEach(tier => {
+    const n = override.minCounts?.[tier];
+    if (n) parts.push(`≥${n} at ${tier.toUpperCase()}`);
+  });
+  if (override.dedicated) parts.push('dedicated');
+  return parts.join(' · ') || 'no changes';
+};
@@ -0,0 +1,48 @@
+import { DEFAULT_REFRESH_SETTINGS, RefreshSettings, computeRefreshStatus, loadRefreshSettings } from './refreshScheduler';
+
+const settings = (overrides: Partial<RefreshSettings> = {}): RefreshSettings => ({ ...DEFAULT_REFRESH_SETTINGS, ...overrides });
+const context = (overrides: Partial<{ failures: number; gamePaused: boolean; hidden: boolean }> = {}) => ({
+  failures: 0,
+  gamePaused: false,
+  hidden: false,
+  ...overrides,
+});
+
+beforeEach(() => localStorage.clear());
+
+test('runs at the configured interval', () => {
+  expect(computeRefreshStatus('colony', settings(), context())).toEqual({ state: 'running', delayMs: 5000, failures: 0 });
+  expect(computeRefreshStatus('defense', settings(), context()).delayMs).toBe(30000);
+});
+
+test('doubles the delay per failure up to the back-off cap', () => {
+  expect(computeRefreshStatus('colony', settings(), context({ failures: 1 }))).toEqual({ state: 'backoff', delayMs: 10000, failures: 1 });
+  expect(computeRefreshStatus('colony', settings(), context({ failures: 2 })).delayMs).toBe(20000);
+  expect(computeRefreshStatus('colony', settings(), context({ failures: 10 })).delayMs).toBe(40000);
+  // Errors win over a paused game
+  expect(computeRefreshStatus('colony', settings(), context({ failures: 1, gamePaused: true })).state).toBe('backoff');
+});
+
+test('slows down while the game is paused unless told not to', () => {
+  expect(computeRefreshStatus('colony', settings(), context({ gamePaused: true })))
+    .toEqual({ state: 'game-paused', delayMs: 30000, failures: 0 });
+  expect(computeRefreshStatus('colony', settings({ slowWhenGamePaused: false }), context({ gamePaused: true })).state)
+    .toBe('running');
+});
+
+test('stops while disabled or hidden', () => {
+  expect(computeRefreshStatus('colony', settings({ enabled: false }), context({ failures: 3 })))
+    .toEqual({ state: 'disabled', delayMs: 5000, failures: 3 });
+  expect(computeRefreshStatus('colony', settings(), context({ hidden: true, failures: 2 })).state).toBe('hidden');
+  expect(computeRefreshStatus('colony', settings({ pauseWhenHidden: false }), context({ hidden: true })).state)
+    .toBe('running');
+});
+
+test('fills settings saved by an older version with the defaults', () => {
+  localStorage.setItem('rimworldRefreshSettings', JSON.stringify({ enabled: false, intervals: { colony: 2000 } }));
+  const loaded = loadRefreshSettings();
+
+  expect(loaded.enabled).toBe(false);
+  expect(loaded.intervals).toEqual({ ...DEFAULT_REFRESH_SETTINGS.intervals, colony: 2000 });
+  expect(loaded.gamePausedMultiplier).toBe(DEFAULT_REFRESH_SETTINGS.gamePausedMultiplier);
+});
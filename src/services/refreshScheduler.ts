@@ -0,0 +1,98 @@
+// src/services/refreshScheduler.ts
+// Settings and delay computation for the dashboard's polling scheduler.
+
+export type RefreshResource = 'colony' | 'resources' | 'maps' | 'defense';
+
+export interface RefreshSettings {
+  enabled: boolean;
+  intervals: Record<RefreshResource, number>; // ms
+  pauseWhenHidden: boolean;
+  slowWhenGamePaused: boolean;
+  gamePausedMultiplier: number;
+  maxErrorBackoffMultiplier: number;
+}
+
+export type RefreshState = 'running' | 'disabled' | 'hidden' | 'game-paused' | 'backoff';
+
+export interface RefreshStatus {
+  state: RefreshState;
+  delayMs: number;
+  failures: number;
+}
+
+export const REFRESH_RESOURCE_LABELS: Record<RefreshResource, string> = {
+  colony: 'Colony data',
+  resources: 'Stored resources',
+  maps: 'Maps overview',
+  defense: 'Turrets & weapons',
+};
+
+export const REFRESH_INTERVAL_OPTIONS = [2000, 5000, 10000, 30000, 60000, 300000];
+
+export const DEFAULT_REFRESH_SETTINGS: RefreshSettings = {
+  enabled: true,
+  intervals: {
+    colony: 5000,
+    resources: 10000,
+    maps: 15000,
+    defense: 30000,
+  },
+  pauseWhenHidden: true,
+  slowWhenGamePaused: true,
+  gamePausedMultiplier: 6,
+  maxErrorBackoffMultiplier: 8,
+};
+
+const STORAGE_KEY = 'rimworldRefreshSettings';
+
+export const loadRefreshSettings = (): RefreshSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_REFRESH_SETTINGS;
+    const saved = JSON.parse(raw) as Partial<RefreshSettings>;
+    return {
+      ...DEFAULT_REFRESH_SETTINGS,
+      ...saved,
+      intervals: { ...DEFAULT_REFRESH_SETTINGS.intervals, ...(saved.intervals || {}) },
+    };
+  } catch {
+    return DEFAULT_REFRESH_SETTINGS;
+  }
+};
+
+export const saveRefreshSettings = (settings: RefreshSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const formatInterval = (ms: number): string => {
+  if (ms < 60_000) return `${Math.round(ms / 1000)}s`;
+  return `${Math.round(ms / 60_000)}m`;
+};
+
+/**
+ * Works out how long to wait before the next run of a resource and why.
+ * Consecutive failures double the delay up to `maxErrorBackoffMultiplier`;
+ * a paused game multiplies it by `gamePausedMultiplier`.
+ */
+export const computeRefreshStatus = (
+  resource: RefreshResource,
+  settings: RefreshSettings,
+  context: { failures: number; gamePaused: boolean; hidden: boolean },
+): RefreshStatus => {
+  const base = settings.intervals[resource];
+  const { failures } = context;
+
+  if (!settings.enabled) return { state: 'disabled', delayMs: base, failures };
+  if (settings.pauseWhenHidden && context.hidden) return { state: 'hidden', delayMs: base, failures };
+
+  if (failures > 0) {
+    const multiplier = Math.min(2 ** failures, settings.maxErrorBackoffMultiplier);
+    return { state: 'backoff', delayMs: base * multiplier, failures };
+  }
+
+  if (settings.slowWhenGamePaused && context.gamePaused) {
+    return { state: 'game-paused', delayMs: base * settings.gamePausedMultiplier, failures };
+  }
+
+  return { state: 'running', delayMs: base, failures };
+};
@@ -0,0 +1,151 @@
+import { createMockRimApi, connectMockRimApi, MockRimApi } from '../mocks/mockRimApi';
+import { MockScenarioId } from '../mocks/scenarios';
+import { fetchRimWorldData, mergeRimWorldData, rimworldApi, selectAndViewColonist } from './rimworldApi';
+
+let api: MockRimApi;
+let restore: () => void;
+
+const useScenario = (scenario: MockScenarioId) => {
+  restore?.();
+  api = createMockRimApi(scenario);
+  restore = connectMockRimApi(api);
+};
+
+beforeEach(() => useScenario('healthy'));
+afterEach(() => restore());
+
+describe('fetchRimWorldData', () => {
+  test('loads every section of a healthy colony', async () => {
+    const data = await fetchRimWorldData(0);
+
+    expect(Object.values(data.sections || {}).every((s) => !s?.error)).toBe(true);
+    expect(data.colonists).toHaveLength(5);
+    expect(data.colonistsDetailed?.[0].colonist.name).toBe('Ada');
+    expect(data.power?.current_power).toBe(2400);
+    expect(data.maps?.[0].label).toBe('Ironhold');
+    expect(data.researchProgress?.label).toBe('electricity');
+  });
+
+  test('reports a failing endpoint per section and keeps the rest', async () => {
+    api.failEndpoint('/map/power/info', 'Power grid unavailable');
+    const data = await fetchRimWorldData(0);
+
+    expect(data.sections?.power?.error).toContain('Power grid unavailable');
+    expect(data.power).toBeUndefined();
+    expect(data.sections?.colonists?.error).toBeUndefined();
+  });
+
+  test('carries failed sections over from the previous poll', async () => {
+    const first = await fetchRimWorldData(0);
+    api.failEndpoint('/map/power/info');
+    const merged = mergeRimWorldData(first, await fetchRimWorldData(0));
+
+    expect(merged.power).toEqual(first.power);
+    expect(merged.sections?.power?.error).toBeDefined();
+    expect(merged.sections?.power?.lastSuccessAt).toBe(first.sections?.power?.lastSuccessAt);
+  });
+
+  test('does not carry sections over from another map', async () => {
+    const first = await fetchRimWorldData(0);
+    const merged = mergeRimWorldData(first, await fetchRimWorldData(99));
+
+    expect(merged.mapId).toBe(99);
+    expect(merged.power).toBeUndefined();
+    expect(merged.sections?.power?.error).toContain('Map 99 not found');
+  });
+
+  test('asks for the date of the current map', async () => {
+    await fetchRimWorldData(1);
+
+    const datetime = api.requests.find((r) => r.path === '/datetime')!;
+    expect(datetime.params.get('at')).toBe('current_map');
+    expect(datetime.params.has('map_id')).toBe(false);
+  });
+
+  test('throws only when every section fails', async () => {
+    ['/game/state', '/colonists', '/colonists/detailed', '/resources/summary', '/map/creatures/summary',
+      '/map/power/info', '/datetime', '/map/weather', '/research/progress', '/research/finished',
+      '/research/summary', '/mods/info', '/maps'].forEach((path) => api.failEndpoint(path, 'Game not running'));
+
+    await expect(fetchRimWorldData(0)).rejects.toThrow('Game not running');
+  });
+
+  test('serves the scenario presets', async () => {
+    useScenario('blackout');
+    expect((await fetchRimWorldData(0)).power?.currently_stored_power).toBe(0);
+
+    useScenario('emptyResearch');
+    const research = await fetchRimWorldData(0);
+    expect(research.researchProgress?.name).toBe('None');
+    expect(research.researchFinished?.finished_projects).toEqual([]);
+
+    useScenario('massCasualty');
+    const casualties = await fetchRimWorldData(0);
+    expect(casualties.creatures?.enemies_count).toBeGreaterThan(0);
+    expect(casualties.colonistsDetailed?.some((c) => c.colonist_medical_info.health < 0.25)).toBe(true);
+  });
+});
+
+describe('rimworldApi actions', () => {
+  const priorityOf = (colonistId: number, work: string) =>
+    api.colony.colonists
+      .find((c) => c.colonist.id === colonistId)!
+      .colonist_work_info.work_priorities.find((wp) => wp.work_type === work)!.priority;
+
+  test('sets a single work priority', async () => {
+    await rimworldApi.setColonistWorkPriority(103, 'plantCutting', 4);
+    expect(priorityOf(103, 'PlantCutting')).toBe(4);
+  });
+
+  test('sets work priorities in bulk', async () => {
+    await rimworldApi.setColonistsWorkPriorities([
+      { id: 101, work: 'Doctor', priority: 2 },
+      { id: 104, work: 'Doctor', priority: 1 },
+    ]);
+    expect(priorityOf(101, 'Doctor')).toBe(2);
+    expect(priorityOf(104, 'Doctor')).toBe(1);
+  });
+
+  test('surfaces API errors', async () => {
+    await expect(rimworldApi.setColonistWorkPriority(999, 'Doctor', 1)).rejects.toThrow('Pawn 999 not found');
+  });
+
+  test('equips a stored item', async () => {
+    await rimworldApi.assignItemToPawn('2301', 'weapon', '105', 0);
+
+    expect(api.colony.stored.weapons_ranged?.some((i) => i.thing_id === 2301)).toBe(false);
+    const inventory = await rimworldApi.fetchColonistInventory(105);
+    expect(inventory.map((i: { thing_id: number }) => i.thing_id)).toContain(2301);
+  });
+
+  test('reads and writes timetables', async () => {
+    const timetables = await rimworldApi.fetchColonistsTimetables();
+    expect(timetables).toHaveLength(5);
+    expect(timetables[0].schedule).toHaveLength(24);
+
+    await rimworldApi.setColonistTimeAssignment(101, 3, 'Work');
+    await rimworldApi.setColonistsTimetables([{ id: 103, schedule: Array(24).fill('Joy') }]);
+
+    expect((await rimworldApi.fetchColonistTimetable(101)).schedule[3]).toBe('Work');
+    expect(api.colony.timetables[103].every((a) => a === 'Joy')).toBe(true);
+    await expect(rimworldApi.setColonistTimeAssignment(101, 24, 'Sleep')).rejects.toThrow('out of range');
+  });
+
+  test('writes medical care and self-tend', async () => {
+    await rimworldApi.setColonistMedicalPolicy(102, 0);
+    await rimworldApi.setColonistSelfTend(101, true);
+    await rimworldApi.setColonistsMedicalSettings([{ id: 103, medical_policy_id: 2, is_self_tend_allowed: true }]);
+
+    const medical = (id: number) => api.colony.colonists.find((c) => c.colonist.id === id)!.colonist_medical_info;
+    expect(medical(102).medical_policy_id).toBe(0);
+    expect(medical(101).is_self_tend_allowed).toBe(true);
+    expect(medical(103)).toMatchObject({ medical_policy_id: 2, is_self_tend_allowed: true });
+    await expect(rimworldApi.setColonistMedicalPolicy(101, 7)).rejects.toThrow('Unknown medical care category');
+  });
+
+  test('navigates to a colonist', async () => {
+    await selectAndViewColonist(102, 'Boris');
+    const posts = api.requests.filter((r) => r.method === 'POST').map((r) => r.path);
+    expect(posts).toEqual(['/deselect', '/select', '/camera/change/zoom', '/camera/change/position', '/open-tab']);
+  });
+});
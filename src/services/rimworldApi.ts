@@ -16,7 +16,16 @@ import {
   ItemImageResponse,
   ResourcesData,
   Position,
+  RimWorldSectionKey,
+  SectionResult,
+  MapInfo,
+  MapSummary,
+  Turret,
+  TimeAssignment,
+  ColonistTimetable,
 } from "../types";
+import { invalidateCachedImage } from "./imageCache";
+import { findTimeAssignment } from "./timetables";
 
 // -----------------------------
 // Config
@@ -29,6 +38,15 @@ export const setApiBaseUrl = (url: string) => {
 
 export const getApiBaseUrl = () => API_BASE_URL;
 
+// Extra headers sent with every request, e.g. an auth header from the active server profile
+let API_HEADERS: Record<string, string> = {};
+
+export const setApiHeaders = (headers: Record<string, string>) => {
+  API_HEADERS = { ...headers };
+};
+
+export const getApiHeaders = () => API_HEADERS;
+
 // -----------------------------
 // Fetch helpers
 // -----------------------------
@@ -57,6 +75,7 @@ async function request<T>(endpoint: string, init: RequestInit = {}): Promise<T>
       signal,
       ...init,
       headers: {
+        ...API_HEADERS,
         ...(init.headers || {}),
       },
     });
@@ -120,6 +139,55 @@ const validateModsInfo = (data: unknown): ModInfo[] => {
   return arr.filter((m: any) => m && m.name && m.package_id);
 };
 
+const validateMaps = (data: unknown): MapInfo[] => {
+  const arr = ensureArray<Record<string, any>>(data);
+  return arr
+    .filter((m) => m && (m.id !== undefined || m.index !== undefined))
+    .map((m) => {
+      const index = m.index ?? m.id ?? 0;
+      return {
+        id: m.id ?? index,
+        index,
+        label: m.label || m.parent_label || `Map ${index}`,
+        is_player_home: Boolean(m.is_player_home),
+        is_temp_incident_map: Boolean(m.is_temp_incident_map),
+        size_x: m.size_x ?? m.size?.x ?? 0,
+        size_z: m.size_z ?? m.size?.z ?? 0,
+      };
+    });
+};
+
+const isTurretBuilding = (b: Record<string, any>): boolean =>
+  Boolean(b.is_turret) || /turret/i.test(`${b.def_name ?? ""} ${b.label ?? ""}`);
+
+const validateTurrets = (data: unknown): Turret[] => {
+  return ensureArray<Record<string, any>>(data)
+    .filter((b) => b && b.def_name && isTurretBuilding(b))
+    .map((b) => ({
+      thing_id: b.thing_id ?? b.id ?? 0,
+      def_name: b.def_name,
+      label: b.label ?? b.def_name,
+      position: b.position ?? { x: 0, y: 0, z: 0 },
+      hit_points: b.hit_points ?? 0,
+      max_hit_points: b.max_hit_points ?? b.hit_points ?? 0,
+      fuel_percent: b.fuel_percent ?? b.refuelable_percent ?? null,
+      is_powered: b.is_powered ?? null,
+    }));
+};
+
+// Always 24 hours; unknown or missing hours fall back to "Anything" like the game does
+const validateSchedule = (data: unknown): TimeAssignment[] => {
+  const hours = ensureArray<string>(data);
+  return Array.from({ length: 24 }, (_, hour) => {
+    return findTimeAssignment(String(hours[hour] ?? "")) ?? "Anything";
+  });
+};
+
+const validateTimetables = (data: unknown): ColonistTimetable[] =>
+  ensureArray<Record<string, any>>(data)
+    .filter((t) => t && t.id !== undefined)
+    .map((t) => ({ id: Number(t.id), schedule: validateSchedule(t.schedule) }));
+
 const validateResources = (data: unknown): ResourceSummary => {
   const d = (data ?? {}) as Record<string, any>;
   const categories = ensureArray<any>(d.categories).map((category) => ({
@@ -225,7 +293,7 @@ const validateResearchFinished = (data: unknown): ResearchFinished => {
 async function postJson<T>(path: string, body: any): Promise<T> {
   const res = await fetch(`${API_BASE_URL}${path}`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { ...API_HEADERS, 'Content-Type': 'application/json' },
     body: JSON.stringify(body),
   });
   
@@ -336,6 +404,9 @@ async function uploadItemTextureFile(
     UpdateItemIndex: opts?.imageIndex,
   });
 
+  // The game now serves a different texture for this def
+  await invalidateCachedImage(API_BASE_URL, 'item', itemName);
+
   opts?.onProgress?.(100, total, total, idx);
 }
 
@@ -381,51 +452,179 @@ export const selectAndViewColonist = async (
 // -----------------------------
 // Aggregated fetch
 // -----------------------------
-export const fetchRimWorldData = async (): Promise<RimWorldData> => {
-  const timestamp = Date.now();
+const errorMessage = (err: unknown): string =>
+  err instanceof Error ? err.message : String(err ?? "Unknown error");
+
+// Resolve one section independently so a single failing endpoint
+// does not take the rest of the dashboard down with it.
+const fetchSection = async <T>(
+  load: () => Promise<unknown>,
+  validate: (raw: unknown) => T,
+): Promise<SectionResult<T>> => {
+  try {
+    const raw = await load();
+    return { data: validate(raw), fetchedAt: Date.now() };
+  } catch (err) {
+    return { error: errorMessage(err), fetchedAt: Date.now() };
+  }
+};
 
-  const [
-    gameState,
-    colonistsResp,
-    colonistsDetailedRaw,
-    resourcesRaw,
-    creaturesRaw,
-    powerRaw,
-    map_datetime,
-    weather,
-    researchProgressRaw,
-    researchFinishedRaw,
-    researchSummaryRaw,
-    modsInfoRaw,
-  ] = await Promise.all([
-    getJson<GameState>("/game/state"),
-    getJson<Colonist[]>("/colonists?fields=id,name,gender,age,health,mood"),
-    getJson<ColonistDetailed[]>("/colonists/detailed"),
-    getJson<ResourceSummary>("/resources/summary?map_id=0"),
-    getJson<CreaturesSummary>("/map/creatures/summary?map_id=0"),
-    getJson<PowerInfo>(`/map/power/info?map_id=0&_=${timestamp}`),
-    getJson<DatetimeCategory>("/datetime?at=current_map"),
-    getJson<WeatherCategory>("/map/weather?map_id=0"),
-    getJson<ResearchProgress>("/research/progress"),
-    getJson<ResearchFinished>("/research/finished"),
-    getJson<ResearchSummary>("/research/summary"),
-    getJson<ModInfo[]>("/mods/info"),
-  ]);
+export const SECTION_LABELS: Record<RimWorldSectionKey, string> = {
+  gameState: "Game state",
+  colonists: "Colonists",
+  colonistsDetailed: "Colonist details",
+  resources: "Resources",
+  creatures: "Creatures",
+  power: "Power",
+  map_datetime: "Date",
+  weather: "Weather",
+  researchProgress: "Research progress",
+  researchFinished: "Finished research",
+  researchSummary: "Research summary",
+  modsInfo: "Mods",
+  maps: "Maps",
+};
 
-  return {
-    gameState: validateGameState(gameState),
-    colonists: colonistsResp,
-    colonistsDetailed: validateColonistsDetailed(colonistsDetailedRaw),
-    resources: validateResources(resourcesRaw),
-    creatures: validateCreatures(creaturesRaw),
-    power: validatePower(powerRaw),
-    map_datetime,
-    weather,
-    researchProgress: validateResearchProgress(researchProgressRaw),
-    researchFinished: validateResearchFinished(researchFinishedRaw),
-    researchSummary: validateResearchSummary(researchSummaryRaw),
-    modsInfo: validateModsInfo(modsInfoRaw),
+/**
+ * Fetches every dashboard section in parallel. Map-scoped sections are read
+ * from `mapId`. Failed sections are reported in `sections` instead of
+ * rejecting; only a total outage throws.
+ */
+export const fetchRimWorldData = async (mapId: number = 0): Promise<RimWorldData> => {
+  const timestamp = Date.now();
+
+  const results: { [K in RimWorldSectionKey]: Promise<SectionResult<RimWorldData[K]>> } = {
+    gameState: fetchSection(() => getJson<GameState>("/game/state"), validateGameState),
+    colonists: fetchSection(
+      () => getJson<Colonist[]>("/colonists?fields=id,name,gender,age,health,mood"),
+      (raw) => raw as Colonist[],
+    ),
+    colonistsDetailed: fetchSection(
+      () => getJson<ColonistDetailed[]>("/colonists/detailed"),
+      validateColonistsDetailed,
+    ),
+    resources: fetchSection(
+      () => getJson<ResourceSummary>(`/resources/summary?map_id=${mapId}`),
+      validateResources,
+    ),
+    creatures: fetchSection(
+      () => getJson<CreaturesSummary>(`/map/creatures/summary?map_id=${mapId}`),
+      validateCreatures,
+    ),
+    power: fetchSection(
+      () => getJson<PowerInfo>(`/map/power/info?map_id=${mapId}&_=${timestamp}`),
+      validatePower,
+    ),
+    // RIMAPI only reports the date for the map the game is showing, not the selected one
+    map_datetime: fetchSection(
+      () => getJson<DatetimeCategory>("/datetime?at=current_map"),
+      (raw) => raw as DatetimeCategory,
+    ),
+    weather: fetchSection(
+      () => getJson<WeatherCategory>(`/map/weather?map_id=${mapId}`),
+      (raw) => raw as WeatherCategory,
+    ),
+    researchProgress: fetchSection(
+      () => getJson<ResearchProgress>("/research/progress"),
+      validateResearchProgress,
+    ),
+    researchFinished: fetchSection(
+      () => getJson<ResearchFinished>("/research/finished"),
+      validateResearchFinished,
+    ),
+    researchSummary: fetchSection(
+      () => getJson<ResearchSummary>("/research/summary"),
+      validateResearchSummary,
+    ),
+    modsInfo: fetchSection(() => getJson<ModInfo[]>("/mods/info"), validateModsInfo),
+    maps: fetchSection(() => getJson<MapInfo[]>("/maps"), validateMaps),
   };
+
+  const keys = Object.keys(results) as RimWorldSectionKey[];
+  const settled = await Promise.all(keys.map((key) => results[key]));
+
+  const data: RimWorldData = { sections: {}, mapId };
+  keys.forEach((key, i) => {
+    const result = settled[i];
+    (data as Record<string, unknown>)[key] = result.data;
+    data.sections![key] = {
+      error: result.error,
+      fetchedAt: result.fetchedAt,
+      lastSuccessAt: result.error ? undefined : result.fetchedAt,
+    };
+  });
+
+  if (settled.every((result) => result.error)) {
+    throw new Error(settled[0].error || "All RimWorld API requests failed");
+  }
+
+  return data;
+};
+
+/**
+ * Carries data of sections that failed in `next` over from `prev`,
+ * so cards keep showing the last known values alongside the error.
+ * Nothing is carried over from a different map.
+ */
+export const mergeRimWorldData = (
+  prev: RimWorldData | null,
+  next: RimWorldData,
+): RimWorldData => {
+  if (!prev || prev.mapId !== next.mapId) return next;
+
+  const merged: RimWorldData = { ...next, sections: { ...next.sections } };
+  (Object.keys(next.sections || {}) as RimWorldSectionKey[]).forEach((key) => {
+    const status = next.sections![key]!;
+    if (!status.error || prev[key] === undefined) return;
+
+    (merged as Record<string, unknown>)[key] = prev[key];
+    merged.sections![key] = {
+      ...status,
+      lastSuccessAt: prev.sections?.[key]?.lastSuccessAt,
+    };
+  });
+  return merged;
+};
+
+/**
+ * Fetches the map-scoped sections for every given map, for side-by-side comparison.
+ */
+export const fetchMapSummaries = async (maps: MapInfo[]): Promise<MapSummary[]> => {
+  const timestamp = Date.now();
+
+  return Promise.all(
+    maps.map(async (map) => {
+      const [resources, creatures, power, weather] = await Promise.all([
+        fetchSection(
+          () => getJson<ResourceSummary>(`/resources/summary?map_id=${map.id}`),
+          validateResources,
+        ),
+        fetchSection(
+          () => getJson<CreaturesSummary>(`/map/creatures/summary?map_id=${map.id}`),
+          validateCreatures,
+        ),
+        fetchSection(
+          () => getJson<PowerInfo>(`/map/power/info?map_id=${map.id}&_=${timestamp}`),
+          validatePower,
+        ),
+        fetchSection(
+          () => getJson<WeatherCategory>(`/map/weather?map_id=${map.id}`),
+          (raw) => raw as WeatherCategory,
+        ),
+      ]);
+
+      return {
+        map,
+        resources: resources.data,
+        creatures: creatures.data,
+        power: power.data,
+        weather: weather.data,
+        errors: [resources, creatures, power, weather]
+          .map((result) => result.error)
+          .filter((error): error is string => Boolean(error)),
+      };
+    }),
+  );
 };
 
 // -----------------------------
@@ -443,6 +642,16 @@ export const rimworldApi = {
     return data as ItemImageResponse;
   },
 
+  async getMaps(): Promise<MapInfo[]> {
+    const data = await getJson<MapInfo[]>("/maps");
+    return validateMaps(data);
+  },
+
+  async getTurrets(mapId: number = 0): Promise<Turret[]> {
+    const data = await getJson<unknown>(`/map/buildings?map_id=${mapId}`);
+    return validateTurrets(data);
+  },
+
   async getPawns(): Promise<Colonist[]> {
     const response = await getJson<Colonist[]>(
       "/colonists?fields=id,name,gender,age",
@@ -459,9 +668,10 @@ export const rimworldApi = {
     itemId: string,
     itemType: string,
     pawnId: string,
+    mapId: number = 0,
   ): Promise<{ success: boolean }> {
     await postNoBody(
-      `/jobs/make/equip?item_type=${encodeURIComponent(itemType)}&map_id=0&pawn_id=${encodeURIComponent(
+      `/jobs/make/equip?item_type=${encodeURIComponent(itemType)}&map_id=${mapId}&pawn_id=${encodeURIComponent(
         pawnId,
       )}&item_id=${encodeURIComponent(itemId)}`,
     );
@@ -497,6 +707,53 @@ export const rimworldApi = {
     return data.items;  // Returning just the inventory items
   },
 
+  async fetchColonistTimetable(id: number): Promise<ColonistTimetable> {
+    const data = await getJson<unknown>(`/colonist/time-assignments?id=${id}`);
+    return validateTimetables([data])[0] ?? { id, schedule: validateSchedule([]) };
+  },
+
+  async fetchColonistsTimetables(): Promise<ColonistTimetable[]> {
+    const data = await getJson<unknown>('/colonists/time-assignments');
+    return validateTimetables(data);
+  },
+
+  async setColonistTimeAssignment(id: number, hour: number, assignment: TimeAssignment): Promise<void> {
+    await request<void>(`/colonist/time-assignment?id=${id}&hour=${hour}&assignment=${assignment}`, {
+      method: 'POST',
+    });
+  },
+
+  async setColonistsTimetables(timetables: ColonistTimetable[]): Promise<void> {
+    await request<void>('/colonists/time-assignments', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(timetables),
+    });
+  },
+
+  /** careLevel is the MedicalCareCategory index, 0 (no care) to 4 (best) */
+  async setColonistMedicalPolicy(id: number, careLevel: number): Promise<void> {
+    await request<void>(`/colonist/medical-policy?id=${id}&policy_id=${careLevel}`, {
+      method: 'POST',
+    });
+  },
+
+  async setColonistSelfTend(id: number, allowed: boolean): Promise<void> {
+    await request<void>(`/colonist/self-tend?id=${id}&allowed=${allowed}`, {
+      method: 'POST',
+    });
+  },
+
+  async setColonistsMedicalSettings(
+    settings: { id: number; medical_policy_id?: number; is_self_tend_allowed?: boolean }[]
+  ): Promise<void> {
+    await request<void>('/colonists/medical-settings', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(settings),
+    });
+  },
+
   async fetchWorkList (): Promise<{work: string[]}> {
     const data = await getJson<{work: string[]}>('/work-list');
     return data || [];
@@ -0,0 +1,163 @@
+import { createMockRimApi, connectMockRimApi, MockRimApi } from '../mocks/mockRimApi';
+import { buildTrait, WORK_LIST } from '../mocks/fixtures';
+import { WorkTags } from './colonistAnalysis';
+import {
+  Assignment,
+  describeOptimizerReason,
+  getRelevantSkillNamesForWorkType,
+  optimizeAllWorkTypes,
+  WorkTypeLite,
+} from './rimworldWork';
+import { DEFAULT_OPTIMIZER_POLICY, OptimizerPolicy } from './optimizerPolicy';
+
+let api: MockRimApi;
+let restore: () => void;
+
+beforeEach(() => {
+  api = createMockRimApi('healthy');
+  restore = connectMockRimApi(api);
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  restore();
+  jest.restoreAllMocks();
+});
+
+const workTypes: WorkTypeLite[] = WORK_LIST.map((name) => ({
+  id: name.toLowerCase(),
+  name,
+  icon: '',
+  category: 'test',
+}));
+
+const currentAssignments = (): Record<string, Assignment[]> => {
+  const result: Record<string, Assignment[]> = {};
+  workTypes.forEach((wt) => { result[wt.id] = []; });
+  api.colony.colonists.forEach((cd) => {
+    cd.colonist_work_info.work_priorities.forEach((wp) => {
+      if (wp.priority > 0) {
+        result[wp.work_type.toLowerCase()].push({
+          colonist: cd.colonist,
+          priority: wp.priority,
+          skills: cd.colonist_work_info.skills,
+          detailed: cd,
+        });
+      }
+    });
+  });
+  return result;
+};
+
+test('maps work types to skills by id or name', () => {
+  expect(getRelevantSkillNamesForWorkType('Doctor')).toEqual(['Medicine']);
+  expect(getRelevantSkillNamesForWorkType('plant_cutting')).toEqual(['Plants']);
+  expect(getRelevantSkillNamesForWorkType('Hauling')).toEqual([]);
+});
+
+test('optimizer gives primary jobs to passionate specialists and applies them', async () => {
+  const { nextAssignments, changes } = await optimizeAllWorkTypes({
+    colonistsDetailed: api.colony.colonists,
+    assignments: currentAssignments(),
+    workTypes,
+  });
+
+  const primary = (work: string) =>
+    nextAssignments[work].filter((a) => a.priority === 1).map((a) => a.colonist.name);
+
+  expect(primary('doctor')).toEqual(['Ada']);
+  expect(primary('construction')).toEqual(['Boris']);
+  expect(changes).toBeGreaterThan(0);
+
+  // Nobody holds more than one primary job
+  const primaries = Object.values(nextAssignments).flat().filter((a) => a.priority === 1);
+  const names = primaries.map((a) => a.colonist.name);
+  expect(new Set(names).size).toBe(names.length);
+
+  const bulk = api.requests.find((r) => r.path === '/colonists/work-priority');
+  expect(Array.isArray(bulk?.body)).toBe(true);
+  // The mock applied the same plan the optimizer returned
+  const ada = api.colony.colonists.find((c) => c.colonist.name === 'Ada')!;
+  expect(ada.colonist_work_info.work_priorities.find((wp) => wp.work_type === 'Doctor')?.priority).toBe(1);
+});
+
+test('dry run explains each proposal without contacting the game', async () => {
+  const ada = api.colony.colonists.find((c) => c.colonist.name === 'Ada')!;
+  ada.colonist_work_info.work_priorities.find((wp) => wp.work_type === 'Doctor')!.priority = 3;
+
+  const { proposals, changes } = await optimizeAllWorkTypes({
+    colonistsDetailed: api.colony.colonists,
+    assignments: currentAssignments(),
+    workTypes,
+    dryRun: true,
+  });
+
+  expect(changes).toBe(proposals.length);
+  expect(api.requests.some((r) => r.method === 'POST')).toBe(false);
+
+  const doctor = proposals.find((p) => p.colonistName === 'Ada' && p.workTypeId === 'doctor');
+  expect(doctor).toMatchObject({ before: 3, after: 1 });
+  expect(doctor?.reason).toMatchObject({ skill: 'Medicine', level: 14, outcome: 'picked', rank: 1 });
+  expect(describeOptimizerReason(doctor!.reason)).toContain('Medicine 14');
+
+  // Every proposal is a real change, at most one per colonist and work type
+  expect(proposals.every((p) => p.before !== p.after)).toBe(true);
+  const keys = proposals.map((p) => `${p.colonistId}:${p.workTypeId}`);
+  expect(new Set(keys).size).toBe(keys.length);
+});
+
+test('policy overrides force, staff and dedicate work types', async () => {
+  const policy: OptimizerPolicy = {
+    ...DEFAULT_OPTIMIZER_POLICY,
+    primaryNeedsPassion: false,
+    overrides: {
+      Cleaning: { forcePriority: 3 },
+      Research: { dedicated: true },
+      Doctor: { minLevel: 0, minCounts: { p1: 2 } },
+    },
+  };
+
+  const { nextAssignments, proposals } = await optimizeAllWorkTypes({
+    colonistsDetailed: api.colony.colonists,
+    assignments: currentAssignments(),
+    workTypes,
+    policy,
+    dryRun: true,
+  });
+
+  expect(nextAssignments.cleaning.map((a) => a.priority)).toEqual([3, 3, 3, 3, 3]);
+  expect(proposals.filter((p) => p.workTypeId === 'cleaning').every((p) => p.reason.outcome === 'forced')).toBe(true);
+
+  expect(nextAssignments.doctor.filter((a) => a.priority === 1)).toHaveLength(2);
+
+  const researchers = nextAssignments.research.filter((a) => a.priority === 1).map((a) => a.colonist.id);
+  expect(researchers).toHaveLength(1);
+  const otherSkilledJobs = Object.entries(nextAssignments)
+    .filter(([work]) => !['research', 'cleaning'].includes(work))
+    .flatMap(([, list]) => list)
+    .filter((a) => a.colonist.id === researchers[0] && a.priority <= 3);
+  expect(otherSkilledJobs).toEqual([]);
+});
+
+test('optimizer never assigns work a colonist is incapable of', async () => {
+  const ada = api.colony.colonists.find((c) => c.colonist.name === 'Ada')!;
+  ada.colonist_work_info.traits = [buildTrait('Pyromaniac', 'pyromaniac')];
+  const boris = api.colony.colonists.find((c) => c.colonist.name === 'Boris')!;
+  boris.colonist_work_info.skills[0].disabled_work_tags = WorkTags.ManualSkilled;
+
+  const { nextAssignments, proposals } = await optimizeAllWorkTypes({
+    colonistsDetailed: api.colony.colonists,
+    assignments: currentAssignments(),
+    workTypes,
+    policy: { ...DEFAULT_OPTIMIZER_POLICY, overrides: { Firefighter: { forcePriority: 1 } } },
+    dryRun: true,
+  });
+
+  expect(nextAssignments.firefighter.map((a) => a.colonist.name)).not.toContain('Ada');
+  expect(nextAssignments.construction.map((a) => a.colonist.name)).not.toContain('Boris');
+
+  const dropped = proposals.find((p) => p.colonistName === 'Boris' && p.workTypeId === 'construction');
+  expect(dropped).toMatchObject({ before: 1, after: 0 });
+  expect(dropped!.reason.outcome).toBe('disabled');
+  expect(describeOptimizerReason(dropped!.reason)).toContain('Backstory: incapable of skilled labor');
+});
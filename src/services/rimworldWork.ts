@@ -1,45 +1,19 @@
 // src/lib/rimworldWork.ts
-import { ColonistDetailed, Skill as SkillType, Trait } from '../types';
+import { ColonistDetailed, Skill as SkillType } from '../types';
 import { rimworldApi } from './rimworldApi';
+import {
+  DEFAULT_OPTIMIZER_POLICY,
+  OptimizerPolicy,
+  desiredCountsForWork,
+  getWorkOverride,
+  minLevelForWork,
+} from './optimizerPolicy';
+import { describeWorkImpact, getTraitScoreDelta, getWorkImpacts } from './workTraits';
+import { getRelevantSkills, isBasicWorkType, loadWorkTypeRegistry } from './workTypeRegistry';
 
 /** Normalize any work id/name to a stable key (lowercase, alnum only). */
 const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '');
 
-/**
- * Central mapping (use normalized keys).
- * Include every work name the backend can return (see /work-list).
- */
-const RAW_WORK_SKILLS: Record<string, string[]> = {
-  // basics / utility
-  [norm('Firefighter')]: [],
-  [norm('Patient')]: [],
-  [norm('PatientBedRest')]: [],
-  [norm('BasicWorker')]: [],
-  [norm('Childcare')]: [],
-  [norm('DarkStudy')]: [],
-  [norm('Hauling')]: [],
-  [norm('Cleaning')]: [],
-
-  // skill-driven
-  [norm('Doctor')]: ['Medicine'],
-  [norm('Construction')]: ['Construction'],
-  [norm('Mining')]: ['Mining'],
-  [norm('Growing')]: ['Plants', 'Growing'],
-  [norm('PlantCutting')]: ['Plants'],
-  [norm('Cooking')]: ['Cooking'],
-  [norm('Research')]: ['Intellectual'],
-  [norm('Warden')]: ['Social'],
-  [norm('Handling')]: ['Animals'],
-  [norm('Crafting')]: ['Crafting'],
-  [norm('Art')]: ['Artistic'],
-  [norm('Smithing')]: ['Crafting'],
-  [norm('Tailoring')]: ['Crafting'],
-  [norm('Hunting')]: ['Shooting', 'Melee'],
-};
-
-// Export for UI code that previously imported this name
-export const WORKTYPE_TO_SKILLS: Record<string, string[]> = RAW_WORK_SKILLS;
-
 export type Assignment = {
   colonist: ColonistDetailed['colonist'];
   priority: number;
@@ -47,26 +21,7 @@ export type Assignment = {
   detailed?: ColonistDetailed;
 };
 
-export type WorkTypeLite = { id: string; name: string; icon: string; category: string };
-
-/** Which works are basic (no passion requirement for P1). */
-const BASIC_WORKS = new Set([
-  'firefighter',
-  'patient',
-  'patientbedrest',
-  'basicworker',
-  'childcare',
-  'darkstudy',
-  // hauling/cleaning feel “basic”, but we let the scoring handle them
-]);
-
-// Policy / knobs
-const MIN_LEVEL = 6;          // skip below this
-const PASSION_BONUS = 0.6;    // scoring boost for non-basic P1 contention
-const BUSYNESS_PENALTY = 0.5; // scoring malus as colonist accumulates jobs
-const MAX_PRIMARY = 1;
-const MAX_SECONDARY = 3;
-const MAX_TOTAL = 6;
+export type WorkTypeLite = { id: string; name: string; icon: string; category: string; label?: string };
 
 const mean = (a: number[]) => (a.length ? a.reduce((x, y) => x + y, 0) / a.length : 0);
 const stdev = (a: number[]) => {
@@ -76,8 +31,7 @@ const stdev = (a: number[]) => {
 };
 
 export function getRelevantSkillNamesForWorkType(workTypeIdOrName: string): string[] {
-  const k = norm(workTypeIdOrName);
-  return RAW_WORK_SKILLS[k] ?? [];
+  return getRelevantSkills(workTypeIdOrName);
 }
 
 export function bestRelevantLevel(
@@ -114,9 +68,12 @@ export function sortAssignmentsBySkill(list: Assignment[], workTypeIdOrName: str
   });
 }
 
-export function getAffectingTraits(_workTypeIdOrName: string, traits: Trait[] | undefined): string[] {
-  // Hook for disabled tags when available
-  return (traits ?? []).filter(() => false).map(t => t.label || t.name);
+/** Labels of the colonist's traits that block, slow or help this work type. */
+export function getAffectingTraits(workTypeIdOrName: string, colonist: ColonistDetailed | undefined): string[] {
+  const sources = getWorkImpacts(colonist, workTypeIdOrName)
+    .filter(i => i.fromTrait)
+    .map(i => i.source);
+  return Array.from(new Set(sources));
 }
 
 const getCurrentPriorityFor = (
@@ -131,76 +88,109 @@ const workIdToName = (id: string, workTypes: WorkTypeLite[]) =>
 const workNameToId = (name: string, workTypes: WorkTypeLite[]) =>
   workTypes.find(w => norm(w.name) === norm(name))?.id ?? null;
 
-function isSkillDisabled(s?: SkillType | null): boolean {
-  if (!s) return false;
-  const any = s as any;
-  return Boolean(any.totally_disabled || any.permanently_disabled || (any.disabled_work_tags ?? 0) > 0);
+/** Incapable through a trait, backstory or a disabled skill. */
+function isIncapable(cd: ColonistDetailed, work: string, best: SkillType | null): boolean {
+  if (best?.totally_disabled || best?.permanently_disabled) return true;
+  return getWorkImpacts(cd, work).some(i => i.kind === 'incapable');
 }
 
-function normalizedBusy(nonBasicAssignedCount: number): number {
-  return Math.min(nonBasicAssignedCount / MAX_TOTAL, 1);
+function normalizedBusy(nonBasicAssignedCount: number, policy: OptimizerPolicy): number {
+  return Math.min(nonBasicAssignedCount / Math.max(policy.maxTotal, 1), 1);
 }
 
+type CapMaps = { p1: Map<number, number>; p2p3: Map<number, number>; total: Map<number, number> };
+
 function tryAssignAndBumpCaps(
-  maps: { p1: Map<number, number>; p2p3: Map<number, number>; total: Map<number, number> },
+  policy: OptimizerPolicy,
+  maps: CapMaps,
   colonistId: number,
   priority: 1 | 2 | 3 | 4,
   isBasic: boolean
 ): boolean {
   if (isBasic) {
     const t = maps.total.get(colonistId) || 0;
-    if (t >= MAX_TOTAL) return false;
+    if (t >= policy.maxTotal) return false;
     maps.total.set(colonistId, t + 1);
     return true;
   }
   const total = maps.total.get(colonistId) || 0;
-  if (total >= MAX_TOTAL) return false;
+  if (total >= policy.maxTotal) return false;
 
   if (priority === 1) {
     const p1 = maps.p1.get(colonistId) || 0;
-    if (p1 >= MAX_PRIMARY) return false;
+    if (p1 >= policy.maxPrimary) return false;
     maps.p1.set(colonistId, p1 + 1);
     maps.total.set(colonistId, total + 1);
     return true;
   }
   const sec = maps.p2p3.get(colonistId) || 0;
-  if (sec >= MAX_SECONDARY) return false;
+  if (sec >= policy.maxSecondary) return false;
   maps.p2p3.set(colonistId, sec + 1);
   maps.total.set(colonistId, total + 1);
   return true;
 }
 
-function desiredCountsForWork(colonistCount: number) {
-  const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
-  const p1 = clamp(Math.round(colonistCount / 8), 1, 3);
-  const p2 = clamp(Math.round(colonistCount / 6), 1, 4);
-  const p3 = clamp(Math.round(colonistCount / 5), 1, 5);
-  return { p1, p2, p3 };
+/** A dedicated colonist has used up every skilled slot; only basic work is left. */
+function dedicateColonist(policy: OptimizerPolicy, maps: CapMaps, colonistId: number) {
+  maps.p1.set(colonistId, Math.max(maps.p1.get(colonistId) || 0, policy.maxPrimary));
+  maps.p2p3.set(colonistId, Math.max(maps.p2p3.get(colonistId) || 0, policy.maxSecondary));
 }
 
 // ───────────────────────────────────────────────────────────────────────────────
 // OPTIMIZER
 // ───────────────────────────────────────────────────────────────────────────────
 
+/** Why the optimizer picked a priority, as shown in the dry-run review. */
+export type OptimizerReason = {
+  skill: string | null;
+  level: number;
+  passion: number;
+  z: number;
+  busy: number;
+  score: number;
+  isBasic: boolean;
+  /** 1-based position among eligible colonists for this work type */
+  rank: number | null;
+  eligibleCount: number;
+  minLevel: number;
+  /** Trait effects behind the score or the incapability, e.g. "Brawler: unhappy carrying a ranged weapon" */
+  traits: string[];
+  outcome: 'picked' | 'not-picked' | 'below-min-level' | 'disabled' | 'fill' | 'forced';
+};
+
+export type OptimizerProposal = {
+  colonistId: number;
+  colonistName: string;
+  workTypeId: string;
+  work: string;
+  before: number;
+  after: number;
+  reason: OptimizerReason;
+};
+
 export async function optimizeAllWorkTypes({
   colonistsDetailed,
   assignments,
   workTypes,
+  policy = DEFAULT_OPTIMIZER_POLICY,
+  dryRun = false,
 }: {
   colonistsDetailed: ColonistDetailed[];
   assignments: Record<string, Assignment[]>;
   workTypes: WorkTypeLite[];
-}): Promise<{ nextAssignments: Record<string, Assignment[]>; changes: number }> {
+  policy?: OptimizerPolicy;
+  /** Only propose changes; nothing is sent to the game */
+  dryRun?: boolean;
+}): Promise<{ nextAssignments: Record<string, Assignment[]>; changes: number; proposals: OptimizerProposal[] }> {
   const next: Record<string, Assignment[]> = {};
-  let changes = 0;
 
-  const canonicalNames = (await rimworldApi.fetchWorkList()).work
+  const canonicalNames = (await loadWorkTypeRegistry()).map(meta => meta.name);
 
   // Precompute current non-basic load from existing assignments (for busyness penalty)
   const nonBasicLoad = new Map<number, number>();
   for (const [workId, list] of Object.entries(assignments)) {
     const name = workIdToName(workId, workTypes);
-    if (BASIC_WORKS.has(norm(name))) continue;
+    if (isBasicWorkType(name)) continue;
     for (const a of list) {
       if (a.priority >= 1 && a.priority <= 3) {
         nonBasicLoad.set(a.colonist.id, (nonBasicLoad.get(a.colonist.id) || 0) + 1);
@@ -209,14 +199,69 @@ export async function optimizeAllWorkTypes({
   }
 
   const caps = { p1: new Map<number, number>(), p2p3: new Map<number, number>(), total: new Map<number, number>() };
-  const bulk: { id: number; work: string; priority: number }[] = [];
+  // One proposal per colonist and work type; later passes overwrite earlier ones
+  const proposals = new Map<string, OptimizerProposal>();
+  const proposalKey = (id: number, work: string) => `${id}::${norm(work)}`;
+  const propose = (cd: ColonistDetailed, workTypeId: string, work: string, before: number, after: number, reason: OptimizerReason) => {
+    proposals.set(proposalKey(cd.colonist.id, work), {
+      colonistId: cd.colonist.id,
+      colonistName: cd.colonist.name,
+      workTypeId,
+      work,
+      before,
+      after,
+      reason,
+    });
+  };
+
+  // Dedicated work types pick first, so their specialists are not already busy elsewhere
+  const ordered = [...workTypes].sort((a, b) =>
+    Number(Boolean(getWorkOverride(policy, b.name).dedicated)) -
+    Number(Boolean(getWorkOverride(policy, a.name).dedicated))
+  );
 
-  for (const wt of workTypes) {
+  for (const wt of ordered) {
     // Resolve relevant skills robustly (id OR name)
     const relevant =
       getRelevantSkillNamesForWorkType(wt.id).length
         ? getRelevantSkillNamesForWorkType(wt.id)
         : getRelevantSkillNamesForWorkType(wt.name);
+    const override = getWorkOverride(policy, wt.name);
+    const minLevel = minLevelForWork(policy, wt.name);
+
+    // Forced work: every capable colonist at a fixed priority, outside the job caps
+    if (override.forcePriority) {
+      const forced = override.forcePriority;
+      const updated: Assignment[] = [];
+      for (const cd of colonistsDetailed) {
+        const best = bestRelevantSkill(cd.colonist_work_info.skills, relevant);
+        const disabled = isIncapable(cd, wt.name, best);
+        const desired = disabled ? 0 : forced;
+        const cur = getCurrentPriorityFor(assignments, wt.id, cd.colonist.id);
+        if (desired > 0) {
+          updated.push({ colonist: cd.colonist, priority: desired, skills: cd.colonist_work_info.skills, detailed: cd });
+        }
+        if (desired !== cur) {
+          propose(cd, wt.id, wt.name, cur, desired, {
+            skill: best?.name ?? null,
+            level: best?.level ?? 0,
+            passion: best?.passion ?? 0,
+            z: 0,
+            busy: normalizedBusy(nonBasicLoad.get(cd.colonist.id) || 0, policy),
+            score: 0,
+            isBasic: isBasicWorkType(wt.name),
+            rank: null,
+            eligibleCount: 0,
+            minLevel,
+            traits: getWorkImpacts(cd, wt.name).map(describeWorkImpact),
+            outcome: disabled ? 'disabled' : 'forced',
+          });
+        }
+      }
+      console.log(`[OPTIMIZE] Forced "${wt.name}" to priority ${forced} for every capable colonist.`);
+      next[wt.id] = sortAssignmentsBySkill(updated, wt.id);
+      continue;
+    }
 
     if (!relevant.length) {
       console.log(`[OPTIMIZE] Skip work "${wt.name}" (id="${wt.id}") – no relevant skills mapping.`);
@@ -224,7 +269,7 @@ export async function optimizeAllWorkTypes({
       continue;
     }
 
-    const isBasic = BASIC_WORKS.has(norm(wt.name));
+    const isBasic = isBasicWorkType(wt.name);
     type Cand = {
       cd: ColonistDetailed;
       best: SkillType | null;
@@ -240,8 +285,8 @@ export async function optimizeAllWorkTypes({
     const raw: Cand[] = colonistsDetailed.map(cd => {
       const best = bestRelevantSkill(cd.colonist_work_info.skills, relevant);
       const lvl = best?.level ?? 0;
-      const disabled = isSkillDisabled(best);
-      const busy = normalizedBusy(nonBasicLoad.get(cd.colonist.id) || 0);
+      const disabled = isIncapable(cd, wt.name, best);
+      const busy = normalizedBusy(nonBasicLoad.get(cd.colonist.id) || 0, policy);
       const current = getCurrentPriorityFor(assignments, wt.id, cd.colonist.id);
       return {
         cd,
@@ -256,9 +301,26 @@ export async function optimizeAllWorkTypes({
       };
     });
 
-    const eligible = raw.filter(x => !x.disabled && x.level >= MIN_LEVEL);
+    const eligible = raw.filter(x => !x.disabled && x.level >= minLevel);
     if (!eligible.length) {
-      console.log(`[OPTIMIZE] Skip work "${wt.name}" – no eligible colonists (min level ${MIN_LEVEL} or disabled).`);
+      console.log(`[OPTIMIZE] Skip work "${wt.name}" – no eligible colonists (min level ${minLevel} or disabled).`);
+      // Still take incapable colonists off it; the game would ignore them anyway
+      for (const e of raw.filter(x => x.disabled && x.current > 0)) {
+        propose(e.cd, wt.id, wt.name, e.current, 0, {
+          skill: e.best?.name ?? null,
+          level: e.level,
+          passion: e.passion,
+          z: 0,
+          busy: e.busy,
+          score: 0,
+          isBasic,
+          rank: null,
+          eligibleCount: 0,
+          minLevel,
+          traits: getWorkImpacts(e.cd, wt.name).map(describeWorkImpact),
+          outcome: 'disabled',
+        });
+      }
       next[wt.id] = [];
       continue;
     }
@@ -269,8 +331,8 @@ export async function optimizeAllWorkTypes({
     for (const e of eligible) {
       const z = s === 0 ? 0 : (e.level - m) / s;
       e.z = z;
-      let score = z - BUSYNESS_PENALTY * e.busy;
-      if (!isBasic && e.passion > 0) score += PASSION_BONUS;
+      let score = z - policy.busynessPenalty * e.busy + getTraitScoreDelta(e.cd, wt.name);
+      if (!isBasic && e.passion > 0) score += policy.passionBonus;
       e.score = score;
     }
 
@@ -279,17 +341,19 @@ export async function optimizeAllWorkTypes({
       if (a.current !== b.current) return a.current - b.current;
       return a.cd.colonist.id - b.cd.colonist.id;
     });
+    const rankOf = new Map(eligible.map((e, i) => [e.cd.colonist.id, i + 1]));
 
-    const { p1, p2, p3 } = desiredCountsForWork(colonistsDetailed.length);
+    const { p1, p2, p3 } = desiredCountsForWork(policy, colonistsDetailed.length, wt.name);
     const picked = new Map<number, number>();
 
-    // P1: for non-basic, passion required
+    // P1: for non-basic, passion required unless the policy says otherwise
     if (!isBasic) {
       let need = p1;
       for (const e of eligible) {
         if (need <= 0) break;
-        if ((e.passion ?? 0) <= 0) continue;
-        if (!tryAssignAndBumpCaps(caps, e.cd.colonist.id, 1 as const, false)) continue;
+        if (policy.primaryNeedsPassion && (e.passion ?? 0) <= 0) continue;
+        if (!tryAssignAndBumpCaps(policy, caps, e.cd.colonist.id, 1 as const, false)) continue;
+        if (override.dedicated) dedicateColonist(policy, caps, e.cd.colonist.id);
         picked.set(e.cd.colonist.id, 1);
         need--;
       }
@@ -301,7 +365,7 @@ export async function optimizeAllWorkTypes({
       for (const e of eligible) {
         if (need <= 0) break;
         if (picked.has(e.cd.colonist.id)) continue;
-        if (!tryAssignAndBumpCaps(caps, e.cd.colonist.id, 2 as const, isBasic)) continue;
+        if (!tryAssignAndBumpCaps(policy, caps, e.cd.colonist.id, 2 as const, isBasic)) continue;
         picked.set(e.cd.colonist.id, 2);
         need--;
       }
@@ -313,7 +377,7 @@ export async function optimizeAllWorkTypes({
       for (const e of eligible) {
         if (need <= 0) break;
         if (picked.has(e.cd.colonist.id)) continue;
-        if (!tryAssignAndBumpCaps(caps, e.cd.colonist.id, 3 as const, isBasic)) continue;
+        if (!tryAssignAndBumpCaps(policy, caps, e.cd.colonist.id, 3 as const, isBasic)) continue;
         picked.set(e.cd.colonist.id, 3);
         need--;
       }
@@ -322,7 +386,7 @@ export async function optimizeAllWorkTypes({
     // P4 conservative fill
     for (const e of eligible) {
       if (picked.has(e.cd.colonist.id)) continue;
-      if (!tryAssignAndBumpCaps(caps, e.cd.colonist.id, 4 as const, isBasic)) continue;
+      if (!tryAssignAndBumpCaps(policy, caps, e.cd.colonist.id, 4 as const, isBasic)) continue;
       picked.set(e.cd.colonist.id, 4);
     }
 
@@ -344,8 +408,21 @@ for (const e of raw) { // <-- use the full list, not only `eligible`
 
   // Emit change when different (this also DOWNGRADES low-skill to 0)
   if (desired !== cur) {
-    bulk.push({ id: e.cd.colonist.id, work: wt.name, priority: desired });
-    changes++;
+    const rank = rankOf.get(e.cd.colonist.id) ?? null;
+    propose(e.cd, wt.id, wt.name, cur, desired, {
+      skill: e.best?.name ?? null,
+      level: e.level,
+      passion: e.passion,
+      z: e.z,
+      busy: e.busy,
+      score: rank === null ? 0 : e.score,
+      isBasic,
+      rank,
+      eligibleCount: eligible.length,
+      minLevel,
+      traits: getWorkImpacts(e.cd, wt.name).map(describeWorkImpact),
+      outcome: e.disabled ? 'disabled' : rank === null ? 'below-min-level' : desired > 0 ? 'picked' : 'not-picked',
+    });
     console.log(
       `[OPTIMIZE] ${wt.name} | ${e.cd.colonist.name} (#${e.cd.colonist.id}) ` +
       `best=${e.best?.name ?? 'None'} lvl=${e.level} passion=${e.passion} busy=${e.busy.toFixed(2)} z=${e.z.toFixed(2)} ` +
@@ -365,19 +442,35 @@ next[wt.id] = sortAssignmentsBySkill(updated, wt.id);
     if (!relevant.length) continue;
 
     const have = new Set<number>((next[workId] || []).map(a => a.colonist.id));
-    const isBasic = BASIC_WORKS.has(norm(name));
+    const isBasic = isBasicWorkType(name);
+    const minLevel = minLevelForWork(policy, name);
+    if (getWorkOverride(policy, name).forcePriority) continue;
 
     for (const cd of colonistsDetailed) {
       if (have.has(cd.colonist.id)) continue;
       const best = bestRelevantSkill(cd.colonist_work_info.skills, relevant);
-      if (!best || best.level < MIN_LEVEL || isSkillDisabled(best)) continue;
+      if (!best || best.level < minLevel || isIncapable(cd, name, best)) continue;
 
-      if (!tryAssignAndBumpCaps(caps, cd.colonist.id, 4 as const, isBasic)) continue;
+      if (!tryAssignAndBumpCaps(policy, caps, cd.colonist.id, 4 as const, isBasic)) continue;
 
       const cur = getCurrentPriorityFor(assignments, workId, cd.colonist.id);
+      // The ranked pass may have proposed turning this work off; the fill supersedes that
+      proposals.delete(proposalKey(cd.colonist.id, name));
       if (cur !== 4) {
-        bulk.push({ id: cd.colonist.id, work: name, priority: 4 });
-        changes++;
+        propose(cd, workId, name, cur, 4, {
+          skill: best.name,
+          level: best.level,
+          passion: best.passion,
+          z: 0,
+          busy: normalizedBusy(nonBasicLoad.get(cd.colonist.id) || 0, policy),
+          score: 0,
+          isBasic,
+          rank: null,
+          eligibleCount: 0,
+          minLevel,
+          traits: getWorkImpacts(cd, name).map(describeWorkImpact),
+          outcome: 'fill',
+        });
         console.log(
           `[OPTIMIZE+FILL] ${name} | ${cd.colonist.name} (#${cd.colonist.id}) ` +
           `best=${best.name} lvl=${best.level} passion=${best.passion} current=${cur} -> new=4`
@@ -396,17 +489,39 @@ next[wt.id] = sortAssignmentsBySkill(updated, wt.id);
     }
   }
 
-  // Deduplicate & apply bulk
-  if (bulk.length) {
-    const key = (x: { id: number; work: string }) => `${x.id}::${norm(x.work)}`;
-    const map = new Map<string, { id: number; work: string; priority: number }>();
-    for (const b of bulk) map.set(key(b), b);
-    const deduped = Array.from(map.values());
-    await rimworldApi.setColonistsWorkPriorities(deduped);
-    console.log(`[OPTIMIZE] Applied ${deduped.length} updates (changes tracked: ${changes}).`);
+  const proposed = Array.from(proposals.values());
+  if (dryRun) {
+    console.log(`[OPTIMIZE] Dry run: ${proposed.length} proposed updates.`);
+  } else if (proposed.length) {
+    await rimworldApi.setColonistsWorkPriorities(
+      proposed.map(p => ({ id: p.colonistId, work: p.work, priority: p.after }))
+    );
+    console.log(`[OPTIMIZE] Applied ${proposed.length} updates.`);
   } else {
     console.log('[OPTIMIZE] No changes to apply (IDs/names mapped; rules resulted in no diffs).');
   }
 
-  return { nextAssignments: next, changes };
+  return { nextAssignments: next, changes: proposed.length, proposals: proposed };
+}
+
+/** One line explaining an optimizer proposal, e.g. "Medicine 14 🔥🔥 · z +1.20 · busy 0.33 · rank 1/4". */
+export function describeOptimizerReason(reason: OptimizerReason): string {
+  const skill = reason.skill ? `${reason.skill} ${reason.level}${reason.passion > 0 ? ' ' + '🔥'.repeat(reason.passion) : ''}` : 'no skill';
+  switch (reason.outcome) {
+    case 'disabled':
+      return reason.traits.length ? `incapable (${reason.traits.join('; ')})` : `${skill} · incapable`;
+    case 'below-min-level':
+      return `${skill} · below minimum level ${reason.minLevel}`;
+    case 'forced':
+      return 'policy puts every capable colonist on this work';
+    case 'fill':
+      return `${skill} · skilled but unassigned, filled in at 4`;
+    default: {
+      const z = `z ${reason.z >= 0 ? '+' : ''}${reason.z.toFixed(2)}`;
+      const parts = [skill, z, `busy ${reason.busy.toFixed(2)}`, `score ${reason.score.toFixed(2)}`];
+      if (reason.rank !== null) parts.push(`rank ${reason.rank}/${reason.eligibleCount}`);
+      if (reason.outcome === 'not-picked') parts.push('outranked or at job cap');
+      return [...parts, ...reason.traits].join(' · ');
+    }
+  }
 }
@@ -0,0 +1,28 @@
+import { createProfile, exportProfiles, loadProfiles, mergeProfiles, parseImportedProfiles } from './serverProfiles';
+
+beforeEach(() => localStorage.clear());
+
+const secured = () => ({ ...createProfile('http://remote:8765/api/v1', 'Remote'), authHeader: { name: 'X-Api-Key', value: 's3cret' } });
+
+test('leaves auth header values out of an export unless asked', () => {
+  const profile = secured();
+
+  expect(exportProfiles([profile])).not.toContain('s3cret');
+  expect(parseImportedProfiles(exportProfiles([profile]))[0].authHeader).toEqual({ name: 'X-Api-Key', value: '' });
+  expect(parseImportedProfiles(exportProfiles([profile], true))[0].authHeader?.value).toBe('s3cret');
+});
+
+test('keeps the stored secret when importing a blanked export', () => {
+  const profile = secured();
+  const imported = parseImportedProfiles(exportProfiles([{ ...profile, label: 'Renamed' }]));
+
+  expect(mergeProfiles([profile], imported)[0]).toMatchObject({ label: 'Renamed', authHeader: { value: 's3cret' } });
+});
+
+test('migrates the legacy URL once, keeping its id', () => {
+  localStorage.setItem('rimworldApiUrl', 'http://localhost:8765/api/v1');
+  const [first] = loadProfiles();
+
+  expect(first.label).toBe('Default');
+  expect(loadProfiles()[0].id).toBe(first.id);
+});
@@ -0,0 +1,173 @@
+// src/services/serverProfiles.ts
+// Named RIMAPI connection profiles, persisted in localStorage and shareable as JSON.
+import { RefreshResource } from './refreshScheduler';
+
+export interface AuthHeader {
+  name: string;
+  value: string;
+}
+
+export interface ServerProfile {
+  id: string;
+  label: string;
+  url: string;
+  color: string;
+  authHeader?: AuthHeader;
+  refreshIntervals?: Partial<Record<RefreshResource, number>>; // ms, applied when the profile is activated
+}
+
+export const DEFAULT_API_URL = 'http://localhost:8765/api/v1';
+
+export const PROFILE_COLORS = ['#4dabf7', '#51cf66', '#ff922b', '#f06595', '#845ef7', '#ffd43b', '#20c997'];
+
+const PROFILES_KEY = 'rimworldServerProfiles';
+const ACTIVE_PROFILE_KEY = 'rimworldActiveProfile';
+const LEGACY_URL_KEY = 'rimworldApiUrl';
+const EXPORT_VERSION = 1;
+
+export const createProfileId = () => `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const createProfile = (url: string, label?: string, index = 0): ServerProfile => ({
+  id: createProfileId(),
+  label: label || describeUrl(url),
+  url,
+  color: PROFILE_COLORS[index % PROFILE_COLORS.length],
+});
+
+/** host:port of a URL, falling back to the raw string. */
+export const describeUrl = (url: string): string => {
+  try {
+    return new URL(url).host || url;
+  } catch {
+    return url;
+  }
+};
+
+const normalizeProfile = (raw: unknown, index: number): ServerProfile | null => {
+  const p = (raw ?? {}) as Record<string, any>;
+  if (typeof p.url !== 'string' || !p.url.trim()) return null;
+
+  const authHeader = p.authHeader && typeof p.authHeader.name === 'string' && p.authHeader.name.trim()
+    ? { name: p.authHeader.name.trim(), value: String(p.authHeader.value ?? '') }
+    : undefined;
+
+  const refreshIntervals = p.refreshIntervals && typeof p.refreshIntervals === 'object'
+    ? Object.fromEntries(
+        Object.entries(p.refreshIntervals as Record<string, unknown>)
+          .filter(([, ms]) => typeof ms === 'number' && ms > 0)
+      ) as ServerProfile['refreshIntervals']
+    : undefined;
+
+  return {
+    id: typeof p.id === 'string' && p.id ? p.id : createProfileId(),
+    label: typeof p.label === 'string' && p.label.trim() ? p.label.trim() : describeUrl(p.url),
+    url: p.url.trim().replace(/\/+$/, ''),
+    color: typeof p.color === 'string' && p.color ? p.color : PROFILE_COLORS[index % PROFILE_COLORS.length],
+    authHeader,
+    refreshIntervals,
+  };
+};
+
+export const loadProfiles = (): ServerProfile[] => {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      return (Array.isArray(parsed) ? parsed : [])
+        .map(normalizeProfile)
+        .filter((p): p is ServerProfile => p !== null);
+    }
+  } catch {
+    // fall through to the legacy single-URL setting
+  }
+
+  const legacyUrl = localStorage.getItem(LEGACY_URL_KEY);
+  if (!legacyUrl) return [];
+  // Saved right away so the migrated profile keeps its id across reloads
+  const migrated = [createProfile(legacyUrl, 'Default')];
+  saveProfiles(migrated);
+  return migrated;
+};
+
+export const saveProfiles = (profiles: ServerProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+/** The profile the user last connected with, if it still exists. */
+export const loadActiveProfile = (profiles: ServerProfile[]): ServerProfile | null => {
+  const id = localStorage.getItem(ACTIVE_PROFILE_KEY);
+  if (id) return profiles.find((p) => p.id === id) ?? null;
+  // Users upgrading from the single-URL setting were connected already
+  return localStorage.getItem(LEGACY_URL_KEY) && profiles.length > 0 ? profiles[0] : null;
+};
+
+export const saveActiveProfileId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_PROFILE_KEY);
+  }
+  localStorage.removeItem(LEGACY_URL_KEY);
+};
+
+export const getProfileHeaders = (profile: Pick<ServerProfile, 'authHeader'>): Record<string, string> =>
+  profile.authHeader ? { [profile.authHeader.name]: profile.authHeader.value } : {};
+
+// -----------------------------
+// Import / export
+// -----------------------------
+/**
+ * Serializes profiles for sharing. Auth header values are blanked unless
+ * `includeCredentials` is set; the header names are kept so the recipient
+ * only has to fill in their own secret.
+ */
+export const exportProfiles = (profiles: ServerProfile[], includeCredentials = false): string =>
+  JSON.stringify({
+    version: EXPORT_VERSION,
+    profiles: includeCredentials
+      ? profiles
+      : profiles.map((p) => (p.authHeader ? { ...p, authHeader: { ...p.authHeader, value: '' } } : p)),
+  }, null, 2);
+
+/** Parses an exported profile list (or a bare array of profiles). Throws on invalid input. */
+export const parseImportedProfiles = (json: string): ServerProfile[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as Record<string, unknown>)?.profiles;
+  if (!Array.isArray(list)) {
+    throw new Error('No "profiles" list found in file');
+  }
+
+  const profiles = list.map(normalizeProfile).filter((p): p is ServerProfile => p !== null);
+  if (profiles.length === 0) {
+    throw new Error('File contains no valid profiles');
+  }
+  return profiles;
+};
+
+/**
+ * Imported profiles replace existing ones with the same id or URL; the rest are appended.
+ * A blanked auth header keeps the secret already stored for it.
+ */
+export const mergeProfiles = (existing: ServerProfile[], imported: ServerProfile[]): ServerProfile[] => {
+  const merged = [...existing];
+  imported.forEach((profile) => {
+    const index = merged.findIndex((p) => p.id === profile.id || p.url === profile.url);
+    if (index >= 0) {
+      const current = merged[index];
+      const authHeader = profile.authHeader && !profile.authHeader.value
+        && current.authHeader?.name === profile.authHeader.name
+        ? current.authHeader
+        : profile.authHeader;
+      merged[index] = { ...profile, id: current.id, authHeader };
+    } else {
+      merged.push(profile);
+    }
+  });
+  return merged;
+};
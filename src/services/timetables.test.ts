@@ -0,0 +1,52 @@
+import { TimeAssignment } from '../types';
+import {
+  BUILT_IN_TEMPLATES,
+  createScheduleTemplate,
+  deleteScheduleTemplate,
+  loadScheduleTemplates,
+  paintHours,
+  planScheduleApply,
+  saveScheduleTemplates,
+  summarizeSchedule,
+  upsertScheduleTemplate,
+} from './timetables';
+
+beforeEach(() => localStorage.clear());
+
+const gameDefault = BUILT_IN_TEMPLATES[0].schedule;
+
+test('painting covers the dragged range in either direction', () => {
+  const forward = paintHours(gameDefault, 8, 11, 'Work');
+  const backward = paintHours(gameDefault, 11, 8, 'Work');
+
+  expect(forward).toEqual(backward);
+  expect(forward.slice(8, 12)).toEqual(['Work', 'Work', 'Work', 'Work']);
+  expect(summarizeSchedule(forward)).toEqual({ Sleep: 8, Work: 4, Anything: 12 });
+  expect(gameDefault[8]).toBe('Anything');
+});
+
+test('bulk apply only touches colonists whose schedule differs', () => {
+  const workday = BUILT_IN_TEMPLATES.find((t) => t.id === 'workday')!.schedule;
+  const current: Record<number, TimeAssignment[]> = { 101: gameDefault, 102: [...workday] };
+
+  const changes = planScheduleApply(current, [101, 102, 103], workday);
+
+  expect(changes.map((c) => c.id)).toEqual([101, 103]);
+  expect(changes[0].schedule).not.toBe(workday);
+});
+
+test('custom templates persist and replace templates with the same name', () => {
+  const first = createScheduleTemplate('Night shift', paintHours(gameDefault, 0, 23, 'Work'));
+  const second = createScheduleTemplate('Night shift', gameDefault);
+  let custom = upsertScheduleTemplate([], first);
+  custom = upsertScheduleTemplate(custom, second);
+  saveScheduleTemplates(custom);
+
+  const loaded = loadScheduleTemplates();
+  expect(loaded).toHaveLength(1);
+  expect(loaded[0].id).toBe(second.id);
+  expect(deleteScheduleTemplate(loaded, second.id)).toEqual([]);
+
+  localStorage.setItem('rimworldScheduleTemplates', '{broken');
+  expect(loadScheduleTemplates()).toEqual([]);
+});
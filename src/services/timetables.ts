@@ -0,0 +1,142 @@
+// src/services/timetables.ts
+// Colonist schedules (the game's 24-hour timetable): assignment metadata, painting helpers
+// and named templates. Built-in templates are read-only; custom ones are persisted in localStorage.
+import { ColonistTimetable, TimeAssignment } from '../types';
+
+export const HOURS_PER_DAY = 24;
+
+export interface TimeAssignmentMeta {
+  id: TimeAssignment;
+  label: string;
+  icon: string;
+  color: string;
+  /** Shown in the grid cell; kept to one character so 24 cells fit a row */
+  short: string;
+}
+
+export const TIME_ASSIGNMENTS: TimeAssignmentMeta[] = [
+  { id: 'Sleep', label: 'Sleep', icon: '😴', color: '#3b5bdb', short: 'S' },
+  { id: 'Work', label: 'Work', icon: '🔨', color: '#e67700', short: 'W' },
+  { id: 'Anything', label: 'Anything', icon: '🔀', color: '#5c5f66', short: 'A' },
+  { id: 'Joy', label: 'Recreation', icon: '🎲', color: '#2b8a3e', short: 'R' },
+  { id: 'Meditate', label: 'Meditate', icon: '🧘', color: '#862e9c', short: 'M' },
+];
+
+/** Matches a TimeAssignmentDef defName case-insensitively, as RIMAPI does */
+export const findTimeAssignment = (name: string): TimeAssignment | undefined =>
+  TIME_ASSIGNMENTS.find(a => a.id.toLowerCase() === name.toLowerCase())?.id;
+
+export const getTimeAssignmentMeta = (id: TimeAssignment): TimeAssignmentMeta =>
+  TIME_ASSIGNMENTS.find(a => a.id === id) ?? TIME_ASSIGNMENTS[2];
+
+export interface ScheduleTemplate {
+  id: string;
+  name: string;
+  schedule: TimeAssignment[];
+  builtIn?: boolean;
+}
+
+const fill = (assign: (hour: number) => TimeAssignment): TimeAssignment[] =>
+  Array.from({ length: HOURS_PER_DAY }, (_, hour) => assign(hour));
+
+export const BUILT_IN_TEMPLATES: ScheduleTemplate[] = [
+  {
+    id: 'default',
+    name: 'Game default',
+    builtIn: true,
+    schedule: fill(h => (h < 6 || h >= 22 ? 'Sleep' : 'Anything')),
+  },
+  {
+    id: 'workday',
+    name: 'Workday',
+    builtIn: true,
+    schedule: fill(h => (h < 6 || h >= 22 ? 'Sleep' : h < 18 ? 'Work' : h < 20 ? 'Anything' : 'Joy')),
+  },
+  {
+    id: 'night-owl',
+    name: 'Night owl',
+    builtIn: true,
+    schedule: fill(h => (h >= 11 && h < 19 ? 'Sleep' : h >= 19 && h < 21 ? 'Joy' : 'Work')),
+  },
+  {
+    id: 'meditation',
+    name: 'Psycaster',
+    builtIn: true,
+    schedule: fill(h => (h < 6 || h >= 22 ? 'Sleep' : h < 8 || h >= 20 ? 'Meditate' : 'Anything')),
+  },
+];
+
+const TEMPLATES_KEY = 'rimworldScheduleTemplates';
+
+export const loadScheduleTemplates = (): ScheduleTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TEMPLATES_KEY) || '[]') as ScheduleTemplate[];
+    if (Array.isArray(stored)) {
+      return stored
+        .filter(t => t && t.id && Array.isArray(t.schedule) && t.schedule.length === HOURS_PER_DAY)
+        .map(t => ({ ...t, builtIn: false }));
+    }
+  } catch {
+    // fall through to no custom templates
+  }
+  return [];
+};
+
+export const saveScheduleTemplates = (custom: ScheduleTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(custom));
+};
+
+export const listScheduleTemplates = (custom: ScheduleTemplate[]): ScheduleTemplate[] =>
+  [...BUILT_IN_TEMPLATES, ...custom];
+
+export const createScheduleTemplate = (name: string, schedule: TimeAssignment[]): ScheduleTemplate => ({
+  id: `schedule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  schedule: [...schedule],
+  builtIn: false,
+});
+
+/** Adds a custom template, replacing one with the same name. */
+export const upsertScheduleTemplate = (custom: ScheduleTemplate[], template: ScheduleTemplate): ScheduleTemplate[] => {
+  const rest = custom.filter(t => t.id !== template.id && t.name !== template.name);
+  return [...rest, template];
+};
+
+export const deleteScheduleTemplate = (custom: ScheduleTemplate[], id: string): ScheduleTemplate[] =>
+  custom.filter(t => t.id !== id);
+
+// -----------------------------
+// Schedule helpers
+// -----------------------------
+
+/** Sets every hour between `from` and `to` (either order, both inclusive) to `assignment`. */
+export const paintHours = (
+  schedule: TimeAssignment[],
+  from: number,
+  to: number,
+  assignment: TimeAssignment,
+): TimeAssignment[] => {
+  const lo = Math.max(0, Math.min(from, to));
+  const hi = Math.min(HOURS_PER_DAY - 1, Math.max(from, to));
+  return schedule.map((a, hour) => (hour >= lo && hour <= hi ? assignment : a));
+};
+
+export const schedulesEqual = (a: TimeAssignment[], b: TimeAssignment[]) =>
+  a.length === b.length && a.every((assignment, hour) => assignment === b[hour]);
+
+/** Hours per assignment, e.g. { Sleep: 8, Anything: 16 }. */
+export const summarizeSchedule = (schedule: TimeAssignment[]): Partial<Record<TimeAssignment, number>> =>
+  schedule.reduce<Partial<Record<TimeAssignment, number>>>((counts, a) => {
+    counts[a] = (counts[a] ?? 0) + 1;
+    return counts;
+  }, {});
+
+/** The timetables that actually change when `schedule` is applied to `colonistIds`. */
+export const planScheduleApply = (
+  current: Record<number, TimeAssignment[]>,
+  colonistIds: number[],
+  schedule: TimeAssignment[],
+): ColonistTimetable[] =>
+  colonistIds
+    .filter(id => !current[id] || !schedulesEqual(current[id], schedule))
+    .map(id => ({ id, schedule: [...schedule] }));
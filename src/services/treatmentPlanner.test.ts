@@ -0,0 +1,40 @@
+import { RECORDED_COLONY } from '../mocks/fixtures';
+import { MOCK_SCENARIOS } from '../mocks/scenarios';
+import { planTreatment, rankPatients, summarizeMedicine } from './treatmentPlanner';
+
+test('ranks the life-threatening bleeder first and skips healthy colonists', () => {
+  const patients = rankPatients(MOCK_SCENARIOS.massCasualty.build().colonists);
+
+  expect(patients.map((p) => p.colonistName)).toEqual(['Boris', 'Eve', 'Dmitri', 'Ada']);
+  expect(patients[0].lifeThreatening).toBe(true);
+  expect(patients[0].bleedOutMinutes).toBeCloseTo(842, 0);
+  expect(rankPatients(RECORDED_COLONY.colonists)).toEqual([]);
+});
+
+test('sends the worst patient to the best doctor and spreads the rest', () => {
+  const colony = MOCK_SCENARIOS.massCasualty.build();
+  const plan = planTreatment(colony.colonists, { medicine: colony.stored.medicine });
+
+  expect(plan.doctors[0].colonistName).toBe('Ada');
+  expect(plan.doctors.find((d) => d.colonistName === 'Boris')?.unavailable).toContain('life-threatening');
+  expect(plan.pairings[0]).toMatchObject({ patient: { colonistName: 'Boris' }, doctor: { colonistName: 'Ada' }, queuePosition: 1 });
+  expect(plan.pairings.find((p) => p.patient.colonistName === 'Ada')?.doctor?.colonistName).not.toBe('Ada');
+  expect(plan.pairings.every((p) => p.doctor?.colonistName !== 'Boris')).toBe(true);
+  expect(plan.medicine.total).toBe(6);
+});
+
+test('bumps paired doctors to Doctor priority 1', () => {
+  const colony = MOCK_SCENARIOS.massCasualty.build();
+  const plan = planTreatment(colony.colonists, { priorityOf: () => 3 });
+
+  expect(plan.changes.length).toBeGreaterThan(0);
+  expect(plan.changes.every((c) => c.work === 'Doctor' && c.before === 3 && c.after === 1)).toBe(true);
+  expect(planTreatment(colony.colonists, { priorityOf: () => 1 }).changes).toEqual([]);
+});
+
+test('sums medicine stacks by def, most potent first', () => {
+  const stock = summarizeMedicine(RECORDED_COLONY.stored.medicine);
+
+  expect(stock.items.map((i) => [i.defName, i.count])).toEqual([['MedicineIndustrial', 18], ['MedicineHerbal', 6]]);
+  expect(stock.total).toBe(24);
+});
@@ -0,0 +1,191 @@
+// src/services/treatmentPlanner.ts
+// Who treats whom: patients ranked by how soon they could die, doctors ranked by Medicine skill,
+// health and Doctor priority, and a pairing that spreads the worst cases across the best hands.
+import { ColonistDetailed, ResourceItem } from '../types';
+import { getColonistMetrics } from './medicalTriage';
+import { getUnavailableReason } from './workCoverage';
+import { PriorityChange } from './workJournal';
+import { getIncapabilityReason } from './workTraits';
+
+export const DOCTOR_WORK = 'Doctor';
+
+/** Bleed-outs further away than this don't add urgency beyond their open wounds */
+const BLEED_OUT_HORIZON_MINUTES = 2 * 24 * 60;
+
+/** Tend quality multiplier per medicine def, as the game's MedicalPotency stat */
+const MEDICINE_POTENCY: Record<string, number> = {
+  MedicineHerbal: 0.6,
+  MedicineIndustrial: 1,
+  MedicineUltratech: 1.6,
+};
+
+const PRIORITY_BONUS = [0, 15, 10, 5, 2];
+
+export interface PatientUrgency {
+  colonistId: number;
+  colonistName: string;
+  score: number;
+  health: number;
+  /** Minutes until blood loss kills at the current bleed rate; null when not bleeding */
+  bleedOutMinutes: number | null;
+  tendable: number;
+  lifeThreatening: boolean;
+  reasons: string[];
+}
+
+export interface DoctorCandidate {
+  colonistId: number;
+  colonistName: string;
+  score: number;
+  medicine: number;
+  health: number;
+  priority: number;
+  /** Why the colonist can't doctor right now; null when they can */
+  unavailable: string | null;
+}
+
+export interface TreatmentPairing {
+  patient: PatientUrgency;
+  doctor: DoctorCandidate | null;
+  /** 1 for the doctor's first patient, 2 for the next, … */
+  queuePosition: number;
+}
+
+export interface MedicineStock {
+  items: { defName: string; label: string; count: number; potency: number }[];
+  total: number;
+}
+
+export interface TreatmentPlan {
+  patients: PatientUrgency[];
+  doctors: DoctorCandidate[];
+  pairings: TreatmentPairing[];
+  medicine: MedicineStock;
+  /** Tends needed right now across all patients */
+  tendsNeeded: number;
+  /** Doctor priority bumps for every paired doctor not yet at P1 */
+  changes: PriorityChange[];
+}
+
+export interface TreatmentOptions {
+  medicine?: ResourceItem[];
+  /** Current priority; defaults to the colonist's work_priorities */
+  priorityOf?: (colonist: ColonistDetailed, work: string) => number;
+}
+
+/** The priority the game reports for a work type, matched case-insensitively */
+export const reportedPriority = (colonist: ColonistDetailed, work: string): number =>
+  colonist.colonist_work_info?.work_priorities?.find(wp => wp.work_type.toLowerCase() === work.toLowerCase())?.priority ?? 0;
+
+const medicineSkill = (colonist: ColonistDetailed): number =>
+  colonist.colonist_work_info?.skills?.find(s => s.name === 'Medicine')?.level ?? 0;
+
+export const formatBleedOut = (minutes: number): string =>
+  minutes < 120 ? `${Math.round(minutes)} min` : `${Math.round(minutes / 60)} h`;
+
+/** Everyone who needs a doctor, most urgent first. */
+export const rankPatients = (colonists: ColonistDetailed[]): PatientUrgency[] =>
+  colonists
+    .map((colonist): PatientUrgency | null => {
+      const medical = colonist.colonist_medical_info;
+      if (!medical) return null;
+      const hediffs = (medical.hediffs || []).filter(h => h.visible !== false);
+      const tendable = hediffs.filter(h => h.tendable_now).length;
+      const lifeThreatening = hediffs.some(h => h.is_currently_life_threatening);
+      const { bleedRate } = getColonistMetrics(colonist);
+      if (!tendable && !lifeThreatening && !bleedRate) return null;
+
+      const bloodLoss = hediffs.find(h => h.def_name === 'BloodLoss')?.severity ?? 0;
+      const bleedOutMinutes = bleedRate ? ((1 - bloodLoss) / bleedRate) * 24 * 60 : null;
+      const health = medical.health ?? 0;
+
+      const reasons: string[] = [];
+      if (lifeThreatening) reasons.push('life-threatening');
+      if (bleedOutMinutes !== null) reasons.push(`bleeds out in ${formatBleedOut(bleedOutMinutes)}`);
+      if (tendable) reasons.push(`${tendable} wound${tendable === 1 ? '' : 's'} to tend`);
+
+      const bleedUrgency = bleedOutMinutes === null
+        ? 0
+        : Math.max(0, BLEED_OUT_HORIZON_MINUTES - bleedOutMinutes) / BLEED_OUT_HORIZON_MINUTES;
+      return {
+        colonistId: colonist.colonist.id,
+        colonistName: colonist.colonist.name,
+        score: (lifeThreatening ? 1000 : 0) + bleedUrgency * 500 + tendable * 50 + (1 - health) * 100,
+        health,
+        bleedOutMinutes,
+        tendable,
+        lifeThreatening,
+        reasons,
+      };
+    })
+    .filter((p): p is PatientUrgency => p !== null)
+    .sort((a, b) => b.score - a.score);
+
+/** Everyone able to doctor, best first; colonists too hurt to work are listed last as unavailable. */
+export const rankDoctors = (
+  colonists: ColonistDetailed[],
+  priorityOf: (colonist: ColonistDetailed, work: string) => number = reportedPriority,
+): DoctorCandidate[] =>
+  colonists
+    .filter(c => !getIncapabilityReason(c, DOCTOR_WORK))
+    .map(c => {
+      const medicine = medicineSkill(c);
+      const health = c.colonist_medical_info?.health ?? 1;
+      const priority = priorityOf(c, DOCTOR_WORK);
+      return {
+        colonistId: c.colonist.id,
+        colonistName: c.colonist.name,
+        score: medicine * 10 + health * 20 + (PRIORITY_BONUS[priority] ?? 0),
+        medicine,
+        health,
+        priority,
+        unavailable: getUnavailableReason(c),
+      };
+    })
+    .sort((a, b) => Number(Boolean(a.unavailable)) - Number(Boolean(b.unavailable)) || b.score - a.score);
+
+export const summarizeMedicine = (items: ResourceItem[] = []): MedicineStock => {
+  const byDef = new Map<string, MedicineStock['items'][number]>();
+  items.forEach(item => {
+    const entry = byDef.get(item.def_name)
+      || { defName: item.def_name, label: item.label, count: 0, potency: MEDICINE_POTENCY[item.def_name] ?? 1 };
+    entry.count += item.stack_count;
+    byDef.set(item.def_name, entry);
+  });
+  const sorted = Array.from(byDef.values()).sort((a, b) => b.potency - a.potency);
+  return { items: sorted, total: sorted.reduce((sum, i) => sum + i.count, 0) };
+};
+
+/**
+ * Pairs patients with doctors, most urgent first. Each patient goes to the least-loaded
+ * available doctor (best first among equals), never to themselves.
+ */
+export const planTreatment = (colonists: ColonistDetailed[], options: TreatmentOptions = {}): TreatmentPlan => {
+  const priorityOf = options.priorityOf || reportedPriority;
+  const patients = rankPatients(colonists);
+  const doctors = rankDoctors(colonists, priorityOf);
+  const available = doctors.filter(d => !d.unavailable);
+  const load = new Map<number, number>();
+
+  const pairings = patients.map(patient => {
+    const doctor = available
+      .filter(d => d.colonistId !== patient.colonistId)
+      .sort((a, b) => (load.get(a.colonistId) ?? 0) - (load.get(b.colonistId) ?? 0) || b.score - a.score)[0] || null;
+    const queuePosition = doctor ? (load.get(doctor.colonistId) ?? 0) + 1 : 0;
+    if (doctor) load.set(doctor.colonistId, queuePosition);
+    return { patient, doctor, queuePosition };
+  });
+
+  const changes: PriorityChange[] = available
+    .filter(d => load.has(d.colonistId) && d.priority !== 1)
+    .map(d => ({ colonistId: d.colonistId, colonistName: d.colonistName, work: DOCTOR_WORK, before: d.priority, after: 1 }));
+
+  return {
+    patients,
+    doctors,
+    pairings,
+    medicine: summarizeMedicine(options.medicine),
+    tendsNeeded: patients.reduce((sum, p) => sum + p.tendable, 0),
+    changes,
+  };
+};
@@ -0,0 +1,54 @@
+import { cloneColony, RECORDED_COLONY, WORK_LIST } from '../mocks/fixtures';
+import { MOCK_SCENARIOS } from '../mocks/scenarios';
+import { buildCoverageReport, getUnavailableReason } from './workCoverage';
+
+const gapsFor = (report: ReturnType<typeof buildCoverageReport>, work: string) =>
+  report.gaps.filter((g) => g.work === work).map((g) => g.kind);
+
+test('builds the priority matrix, skipping patient work', () => {
+  const { coverage } = buildCoverageReport(RECORDED_COLONY.colonists, WORK_LIST);
+
+  expect(coverage.some((c) => c.work === 'Patient')).toBe(false);
+  expect(coverage.find((c) => c.work === 'Hauling')!.counts).toEqual([0, 1, 1, 1]);
+  expect(coverage.find((c) => c.work === 'Firefighter')!.counts).toEqual([5, 0, 0, 0]);
+});
+
+test('flags a lone doctor and suggests the best free colonist as backup', () => {
+  const report = buildCoverageReport(RECORDED_COLONY.colonists, WORK_LIST);
+  const doctor = report.gaps.find((g) => g.work === 'Doctor' && g.kind === 'single-point')!;
+
+  expect(doctor.severity).toBe('critical');
+  expect(doctor.dependsOn).toBe('Ada');
+  expect(doctor.suggestion?.change).toMatchObject({ work: 'Doctor', after: 2 });
+  expect(doctor.suggestion?.change.colonistId).not.toBe(101);
+  expect(gapsFor(report, 'Firefighter')).toEqual([]);
+});
+
+test('counts incapacitated colonists as missing', () => {
+  const colony = MOCK_SCENARIOS.massCasualty.build();
+  const boris = colony.colonists.find((c) => c.colonist.name === 'Boris')!;
+  expect(getUnavailableReason(boris)).toContain('life-threatening');
+
+  const report = buildCoverageReport(colony.colonists, WORK_LIST);
+  const construction = report.gaps.find((g) => g.work === 'Construction')!;
+
+  expect(construction.kind).toBe('uncovered');
+  expect(construction.message).toContain('Boris');
+  expect(construction.suggestion?.change.colonistId).not.toBe(boris.colonist.id);
+});
+
+test('uses the caller-supplied priorities and flags low skill', () => {
+  const colony = cloneColony(RECORDED_COLONY);
+  // Only Boris (Artistic 0) does art
+  const report = buildCoverageReport(colony.colonists, ['Art'], {
+    priorityOf: (c) => (c.colonist.name === 'Boris' ? 1 : 0),
+  });
+
+  expect(gapsFor(report, 'Art')).toEqual(['low-skill', 'single-point']);
+  const lowSkill = report.gaps.find((g) => g.kind === 'low-skill')!;
+  expect(lowSkill.message).toBe('Best P1/P2 worker has skill 0');
+  expect(lowSkill.suggestion).toEqual({
+    description: 'Assign Dmitri (skill 7) at P2',
+    change: { colonistId: 104, colonistName: 'Dmitri', work: 'Art', before: 0, after: 2 },
+  });
+});
@@ -0,0 +1,203 @@
+// src/services/workCoverage.ts
+// Colony-wide work coverage: who works each job at which priority, and the gaps that matter
+// (nobody at P1/P2, only unskilled hands, or one colonist the job depends on), each with a fix.
+import { ColonistDetailed } from '../types';
+import { getIncapabilityReason } from './workTraits';
+import { getRelevantSkills, getWorkTypeMeta } from './workTypeRegistry';
+import { PriorityChange } from './workJournal';
+
+export const LOW_SKILL_LEVEL = 3;
+
+/** Work types every colonist does on themselves; they need no staffing. */
+const SELF_WORK = new Set(['patient', 'patientbedrest']);
+
+/** Nobody covering these is an emergency rather than an inconvenience. */
+const ESSENTIAL_WORK = new Set(['firefighter', 'doctor', 'cooking', 'hauling']);
+
+const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+export interface CoverageWorker {
+  colonistId: number;
+  colonistName: string;
+  priority: number;
+  /** Best relevant skill level; -1 for work with no skill */
+  skill: number;
+  /** Why the colonist can't work right now (injury, sickness), if they can't */
+  unavailable: string | null;
+}
+
+export interface WorkCoverage {
+  work: string;
+  label: string;
+  icon: string;
+  /** Colonists per priority 1–4 */
+  counts: [number, number, number, number];
+  workers: CoverageWorker[];
+  skilled: boolean;
+}
+
+export type CoverageGapKind = 'uncovered' | 'low-skill' | 'single-point';
+
+export interface CoverageGap {
+  work: string;
+  kind: CoverageGapKind;
+  severity: 'critical' | 'warning';
+  message: string;
+  /** Colonist currently carrying the work alone, for single points of failure */
+  dependsOn?: string;
+  suggestion: CoverageSuggestion | null;
+}
+
+export interface CoverageSuggestion {
+  description: string;
+  change: PriorityChange;
+}
+
+export interface CoverageReport {
+  coverage: WorkCoverage[];
+  gaps: CoverageGap[];
+}
+
+export interface CoverageOptions {
+  /** Current priority, e.g. from unsaved UI state; defaults to the colonist's work_priorities */
+  priorityOf?: (colonist: ColonistDetailed, work: string) => number;
+}
+
+const reportedPriority = (colonist: ColonistDetailed, work: string): number =>
+  colonist.colonist_work_info?.work_priorities?.find(wp => norm(wp.work_type) === norm(work))?.priority ?? 0;
+
+const skillFor = (colonist: ColonistDetailed, work: string): number => {
+  const relevant = getRelevantSkills(work);
+  if (!relevant.length) return -1;
+  return (colonist.colonist_work_info?.skills || [])
+    .filter(s => relevant.includes(s.name))
+    .reduce((best, s) => Math.max(best, s.level), -1);
+};
+
+/**
+ * Why a colonist is out of action, from their medical state; null when they can work.
+ * Deliberately coarse: anyone this hurt ends up in bed, whatever the game does next.
+ */
+export const getUnavailableReason = (colonist: ColonistDetailed): string | null => {
+  const medical = colonist.colonist_medical_info;
+  if (!medical) return null;
+  const hediffs = (medical.hediffs || []).filter(h => h.visible !== false);
+  const threat = hediffs.find(h => h.is_currently_life_threatening);
+  if (threat) return `life-threatening ${threat.label}`;
+  if (medical.health < 0.4) return `health at ${Math.round(medical.health * 100)}%`;
+  const pain = hediffs.reduce((sum, h) => sum + (h.pain_offset || 0), 0);
+  if (pain > 0.8) return 'in extreme pain';
+  return null;
+};
+
+/** The best available colonist to take a work type at `priority`, or null if nobody fits. */
+const suggestWorker = (
+  colonists: ColonistDetailed[],
+  cov: WorkCoverage,
+  priorityOf: (colonist: ColonistDetailed, work: string) => number,
+  unavailable: Map<number, string | null>,
+  exclude: Set<number>,
+  priority: number,
+  minSkill = -1,
+): CoverageSuggestion | null => {
+  const candidate = colonists
+    .filter(c => !exclude.has(c.colonist.id) && !unavailable.get(c.colonist.id))
+    .filter(c => !getIncapabilityReason(c, cov.work))
+    .map(c => ({ c, skill: skillFor(c, cov.work), before: priorityOf(c, cov.work) }))
+    .filter(x => x.skill >= minSkill)
+    // Skill first, then whoever already has the work at some priority
+    .sort((a, b) => b.skill - a.skill || (b.before > 0 ? 1 : 0) - (a.before > 0 ? 1 : 0))[0];
+  if (!candidate) return null;
+  const { c, skill, before } = candidate;
+  const skillText = skill >= 0 ? ` (skill ${skill})` : '';
+  return {
+    description: before > 0
+      ? `Move ${c.colonist.name}${skillText} from P${before} to P${priority}`
+      : `Assign ${c.colonist.name}${skillText} at P${priority}`,
+    change: { colonistId: c.colonist.id, colonistName: c.colonist.name, work: cov.work, before, after: priority },
+  };
+};
+
+export const buildCoverageReport = (
+  colonists: ColonistDetailed[],
+  workNames: string[],
+  options: CoverageOptions = {},
+): CoverageReport => {
+  const priorityOf = options.priorityOf ?? reportedPriority;
+  const unavailable = new Map(colonists.map(c => [c.colonist.id, getUnavailableReason(c)]));
+
+  const coverage: WorkCoverage[] = workNames
+    .filter(work => !SELF_WORK.has(norm(work)))
+    .map(work => {
+      const meta = getWorkTypeMeta(work);
+      const workers = colonists
+        .map(c => ({
+          colonistId: c.colonist.id,
+          colonistName: c.colonist.name,
+          priority: priorityOf(c, work),
+          skill: skillFor(c, work),
+          unavailable: unavailable.get(c.colonist.id) ?? null,
+        }))
+        .filter(w => w.priority > 0)
+        .sort((a, b) => a.priority - b.priority || b.skill - a.skill);
+      const counts: WorkCoverage['counts'] = [0, 0, 0, 0];
+      workers.forEach(w => { counts[Math.min(w.priority, 4) - 1] += 1; });
+      return { work, label: meta.label, icon: meta.icon, counts, workers, skilled: meta.skills.length > 0 };
+    });
+
+  const gaps: CoverageGap[] = [];
+  coverage.forEach(cov => {
+    const front = cov.workers.filter(w => w.priority <= 2);
+    const able = front.filter(w => !w.unavailable);
+    const essential = ESSENTIAL_WORK.has(norm(cov.work));
+    const exclude = new Set(able.map(w => w.colonistId));
+    const suggest = (priority: number, minSkill?: number) =>
+      suggestWorker(colonists, cov, priorityOf, unavailable, exclude, priority, minSkill);
+
+    if (able.length === 0) {
+      const hurt = front.filter(w => w.unavailable);
+      gaps.push({
+        work: cov.work,
+        kind: 'uncovered',
+        severity: essential || cov.workers.length === 0 ? 'critical' : 'warning',
+        message: hurt.length
+          ? `No P1/P2 worker able to work: ${hurt.map(w => `${w.colonistName} (${w.unavailable})`).join(', ')}`
+          : cov.workers.length
+            ? `No P1/P2 worker; only ${cov.workers.length} at P3–P4`
+            : 'Nobody is assigned',
+        suggestion: suggest(essential ? 1 : 2),
+      });
+      return;
+    }
+
+    if (cov.skilled && able.every(w => w.skill <= LOW_SKILL_LEVEL)) {
+      gaps.push({
+        work: cov.work,
+        kind: 'low-skill',
+        severity: 'warning',
+        message: `Best P1/P2 worker has skill ${Math.max(...able.map(w => w.skill))}`,
+        suggestion: suggest(2, LOW_SKILL_LEVEL + 1),
+      });
+    }
+
+    if (able.length === 1 && colonists.length > 1) {
+      gaps.push({
+        work: cov.work,
+        kind: 'single-point',
+        severity: essential ? 'critical' : 'warning',
+        message: `Only ${able[0].colonistName} works this at P1/P2`,
+        dependsOn: able[0].colonistName,
+        suggestion: suggest(2),
+      });
+    }
+  });
+
+  return { coverage, gaps };
+};
+
+/** 0–1 heat for a matrix cell: how far the count is from what a work type usually needs. */
+export const coverageHeat = (coverage: WorkCoverage, priority: number): number => {
+  const count = coverage.counts[priority - 1];
+  const wanted = priority <= 2 ? 2 : 1;
+  return Math.min(1, count / wanted);
+};
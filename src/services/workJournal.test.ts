@@ -0,0 +1,83 @@
+import { MOCK_SCENARIOS } from '../mocks/scenarios';
+import { Assignment } from './rimworldWork';
+import {
+  EMPTY_JOURNAL,
+  applyChangesToAssignments,
+  canRedo,
+  canUndo,
+  createJournalEntry,
+  diffAssignments,
+  invertChanges,
+  recordEntry,
+  revertChanges,
+} from './workJournal';
+
+const colonists = MOCK_SCENARIOS.healthy.build().colonists;
+const [ada, boris] = colonists;
+
+const assign = (cd: typeof ada, priority: number): Assignment => ({
+  colonist: cd.colonist,
+  priority,
+  skills: cd.colonist_work_info.skills,
+  detailed: cd,
+});
+
+const change = (work: string, before: number, after: number) => ({
+  colonistId: ada.colonist.id,
+  colonistName: ada.colonist.name,
+  work,
+  before,
+  after,
+});
+
+test('records entries and drops the redo tail on a new edit', () => {
+  const first = createJournalEntry('edit', 'first', [change('Doctor', 1, 2)]);
+  const second = createJournalEntry('edit', 'second', [change('Cooking', 3, 1)]);
+  let journal = recordEntry(recordEntry(EMPTY_JOURNAL, first), second);
+  expect(journal.cursor).toBe(2);
+  expect(canRedo(journal)).toBe(false);
+
+  journal = { ...journal, cursor: 1 };
+  expect(canUndo(journal)).toBe(true);
+  expect(canRedo(journal)).toBe(true);
+
+  const third = createJournalEntry('edit', 'third', [change('Warden', 2, 0)]);
+  journal = recordEntry(journal, third);
+  expect(journal.entries.map((e) => e.label)).toEqual(['first', 'third']);
+});
+
+test('ignores entries without effective changes', () => {
+  const entry = createJournalEntry('optimize', 'noop', [change('Doctor', 1, 1)]);
+  expect(entry.changes).toHaveLength(0);
+  expect(recordEntry(EMPTY_JOURNAL, entry)).toBe(EMPTY_JOURNAL);
+});
+
+test('diffs assignment maps including added and removed colonists', () => {
+  const before = { Doctor: [assign(ada, 1)], Mining: [assign(boris, 2)] };
+  const after = { Doctor: [assign(ada, 1), assign(boris, 3)], Mining: [] };
+
+  expect(diffAssignments(before, after)).toEqual([
+    { colonistId: boris.colonist.id, colonistName: 'Boris', work: 'Doctor', before: 0, after: 3 },
+    { colonistId: boris.colonist.id, colonistName: 'Boris', work: 'Mining', before: 2, after: 0 },
+  ]);
+});
+
+test('applies and inverts changes on assignments', () => {
+  const start = { Doctor: [assign(ada, 1)] };
+  const changes = [change('Doctor', 1, 0), change('Cooking', 0, 2)];
+
+  const applied = applyChangesToAssignments(start, changes, colonists);
+  expect(applied.Doctor).toEqual([]);
+  expect(applied.Cooking.map((a) => [a.colonist.name, a.priority])).toEqual([['Ada', 2]]);
+
+  const restored = applyChangesToAssignments(applied, invertChanges(changes), colonists);
+  expect(restored.Doctor.map((a) => a.priority)).toEqual([1]);
+  expect(restored.Cooking).toEqual([]);
+});
+
+test('reverts a batch from the current state and skips untouched priorities', () => {
+  const entry = createJournalEntry('optimize', 'optimize', [change('Doctor', 1, 3), change('Cooking', 0, 2)]);
+  const current: Record<string, number> = { Doctor: 4, Cooking: 0 };
+
+  expect(revertChanges(entry, (_id, work) => current[work])).toEqual([change('Doctor', 4, 1)]);
+});
@@ -0,0 +1,171 @@
+// src/services/workJournal.ts
+// Journal of work priority edits with undo/redo. Every batch records each colonist's
+// priority before and after, so any batch can be reverted with one bulk call.
+import { ColonistDetailed } from '../types';
+import { rimworldApi } from './rimworldApi';
+import { Assignment } from './rimworldWork';
+
+export interface PriorityChange {
+  colonistId: number;
+  colonistName: string;
+  work: string;
+  before: number;
+  after: number;
+}
+
+export type JournalEntryKind = 'edit' | 'remove' | 'optimize' | 'default' | 'coverage' | 'treatment' | 'revert';
+
+export interface JournalEntry {
+  id: string;
+  at: number;
+  kind: JournalEntryKind;
+  label: string;
+  changes: PriorityChange[];
+}
+
+/** Entries before `cursor` are applied; the ones from `cursor` on can be redone. */
+export interface WorkJournal {
+  entries: JournalEntry[];
+  cursor: number;
+}
+
+const JOURNAL_KEY = 'rimworldWorkJournal';
+const MAX_ENTRIES = 50;
+
+export const EMPTY_JOURNAL: WorkJournal = { entries: [], cursor: 0 };
+
+// Journals are kept per server, like the rest of the per-colony state
+export const loadWorkJournal = (apiUrl: string): WorkJournal => {
+  try {
+    const all = JSON.parse(localStorage.getItem(JOURNAL_KEY) || '{}') as Record<string, WorkJournal>;
+    return all[apiUrl] ?? EMPTY_JOURNAL;
+  } catch {
+    return EMPTY_JOURNAL;
+  }
+};
+
+export const saveWorkJournal = (apiUrl: string, journal: WorkJournal) => {
+  let all: Record<string, WorkJournal> = {};
+  try {
+    all = JSON.parse(localStorage.getItem(JOURNAL_KEY) || '{}');
+  } catch {
+    // start over
+  }
+  all[apiUrl] = journal;
+  localStorage.setItem(JOURNAL_KEY, JSON.stringify(all));
+};
+
+// -----------------------------
+// Journal operations
+// -----------------------------
+export const createJournalEntry = (
+  kind: JournalEntryKind,
+  label: string,
+  changes: PriorityChange[],
+): JournalEntry => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  at: Date.now(),
+  kind,
+  label,
+  changes: changes.filter((c) => c.before !== c.after),
+});
+
+/** Appends an applied entry, dropping anything that could have been redone. */
+export const recordEntry = (journal: WorkJournal, entry: JournalEntry): WorkJournal => {
+  if (entry.changes.length === 0) return journal;
+  const entries = [...journal.entries.slice(0, journal.cursor), entry].slice(-MAX_ENTRIES);
+  return { entries, cursor: entries.length };
+};
+
+export const canUndo = (journal: WorkJournal) => journal.cursor > 0;
+export const canRedo = (journal: WorkJournal) => journal.cursor < journal.entries.length;
+
+export const invertChanges = (changes: PriorityChange[]): PriorityChange[] =>
+  changes.map((c) => ({ ...c, before: c.after, after: c.before }));
+
+/**
+ * The changes that take the colony from `current` back to each entry's "before".
+ * Skips colonists that already hold that priority.
+ */
+export const revertChanges = (
+  entry: JournalEntry,
+  currentPriority: (colonistId: number, work: string) => number,
+): PriorityChange[] =>
+  entry.changes
+    .map((c) => ({ ...c, before: currentPriority(c.colonistId, c.work), after: c.before }))
+    .filter((c) => c.before !== c.after);
+
+// -----------------------------
+// Assignments
+// -----------------------------
+export const getAssignedPriority = (
+  assignments: Record<string, Assignment[]>,
+  work: string,
+  colonistId: number,
+): number => assignments[work]?.find((a) => a.colonist.id === colonistId)?.priority ?? 0;
+
+/** Every priority that differs between two assignment maps, keyed by work type id. */
+export const diffAssignments = (
+  before: Record<string, Assignment[]>,
+  after: Record<string, Assignment[]>,
+): PriorityChange[] => {
+  const changes: PriorityChange[] = [];
+  const works = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  works.forEach((work) => {
+    const colonists = new Map<number, string>();
+    [...(before[work] || []), ...(after[work] || [])].forEach((a) => colonists.set(a.colonist.id, a.colonist.name));
+
+    colonists.forEach((colonistName, colonistId) => {
+      const was = getAssignedPriority(before, work, colonistId);
+      const now = getAssignedPriority(after, work, colonistId);
+      if (was !== now) changes.push({ colonistId, colonistName, work, before: was, after: now });
+    });
+  });
+
+  return changes;
+};
+
+/** Applies `changes` to an assignment map, adding and dropping colonists as priorities turn on and off. */
+export const applyChangesToAssignments = (
+  assignments: Record<string, Assignment[]>,
+  changes: PriorityChange[],
+  colonistsDetailed: ColonistDetailed[],
+): Record<string, Assignment[]> => {
+  const next = { ...assignments };
+
+  changes.forEach((change) => {
+    const list = (next[change.work] || []).filter((a) => a.colonist.id !== change.colonistId);
+    const existing = next[change.work]?.find((a) => a.colonist.id === change.colonistId);
+    const detailed = colonistsDetailed.find((cd) => cd.colonist.id === change.colonistId);
+
+    if (change.after > 0) {
+      if (existing) {
+        list.push({ ...existing, priority: change.after });
+      } else if (detailed) {
+        list.push({
+          colonist: detailed.colonist,
+          priority: change.after,
+          skills: detailed.colonist_work_info.skills,
+          detailed,
+        });
+      }
+    }
+    next[change.work] = list;
+  });
+
+  return next;
+};
+
+/** Sends the "after" side of `changes` to the game in a single request. */
+export const pushPriorityChanges = async (changes: PriorityChange[]): Promise<void> => {
+  if (changes.length === 0) return;
+  if (changes.length === 1) {
+    const [c] = changes;
+    await rimworldApi.setColonistWorkPriority(c.colonistId, c.work, c.after);
+    return;
+  }
+  await rimworldApi.setColonistsWorkPriorities(
+    changes.map((c) => ({ id: c.colonistId, work: c.work, priority: c.after })),
+  );
+};
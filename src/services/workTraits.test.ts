@@ -0,0 +1,50 @@
+import { buildTrait, cloneColony, RECORDED_COLONY } from '../mocks/fixtures';
+import { WorkTags } from './colonistAnalysis';
+import {
+  describeWorkTags,
+  getIncapabilityReason,
+  getTraitScoreDelta,
+  getWorkImpacts,
+  isWorkTypeDisabled,
+} from './workTraits';
+
+const colonyColonist = (name: string) =>
+  cloneColony(RECORDED_COLONY).colonists.find((c) => c.colonist.name === name)!;
+
+test('pyromaniacs cannot fight fires even when the API reports no disabled tags', () => {
+  const ada = colonyColonist('Ada');
+  ada.colonist_work_info.traits = [buildTrait('Pyromaniac', 'pyromaniac')];
+
+  expect(isWorkTypeDisabled(ada, 'Firefighter')).toBe(true);
+  expect(getIncapabilityReason(ada, 'Firefighter')).toBe('pyromaniac: incapable of firefighting');
+  expect(isWorkTypeDisabled(ada, 'Doctor')).toBe(false);
+});
+
+test('backstory incapabilities block every work type that needs the tag', () => {
+  const eve = colonyColonist('Eve');
+  eve.colonist_work_info.skills[0].disabled_work_tags = WorkTags.Violent;
+
+  expect(isWorkTypeDisabled(eve, 'Hunting')).toBe(true);
+  expect(getWorkImpacts(eve, 'Hunting')).toEqual([
+    { kind: 'incapable', source: 'Backstory', fromTrait: false, reason: 'incapable of violence', scoreDelta: 0 },
+  ]);
+  expect(isWorkTypeDisabled(eve, 'Hauling')).toBe(false);
+  expect(describeWorkTags(WorkTags.ManualDumb | WorkTags.Cleaning)).toEqual(['dumb labor', 'cleaning']);
+});
+
+test('soft trait effects add up into a score delta', () => {
+  const boris = colonyColonist('Boris'); // industrious brawler
+  expect(getTraitScoreDelta(boris, 'Hunting')).toBeCloseTo(0.3 - 0.8);
+  expect(getTraitScoreDelta(boris, 'Construction')).toBeCloseTo(0.3);
+  expect(isWorkTypeDisabled(boris, 'Hunting')).toBe(false);
+
+  const slothful = colonyColonist('Cass');
+  slothful.colonist_work_info.traits = [buildTrait('Industriousness', 'slothful')];
+  expect(getWorkImpacts(slothful, 'Cooking').map((i) => i.kind)).toEqual(['penalty']);
+});
+
+test('falls back to the game flag when no tag explains the incapability', () => {
+  const cass = colonyColonist('Cass');
+  cass.colonist_work_info.work_priorities.find((wp) => wp.work_type === 'Art')!.is_totally_disabled = true;
+  expect(getIncapabilityReason(cass, 'Art')).toBe('Game: work type disabled');
+});
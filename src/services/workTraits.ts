@@ -0,0 +1,160 @@
+// src/services/workTraits.ts
+// Why a colonist can't or shouldn't do a work type: hard incapabilities from the WorkTags
+// bitmask (backstories, genes and traits) plus soft trait effects used as optimizer scores.
+import { ColonistDetailed, Trait } from '../types';
+import { WorkTags } from './colonistAnalysis';
+import { getWorkTypeTags } from './workTypeRegistry';
+
+const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+const TAG_LABELS: Partial<Record<keyof typeof WorkTags, string>> = {
+  ManualDumb: 'dumb labor',
+  ManualSkilled: 'skilled labor',
+  Violent: 'violence',
+  Caring: 'caring',
+  Social: 'social work',
+  Intellectual: 'intellectual work',
+  Animals: 'animal work',
+  Artistic: 'art',
+  Crafting: 'crafting',
+  Cooking: 'cooking',
+  Firefighting: 'firefighting',
+  Cleaning: 'cleaning',
+  Hauling: 'hauling',
+  PlantWork: 'plant work',
+  Mining: 'mining',
+  Hunting: 'hunting',
+  Constructing: 'construction',
+  Shooting: 'shooting',
+};
+
+/**
+ * Tags some traits disable in the game. Older RIMAPI builds report 0 for
+ * `disabled_work_tags` on traits, so these are merged in.
+ */
+const TRAIT_DISABLED_TAGS: Record<string, number> = {
+  pyromaniac: WorkTags.Firefighting,
+};
+
+interface TraitWorkEffect {
+  /** Normalized work type names, or '*' for every work type */
+  works: string[];
+  scoreDelta: number;
+  reason: string;
+}
+
+/** Soft effects, keyed by normalized trait label (degree traits like Industriousness differ by label). */
+const TRAIT_WORK_EFFECTS: Record<string, TraitWorkEffect[]> = {
+  slothful: [{ works: ['*'], scoreDelta: -0.6, reason: 'works much slower' }],
+  lazy: [{ works: ['*'], scoreDelta: -0.3, reason: 'works slower' }],
+  industrious: [{ works: ['*'], scoreDelta: 0.3, reason: 'works faster' }],
+  hardworker: [{ works: ['*'], scoreDelta: 0.15, reason: 'works a bit faster' }],
+  pyromaniac: [{ works: ['cooking'], scoreDelta: -0.3, reason: 'may start fires near the stove' }],
+  brawler: [{ works: ['hunting'], scoreDelta: -0.8, reason: 'unhappy carrying a ranged weapon' }],
+  wimp: [{ works: ['hunting'], scoreDelta: -0.4, reason: 'goes down at the first injury' }],
+  carefulshooter: [{ works: ['hunting'], scoreDelta: 0.3, reason: 'more accurate with ranged weapons' }],
+  triggerhappy: [{ works: ['hunting'], scoreDelta: -0.2, reason: 'less accurate with ranged weapons' }],
+  toosmart: [{ works: ['research'], scoreDelta: 0.4, reason: 'learns faster' }],
+  kind: [{ works: ['warden'], scoreDelta: 0.3, reason: 'never insults prisoners' }],
+  abrasive: [{ works: ['warden'], scoreDelta: -0.6, reason: 'insults prisoners' }],
+  ascetic: [{ works: ['art'], scoreDelta: -0.2, reason: 'cares little for beauty' }],
+};
+
+export type WorkImpactKind = 'incapable' | 'penalty' | 'bonus';
+
+export interface WorkImpact {
+  kind: WorkImpactKind;
+  /** Trait label, or "Backstory"/"Game" for incapabilities that don't come from a trait */
+  source: string;
+  fromTrait: boolean;
+  reason: string;
+  scoreDelta: number;
+}
+
+/** Readable names for every tag set in `mask`, e.g. ["violence", "hunting"]. */
+export const describeWorkTags = (mask: number): string[] =>
+  (Object.keys(TAG_LABELS) as (keyof typeof WorkTags)[])
+    .filter(tag => (mask & WorkTags[tag]) !== 0)
+    .map(tag => TAG_LABELS[tag]!);
+
+const activeTraits = (colonist: ColonistDetailed | undefined): Trait[] =>
+  (colonist?.colonist_work_info?.traits || []).filter(t => !t.suppressed);
+
+const traitKey = (trait: Trait) => norm(trait.label || trait.name);
+
+const traitDisabledTags = (trait: Trait): number =>
+  (trait.disabled_work_tags ?? 0) | (TRAIT_DISABLED_TAGS[traitKey(trait)] ?? TRAIT_DISABLED_TAGS[norm(trait.name)] ?? 0);
+
+/** Everything known about how this colonist's traits and incapabilities bear on a work type. */
+export const getWorkImpacts = (colonist: ColonistDetailed | undefined, workIdOrName: string): WorkImpact[] => {
+  if (!colonist) return [];
+  const work = norm(workIdOrName);
+  const workTags = getWorkTypeTags(workIdOrName);
+  const impacts: WorkImpact[] = [];
+
+  let explained = 0;
+  activeTraits(colonist).forEach(trait => {
+    const blocked = traitDisabledTags(trait) & workTags;
+    if (blocked) {
+      explained |= blocked;
+      impacts.push({
+        kind: 'incapable',
+        source: trait.label || trait.name,
+        fromTrait: true,
+        reason: `incapable of ${describeWorkTags(blocked).join(' and ')}`,
+        scoreDelta: 0,
+      });
+    }
+  });
+
+  // Whatever the traits don't explain comes from the backstory, genes or age
+  const skillMask = (colonist.colonist_work_info?.skills || [])
+    .reduce((mask, s) => mask | (s.disabled_work_tags ?? 0), 0);
+  const unexplained = skillMask & workTags & ~explained;
+  if (unexplained) {
+    impacts.push({
+      kind: 'incapable',
+      source: 'Backstory',
+      fromTrait: false,
+      reason: `incapable of ${describeWorkTags(unexplained).join(' and ')}`,
+      scoreDelta: 0,
+    });
+  }
+
+  // The game's own verdict, for incapabilities we have no tags for (e.g. genes, age)
+  const entry = (colonist.colonist_work_info?.work_priorities || []).find(wp => norm(wp.work_type) === work);
+  if (entry?.is_totally_disabled && !impacts.length) {
+    impacts.push({ kind: 'incapable', source: 'Game', fromTrait: false, reason: 'work type disabled', scoreDelta: 0 });
+  }
+
+  activeTraits(colonist).forEach(trait => {
+    (TRAIT_WORK_EFFECTS[traitKey(trait)] || [])
+      .filter(effect => effect.works.includes('*') || effect.works.includes(work))
+      .forEach(effect => impacts.push({
+        kind: effect.scoreDelta < 0 ? 'penalty' : 'bonus',
+        source: trait.label || trait.name,
+        fromTrait: true,
+        reason: effect.reason,
+        scoreDelta: effect.scoreDelta,
+      }));
+  });
+
+  return impacts;
+};
+
+export const isWorkTypeDisabled = (colonist: ColonistDetailed | undefined, workIdOrName: string): boolean =>
+  getWorkImpacts(colonist, workIdOrName).some(i => i.kind === 'incapable');
+
+/** "Pyromaniac: incapable of firefighting", or null when the colonist can do the work. */
+export const getIncapabilityReason = (colonist: ColonistDetailed | undefined, workIdOrName: string): string | null => {
+  const reasons = getWorkImpacts(colonist, workIdOrName)
+    .filter(i => i.kind === 'incapable')
+    .map(describeWorkImpact);
+  return reasons.length ? reasons.join('; ') : null;
+};
+
+/** Sum of soft trait effects, added to the optimizer score. */
+export const getTraitScoreDelta = (colonist: ColonistDetailed | undefined, workIdOrName: string): number =>
+  getWorkImpacts(colonist, workIdOrName).reduce((sum, i) => sum + i.scoreDelta, 0);
+
+export const describeWorkImpact = (impact: WorkImpact): string => `${impact.source}: ${impact.reason}`;
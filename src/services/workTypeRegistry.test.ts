@@ -0,0 +1,41 @@
+import { createMockRimApi, connectMockRimApi } from '../mocks/mockRimApi';
+import { WORK_LIST } from '../mocks/fixtures';
+import { WorkTags } from './colonistAnalysis';
+import {
+  getRelevantSkills,
+  getWorkTypeMeta,
+  isBasicWorkType,
+  loadWorkTypeRegistry,
+} from './workTypeRegistry';
+
+test('describes vanilla work types whatever the spelling', () => {
+  expect(getWorkTypeMeta('plant_cutting')).toMatchObject({ name: 'PlantCutting', skills: ['Plants'], category: 'agriculture' });
+  expect(getRelevantSkills('Hunting')).toEqual(['Shooting', 'Melee']);
+  expect(isBasicWorkType('Firefighter')).toBe(true);
+  expect(isBasicWorkType('Hauling')).toBe(false);
+  expect(getWorkTypeMeta('Doctor').inferred).toBeUndefined();
+});
+
+test('guesses skills and tags for unknown modded work types', () => {
+  expect(getWorkTypeMeta('FieldSurgeon')).toMatchObject({
+    label: 'Field surgeon',
+    skills: ['Medicine'],
+    tags: WorkTags.Caring,
+    basic: false,
+    inferred: true,
+  });
+  expect(getWorkTypeMeta('Ritualist')).toMatchObject({ icon: '⚙️', skills: [], basic: true, inferred: true });
+});
+
+test('builds the registry from /work-list in game order', async () => {
+  const api = createMockRimApi('healthy');
+  api.colony.workList = [...WORK_LIST, 'HaulingUrgent'];
+  const restore = connectMockRimApi(api);
+  try {
+    const registry = await loadWorkTypeRegistry();
+    expect(registry.map((m) => m.name)).toEqual([...WORK_LIST, 'HaulingUrgent']);
+    expect(registry[registry.length - 1]).toMatchObject({ label: 'Urgent haul', category: 'logistics' });
+  } finally {
+    restore();
+  }
+});
@@ -0,0 +1,117 @@
+// src/services/workTypeRegistry.ts
+// Single source of truth for work types: the game's /work-list, described by a metadata
+// table (label, icon, category, relevant skills, WorkTags) with a best-effort guess for
+// modded work types the table doesn't know.
+import { WorkTags } from './colonistAnalysis';
+import { rimworldApi } from './rimworldApi';
+
+export type WorkCategory =
+  | 'defense'
+  | 'health'
+  | 'production'
+  | 'agriculture'
+  | 'research'
+  | 'social'
+  | 'logistics'
+  | 'general';
+
+export interface WorkTypeMeta {
+  /** WorkTypeDef defName, as used by /work-list and the priority endpoints */
+  name: string;
+  label: string;
+  icon: string;
+  category: WorkCategory;
+  skills: string[];
+  /** WorkTags bitmask; a colonist with any of these disabled can't do the work */
+  tags: number;
+  /** No passion needed for priority 1 */
+  basic: boolean;
+  /** Not in the metadata table; skills and tags were guessed from the name */
+  inferred?: boolean;
+}
+
+type MetaSpec = Omit<WorkTypeMeta, 'name' | 'inferred' | 'basic'> & { basic?: boolean };
+
+const { ManualDumb, ManualSkilled } = WorkTags;
+
+const METADATA: Record<string, MetaSpec> = {
+  // vanilla
+  Firefighter: { label: 'Firefight', icon: '🔥', category: 'defense', skills: [], tags: WorkTags.Firefighting, basic: true },
+  Patient: { label: 'Patient', icon: '🛏️', category: 'health', skills: [], tags: 0, basic: true },
+  Doctor: { label: 'Doctor', icon: '🏥', category: 'health', skills: ['Medicine'], tags: WorkTags.Caring },
+  PatientBedRest: { label: 'Bed rest', icon: '🛌', category: 'health', skills: [], tags: 0, basic: true },
+  BasicWorker: { label: 'Basic', icon: '🧰', category: 'general', skills: [], tags: ManualDumb, basic: true },
+  Warden: { label: 'Warden', icon: '👮', category: 'social', skills: ['Social'], tags: WorkTags.Social },
+  Handling: { label: 'Handle', icon: '🐾', category: 'agriculture', skills: ['Animals'], tags: WorkTags.Animals },
+  Cooking: { label: 'Cook', icon: '👨‍🍳', category: 'agriculture', skills: ['Cooking'], tags: ManualSkilled | WorkTags.Cooking },
+  Hunting: { label: 'Hunt', icon: '🏹', category: 'agriculture', skills: ['Shooting', 'Melee'], tags: WorkTags.Violent | WorkTags.Hunting },
+  Construction: { label: 'Construct', icon: '🏗️', category: 'production', skills: ['Construction'], tags: ManualSkilled | WorkTags.Constructing },
+  Growing: { label: 'Grow', icon: '🌱', category: 'agriculture', skills: ['Plants', 'Growing'], tags: ManualSkilled | WorkTags.PlantWork },
+  Mining: { label: 'Mine', icon: '⛏️', category: 'production', skills: ['Mining'], tags: ManualSkilled | WorkTags.Mining },
+  PlantCutting: { label: 'Cut plants', icon: '🪓', category: 'agriculture', skills: ['Plants'], tags: ManualDumb | WorkTags.PlantWork },
+  Smithing: { label: 'Smith', icon: '⚒️', category: 'production', skills: ['Crafting'], tags: ManualSkilled | WorkTags.Crafting },
+  Tailoring: { label: 'Tailor', icon: '🧵', category: 'production', skills: ['Crafting'], tags: ManualSkilled | WorkTags.Crafting },
+  Art: { label: 'Art', icon: '🎨', category: 'production', skills: ['Artistic'], tags: WorkTags.Artistic },
+  Crafting: { label: 'Craft', icon: '🛠️', category: 'production', skills: ['Crafting'], tags: ManualSkilled | WorkTags.Crafting },
+  Hauling: { label: 'Haul', icon: '📦', category: 'logistics', skills: [], tags: ManualDumb | WorkTags.Hauling },
+  Cleaning: { label: 'Clean', icon: '🧹', category: 'logistics', skills: [], tags: ManualDumb | WorkTags.Cleaning },
+  Research: { label: 'Research', icon: '🔬', category: 'research', skills: ['Intellectual'], tags: WorkTags.Intellectual },
+  // DLC
+  Childcare: { label: 'Childcare', icon: '🍼', category: 'social', skills: [], tags: WorkTags.Caring, basic: true },
+  DarkStudy: { label: 'Dark study', icon: '🕯️', category: 'research', skills: [], tags: WorkTags.Intellectual, basic: true },
+  // mods (Allow Tool)
+  HaulingUrgent: { label: 'Urgent haul', icon: '🚚', category: 'logistics', skills: [], tags: ManualDumb | WorkTags.Hauling },
+  FinishingOff: { label: 'Finish off', icon: '🗡️', category: 'defense', skills: [], tags: WorkTags.Violent },
+};
+
+/** Name fragments used to describe modded work types the table doesn't know. */
+const INFERENCE_RULES: { pattern: RegExp; spec: Omit<MetaSpec, 'label'> }[] = [
+  { pattern: /doctor|medic|surg|nurs|tend/i, spec: { icon: '🏥', category: 'health', skills: ['Medicine'], tags: WorkTags.Caring } },
+  { pattern: /research|study|science/i, spec: { icon: '🔬', category: 'research', skills: ['Intellectual'], tags: WorkTags.Intellectual } },
+  { pattern: /cook|butcher|brew|bak/i, spec: { icon: '👨‍🍳', category: 'agriculture', skills: ['Cooking'], tags: ManualSkilled | WorkTags.Cooking } },
+  { pattern: /hunt/i, spec: { icon: '🏹', category: 'agriculture', skills: ['Shooting', 'Melee'], tags: WorkTags.Violent | WorkTags.Hunting } },
+  { pattern: /plant|grow|harvest|sow|farm/i, spec: { icon: '🌱', category: 'agriculture', skills: ['Plants'], tags: ManualSkilled | WorkTags.PlantWork } },
+  { pattern: /mine|mining|drill|quarr/i, spec: { icon: '⛏️', category: 'production', skills: ['Mining'], tags: ManualSkilled | WorkTags.Mining } },
+  { pattern: /construct|build|repair|shovel/i, spec: { icon: '🏗️', category: 'production', skills: ['Construction'], tags: ManualSkilled | WorkTags.Constructing } },
+  { pattern: /smith|craft|tailor|refin|drug|forg|stonecut/i, spec: { icon: '🛠️', category: 'production', skills: ['Crafting'], tags: ManualSkilled | WorkTags.Crafting } },
+  { pattern: /^art|artist|sculpt/i, spec: { icon: '🎨', category: 'production', skills: ['Artistic'], tags: WorkTags.Artistic } },
+  { pattern: /animal|handl|train|tame/i, spec: { icon: '🐾', category: 'agriculture', skills: ['Animals'], tags: WorkTags.Animals } },
+  { pattern: /warden|prison|social|diploma|recruit/i, spec: { icon: '👮', category: 'social', skills: ['Social'], tags: WorkTags.Social } },
+  { pattern: /haul|deliver|carry|transport/i, spec: { icon: '📦', category: 'logistics', skills: [], tags: ManualDumb | WorkTags.Hauling } },
+  { pattern: /clean/i, spec: { icon: '🧹', category: 'logistics', skills: [], tags: ManualDumb | WorkTags.Cleaning } },
+];
+
+const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+const BY_KEY = new Map(Object.entries(METADATA).map(([name, spec]) => [norm(name), { name, ...spec }]));
+
+/** "HaulingUrgent" -> "Hauling urgent" */
+const humanize = (defName: string) => {
+  const words = defName.replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1).toLowerCase();
+};
+
+const inferMeta = (name: string): WorkTypeMeta => {
+  const rule = INFERENCE_RULES.find(r => r.pattern.test(name));
+  const spec = rule?.spec ?? { icon: '⚙️', category: 'general' as const, skills: [], tags: 0 };
+  return { ...spec, name, label: humanize(name), basic: spec.skills.length === 0, inferred: true };
+};
+
+/** Metadata for a work type by defName or any spelling of it ("plant_cutting", "PlantCutting"). */
+export const getWorkTypeMeta = (idOrName: string): WorkTypeMeta => {
+  const known = BY_KEY.get(norm(idOrName));
+  return known ? { basic: false, ...known } : inferMeta(idOrName);
+};
+
+export const getRelevantSkills = (idOrName: string): string[] => getWorkTypeMeta(idOrName).skills;
+export const getWorkTypeTags = (idOrName: string): number => getWorkTypeMeta(idOrName).tags;
+export const isBasicWorkType = (idOrName: string): boolean => getWorkTypeMeta(idOrName).basic;
+
+/** Describes each name from /work-list, keeping the game's order (which is also its priority order). */
+export const buildWorkTypeRegistry = (workNames: string[]): WorkTypeMeta[] =>
+  workNames.map(name => ({ ...getWorkTypeMeta(name), name }));
+
+export const loadWorkTypeRegistry = async (): Promise<WorkTypeMeta[]> => {
+  const { work } = await rimworldApi.fetchWorkList();
+  return buildWorkTypeRegistry(work || []);
+};
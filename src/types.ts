@@ -13,8 +13,30 @@ export interface RimWorldData {
   researchFinished?: ResearchFinished;
   researchSummary?: ResearchSummary;
   modsInfo?: ModInfo[];
+  maps?: MapInfo[];
+  sections?: RimWorldSections;
+  /** The map the map-scoped sections were read from */
+  mapId?: number;
 }
 
+// Keys of RimWorldData that are fetched from their own endpoint
+export type RimWorldSectionKey = Exclude<keyof RimWorldData, 'sections' | 'mapId'>;
+
+// Outcome of fetching a single section of the aggregated data
+export interface SectionResult<T> {
+  data?: T;
+  error?: string;
+  fetchedAt: number;
+}
+
+export interface SectionStatus {
+  error?: string;
+  fetchedAt: number;
+  lastSuccessAt?: number;
+}
+
+export type RimWorldSections = Partial<Record<RimWorldSectionKey, SectionStatus>>;
+
 export interface GameState {
   game_time?: string;
   time_speed?: string;
@@ -55,6 +77,58 @@ export interface WeatherCategory {
   temperature: number;
 }
 
+export interface MapInfo {
+  id: number;
+  index: number;
+  label: string;
+  is_player_home: boolean;
+  is_temp_incident_map: boolean;
+  size_x: number;
+  size_z: number;
+}
+
+// Map-scoped slice of the colony data, used by the all-maps overview
+export interface MapSummary {
+  map: MapInfo;
+  resources?: ResourceSummary;
+  creatures?: CreaturesSummary;
+  power?: PowerInfo;
+  weather?: WeatherCategory;
+  errors: string[];
+}
+
+export interface Turret {
+  thing_id: number;
+  def_name: string;
+  label: string;
+  position: Position;
+  hit_points: number;
+  max_hit_points: number;
+  fuel_percent: number | null;   // barrel durability / ammo, when the turret is refuelable
+  is_powered: boolean | null;    // null when the turret needs no power
+}
+
+// Engagement inferred from a spike in hostile pawn counts between polls
+export interface RaidEvent {
+  id: string;
+  kind: 'Raid' | 'Mechanoid raid' | 'Infestation';
+  startedAt: number;
+  endedAt?: number;
+  gameDateStart?: string;
+  peakEnemies: number;
+  peakMechanoids: number;
+  peakInsectoids: number;
+  /** Colonists alive when the raid began */
+  roster: RaidColonist[];
+  /** Colonists from the roster who died or vanished while it lasted */
+  lost: RaidColonist[];
+}
+
+export interface RaidColonist {
+  id: number;
+  name: string;
+}
+
 export interface CreaturesSummary {
   colonists_count?: number;
   prisoners_count?: number;
@@ -154,6 +228,15 @@ export interface ColonistWorkInfo {
   work_priorities: WorkPriority[];
 }
 
+/** TimeAssignmentDef defNames; Meditate needs Royalty */
+export type TimeAssignment = 'Sleep' | 'Work' | 'Anything' | 'Joy' | 'Meditate';
+
+/** A colonist's 24-hour schedule, one assignment per hour starting at midnight */
+export interface ColonistTimetable {
+  id: number;
+  schedule: TimeAssignment[];
+}
+
 export interface ColonistMedicalInfo {
   health: number;
   hediffs: Hediff[];